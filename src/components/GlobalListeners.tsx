@@ -4,14 +4,14 @@ import { Capacitor } from '@capacitor/core';
 import { App as CapacitorApp } from '@capacitor/app';
 import { logger } from '@core/logger';
 import { useData } from '@/providers/DataProvider';
+import { isSupportedImportFile } from '@core/tripImporters';
 
 const GlobalListeners = ({ activeTab }) => {
     const { t } = useTranslation();
     const isNative = Capacitor.isNativePlatform();
 
     const {
-        trips: rawTrips,
-        setRawTrips,
+        loadFile,
         // File handling
         fileHandling,
         // Database
@@ -26,7 +26,7 @@ const GlobalListeners = ({ activeTab }) => {
     } = useData();
 
     const { pendingFile, clearPendingFile, readFile } = fileHandling;
-    const { sqlReady, processDB: processDBHook } = database;
+    const { sqlReady } = database;
 
     // Modal convenience vars
     const showTripDetailModal = modals.tripDetail;
@@ -70,21 +70,14 @@ const GlobalListeners = ({ activeTab }) => {
                 const file = await readFile(pendingFile);
 
                 // Validate file
-                const fileName = file.name.toLowerCase();
-                if (!fileName.endsWith('.db') && !fileName.endsWith('.jpg') && !fileName.endsWith('.jpeg')) {
+                if (!isSupportedImportFile(file.name)) {
                     alert(t('errors.invalidFile') || 'Archivo inválido. Solo se permiten archivos .db');
                     clearPendingFile();
                     return;
                 }
 
-                // Process the database file
-                const trips = await processDBHook(file, rawTrips, false);
-                if (trips) {
-                    setRawTrips(trips);
-
-                    // Show success message
-                    alert(t('upload.success') || 'Archivo cargado correctamente');
-                }
+                // Process the file like an upload; the import report tells what was loaded
+                await loadFile(file, false);
 
                 clearPendingFile();
             } catch (err) {
@@ -95,7 +88,7 @@ const GlobalListeners = ({ activeTab }) => {
         };
 
         handleSharedFile();
-    }, [pendingFile, sqlReady, readFile, processDBHook, clearPendingFile, rawTrips, t, setRawTrips]);
+    }, [pendingFile, sqlReady, readFile, loadFile, clearPendingFile, t]);
 
     // Lock body scroll when modal is open
     useEffect(() => {
@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import ChartCard from '../ui/ChartCard';
+import { Edit, Check, X } from '../Icons';
+import { useData } from '@/providers/DataProvider';
+import { useApp } from '@/context/AppContext';
+import { formatMonth } from '@core/dateUtils';
+import { nameRoute } from '@core/recurringRoutes';
+import { RouteSummary } from '@/types';
+
+interface RecurringRoutesCardProps {
+    isCompact?: boolean;
+}
+
+const SEASON_ICONS: Record<string, string> = { winter: '❄️', spring: '🌱', summer: '☀️', autumn: '🍂' };
+const DAY_KEYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+const formatStart = (minute: number): string => {
+    const m = Math.round(minute) % (24 * 60);
+    return `${String(Math.floor(m / 60)).padStart(2, '0')}:${String(m % 60).padStart(2, '0')}`;
+};
+
+/**
+ * Routes driven again and again (e.g. the commute) with their efficiency and cost by season and month
+ */
+const RecurringRoutesCard: React.FC<RecurringRoutesCardProps> = ({ isCompact }) => {
+    const { t, i18n } = useTranslation();
+    const { stats } = useData();
+    const { settings, updateSettings } = useApp();
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [name, setName] = useState('');
+    const routes = stats?.routes || [];
+
+    if (routes.length === 0) return null;
+
+    const autoName = (route: RouteSummary) => t('routes.autoName', {
+        days: t(`weekdays.${DAY_KEYS[route.signature.weekday]}`),
+        time: formatStart(route.signature.startMinute),
+        km: route.signature.km.toFixed(0)
+    });
+
+    const startEditing = (route: RouteSummary) => {
+        setEditingId(route.id);
+        setName(route.name || '');
+    };
+
+    const saveName = (route: RouteSummary) => {
+        const trimmed = name.trim();
+        if (trimmed) updateSettings({ namedRoutes: nameRoute(settings.namedRoutes, route, trimmed) });
+        setEditingId(null);
+    };
+
+    // The route goes back to being detected from its trips
+    const forgetName = (route: RouteSummary) => {
+        updateSettings({ namedRoutes: (settings.namedRoutes || []).filter(r => r.id !== route.id) });
+    };
+
+    return (
+        <ChartCard isCompact={isCompact} title={t('routes.title')}>
+            <div className="space-y-3">
+                {routes.map(route => {
+                    const months = route.monthly.slice(-12);
+                    const maxEff = Math.max(...months.map(m => m.efficiency), 1);
+                    return (
+                        <div key={route.id} className="rounded-xl border border-slate-100 dark:border-slate-700 p-3 space-y-2">
+                            <div className="flex items-center justify-between gap-2">
+                                {editingId === route.id ? (
+                                    <div className="flex items-center gap-1.5 flex-1">
+                                        <input
+                                            autoFocus
+                                            value={name}
+                                            onChange={(e) => setName(e.target.value)}
+                                            onKeyDown={(e) => { if (e.key === 'Enter') saveName(route); }}
+                                            placeholder={autoName(route)}
+                                            className="flex-1 min-w-0 bg-white dark:bg-slate-700 text-slate-900 dark:text-white rounded-lg px-2 py-1 text-sm border border-slate-200 dark:border-slate-600"
+                                        />
+                                        <button onClick={() => saveName(route)} aria-label={t('common.save')} className="p-1 text-emerald-600">
+                                            <Check className="w-4 h-4" />
+                                        </button>
+                                        <button onClick={() => setEditingId(null)} aria-label={t('common.cancel')} className="p-1 text-slate-400">
+                                            <X className="w-4 h-4" />
+                                        </button>
+                                    </div>
+                                ) : (
+                                    <div className="min-w-0">
+                                        <p className="text-sm font-medium text-slate-900 dark:text-white truncate">{route.name || autoName(route)}</p>
+                                        {route.name && <p className="text-[10px] text-slate-400">{autoName(route)}</p>}
+                                    </div>
+                                )}
+                                {editingId !== route.id && (
+                                    <div className="flex items-center shrink-0">
+                                        <button onClick={() => startEditing(route)} aria-label={t('routes.rename')} title={t('routes.rename')} className="p-1 text-slate-400 hover:text-slate-700 dark:hover:text-white">
+                                            <Edit className="w-4 h-4" />
+                                        </button>
+                                        {route.name && (
+                                            <button onClick={() => forgetName(route)} aria-label={t('routes.forget')} title={t('routes.forget')} className="p-1 text-slate-400 hover:text-red-500">
+                                                <X className="w-4 h-4" />
+                                            </button>
+                                        )}
+                                    </div>
+                                )}
+                            </div>
+
+                            <p className="text-xs text-slate-500 dark:text-slate-400">
+                                {t('tags.tripCount', { count: route.trips })} · {route.efficiency.toFixed(1)} kWh/100km · {t('routes.costPerTrip', { cost: (route.cost / route.trips).toFixed(2) })}
+                            </p>
+
+                            {/* Same route in each season */}
+                            {route.seasons.length > 1 && (
+                                <div className="flex flex-wrap gap-1.5">
+                                    {route.seasons.map(season => (
+                                        <span key={season.period} className="px-2 py-0.5 rounded-full text-[11px] bg-slate-100 dark:bg-slate-700/60 text-slate-700 dark:text-slate-300" title={t(`routes.seasons.${season.period}`)}>
+                                            {SEASON_ICONS[season.period]} {season.efficiency.toFixed(1)} · {(season.cost / season.trips).toFixed(2)} €
+                                        </span>
+                                    ))}
+                                </div>
+                            )}
+
+                            {/* Efficiency by month */}
+                            {months.length > 1 && (
+                                <div className="flex items-end gap-1 h-10" aria-label={t('routes.monthlyEfficiency')}>
+                                    {months.map(month => (
+                                        <div
+                                            key={month.period}
+                                            className="flex-1 rounded-t bg-emerald-400/70 dark:bg-emerald-500/50"
+                                            style={{ height: `${Math.max(8, (month.efficiency / maxEff) * 100)}%` }}
+                                            title={`${formatMonth(month.period, i18n.language)}: ${month.efficiency.toFixed(1)} kWh/100km · ${t('tags.tripCount', { count: month.trips })}`}
+                                        />
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+            <p className="text-[10px] text-slate-400 mt-3">{t('routes.hint')}</p>
+        </ChartCard>
+    );
+};
+
+export default RecurringRoutesCard;
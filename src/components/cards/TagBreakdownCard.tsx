@@ -0,0 +1,56 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import ChartCard from '../ui/ChartCard';
+import { useData } from '@/providers/DataProvider';
+import { UNTAGGED_TAG_ID, getTripTagName } from '@core/tripTags';
+
+interface TagBreakdownCardProps {
+    isCompact?: boolean;
+}
+
+/**
+ * Distance, efficiency and cost of the filtered trips per tag
+ */
+const TagBreakdownCard: React.FC<TagBreakdownCardProps> = ({ isCompact }) => {
+    const { t } = useTranslation();
+    const { stats, settings } = useData();
+    const breakdown = stats?.tagBreakdown || [];
+
+    // Nothing to compare until some trip is tagged
+    if (!breakdown.some(entry => entry.tagId !== UNTAGGED_TAG_ID)) return null;
+
+    const tags = new Map((settings.tripTags || []).map(tag => [tag.id, tag]));
+    const maxKm = Math.max(...breakdown.map(entry => entry.km), 1);
+
+    return (
+        <ChartCard isCompact={isCompact} title={t('tags.breakdown')}>
+            <div className="space-y-2">
+                {breakdown.map(entry => {
+                    const tag = tags.get(entry.tagId);
+                    const name = entry.tagId === UNTAGGED_TAG_ID ? t('tags.untagged') : (tag ? getTripTagName(tag, t) : entry.tagId);
+                    const color = tag?.color || '#94a3b8';
+                    return (
+                        <div key={entry.tagId} className="space-y-1">
+                            <div className="flex items-center justify-between text-xs sm:text-sm">
+                                <span className="font-medium text-slate-900 dark:text-white flex items-center gap-1.5">
+                                    <span className="inline-block w-2 h-2 rounded-full" style={{ backgroundColor: color }} />
+                                    {name}
+                                    <span className="text-slate-400 font-normal">· {t('tags.tripCount', { count: entry.trips })}</span>
+                                </span>
+                                <span className="text-slate-500 dark:text-slate-400 whitespace-nowrap">
+                                    {entry.km.toFixed(0)} km · {entry.efficiency.toFixed(1)} kWh/100km · {entry.cost.toFixed(2)} €
+                                </span>
+                            </div>
+                            <div className="h-1.5 rounded-full bg-slate-100 dark:bg-slate-700 overflow-hidden">
+                                <div className="h-full rounded-full" style={{ width: `${(entry.km / maxKm) * 100}%`, backgroundColor: color }} />
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+            <p className="text-[10px] text-slate-400 mt-3">{t('tags.breakdownHint')}</p>
+        </ChartCard>
+    );
+};
+
+export default TagBreakdownCard;
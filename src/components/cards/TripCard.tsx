@@ -53,6 +53,9 @@ const TripCard: React.FC<TripCardProps> = React.memo(({ trip, minEff, maxEff, on
             <div className={`text-center ${marginBottom}`}>
                 <p className={`text-slate-900 dark:text-white font-semibold ${(isCompact || isFullscreenBYD) ? 'text-xs' : 'text-sm sm:text-base'}`}>
                     {formatDate(trip.date)} · {formatTime(trip.start_timestamp)}
+                    {trip.segments && (
+                        <span className="text-slate-500 dark:text-slate-400 font-normal"> · {t('journeys.segments', { count: trip.segments.length })}</span>
+                    )}
                 </p>
             </div>
             {/* 5 Column Grid */}
@@ -1,4 +1,5 @@
 import React, { ReactNode, Component } from 'react';
+import i18n from 'i18next';
 
 interface ErrorBoundaryProps {
     children: ReactNode;
@@ -6,6 +7,7 @@ interface ErrorBoundaryProps {
     title?: string;
     message?: string;
     isTab?: boolean;
+    error?: Error; // Shows the fallback for an error raised outside rendering
 }
 
 interface ErrorBoundaryState {
@@ -21,7 +23,7 @@ interface ErrorBoundaryState {
 class ErrorBoundary extends Component<ErrorBoundaryProps, ErrorBoundaryState> {
     constructor(props: ErrorBoundaryProps) {
         super(props);
-        this.state = { hasError: false, error: null, errorInfo: null };
+        this.state = { hasError: !!props.error, error: props.error || null, errorInfo: null };
     }
 
     static getDerivedStateFromError(error: Error): ErrorBoundaryState {
@@ -46,8 +48,9 @@ class ErrorBoundary extends Component<ErrorBoundaryProps, ErrorBoundaryState> {
                 return this.props.fallback;
             }
 
-            const title = this.props.title || "Algo salió mal";
-            const message = this.props.message || "La aplicación ha encontrado un error inesperado.";
+            // Defaults in case the error happens before the translations load
+            const title = this.props.title || i18n.t('errors.somethingWentWrong', 'Algo salió mal');
+            const message = this.props.message || i18n.t('errors.unexpectedRenderError', 'La aplicación ha encontrado un error inesperado.');
 
             // Standard fallback UI
             return (
@@ -105,7 +108,7 @@ class ErrorBoundary extends Component<ErrorBoundaryProps, ErrorBoundaryState> {
                                 <path d="M1 20v-6h6"></path>
                                 <path d="M3.51 9a9 9 0 0 1 14.85-3.36L23 10M1 14l4.64 4.36A9 9 0 0 0 20.49 15"></path>
                             </svg>
-                            Recargar página
+                            {i18n.t('errors.reloadPage', 'Recargar página')}
                         </button>
                     </div>
                 </div>
@@ -8,6 +8,7 @@ const TripDetailModalLazy = React.lazy(() => import('../modals/TripDetailModal')
 const DatabaseUploadModalLazy = React.lazy(() => import('../modals/DatabaseUploadModal'));
 const LegalModalLazy = React.lazy(() => import('../modals/LegalModal'));
 const AddChargeModalLazy = React.lazy(() => import('../modals/AddChargeModal'));
+const TripEditorModalLazy = React.lazy(() => import('../modals/TripEditorModal'));
 const ChargeDetailModalLazy = React.lazy(() => import('../modals/ChargeDetailModal'));
 const HelpModalLazy = React.lazy(() => import('../modals/HelpModal'));
 const UploadOptionsModalLazy = React.lazy(() => import('../modals/UploadOptionsModal'));
@@ -15,6 +16,7 @@ const SyncConflictModalLazy = React.lazy(() => import('../modals/SyncConflictMod
 const ConfirmationModalLazy = React.lazy(() => import('../common/ConfirmationModal'));
 const CloudBackupsModalLazy = React.lazy(() => import('../modals/CloudBackupsModal'));
 const RegistryRestoreModalLazy = React.lazy(() => import('../modals/RegistryRestoreModal'));
+const ImportReportModalLazy = React.lazy(() => import('../modals/ImportReportModal'));
 
 const ModalContainer: React.FC = () => {
     const { modals, googleSync, confirmModalState } = useData();
@@ -42,6 +44,9 @@ const ModalContainer: React.FC = () => {
             {/* Add/Edit Charge Modal */}
             {modals.addCharge && <AddChargeModalLazy />}
 
+            {/* Add/Edit Trip Modal */}
+            {modals.tripEditor && <TripEditorModalLazy />}
+
             {/* Charge Detail Modal */}
             {modals.chargeDetail && <ChargeDetailModalLazy />}
 
@@ -57,6 +62,9 @@ const ModalContainer: React.FC = () => {
             {/* Cloud Backups Modal */}
             {modals.backups && <CloudBackupsModalLazy />}
 
+            {/* Import Report Modal */}
+            {modals.importReport && <ImportReportModalLazy />}
+
             {/* Registry Restore Modal */}
             {modals.registryRestore && (
                 <RegistryRestoreModalLazy
@@ -2,6 +2,7 @@ import { memo, useRef, FC } from 'react';
 import { useVirtualizer } from '@tanstack/react-virtual';
 import { Trip } from '@/types';
 import TripCard from '../cards/TripCard';
+import { tripSyncKey } from '@core/syncMerge';
 
 const ITEM_SIZE = 150; // Estimated height for Trip Card
 
@@ -11,9 +12,10 @@ interface VirtualizedTripListProps {
     maxEff: number;
     onTripClick: (trip: Trip) => void;
     scrollElement: HTMLElement | null;
+    selectedKeys?: Set<string>; // tripSyncKey of the trips picked for a bulk action
 }
 
-const VirtualizedTripList: FC<VirtualizedTripListProps> = memo(({ trips, minEff, maxEff, onTripClick, scrollElement }) => {
+const VirtualizedTripList: FC<VirtualizedTripListProps> = memo(({ trips, minEff, maxEff, onTripClick, scrollElement, selectedKeys }) => {
     const listRef = useRef<HTMLDivElement>(null);
 
     const virtualizer = useVirtualizer({
@@ -39,13 +41,15 @@ const VirtualizedTripList: FC<VirtualizedTripListProps> = memo(({ trips, minEff,
                     }}
                 >
                     <div style={{ paddingBottom: '12px' }}>
-                        <TripCard
-                            trip={trips[virtualItem.index]}
-                            minEff={minEff}
-                            maxEff={maxEff}
-                            onClick={onTripClick}
-                            isCompact={false}
-                        />
+                        <div className={selectedKeys?.has(tripSyncKey(trips[virtualItem.index])) ? 'rounded-xl ring-2 ring-red-500' : undefined}>
+                            <TripCard
+                                trip={trips[virtualItem.index]}
+                                minEff={minEff}
+                                maxEff={maxEff}
+                                onClick={onTripClick}
+                                isCompact={false}
+                            />
+                        </div>
                     </div>
                 </div>
             ))}
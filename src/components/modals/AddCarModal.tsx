@@ -4,20 +4,34 @@ import { useTranslation } from 'react-i18next';
 import ModalHeader from '../common/ModalHeader';
 import { Car } from '../../components/Icons';
 import { BYD_RED } from '@core/constants';
+import { VEHICLE_MODELS, getModelSettings, getVehicleModel } from '@core/vehicleModels';
+import { Settings } from '@/types';
 
 interface AddCarModalProps {
     isOpen: boolean;
     onClose: () => void;
-    onSave: (carData: { name: string; type: 'ev' | 'phev'; isHybrid: boolean }) => void;
+    onSave: (carData: { name: string; type: 'ev' | 'phev'; isHybrid: boolean; model?: string }, settings?: Partial<Settings>) => void;
 }
 
 const AddCarModal: React.FC<AddCarModalProps> = ({ isOpen, onClose, onSave }) => {
     const { t } = useTranslation();
     const [name, setName] = useState('');
     const [isHybrid, setIsHybrid] = useState(false);
+    const [modelId, setModelId] = useState('');
 
     if (!isOpen) return null;
 
+    const model = getVehicleModel(modelId);
+
+    // A preset names the car (unless already named) and sets its type
+    const handleModelChange = (id: string) => {
+        const next = getVehicleModel(id);
+        setModelId(id);
+        if (!next) return;
+        if (!name.trim() || name === `BYD ${model?.name}`) setName(`BYD ${next.name}`);
+        setIsHybrid(next.type === 'phev');
+    };
+
     const handleSubmit = (e: FormEvent) => {
         e.preventDefault();
         if (!name.trim()) return;
@@ -25,10 +39,12 @@ const AddCarModal: React.FC<AddCarModalProps> = ({ isOpen, onClose, onSave }) =>
         onSave({
             name: name.trim(),
             type: isHybrid ? 'phev' : 'ev',
-            isHybrid
-        });
+            isHybrid,
+            ...(model && { model: model.name })
+        }, model ? getModelSettings(model) : undefined);
         setName('');
         setIsHybrid(false);
+        setModelId('');
         onClose();
     };
 
@@ -51,6 +67,32 @@ const AddCarModal: React.FC<AddCarModalProps> = ({ isOpen, onClose, onSave }) =>
                 />
 
                 <form onSubmit={handleSubmit} className="space-y-4">
+                    <div>
+                        <label className={labelClass}>{t('cars.modelPreset')}</label>
+                        <select
+                            value={modelId}
+                            onChange={(e) => handleModelChange(e.target.value)}
+                            className={inputClass}
+                        >
+                            <option value="">{t('cars.customModel')}</option>
+                            {VEHICLE_MODELS.map(m => (
+                                <option key={m.id} value={m.id}>BYD {m.name}</option>
+                            ))}
+                        </select>
+                        {model && (
+                            <p className="text-xs text-slate-500 mt-1">
+                                {t('cars.modelSummary', {
+                                    capacity: model.netCapacity,
+                                    chemistry: model.chemistry.toUpperCase(),
+                                    ac: model.maxAcKw,
+                                    dc: model.maxDcKw,
+                                    wltp: model.wltpKwh100
+                                })}
+                                {model.tankLiters ? ` · ${model.tankLiters} L` : ''}
+                            </p>
+                        )}
+                    </div>
+
                     <div>
                         <label className={labelClass}>{t('cars.name', 'Nombre del coche')}</label>
                         <input
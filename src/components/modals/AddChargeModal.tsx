@@ -1,7 +1,7 @@
 // BYD Stats - Add Charge Modal Component
 // Form for adding/editing charging sessions
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { toast } from 'react-hot-toast';
 import { useTranslation } from 'react-i18next';
 import { BYD_RED } from '@core/constants';
@@ -11,6 +11,8 @@ import { useApp } from '../../context/AppContext';
 import { useData } from '../../providers/DataProvider';
 import { useCar } from '../../context/CarContext';
 import { estimateInitialSoC } from '../../core/batteryCalculations';
+import { deriveChargeCost, getActiveTariff } from '../../core/tariffs';
+import { getVehicleProfile } from '../../core/vehicleModels';
 
 import { Charge } from '../../types';
 
@@ -32,6 +34,7 @@ interface FormData {
     litersCharged: string | number;
     pricePerLiter: string | number;
     isSOCEstimated: boolean;
+    costSource: 'entered' | 'tariff';
 }
 
 /**
@@ -73,7 +76,8 @@ const AddChargeModal: React.FC<AddChargeModalProps> = () => {
         initialPercentage: '',
         litersCharged: '',
         pricePerLiter: '',
-        isSOCEstimated: false
+        isSOCEstimated: false,
+        costSource: 'tariff'
     });
 
     // Reset or Load data when opening/editing
@@ -94,7 +98,9 @@ const AddChargeModal: React.FC<AddChargeModalProps> = () => {
                 initialPercentage: editingCharge.initialPercentage || '',
                 litersCharged: editingCharge.litersCharged || '',
                 pricePerLiter: editingCharge.pricePerLiter || '',
-                isSOCEstimated: editingCharge.isSOCEstimated || false
+                isSOCEstimated: editingCharge.isSOCEstimated || false,
+                // Older charges with a cost were typed in by hand
+                costSource: editingCharge.costSource || (editingCharge.totalCost ? 'entered' : 'tariff')
             });
         } else {
             // Defaults for new charge
@@ -112,7 +118,8 @@ const AddChargeModal: React.FC<AddChargeModalProps> = () => {
                 initialPercentage: '',
                 litersCharged: '',
                 pricePerLiter: '',
-                isSOCEstimated: false
+                isSOCEstimated: false,
+                costSource: 'tariff'
             }));
         }
     }, [modals.addCharge, editingCharge, chargerTypes, isHybrid, stats]);
@@ -122,10 +129,33 @@ const AddChargeModal: React.FC<AddChargeModalProps> = () => {
             ...prev,
             [field]: value,
             // If user manually changes initialPercentage, mark as NOT estimated
-            isSOCEstimated: field === 'initialPercentage' ? false : prev.isSOCEstimated
+            isSOCEstimated: field === 'initialPercentage' ? false : prev.isSOCEstimated,
+            // Typing a price or cost overrides the tariff
+            costSource: field === 'pricePerKwh' || field === 'totalCost' ? 'entered' : prev.costSource
         }));
     };
 
+    const activeTariff = useMemo(() => getActiveTariff(settings), [settings]);
+
+    // Cost of the session under the active tariff, when it can be derived
+    const derivedCost = useMemo(() => {
+        if (formData.type !== 'electric') return null;
+        return deriveChargeCost({
+            type: 'electric',
+            date: formData.date,
+            time: formData.time,
+            kwhCharged: parseFloat(formData.kwhCharged.toString()) || 0,
+            chargerTypeId: formData.chargerTypeId
+        }, settings);
+    }, [formData.type, formData.date, formData.time, formData.kwhCharged, formData.chargerTypeId, settings]);
+
+    const isTariffCost = formData.costSource === 'tariff' && derivedCost !== null;
+
+    useEffect(() => {
+        if (!isTariffCost || !derivedCost) return;
+        setFormData(prev => ({ ...prev, totalCost: derivedCost.totalCost, pricePerKwh: derivedCost.pricePerKwh }));
+    }, [isTariffCost, derivedCost]);
+
     const getRealKwh = useCallback(() => {
         if (!formData.kwhCharged || !formData.chargerTypeId) return null;
         const type = chargerTypes.find(c => c.id === formData.chargerTypeId);
@@ -153,7 +183,7 @@ const AddChargeModal: React.FC<AddChargeModalProps> = () => {
 
         if (previousCharge) {
             const avgEfficiency = parseFloat(stats?.summary?.avgEff || '18.0');
-            const batterySize = parseFloat(settings.batterySize?.toString() || '60.48');
+            const batterySize = getVehicleProfile(settings).netCapacity;
 
             const estimated = estimateInitialSoC(previousCharge, currentOdo, avgEfficiency, batterySize);
 
@@ -202,6 +232,7 @@ const AddChargeModal: React.FC<AddChargeModalProps> = () => {
             chargeData.initialPercentage = !isNaN(initialHigh) ? initialHigh : undefined;
 
             chargeData.isSOCEstimated = formData.isSOCEstimated;
+            chargeData.costSource = isTariffCost ? 'tariff' : formData.costSource === 'entered' ? 'entered' : undefined;
         } else {
             chargeData.litersCharged = parseFloat(formData.litersCharged.toString()) || 0;
             chargeData.pricePerLiter = parseFloat(formData.pricePerLiter.toString()) || 0;
@@ -369,6 +400,19 @@ const AddChargeModal: React.FC<AddChargeModalProps> = () => {
                                     />
                                 </div>
                             </div>
+                            {isTariffCost ? (
+                                <p className="text-xs text-emerald-600 dark:text-emerald-400 -mt-2">
+                                    {t('charges.costFromTariff', { name: activeTariff?.name })}
+                                </p>
+                            ) : derivedCost && (
+                                <button
+                                    type="button"
+                                    onClick={() => setFormData(prev => ({ ...prev, costSource: 'tariff' }))}
+                                    className="text-xs font-medium text-emerald-600 dark:text-emerald-400 hover:underline -mt-2"
+                                >
+                                    {t('charges.useTariffCost', { cost: derivedCost.totalCost.toFixed(2) })}
+                                </button>
+                            )}
 
                             {/* Battery Percentages */}
                             <div className="grid grid-cols-2 gap-3">
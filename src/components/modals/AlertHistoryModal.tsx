@@ -1,13 +1,13 @@
 import React from 'react';
 import { useTranslation } from 'react-i18next';
 import { X, AlertTriangle, CheckCircle, Trash2, Clock } from '../Icons';
-import { Anomaly } from '../../services/AnomalyService';
+import { AnomalyLogEntry } from '../../types';
 import ModalPortal from '../common/ModalPortal';
 
 interface AlertHistoryModalProps {
     isOpen: boolean;
     onClose: () => void;
-    historyAnomalies: Anomaly[];
+    historyAnomalies: AnomalyLogEntry[];
     onDelete: (id: string, e: React.MouseEvent) => void;
 }
 
@@ -93,14 +93,19 @@ const AlertHistoryModal: React.FC<AlertHistoryModalProps> = ({
                                         <div className="flex-1 min-w-0">
                                             <div className="flex justify-between items-start">
                                                 <h4 className="font-bold text-slate-700 dark:text-slate-200 text-sm mb-0.5">
-                                                    {item.title}
+                                                    {t(item.title, { ...item.params, defaultValue: item.title })}
                                                 </h4>
                                                 <span className="text-[10px] text-slate-400 font-mono whitespace-nowrap ml-2">
-                                                    {formatDate(item.timestamp)}
+                                                    {formatDate(item.lastSeen)}
                                                 </span>
                                             </div>
                                             <p className="text-xs text-slate-500 dark:text-slate-400 leading-relaxed line-clamp-2">
-                                                {item.description}
+                                                {t(item.description, { ...item.params, defaultValue: item.description })}
+                                            </p>
+                                            <p className="text-[10px] text-slate-400 mt-1">
+                                                <span className="font-medium">{t(`health.status.${item.status}`)}</span>
+                                                {item.status === 'snoozed' && item.snoozedUntil && ` ${formatDate(item.snoozedUntil)}`}
+                                                {` · ${t('health.firstSeen')} ${formatDate(item.firstSeen)}`}
                                             </p>
                                         </div>
 
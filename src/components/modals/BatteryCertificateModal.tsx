@@ -0,0 +1,231 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Capacitor } from '@capacitor/core';
+import { toast } from 'react-hot-toast';
+import ModalPortal from '../common/ModalPortal';
+import { X, Shield, Download, Printer, CheckCircle } from '../Icons';
+import { useData } from '@/providers/DataProvider';
+import { useApp } from '@/context/AppContext';
+import { useCar } from '@/context/CarContext';
+import { formatDate } from '@core/dateUtils';
+import { logger } from '@core/logger';
+import {
+    BatteryCertificateLabels,
+    buildBatteryCertificate,
+    buildBatteryCertificateFile,
+    checkBatteryCertificateHash,
+    hashBatteryCertificate
+} from '@core/batteryCertificate';
+import { printHtml } from '@/utils/printHtml';
+
+interface BatteryCertificateModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+/**
+ * Battery health certificate to hand to the buyer of the car, with a hash to detect accidental changes
+ */
+const BatteryCertificateModal: React.FC<BatteryCertificateModalProps> = ({ isOpen, onClose }) => {
+    const { t, i18n } = useTranslation();
+    const { trips, charges, aiSoH, aiSoHStats, downloadFile } = useData();
+    const { settings } = useApp();
+    const { activeCar } = useCar();
+    const isNative = Capacitor.isNativePlatform();
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [hashed, setHashed] = useState<{ html: string; hash: string } | null>(null);
+
+    const certificate = useMemo(() => isOpen ? buildBatteryCertificate({
+        charges,
+        trips,
+        settings,
+        vehicle: { name: activeCar?.name || settings.carModel, vin: activeCar?.vin, licensePlate: settings.licensePlate },
+        aiSoH,
+        aiSoHStats
+    }) : null, [isOpen, charges, trips, settings, activeCar, aiSoH, aiSoHStats]);
+
+    const labels = useMemo<BatteryCertificateLabels>(() => ({
+        title: t('certificate.title'),
+        subtitle: t('certificate.subtitle'),
+        vehicle: t('mileage.vehicle'),
+        model: t('certificate.model'),
+        vin: 'VIN',
+        licensePlate: t('certificate.licensePlate'),
+        chemistry: t('certificate.chemistry'),
+        capacity: t('certificate.capacity'),
+        mfgDate: t('settings.mfgDate'),
+        estimatedSoh: t('certificate.estimatedSoh'),
+        aiSoh: t('modals.batteryHealth.realSoH'),
+        cycles: t('certificate.cycles'),
+        stress: t('tripInsights.stressFactor'),
+        degradation: t('certificate.degradation'),
+        sei: 'SEI',
+        cycle: t('certificate.cycleAging'),
+        calendar: t('certificate.calendarAging'),
+        totalLoss: t('certificate.totalLoss'),
+        chargingMix: t('certificate.chargingMix'),
+        bands: {
+            slow: t('certificate.bands.slow'),
+            ac: t('certificate.bands.ac'),
+            dc: t('certificate.bands.dc'),
+            hpc: t('certificate.bands.hpc')
+        },
+        sessions: t('certificate.sessions'),
+        share: '%',
+        trend: t('modals.batteryHealth.aiAnalysisTitle'),
+        month: t('certificate.month'),
+        samples: t('modals.batteryHealth.samples'),
+        measured: t('certificate.measured'),
+        aiTrend: t('certificate.aiTrend'),
+        noTrend: t('certificate.noTrend'),
+        coverage: t('certificate.coverage'),
+        period: t('mileage.period'),
+        charges: t('certificate.charges'),
+        trips: t('certificate.trips'),
+        distance: t('stats.distance'),
+        generated: t('mileage.generated'),
+        hash: t('certificate.hash'),
+        hashHint: t('certificate.hashHint')
+    }), [t]);
+
+    useEffect(() => {
+        if (!certificate) {
+            setHashed(null);
+            return;
+        }
+        let cancelled = false;
+        hashBatteryCertificate(certificate, labels, i18n.language)
+            .then(result => { if (!cancelled) setHashed(result); })
+            .catch(err => logger.error('Battery certificate hashing failed:', err));
+        return () => { cancelled = true; };
+    }, [certificate, labels, i18n.language]);
+
+    if (!isOpen || !certificate) return null;
+
+    const hasMfgDate = !!settings.mfgDate;
+    const { soh, coverage } = certificate;
+
+    const handleVerify = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        if (await checkBatteryCertificateHash(await file.text())) {
+            toast.success(t('certificate.verifyOk'));
+        } else {
+            toast.error(t('certificate.verifyFailed'));
+        }
+    };
+
+    return (
+        <ModalPortal>
+            {/* Portal events still bubble to the modal that opened this one */}
+            <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 animate-modal-backdrop" onClick={(e) => { e.stopPropagation(); onClose(); }}>
+                <div className="absolute inset-0 bg-black/60 backdrop-blur-sm"></div>
+
+                <div
+                    role="dialog"
+                    aria-modal="true"
+                    className="relative bg-white dark:bg-slate-800 rounded-3xl max-w-md w-full shadow-2xl animate-modal-content overflow-hidden border border-slate-200 dark:border-slate-700 flex flex-col max-h-[85vh]"
+                    onClick={(e) => e.stopPropagation()}
+                >
+                    {/* Header */}
+                    <div className="flex justify-between items-center p-5 border-b border-slate-100 dark:border-slate-700">
+                        <div className="flex items-center gap-3">
+                            <div className="w-10 h-10 rounded-full bg-emerald-100 dark:bg-emerald-900/30 flex items-center justify-center">
+                                <Shield className="w-5 h-5 text-emerald-600 dark:text-emerald-400" />
+                            </div>
+                            <div>
+                                <h2 className="text-lg font-bold text-slate-900 dark:text-white">{t('certificate.title')}</h2>
+                                <p className="text-xs text-slate-500">{t('certificate.subtitle')}</p>
+                            </div>
+                        </div>
+                        <button
+                            onClick={onClose}
+                            className="p-2 rounded-full hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors"
+                        >
+                            <X className="w-5 h-5 text-slate-500" />
+                        </button>
+                    </div>
+
+                    <div className="p-5 overflow-y-auto custom-scrollbar space-y-4">
+                        {!hasMfgDate && (
+                            <p className="text-xs text-amber-600 dark:text-amber-400 bg-amber-50 dark:bg-amber-900/20 rounded-lg p-3">
+                                {t('certificate.noMfgDate')}
+                            </p>
+                        )}
+
+                        <div className="grid grid-cols-2 gap-2 text-center">
+                            <div className="bg-emerald-50 dark:bg-emerald-900/20 rounded-xl p-3">
+                                <p className="text-[10px] text-slate-500">{t('certificate.estimatedSoh')}</p>
+                                <p className="text-xl font-black text-emerald-600 dark:text-emerald-400">{soh.estimated_soh.toFixed(2)}%</p>
+                            </div>
+                            <div className="bg-slate-100 dark:bg-slate-700/50 rounded-xl p-3">
+                                <p className="text-[10px] text-slate-500">{t('modals.batteryHealth.realSoH')}</p>
+                                <p className="text-xl font-black text-slate-900 dark:text-white">
+                                    {certificate.aiSoH !== null ? `${certificate.aiSoH.toFixed(1)}%` : '–'}
+                                </p>
+                            </div>
+                        </div>
+
+                        <div className="grid grid-cols-3 gap-2 text-center text-xs">
+                            <div className="bg-slate-50 dark:bg-slate-900/50 rounded-lg p-2">
+                                <p className="text-[10px] text-slate-500">{t('certificate.cycles')}</p>
+                                <p className="font-bold text-slate-900 dark:text-white">{soh.real_cycles_count.toFixed(1)}</p>
+                            </div>
+                            <div className="bg-slate-50 dark:bg-slate-900/50 rounded-lg p-2">
+                                <p className="text-[10px] text-slate-500">{t('certificate.charges')}</p>
+                                <p className="font-bold text-slate-900 dark:text-white">{coverage.charges}</p>
+                            </div>
+                            <div className="bg-slate-50 dark:bg-slate-900/50 rounded-lg p-2">
+                                <p className="text-[10px] text-slate-500">{t('certificate.trendMonths')}</p>
+                                <p className="font-bold text-slate-900 dark:text-white">{certificate.trend.length}</p>
+                            </div>
+                        </div>
+
+                        {coverage.from && (
+                            <p className="text-xs text-slate-500 text-center">
+                                {t('certificate.coverage')}: {formatDate(coverage.from, i18n.language)} – {formatDate(coverage.to, i18n.language)}
+                            </p>
+                        )}
+
+                        <div className="text-[10px] text-slate-400 bg-slate-50 dark:bg-slate-900/50 rounded-lg p-3">
+                            <p className="font-medium text-slate-500 mb-1">{t('certificate.hash')}</p>
+                            <code className="break-all">{hashed?.hash || '…'}</code>
+                        </div>
+
+                        <button
+                            onClick={() => fileInputRef.current?.click()}
+                            className="w-full text-xs text-slate-500 dark:text-slate-400 hover:underline flex items-center justify-center gap-1"
+                        >
+                            <CheckCircle className="w-3.5 h-3.5" /> {t('certificate.verify')}
+                        </button>
+                        <input ref={fileInputRef} type="file" accept=".html,text/html" className="hidden" onChange={handleVerify} />
+                    </div>
+
+                    {/* Actions */}
+                    <div className="p-5 border-t border-slate-100 dark:border-slate-700 grid grid-cols-2 gap-2">
+                        <button
+                            onClick={() => hashed && downloadFile(buildBatteryCertificateFile(certificate, hashed.html))}
+                            disabled={!hashed || !hasMfgDate}
+                            className="py-2.5 rounded-xl text-sm font-medium border border-slate-200 dark:border-slate-600 text-slate-700 dark:text-slate-300 disabled:opacity-50 flex items-center justify-center gap-2"
+                        >
+                            <Download className="w-4 h-4" /> HTML
+                        </button>
+                        {!isNative && (
+                            <button
+                                onClick={() => hashed && printHtml(hashed.html)}
+                                disabled={!hashed || !hasMfgDate}
+                                className="py-2.5 rounded-xl text-sm font-medium text-white bg-emerald-500 hover:bg-emerald-600 disabled:opacity-50 flex items-center justify-center gap-2"
+                                title={t('mileage.printHint')}
+                            >
+                                <Printer className="w-4 h-4" /> PDF
+                            </button>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </ModalPortal>
+    );
+};
+
+export default BatteryCertificateModal;
@@ -16,7 +16,7 @@ interface ChargeInsightsModalProps {
     onClose: () => void;
     type: 'kwh' | 'cost' | 'price' | 'count' | 'fuel';
     charges: Charge[];
-    batterySize?: number;
+    batterySize: number; // Net capacity (getVehicleProfile)
     chargerTypes?: any[];
 }
 
@@ -153,7 +153,7 @@ const ChargeInsightsModal: React.FC<ChargeInsightsModalProps> = ({
     onClose,
     type, // 'kwh' | 'cost' | 'price' | 'count'
     charges,
-    batterySize = 60.48,
+    batterySize,
     chargerTypes = []
 }) => {
     const { t } = useTranslation();
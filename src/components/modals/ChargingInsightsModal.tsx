@@ -526,16 +526,16 @@ const ChargingInsightsModal: React.FC<ChargingInsightsModalProps> = ({
                 </div>
 
                 {/* 3. Cost (Non-clickable for now or separate) - Kept as information */}
-                {settings.offPeakEnabled && costAnalysis && costAnalysis.potentialMonthlySavings > 1 && (
+                {costAnalysis && costAnalysis.offPeakWindowHours > 0 && costAnalysis.potentialMonthlySavings > 1 && (
                     <div className="bg-amber-50 dark:bg-amber-900/20 rounded-2xl p-4 border border-amber-100 dark:border-amber-800/30">
                         <h4 className="text-sm font-bold text-amber-900 dark:text-amber-100 mb-1 flex items-center gap-2">
                             💰 {t('insights.costSavings')}
                         </h4>
                         <p className="text-xs text-amber-700 dark:text-amber-300 leading-relaxed mb-2">
                             {t('insights.costDesc', {
-                                window: `${settings.offPeakStart}-${settings.offPeakEnd}`,
+                                window: costAnalysis.offPeakWindow,
                                 amount: costAnalysis.potentialMonthlySavings.toFixed(0)
-                            }).replace('{{window}}', `${settings.offPeakStart}-${settings.offPeakEnd}`).replace('{{amount}}', costAnalysis.potentialMonthlySavings.toFixed(0))}
+                            }).replace('{{window}}', costAnalysis.offPeakWindow || '').replace('{{amount}}', costAnalysis.potentialMonthlySavings.toFixed(0))}
                         </p>
                         <div className={`text-[10px] font-bold px-2 py-0.5 rounded inline-block uppercase tracking-wider ${costAnalysis.feasibleInOffPeak ? 'bg-emerald-100 text-emerald-800' : 'bg-red-100 text-red-800'}`}>
                             {costAnalysis.feasibleInOffPeak ? 'OK' : '⚠️ Limit'}
@@ -0,0 +1,372 @@
+// BYD Stats - CSV Column Mapping Wizard
+// Preview an arbitrary CSV, confirm which column feeds each field and save the mapping as a profile
+
+import React, { ChangeEvent, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { BYD_RED } from '@core/constants';
+import {
+    CsvImportTarget,
+    CsvMappingProfile,
+    CSV_DELIMITERS,
+    CSV_DATE_FORMATS,
+    applyChargeMapping,
+    applyTripMapping,
+    createCsvProfileAdapter,
+    getCsvFields,
+    getHeaderSignature,
+    guessColumnMapping,
+    guessCsvProfile,
+    parseCsv,
+    splitHeader
+} from '@core/csvMapping';
+import { ChevronLeft, FileText, Trash2 } from '../Icons';
+import { useData } from '../../providers/DataProvider';
+
+type ProfileDraft = Omit<CsvMappingProfile, 'id' | 'name'>;
+
+interface CsvMappingWizardProps {
+    onBack: () => void;
+    onDone: () => void;
+}
+
+const DELIMITER_LABELS: Record<string, string> = { ',': ',', ';': ';', '\t': 'Tab', '|': '|' };
+const PREVIEW_ROWS = 5;
+
+const inputClass = 'w-full bg-slate-100 dark:bg-slate-700/50 text-slate-900 dark:text-white rounded-xl px-3 py-2 border border-slate-200 dark:border-slate-600 text-sm';
+const labelClass = 'text-slate-600 dark:text-slate-400 text-xs';
+
+/**
+ * Finds a saved profile whose header matches the file
+ */
+const findMatchingProfile = (text: string, profiles: CsvMappingProfile[]): CsvMappingProfile | undefined =>
+    profiles.find(p => {
+        if (!p.headerSignature) return false;
+        const first = parseCsv(text, p.delimiter)[0];
+        return !!first && getHeaderSignature(first.values) === p.headerSignature;
+    });
+
+const CsvMappingWizard: React.FC<CsvMappingWizardProps> = ({ onBack, onDone }) => {
+    const { t } = useTranslation();
+    const { loadFile, loadChargeRegistry, csvProfiles } = useData();
+    const { profiles, saveProfile, deleteProfile } = csvProfiles;
+
+    const [file, setFile] = useState<File | null>(null);
+    const [text, setText] = useState('');
+    const [draft, setDraft] = useState<ProfileDraft | null>(null);
+    const [profileId, setProfileId] = useState('');
+    const [profileName, setProfileName] = useState('');
+    const [saveAsProfile, setSaveAsProfile] = useState(true);
+    const [merge, setMerge] = useState(true);
+    const [importing, setImporting] = useState(false);
+
+    const applyProfile = (profile: CsvMappingProfile) => {
+        const { id, name, ...rest } = profile;
+        setDraft(rest);
+        setProfileId(id);
+        setProfileName(name);
+    };
+
+    const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+        const selected = e.target.files?.[0];
+        e.target.value = '';
+        if (!selected) return;
+
+        const content = await selected.text();
+        setFile(selected);
+        setText(content);
+
+        const match = findMatchingProfile(content, profiles);
+        if (match) {
+            applyProfile(match);
+        } else {
+            setDraft(guessCsvProfile(content, draft?.target || 'trips'));
+            setProfileId('');
+            setProfileName(selected.name.replace(/\.[^.]+$/, ''));
+        }
+    };
+
+    const handleTargetChange = (target: CsvImportTarget) => {
+        if (!draft || draft.target === target) return;
+        setDraft(guessCsvProfile(text, target));
+        setProfileId('');
+    };
+
+    const handleProfileSelect = (id: string) => {
+        const profile = profiles.find(p => p.id === id);
+        if (profile) {
+            applyProfile(profile);
+        } else if (draft) {
+            setDraft(guessCsvProfile(text, draft.target));
+            setProfileId('');
+        }
+    };
+
+    // Delimiter and header changes move the columns around, so the mapping is guessed again
+    const updateLayout = (changes: Partial<Pick<ProfileDraft, 'delimiter' | 'hasHeader'>>) => {
+        if (!draft) return;
+        const next = { ...draft, ...changes };
+        const { headers } = splitHeader(parseCsv(text, next.delimiter), next.hasHeader);
+        setDraft({
+            ...next,
+            mapping: guessColumnMapping(next.hasHeader ? headers : [], next.target),
+            headerSignature: next.hasHeader ? getHeaderSignature(headers) : undefined
+        });
+    };
+
+    const rows = useMemo(() => (draft ? parseCsv(text, draft.delimiter) : []), [text, draft?.delimiter]);
+    const { headers, dataRows } = useMemo(() => splitHeader(rows, draft?.hasHeader ?? true), [rows, draft?.hasHeader]);
+
+    // Live dry run of the current mapping
+    const result = useMemo(() => {
+        if (!draft) return null;
+        const profile = { ...draft, id: profileId, name: profileName };
+        try {
+            const mapped = draft.target === 'trips' ? applyTripMapping(rows, profile) : applyChargeMapping(rows, profile);
+            return { valid: mapped.totalRows - mapped.errors.length, errors: mapped.errors, error: null };
+        } catch (e: any) {
+            return { valid: 0, errors: [], error: e.message as string };
+        }
+    }, [draft, rows, profileId, profileName]);
+
+    const handleImport = async () => {
+        if (!file || !draft || !result || result.error) return;
+
+        let profile: CsvMappingProfile = { ...draft, id: profileId || 'csv-wizard', name: profileName || file.name };
+        if (saveAsProfile && profileName.trim()) {
+            profile = saveProfile({ ...draft, id: profileId || undefined, name: profileName.trim() });
+        }
+
+        setImporting(true);
+        try {
+            if (draft.target === 'trips') {
+                await loadFile(file, merge, createCsvProfileAdapter(profile));
+            } else {
+                await loadChargeRegistry(file, profile);
+            }
+            onDone();
+        } finally {
+            setImporting(false);
+        }
+    };
+
+    const fields = draft ? getCsvFields(draft.target) : [];
+    const mappedColumn = (index: number) => fields.find(f => draft?.mapping[f.key] === index);
+    const targetProfiles = profiles.filter(p => !draft || p.target === draft.target);
+
+    return (
+        <div className="space-y-4">
+            <div className="flex items-center gap-2">
+                <button onClick={onBack} aria-label={t('csvWizard.back')} className="text-slate-600 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white">
+                    <ChevronLeft className="w-5 h-5" />
+                </button>
+                <h3 id="upload-options-title" className="text-xl font-bold text-slate-900 dark:text-white">{t('csvWizard.title')}</h3>
+            </div>
+
+            {/* File picker */}
+            <label className="block cursor-pointer border-2 border-dashed border-slate-600 rounded-xl p-4 text-center hover:border-blue-500 transition-colors">
+                <input type="file" accept=".csv,.txt,text/csv,text/plain" className="hidden" onChange={handleFileChange} />
+                <FileText className="w-6 h-6 mx-auto mb-1 text-blue-500" />
+                <p className="text-sm text-slate-900 dark:text-white">{file ? file.name : t('csvWizard.selectFile')}</p>
+            </label>
+
+            {draft && (
+                <>
+                    {/* Target + profile */}
+                    <div className="grid grid-cols-2 gap-3">
+                        <div className="space-y-1">
+                            <label className={labelClass}>{t('csvWizard.target')}</label>
+                            <div className="flex gap-2">
+                                {(['trips', 'charges'] as CsvImportTarget[]).map(target => (
+                                    <button
+                                        key={target}
+                                        onClick={() => handleTargetChange(target)}
+                                        className={`flex-1 py-2 rounded-xl text-sm font-medium ${draft.target === target ? 'text-white' : 'bg-slate-200 dark:bg-slate-700 text-slate-900 dark:text-white'}`}
+                                        style={{ backgroundColor: draft.target === target ? BYD_RED : '' }}
+                                    >
+                                        {t(`csvWizard.targets.${target}`)}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                        <div className="space-y-1">
+                            <label className={labelClass}>{t('csvWizard.profile')}</label>
+                            <div className="flex gap-2">
+                                <select value={profileId} onChange={(e) => handleProfileSelect(e.target.value)} className={inputClass}>
+                                    <option value="">{t('csvWizard.newProfile')}</option>
+                                    {targetProfiles.map(p => (
+                                        <option key={p.id} value={p.id}>{p.name}</option>
+                                    ))}
+                                </select>
+                                {profileId && (
+                                    <button
+                                        onClick={() => { deleteProfile(profileId); setProfileId(''); }}
+                                        aria-label={t('csvWizard.deleteProfile')}
+                                        className="px-2 text-red-400 hover:text-red-500"
+                                    >
+                                        <Trash2 className="w-4 h-4" />
+                                    </button>
+                                )}
+                            </div>
+                        </div>
+                    </div>
+
+                    {/* Format options */}
+                    <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                        <div className="space-y-1">
+                            <label className={labelClass}>{t('csvWizard.delimiter')}</label>
+                            <select value={draft.delimiter} onChange={(e) => updateLayout({ delimiter: e.target.value as ProfileDraft['delimiter'] })} className={inputClass}>
+                                {CSV_DELIMITERS.map(d => <option key={d} value={d}>{DELIMITER_LABELS[d]}</option>)}
+                            </select>
+                        </div>
+                        <div className="space-y-1">
+                            <label className={labelClass}>{t('csvWizard.dateFormat')}</label>
+                            <select value={draft.dateFormat} onChange={(e) => setDraft({ ...draft, dateFormat: e.target.value as ProfileDraft['dateFormat'] })} className={inputClass}>
+                                {CSV_DATE_FORMATS.map(f => <option key={f} value={f}>{t(`csvWizard.dateFormats.${f}`, f)}</option>)}
+                            </select>
+                        </div>
+                        <div className="space-y-1">
+                            <label className={labelClass}>{t('csvWizard.distanceUnit')}</label>
+                            <select value={draft.units.distance} onChange={(e) => setDraft({ ...draft, units: { ...draft.units, distance: e.target.value as 'km' | 'mi' } })} className={inputClass}>
+                                <option value="km">km</option>
+                                <option value="mi">mi</option>
+                            </select>
+                        </div>
+                        <div className="space-y-1">
+                            <label className={labelClass}>{t('csvWizard.energyUnit')}</label>
+                            <select value={draft.units.energy} onChange={(e) => setDraft({ ...draft, units: { ...draft.units, energy: e.target.value as 'kWh' | 'Wh' } })} className={inputClass}>
+                                <option value="kWh">kWh</option>
+                                <option value="Wh">Wh</option>
+                            </select>
+                        </div>
+                        {draft.target === 'trips' && (
+                            <div className="space-y-1">
+                                <label className={labelClass}>{t('csvWizard.durationUnit')}</label>
+                                <select value={draft.units.duration} onChange={(e) => setDraft({ ...draft, units: { ...draft.units, duration: e.target.value as 'min' | 's' | 'h' } })} className={inputClass}>
+                                    <option value="min">min</option>
+                                    <option value="s">s</option>
+                                    <option value="h">h</option>
+                                </select>
+                            </div>
+                        )}
+                        <label className="flex items-center gap-2 text-sm text-slate-900 dark:text-white self-end pb-2">
+                            <input type="checkbox" checked={draft.hasHeader} onChange={(e) => updateLayout({ hasHeader: e.target.checked })} />
+                            {t('csvWizard.hasHeader')}
+                        </label>
+                    </div>
+
+                    {/* Column mapping */}
+                    <div className="grid grid-cols-2 gap-3">
+                        {fields.map(field => (
+                            <div key={field.key} className="space-y-1">
+                                <label className={labelClass}>
+                                    {t(`csvWizard.fields.${field.key}`)}{field.required && ' *'}
+                                </label>
+                                <select
+                                    value={draft.mapping[field.key] ?? ''}
+                                    onChange={(e) => setDraft({
+                                        ...draft,
+                                        mapping: { ...draft.mapping, [field.key]: e.target.value === '' ? null : Number(e.target.value) }
+                                    })}
+                                    className={inputClass}
+                                >
+                                    <option value="">{t('csvWizard.notMapped')}</option>
+                                    {headers.map((h, i) => <option key={i} value={i}>{h || `#${i + 1}`}</option>)}
+                                </select>
+                            </div>
+                        ))}
+                    </div>
+
+                    {/* Preview */}
+                    <div className="overflow-x-auto rounded-xl border border-slate-200 dark:border-slate-700">
+                        <table className="w-full text-xs text-left text-slate-900 dark:text-white">
+                            <thead className="bg-slate-100 dark:bg-slate-700/50">
+                                <tr>
+                                    {headers.map((h, i) => {
+                                        const field = mappedColumn(i);
+                                        return (
+                                            <th key={i} className="px-2 py-1 whitespace-nowrap">
+                                                <div>{h}</div>
+                                                {field && <div className="font-normal" style={{ color: BYD_RED }}>{t(`csvWizard.fields.${field.key}`)}</div>}
+                                            </th>
+                                        );
+                                    })}
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {dataRows.slice(0, PREVIEW_ROWS).map(row => (
+                                    <tr key={row.line} className="border-t border-slate-200 dark:border-slate-700">
+                                        {headers.map((_, i) => (
+                                            <td key={i} className={`px-2 py-1 whitespace-nowrap ${mappedColumn(i) ? '' : 'text-slate-400'}`}>{row.values[i]}</td>
+                                        ))}
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+
+                    {/* Dry run summary */}
+                    {result && (
+                        <div className="text-sm">
+                            {result.error ? (
+                                <p className="text-red-400">{result.error}</p>
+                            ) : (
+                                <>
+                                    <p className="text-slate-900 dark:text-white">
+                                        {t('csvWizard.summary', { valid: result.valid, invalid: result.errors.length })}
+                                    </p>
+                                    {result.errors.slice(0, 3).map(err => (
+                                        <p key={err.line} className="text-xs text-amber-500">
+                                            {t('csvWizard.rowError', { line: err.line, message: err.message })}
+                                        </p>
+                                    ))}
+                                </>
+                            )}
+                        </div>
+                    )}
+
+                    {/* Profile + import options */}
+                    <div className="space-y-2">
+                        <label className="flex items-center gap-2 text-sm text-slate-900 dark:text-white">
+                            <input type="checkbox" checked={saveAsProfile} onChange={(e) => setSaveAsProfile(e.target.checked)} />
+                            {t('csvWizard.saveProfile')}
+                        </label>
+                        {saveAsProfile && (
+                            <input
+                                type="text"
+                                value={profileName}
+                                onChange={(e) => setProfileName(e.target.value)}
+                                placeholder={t('csvWizard.profileName')}
+                                className={inputClass}
+                            />
+                        )}
+                        {draft.target === 'trips' && (
+                            <label className="flex items-center gap-2 text-sm text-slate-900 dark:text-white">
+                                <input type="checkbox" checked={merge} onChange={(e) => setMerge(e.target.checked)} />
+                                {t('upload.mergeExisting')}
+                            </label>
+                        )}
+                    </div>
+                </>
+            )}
+
+            <div className="flex gap-3">
+                <button
+                    onClick={onBack}
+                    className="flex-1 py-2 bg-slate-200 dark:bg-slate-700 text-slate-900 dark:text-white rounded-xl hover:bg-slate-300 dark:hover:bg-slate-600"
+                >
+                    {t('common.cancel')}
+                </button>
+                <button
+                    onClick={handleImport}
+                    disabled={!draft || !result || !!result.error || result.valid === 0 || importing}
+                    className="flex-1 py-2 rounded-xl font-medium text-white disabled:opacity-50"
+                    style={{ backgroundColor: BYD_RED }}
+                >
+                    {t('csvWizard.import')}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default CsvMappingWizard;
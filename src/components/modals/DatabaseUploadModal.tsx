@@ -1,14 +1,21 @@
-import React, { ChangeEvent } from 'react';
+import React, { ChangeEvent, useState } from 'react';
+import { toast } from 'react-hot-toast';
 import { useTranslation } from 'react-i18next';
-import { Upload, Download, FileText, Trash2, Database } from '../Icons';
+import { Upload, Download, FileText, Trash2, Database, Clock } from '../Icons';
 import ModalHeader from '../common/ModalHeader';
+import MileageReportModal from './MileageReportModal';
+import RestorePointsModal from './RestorePointsModal';
 import { useData } from '../../providers/DataProvider';
 import { useCar } from '../../context/CarContext';
 import { Capacitor } from '@capacitor/core';
+import { ExportFormat, ExportScope } from '@core/dataExport';
 
 // Electric blue color for accent buttons
 const ELECTRIC_BLUE = '#3b82f6';
 
+const EXPORT_SCOPES: ExportScope[] = ['trips', 'charges', 'both'];
+const EXPORT_FORMATS: ExportFormat[] = ['csv', 'json'];
+
 /**
  * Database upload/management modal
  */
@@ -25,12 +32,23 @@ const DatabaseUploadModal: React.FC = () => {
         replaceCharges,
         loadChargeRegistry,
         exportCharges,
+        exportRecords,
         trips,
-        charges
+        charges,
+        filterType,
+        undoAction,
+        redoAction,
+        undo,
+        redo
     } = useData();
 
     const { deleteCar, activeCarId, cars } = useCar();
 
+    const [exportScope, setExportScope] = useState<ExportScope>('both');
+    const [exportFormat, setExportFormat] = useState<ExportFormat>('csv');
+    const [showMileageReport, setShowMileageReport] = useState(false);
+    const [showRestorePoints, setShowRestorePoints] = useState(false);
+
     // Derived State
     const isOpen = modals.history;
     const sqlReady = !!database;
@@ -59,6 +77,16 @@ const DatabaseUploadModal: React.FC = () => {
         e.target.value = '';
     };
 
+    const handleUndo = () => {
+        const action = undo();
+        if (action) toast.success(t('journal.undone', { action: t(`journal.actions.${action}`) }));
+    };
+
+    const handleRedo = () => {
+        const action = redo();
+        if (action) toast.success(t('journal.redone', { action: t(`journal.actions.${action}`) }));
+    };
+
     return (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4 animate-modal-backdrop" onClick={onClose}>
             <div className="absolute inset-0 bg-black/50 backdrop-blur-sm"></div>
@@ -151,7 +179,7 @@ const DatabaseUploadModal: React.FC = () => {
                             {cars.length > 0 && (
                                 <button
                                     onClick={() => {
-                                        if (window.confirm(t('confirmations.deleteCar', '¿Estás seguro de que quieres eliminar este coche y todos sus datos?'))) {
+                                        if (window.confirm(t('confirmations.deleteCar', '¿Eliminar este coche y todos sus datos? Esta acción no se puede deshacer: también se borran sus puntos de restauración.'))) {
                                             clearData();
                                             replaceCharges([]);
                                             if (activeCarId) {
@@ -190,6 +218,104 @@ const DatabaseUploadModal: React.FC = () => {
                             )}
                         </div>
                     </div>
+
+                    {/* Records Export Section (CSV / JSON) */}
+                    {(hasData || hasCharges) && (
+                        <div className="bg-slate-50 dark:bg-slate-800/50 rounded-xl p-4 border border-slate-100 dark:border-slate-700">
+                            <h3 className="text-sm font-semibold text-slate-900 dark:text-white mb-3 flex items-center gap-2">
+                                <span className="w-2 h-2 rounded-full bg-blue-500"></span>
+                                {t('upload.exportSection')}
+                            </h3>
+                            <div className="space-y-2">
+                                <div className="grid grid-cols-3 gap-2">
+                                    {EXPORT_SCOPES.map(scope => (
+                                        <button
+                                            key={scope}
+                                            onClick={() => setExportScope(scope)}
+                                            className={`py-2 rounded-lg text-xs font-medium border transition-colors ${exportScope === scope
+                                                ? 'bg-blue-500 border-blue-500 text-white'
+                                                : 'bg-white dark:bg-slate-700 border-slate-200 dark:border-slate-600 text-slate-700 dark:text-slate-300'
+                                                }`}
+                                        >
+                                            {t(`upload.exportScope.${scope}`)}
+                                        </button>
+                                    ))}
+                                </div>
+                                <div className="grid grid-cols-2 gap-2">
+                                    {EXPORT_FORMATS.map(format => (
+                                        <button
+                                            key={format}
+                                            onClick={() => setExportFormat(format)}
+                                            className={`py-2 rounded-lg text-xs font-medium border transition-colors ${exportFormat === format
+                                                ? 'bg-blue-500 border-blue-500 text-white'
+                                                : 'bg-white dark:bg-slate-700 border-slate-200 dark:border-slate-600 text-slate-700 dark:text-slate-300'
+                                                }`}
+                                        >
+                                            {format.toUpperCase()}
+                                        </button>
+                                    ))}
+                                </div>
+                                <p className="text-[11px] text-slate-500 dark:text-slate-400">
+                                    {filterType === 'all' ? t('upload.exportAllData') : t('upload.exportFiltered')}
+                                </p>
+                                <button
+                                    onClick={() => { if (exportRecords(exportScope, exportFormat)) onClose(); }}
+                                    className="w-full py-2.5 px-4 rounded-lg text-sm font-medium text-white transition-colors flex items-center justify-center gap-2"
+                                    style={{ backgroundColor: ELECTRIC_BLUE }}
+                                >
+                                    <Download className="w-4 h-4" />
+                                    {t('upload.exportRecords')}
+                                </button>
+                                {hasData && (
+                                    <button
+                                        onClick={() => setShowMileageReport(true)}
+                                        className="w-full py-2.5 px-4 rounded-lg text-sm font-medium text-slate-700 dark:text-slate-300 bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 hover:bg-slate-50 dark:hover:bg-slate-600/80 transition-colors flex items-center justify-center gap-2"
+                                    >
+                                        <FileText className="w-4 h-4" />
+                                        {t('mileage.open')}
+                                    </button>
+                                )}
+                            </div>
+                        </div>
+                    )}
+
+                    {/* Undo/redo and restore points */}
+                    <div className="bg-slate-50 dark:bg-slate-800/50 rounded-xl p-4 border border-slate-100 dark:border-slate-700">
+                        <h3 className="text-sm font-semibold text-slate-900 dark:text-white mb-3 flex items-center gap-2">
+                            <span className="w-2 h-2 rounded-full bg-indigo-500"></span>
+                            {t('journal.section')}
+                        </h3>
+                        <div className="space-y-2">
+                            <div className="grid grid-cols-2 gap-2">
+                                <button
+                                    onClick={handleUndo}
+                                    disabled={!undoAction}
+                                    title={undoAction ? t(`journal.actions.${undoAction}`) : t('journal.nothingToUndo')}
+                                    className="py-2.5 px-3 rounded-lg text-sm font-medium text-slate-700 dark:text-slate-300 bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 hover:bg-slate-50 dark:hover:bg-slate-600/80 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                                >
+                                    {t('journal.undo')}
+                                </button>
+                                <button
+                                    onClick={handleRedo}
+                                    disabled={!redoAction}
+                                    title={redoAction ? t(`journal.actions.${redoAction}`) : undefined}
+                                    className="py-2.5 px-3 rounded-lg text-sm font-medium text-slate-700 dark:text-slate-300 bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 hover:bg-slate-50 dark:hover:bg-slate-600/80 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                                >
+                                    {t('journal.redo')}
+                                </button>
+                            </div>
+                            <p className="text-[11px] text-slate-500 dark:text-slate-400">
+                                {undoAction ? t('journal.lastChange', { action: t(`journal.actions.${undoAction}`) }) : t('journal.nothingToUndo')}
+                            </p>
+                            <button
+                                onClick={() => setShowRestorePoints(true)}
+                                className="w-full py-2.5 px-4 rounded-lg text-sm font-medium text-slate-700 dark:text-slate-300 bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 hover:bg-slate-50 dark:hover:bg-slate-600/80 transition-colors flex items-center justify-center gap-2"
+                            >
+                                <Clock className="w-4 h-4" />
+                                {t('journal.restorePoints')}
+                            </button>
+                        </div>
+                    </div>
                 </div>
 
                 {!isNative && (
@@ -198,6 +324,9 @@ const DatabaseUploadModal: React.FC = () => {
                     </p>
                 )}
             </div>
+
+            {showMileageReport && <MileageReportModal isOpen onClose={() => setShowMileageReport(false)} />}
+            {showRestorePoints && <RestorePointsModal isOpen onClose={() => setShowRestorePoints(false)} />}
         </div>
     );
 };
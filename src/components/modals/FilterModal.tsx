@@ -4,6 +4,7 @@ import React from 'react';
 import { useTranslation } from 'react-i18next';
 import { BYD_RED } from '@core/constants';
 import { formatMonth } from '@core/dateUtils';
+import { UNTAGGED_TAG_ID, localizeTripTags } from '@core/tripTags';
 import { Filter } from '../Icons';
 import ModalHeader from '../common/ModalHeader';
 
@@ -24,6 +25,9 @@ const FilterModal: React.FC = () => {
         setDateFrom,
         dateTo,
         setDateTo,
+        tagFilter,
+        setTagFilter,
+        settings,
         months,
         trips: rawTrips,
         filtered,
@@ -36,6 +40,7 @@ const FilterModal: React.FC = () => {
 
     const rawTripsCount = rawTrips ? rawTrips.length : 0;
     const filteredCount = filtered ? filtered.length : 0;
+    const tripTags = localizeTripTags(settings?.tripTags || [], t);
 
 
     if (!isOpen) return null;
@@ -136,6 +141,32 @@ const FilterModal: React.FC = () => {
                         </div>
                     )}
 
+                    {/* Tag Selector (combines with the date filter) */}
+                    {tripTags.length > 0 && (
+                        <div className="space-y-2">
+                            <label className="text-slate-600 dark:text-slate-400 text-sm">{t('tags.title')}:</label>
+                            <div className="flex flex-wrap gap-2">
+                                {[
+                                    { id: '', name: t('tags.all'), color: BYD_RED },
+                                    ...tripTags,
+                                    { id: UNTAGGED_TAG_ID, name: t('tags.untagged'), color: '#64748b' }
+                                ].map(tag => (
+                                    <button
+                                        key={tag.id || 'all'}
+                                        onClick={() => setTagFilter(tag.id)}
+                                        className={`px-3 py-1.5 rounded-full text-xs font-medium transition-colors ${tagFilter === tag.id
+                                            ? 'text-white'
+                                            : 'bg-slate-200 dark:bg-slate-700 text-slate-900 dark:text-white'
+                                            }`}
+                                        style={{ backgroundColor: tagFilter === tag.id ? tag.color : '' }}
+                                    >
+                                        {tag.name}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
                     {/* Results Count */}
                     {filteredCount !== rawTripsCount && (
                         <div className="pt-4 border-t border-slate-200 dark:border-slate-700">
@@ -0,0 +1,195 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import ModalPortal from '../common/ModalPortal';
+import { X, BarChart3 } from '../Icons';
+import { Chart as ChartJS, CategoryScale, LinearScale, BarElement, Title, Tooltip, Legend } from 'chart.js';
+import { Bar } from 'react-chartjs-2';
+import { useData } from '@/providers/DataProvider';
+import { useFleetData } from '@hooks/useFleetData';
+import { FleetCarStats, buildFleetComparison } from '@core/fleetComparison';
+import { formatMonth } from '@core/dateUtils';
+import { FUEL_ENERGY_EQUIVALENT_KWH } from '@core/constants';
+
+ChartJS.register(CategoryScale, LinearScale, BarElement, Title, Tooltip, Legend);
+
+const CAR_COLORS = ['#EA0029', '#0ea5e9', '#10b981', '#f59e0b', '#8b5cf6', '#64748b'];
+const CHART_MONTHS = 12;
+
+interface FleetComparisonModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+interface MetricRow {
+    label: string;
+    value: (car: FleetCarStats) => number | null;
+    format: (value: number) => string;
+    total?: number;
+    best?: 'min' | 'max';
+}
+
+/**
+ * Every car side by side: efficiency (fuel as kWh equivalent), cost per km, monthly distance and SoH
+ */
+const FleetComparisonModal: React.FC<FleetComparisonModalProps> = ({ isOpen, onClose }) => {
+    const { t, i18n } = useTranslation();
+    const { trips, charges, settings } = useData();
+    const { fleet, isLoading, loadError } = useFleetData(isOpen, { trips, charges, settings });
+
+    const comparison = React.useMemo(
+        () => isOpen ? buildFleetComparison(fleet, i18n.language) : null,
+        [isOpen, fleet, i18n.language]
+    );
+
+    if (!isOpen || !comparison) return null;
+
+    const { cars, totals } = comparison;
+    const hasHybrid = cars.some(c => c.isHybrid);
+
+    const rows: MetricRow[] = [
+        { label: t('fleet.totalKm'), value: c => c.totalKm, format: v => `${v.toLocaleString()} km`, total: totals.totalKm },
+        { label: t('fleet.efficiency'), value: c => c.drivenKm > 0 ? c.efficiency : null, format: v => `${v.toFixed(1)} kWh`, total: totals.efficiency, best: 'min' },
+        ...(hasHybrid ? [
+            { label: t('fleet.electricEfficiency'), value: (c: FleetCarStats) => c.drivenKm > 0 ? c.electricEfficiency : null, format: (v: number) => `${v.toFixed(1)} kWh` },
+            { label: t('fleet.fuelEfficiency'), value: (c: FleetCarStats) => c.isHybrid ? c.fuelEfficiency : null, format: (v: number) => `${v.toFixed(1)} L` },
+            { label: t('fleet.electricShare'), value: (c: FleetCarStats) => c.drivenKm > 0 ? c.electricShare : null, format: (v: number) => `${v.toFixed(0)}%` }
+        ] : []),
+        { label: t('fleet.costPerKm'), value: c => c.drivenKm > 0 ? c.costPerKm : null, format: v => `${v.toFixed(3)} €`, total: totals.costPerKm, best: 'min' },
+        { label: t('fleet.totalCost'), value: c => c.totalCost, format: v => `${v.toFixed(2)} €`, total: totals.totalCost },
+        { label: t('fleet.monthlyKm'), value: c => c.monthly.length > 0 ? c.monthlyKm : null, format: v => `${v.toLocaleString()} km` },
+        { label: t('fleet.soh'), value: c => c.soh, format: v => `${v.toFixed(1)}%`, best: 'max' }
+    ];
+
+    const bestOf = (row: MetricRow): number | null => {
+        if (!row.best) return null;
+        const values = cars.map(row.value).filter((v): v is number => v !== null);
+        if (values.length < 2) return null;
+        return row.best === 'min' ? Math.min(...values) : Math.max(...values);
+    };
+
+    const months = comparison.months.slice(-CHART_MONTHS);
+    const chartData = {
+        labels: months.map(m => formatMonth(m, i18n.language)),
+        datasets: cars.map((car, i) => ({
+            label: car.name,
+            data: months.map(m => car.monthly.find(entry => entry.month === m)?.km || 0),
+            backgroundColor: CAR_COLORS[i % CAR_COLORS.length],
+            borderRadius: 4
+        }))
+    };
+
+    const chartOptions = {
+        responsive: true,
+        plugins: {
+            legend: { position: 'bottom' as const },
+            title: { display: true, text: t('fleet.monthlyDistance') }
+        },
+        scales: {
+            y: { beginAtZero: true, title: { display: true, text: 'km' } }
+        }
+    };
+
+    return (
+        <ModalPortal>
+            <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 animate-modal-backdrop" onClick={onClose}>
+                <div className="absolute inset-0 bg-black/60 backdrop-blur-sm"></div>
+
+                <div
+                    role="dialog"
+                    aria-modal="true"
+                    className="relative bg-white dark:bg-slate-800 rounded-3xl max-w-3xl w-full shadow-2xl animate-modal-content overflow-hidden border border-slate-200 dark:border-slate-700 flex flex-col max-h-[85vh]"
+                    onClick={(e) => e.stopPropagation()}
+                >
+                    {/* Header */}
+                    <div className="flex justify-between items-center p-5 border-b border-slate-100 dark:border-slate-700 bg-white dark:bg-slate-800 sticky top-0 z-10">
+                        <div className="flex items-center gap-3">
+                            <div className="w-10 h-10 rounded-full bg-sky-100 dark:bg-sky-900/30 flex items-center justify-center">
+                                <BarChart3 className="w-5 h-5 text-sky-600 dark:text-sky-400" />
+                            </div>
+                            <div>
+                                <h2 className="text-lg font-bold text-slate-900 dark:text-white">{t('fleet.title')}</h2>
+                                <p className="text-xs text-slate-500">{t('fleet.carCount', { count: cars.length })}</p>
+                            </div>
+                        </div>
+                        <button
+                            onClick={onClose}
+                            className="p-2 rounded-full hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors"
+                        >
+                            <X className="w-5 h-5 text-slate-500" />
+                        </button>
+                    </div>
+
+                    <div className="p-5 overflow-y-auto custom-scrollbar space-y-5">
+                        {loadError && (
+                            <div role="alert" className="text-xs px-3 py-2 rounded-lg text-red-600 bg-red-50 dark:bg-red-900/20">
+                                {t('fleet.loadError')}
+                            </div>
+                        )}
+                        {isLoading ? (
+                            <div className="flex items-center gap-2 text-xs px-3 py-2 rounded-lg text-blue-600 bg-blue-50 dark:bg-blue-900/20 animate-pulse">
+                                <span>{t('common.loading')}</span>
+                            </div>
+                        ) : (
+                            <>
+                                <div className="overflow-x-auto rounded-xl border border-slate-200 dark:border-slate-700">
+                                    <table className="w-full text-sm text-left">
+                                        <thead className="bg-slate-50 dark:bg-slate-800 text-slate-500 text-xs">
+                                            <tr>
+                                                <th className="px-4 py-3"></th>
+                                                {cars.map((car, i) => (
+                                                    <th key={car.carId} className="px-4 py-3 text-right whitespace-nowrap">
+                                                        <span className="inline-block w-2 h-2 rounded-full mr-1.5" style={{ backgroundColor: CAR_COLORS[i % CAR_COLORS.length] }} />
+                                                        <span className="font-semibold text-slate-900 dark:text-white">{car.name}</span>
+                                                        <span className="block text-[10px] uppercase">{car.isHybrid ? 'PHEV' : 'EV'}</span>
+                                                    </th>
+                                                ))}
+                                                {cars.length > 1 && <th className="px-4 py-3 text-right uppercase">{t('fleet.fleet')}</th>}
+                                            </tr>
+                                        </thead>
+                                        <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+                                            {rows.map(row => {
+                                                const best = bestOf(row);
+                                                return (
+                                                    <tr key={row.label} className="bg-white dark:bg-slate-900">
+                                                        <td className="px-4 py-3 text-slate-500 whitespace-nowrap">{row.label}</td>
+                                                        {cars.map(car => {
+                                                            const value = row.value(car);
+                                                            return (
+                                                                <td
+                                                                    key={car.carId}
+                                                                    className={`px-4 py-3 text-right whitespace-nowrap ${value !== null && value === best
+                                                                        ? 'font-bold text-emerald-600 dark:text-emerald-400'
+                                                                        : 'text-slate-900 dark:text-white'
+                                                                        }`}
+                                                                >
+                                                                    {value === null ? '—' : row.format(value)}
+                                                                </td>
+                                                            );
+                                                        })}
+                                                        {cars.length > 1 && (
+                                                            <td className="px-4 py-3 text-right whitespace-nowrap text-slate-500">
+                                                                {row.total === undefined ? '' : row.format(row.total)}
+                                                            </td>
+                                                        )}
+                                                    </tr>
+                                                );
+                                            })}
+                                        </tbody>
+                                    </table>
+                                </div>
+
+                                {months.length > 0 && <Bar data={chartData} options={chartOptions} />}
+
+                                <p className="text-[10px] text-slate-400 px-1">
+                                    {t('fleet.normalisation', { kwh: FUEL_ENERGY_EQUIVALENT_KWH })}
+                                </p>
+                            </>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </ModalPortal>
+    );
+};
+
+export default FleetComparisonModal;
@@ -1,16 +1,17 @@
 import React, { useState } from 'react';
 import { useTranslation } from 'react-i18next';
-import { X, Activity, Battery, Zap, AlertCircle, CheckCircle, Clock } from '../Icons';
-import { Anomaly } from '@/services/AnomalyService';
+import { X, Activity, Battery, Zap, AlertCircle, CheckCircle, Clock, Check } from '../Icons';
+import { AnomalyLogEntry, AnomalyStatus } from '@/types';
+import { SNOOZE_DAYS } from '@core/anomalyLog';
 import AlertHistoryModal from './AlertHistoryModal';
 import ModalPortal from '../common/ModalPortal';
 
 interface HealthReportModalProps {
     isOpen: boolean;
     onClose: () => void;
-    anomalies: Anomaly[];
-    historyAnomalies?: Anomaly[];
-    onAcknowledge?: (id: string) => void;
+    anomalies: AnomalyLogEntry[];
+    historyAnomalies?: AnomalyLogEntry[];
+    onStatusChange?: (id: string, status: AnomalyStatus, snoozeDays?: number) => void;
     onDelete?: (id: string) => void;
 }
 
@@ -19,11 +20,12 @@ const HealthReportModal: React.FC<HealthReportModalProps> = ({
     onClose,
     anomalies,
     historyAnomalies = [],
-    onAcknowledge,
+    onStatusChange,
     onDelete
 }) => {
-    const { t } = useTranslation();
+    const { t, i18n } = useTranslation();
     const [showHistory, setShowHistory] = useState(false);
+    const [snoozingId, setSnoozingId] = useState<string | null>(null);
 
     if (!isOpen) return null;
 
@@ -47,17 +49,17 @@ const HealthReportModal: React.FC<HealthReportModalProps> = ({
                 </div>
             ) : (
                 <div className="space-y-3">
-                    {items.map((item: Anomaly) => (
+                    {items.map((item: AnomalyLogEntry) => (
                         <div key={item.id} className={`relative rounded-xl p-4 border ${item.severity === 'critical' ? 'bg-red-50 border-red-100 dark:bg-red-900/20 dark:border-red-900/50' :
                             item.severity === 'warning' ? 'bg-amber-50 border-amber-100 dark:bg-amber-900/20 dark:border-amber-900/50' :
                                 'bg-blue-50 border-blue-100 dark:bg-blue-900/20 dark:border-blue-900/50'
                             }`}>
-                            <div className="flex justify-between items-start pr-8">
+                            <div className="flex justify-between items-start pr-24">
                                 <h4 className={`font-bold text-sm ${item.severity === 'critical' ? 'text-red-700 dark:text-red-400' :
                                     item.severity === 'warning' ? 'text-amber-700 dark:text-amber-400' :
                                         'text-blue-700 dark:text-blue-400'
                                     }`}>
-                                    {item.title}
+                                    {t(item.title, { ...item.params, defaultValue: item.title })}
                                 </h4>
                                 {item.value && (
                                     <span className="text-xs font-mono font-bold px-2 py-0.5 bg-white/50 dark:bg-black/20 rounded">
@@ -66,18 +68,52 @@ const HealthReportModal: React.FC<HealthReportModalProps> = ({
                                 )}
                             </div>
                             <p className="text-xs mt-1 text-slate-600 dark:text-slate-300 leading-relaxed max-w-[90%]">
-                                {item.description}
+                                {t(item.description, { ...item.params, defaultValue: item.description })}
+                            </p>
+                            <p className="text-[10px] mt-1 text-slate-400">
+                                {t('health.firstSeen')} {new Date(item.firstSeen).toLocaleDateString(i18n.language)}
+                                {item.lastSeen - item.firstSeen > 60000 && ` · ${t('health.lastSeen')} ${new Date(item.lastSeen).toLocaleDateString(i18n.language)}`}
                             </p>
 
-                            {/* Acknowledge Button */}
-                            {onAcknowledge && (
-                                <button
-                                    onClick={() => onAcknowledge(item.id)}
-                                    className="absolute top-2 right-2 p-1.5 rounded-lg hover:bg-black/10 dark:hover:bg-white/10 transition-colors text-current opacity-60 hover:opacity-100"
-                                    title={t('common.dismiss', 'Entendido / Ocultar')}
-                                >
-                                    <CheckCircle className="w-5 h-5" />
-                                </button>
+                            {/* Acknowledge / Snooze / Resolve */}
+                            {onStatusChange && (
+                                <div className="absolute top-2 right-2 flex items-center">
+                                    <button
+                                        onClick={() => setSnoozingId(snoozingId === item.id ? null : item.id)}
+                                        className="p-1.5 rounded-lg hover:bg-black/10 dark:hover:bg-white/10 transition-colors text-current opacity-60 hover:opacity-100"
+                                        title={t('health.snooze')}
+                                    >
+                                        <Clock className="w-4 h-4" />
+                                    </button>
+                                    <button
+                                        onClick={() => onStatusChange(item.id, 'resolved')}
+                                        className="p-1.5 rounded-lg hover:bg-black/10 dark:hover:bg-white/10 transition-colors text-current opacity-60 hover:opacity-100"
+                                        title={t('health.resolve')}
+                                    >
+                                        <Check className="w-4 h-4" />
+                                    </button>
+                                    <button
+                                        onClick={() => onStatusChange(item.id, 'acknowledged')}
+                                        className="p-1.5 rounded-lg hover:bg-black/10 dark:hover:bg-white/10 transition-colors text-current opacity-60 hover:opacity-100"
+                                        title={t('common.dismiss', 'Entendido / Ocultar')}
+                                    >
+                                        <CheckCircle className="w-5 h-5" />
+                                    </button>
+                                </div>
+                            )}
+                            {onStatusChange && snoozingId === item.id && (
+                                <div className="flex items-center gap-1.5 mt-2">
+                                    <span className="text-[10px] text-slate-500">{t('health.snoozeFor')}</span>
+                                    {SNOOZE_DAYS.map(days => (
+                                        <button
+                                            key={days}
+                                            onClick={() => { onStatusChange(item.id, 'snoozed', days); setSnoozingId(null); }}
+                                            className="px-2 py-0.5 rounded text-[10px] font-medium bg-white/70 dark:bg-black/20 hover:bg-white dark:hover:bg-black/40"
+                                        >
+                                            {t('health.days', { count: days })}
+                                        </button>
+                                    ))}
+                                </div>
                             )}
                         </div>
                     ))}
@@ -0,0 +1,136 @@
+// BYD Stats - Import Report Modal
+// Shows what happened to each row of the last trip or charge import
+
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { AlertTriangle, CheckCircle, Download, FileText } from '../Icons';
+import { useData } from '../../providers/DataProvider';
+import ModalHeader from '../common/ModalHeader';
+import { rejectedRowsToCsv } from '@core/importReport';
+
+const MAX_VISIBLE_ROWS = 200;
+
+const ImportReportModal: React.FC = () => {
+    const { t } = useTranslation();
+    const { closeModal, lastImportReport: report } = useData();
+
+    const onClose = () => closeModal('importReport');
+
+    if (!report) return null;
+
+    const downloadRejected = () => {
+        const blob = new Blob([rejectedRowsToCsv(report)], { type: 'text/csv;charset=utf-8' });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `${report.fileName.replace(/\.[^.]+$/, '')}_rechazadas.csv`;
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+        URL.revokeObjectURL(url);
+    };
+
+    const stats = [
+        { label: t('importReport.total'), value: report.totalRows, color: 'text-slate-900 dark:text-white' },
+        { label: t('importReport.accepted'), value: report.accepted, color: 'text-green-500' },
+        { label: t('importReport.merged'), value: report.merged, color: 'text-blue-500' },
+        { label: t('importReport.duplicates'), value: report.duplicates, color: 'text-slate-500' },
+        { label: t('importReport.rejected'), value: report.rejected.length, color: 'text-red-500' }
+    ];
+
+    return (
+        <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4 animate-modal-backdrop" onClick={onClose}>
+            <div
+                className="bg-white dark:bg-slate-800 rounded-2xl p-6 w-full max-w-lg max-h-[85vh] flex flex-col border border-slate-200 dark:border-slate-700 animate-modal-content"
+                onClick={(e) => e.stopPropagation()}
+                role="dialog"
+                aria-modal="true"
+                aria-labelledby="import-report-title"
+            >
+                <ModalHeader
+                    id="import-report-title"
+                    className="mb-4"
+                    title={t('importReport.title')}
+                    Icon={FileText}
+                    onClose={onClose}
+                />
+
+                <p className="text-sm text-slate-500 dark:text-slate-400 mb-4 truncate" title={report.fileName}>
+                    {report.fileName} · {report.source}
+                </p>
+
+                <div className="grid grid-cols-5 gap-2 mb-4">
+                    {stats.map(stat => (
+                        <div key={stat.label} className="bg-slate-100 dark:bg-slate-700/50 rounded-xl p-2 text-center">
+                            <p className={`text-lg font-bold ${stat.color}`}>{stat.value}</p>
+                            <p className="text-[10px] text-slate-500 dark:text-slate-400">{stat.label}</p>
+                        </div>
+                    ))}
+                </div>
+
+                {report.rejected.length === 0 ? (
+                    <div className="flex items-center gap-2 p-3 bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-300 rounded-xl text-sm">
+                        <CheckCircle className="w-5 h-5 shrink-0" />
+                        <p>{t('importReport.noRejected')}</p>
+                    </div>
+                ) : (
+                    <>
+                        <div className="flex items-center gap-2 mb-2 text-sm text-amber-700 dark:text-amber-300">
+                            <AlertTriangle className="w-4 h-4 shrink-0" />
+                            <p>{t('importReport.rejectedHint')}</p>
+                        </div>
+                        <div className="flex-1 overflow-y-auto space-y-2 min-h-0">
+                            {report.rejected.slice(0, MAX_VISIBLE_ROWS).map((row, i) => (
+                                <div key={`${row.line}-${i}`} className="p-2 rounded-lg bg-red-50 dark:bg-red-900/10 border border-red-200 dark:border-red-900/40 text-xs">
+                                    <p className="font-medium text-red-700 dark:text-red-300">
+                                        {t('importReport.line', { line: row.line })}
+                                    </p>
+                                    {row.issues && row.issues.length > 0 ? (
+                                        <ul className="mt-1 space-y-0.5 text-slate-700 dark:text-slate-300">
+                                            {row.issues.map((issue, j) => (
+                                                <li key={j}>
+                                                    {issue.path && <span className="font-mono">{issue.path}: </span>}
+                                                    {issue.message}
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    ) : (
+                                        <p className="mt-1 text-slate-700 dark:text-slate-300">{row.message}</p>
+                                    )}
+                                    {row.raw && (
+                                        <p className="mt-1 font-mono text-slate-500 dark:text-slate-400 truncate" title={row.raw}>{row.raw}</p>
+                                    )}
+                                </div>
+                            ))}
+                            {report.rejected.length > MAX_VISIBLE_ROWS && (
+                                <p className="text-xs text-center text-slate-500">
+                                    {t('importReport.more', { count: report.rejected.length - MAX_VISIBLE_ROWS })}
+                                </p>
+                            )}
+                        </div>
+                    </>
+                )}
+
+                <div className="flex gap-3 mt-4">
+                    {report.rejected.length > 0 && (
+                        <button
+                            onClick={downloadRejected}
+                            className="flex-1 py-2 flex items-center justify-center gap-2 bg-red-500/20 text-red-500 rounded-xl hover:bg-red-500/30"
+                        >
+                            <Download className="w-4 h-4" />
+                            {t('importReport.downloadRejected')}
+                        </button>
+                    )}
+                    <button
+                        onClick={onClose}
+                        className="flex-1 py-2 bg-slate-200 dark:bg-slate-700 text-slate-900 dark:text-white rounded-xl hover:bg-slate-300 dark:hover:bg-slate-600"
+                    >
+                        {t('common.close')}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ImportReportModal;
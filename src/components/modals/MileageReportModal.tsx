@@ -0,0 +1,255 @@
+import React, { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Capacitor } from '@capacitor/core';
+import ModalPortal from '../common/ModalPortal';
+import { X, FileText, Download, Printer } from '../Icons';
+import { useData } from '@/providers/DataProvider';
+import { useApp } from '@/context/AppContext';
+import { useCar } from '@/context/CarContext';
+import { printHtml } from '@/utils/printHtml';
+import { calculateTripCosts } from '@core/dataProcessing';
+import { formatDate, formatMonth, formatTime } from '@core/dateUtils';
+import { ExportDateRange } from '@core/dataExport';
+import { localizeTripTags } from '@core/tripTags';
+import {
+    DEFAULT_MILEAGE_RATE,
+    MileageReportFormat,
+    MileageReportLabels,
+    buildMileageReport,
+    buildMileageReportFile,
+    mileageReportToHtml
+} from '@core/mileageReport';
+
+const inputClass = 'w-full bg-white dark:bg-slate-700 text-slate-900 dark:text-white rounded-lg px-3 py-2 text-sm border border-slate-200 dark:border-slate-600';
+const labelClass = 'block text-[10px] text-slate-500 dark:text-slate-400 mb-1';
+
+interface MileageReportModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+const monthRange = (month: string): ExportDateRange => {
+    const lastDay = new Date(parseInt(month.slice(0, 4), 10), parseInt(month.slice(4, 6), 10), 0).getDate();
+    return { from: `${month}01`, to: `${month}${String(lastDay).padStart(2, '0')}` };
+};
+
+/**
+ * Mileage and expense log of a month or date range, for business reimbursement
+ */
+const MileageReportModal: React.FC<MileageReportModalProps> = ({ isOpen, onClose }) => {
+    const { t, i18n } = useTranslation();
+    const { trips, charges, months, downloadFile } = useData();
+    const { settings, updateSettings } = useApp();
+    const { activeCar } = useCar();
+    const isNative = Capacitor.isNativePlatform();
+
+    const [mode, setMode] = useState<'month' | 'range'>('month');
+    const [month, setMonth] = useState(months[months.length - 1] || '');
+    const [dateFrom, setDateFrom] = useState('');
+    const [dateTo, setDateTo] = useState('');
+    const [tagId, setTagId] = useState('');
+
+    const ratePerKm = settings.mileageRate ?? DEFAULT_MILEAGE_RATE;
+    const tags = useMemo(() => localizeTripTags(settings.tripTags || [], t), [settings.tripTags, t]);
+
+    const range = useMemo<ExportDateRange>(() => mode === 'month'
+        ? (month ? monthRange(month) : {})
+        : { from: dateFrom ? dateFrom.replace(/-/g, '') : undefined, to: dateTo ? dateTo.replace(/-/g, '') : undefined },
+    [mode, month, dateFrom, dateTo]);
+
+    const costedTrips = useMemo(
+        () => isOpen ? calculateTripCosts(trips.filter(trip => trip && typeof trip.trip === 'number'), settings, charges, trips) : [],
+        [isOpen, trips, settings, charges]
+    );
+
+    const report = useMemo(
+        () => buildMileageReport(costedTrips, { range, ratePerKm, tagId, tags }),
+        [costedTrips, range, ratePerKm, tagId, tags]
+    );
+
+    if (!isOpen) return null;
+
+    const labels: MileageReportLabels = {
+        title: t('mileage.title'),
+        period: t('mileage.period'),
+        vehicle: t('mileage.vehicle'),
+        rate: t('mileage.rate'),
+        date: t('mileage.date'),
+        time: t('mileage.time'),
+        distance: `${t('stats.distance')} (km)`,
+        energy: `${t('tripDetail.consumption')} (kWh)`,
+        fuel: `${t('mileage.fuel')} (L)`,
+        cost: t('mileage.energyCost'),
+        purpose: t('mileage.purpose'),
+        amount: t('mileage.amount'),
+        total: t('mileage.total'),
+        signature: t('mileage.signature'),
+        generated: t('mileage.generated')
+    };
+    const vehicle = { name: activeCar?.name || settings.carModel, licensePlate: settings.licensePlate };
+
+    const handleDownload = (format: MileageReportFormat) => {
+        downloadFile(buildMileageReportFile(report, format, labels, vehicle, i18n.language));
+    };
+
+    return (
+        <ModalPortal>
+            {/* Portal events still bubble to the modal that opened this one */}
+            <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 animate-modal-backdrop" onClick={(e) => { e.stopPropagation(); onClose(); }}>
+                <div className="absolute inset-0 bg-black/60 backdrop-blur-sm"></div>
+
+                <div
+                    role="dialog"
+                    aria-modal="true"
+                    className="relative bg-white dark:bg-slate-800 rounded-3xl max-w-2xl w-full shadow-2xl animate-modal-content overflow-hidden border border-slate-200 dark:border-slate-700 flex flex-col max-h-[85vh]"
+                    onClick={(e) => e.stopPropagation()}
+                >
+                    {/* Header */}
+                    <div className="flex justify-between items-center p-5 border-b border-slate-100 dark:border-slate-700 bg-white dark:bg-slate-800 sticky top-0 z-10">
+                        <div className="flex items-center gap-3">
+                            <div className="w-10 h-10 rounded-full bg-emerald-100 dark:bg-emerald-900/30 flex items-center justify-center">
+                                <FileText className="w-5 h-5 text-emerald-600 dark:text-emerald-400" />
+                            </div>
+                            <div>
+                                <h2 className="text-lg font-bold text-slate-900 dark:text-white">{t('mileage.title')}</h2>
+                                <p className="text-xs text-slate-500">{t('mileage.subtitle')}</p>
+                            </div>
+                        </div>
+                        <button
+                            onClick={onClose}
+                            className="p-2 rounded-full hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors"
+                        >
+                            <X className="w-5 h-5 text-slate-500" />
+                        </button>
+                    </div>
+
+                    <div className="p-5 overflow-y-auto custom-scrollbar space-y-4">
+                        {/* Period */}
+                        <div className="grid grid-cols-2 gap-2">
+                            {(['month', 'range'] as const).map(m => (
+                                <button
+                                    key={m}
+                                    onClick={() => setMode(m)}
+                                    className={`py-2 rounded-lg text-xs font-medium border transition-colors ${mode === m
+                                        ? 'bg-emerald-500 border-emerald-500 text-white'
+                                        : 'bg-white dark:bg-slate-700 border-slate-200 dark:border-slate-600 text-slate-700 dark:text-slate-300'
+                                        }`}
+                                >
+                                    {m === 'month' ? t('filter.byMonth') : t('filter.byRange')}
+                                </button>
+                            ))}
+                        </div>
+
+                        {mode === 'month' ? (
+                            <select value={month} onChange={(e) => setMonth(e.target.value)} className={inputClass}>
+                                {[...months].reverse().map(m => <option key={m} value={m}>{formatMonth(m, i18n.language)}</option>)}
+                            </select>
+                        ) : (
+                            <div className="grid grid-cols-2 gap-2">
+                                <input type="date" value={dateFrom} onChange={(e) => setDateFrom(e.target.value)} className={inputClass} />
+                                <input type="date" value={dateTo} onChange={(e) => setDateTo(e.target.value)} className={inputClass} />
+                            </div>
+                        )}
+
+                        <div className="grid grid-cols-2 gap-2">
+                            <div>
+                                <label className={labelClass}>{t('mileage.purpose')}</label>
+                                <select value={tagId} onChange={(e) => setTagId(e.target.value)} className={inputClass}>
+                                    <option value="">{t('mileage.allTrips')}</option>
+                                    {tags.map(tag => <option key={tag.id} value={tag.id}>{tag.name}</option>)}
+                                </select>
+                            </div>
+                            <div>
+                                <label className={labelClass}>{t('mileage.rate')} (€/km)</label>
+                                <input
+                                    type="number"
+                                    step="0.01"
+                                    min="0"
+                                    value={ratePerKm}
+                                    onChange={(e) => updateSettings({ mileageRate: Math.max(0, parseFloat(e.target.value) || 0) })}
+                                    className={inputClass}
+                                />
+                            </div>
+                        </div>
+
+                        {/* Totals */}
+                        <div className="grid grid-cols-3 gap-2 text-center">
+                            <div className="bg-slate-100 dark:bg-slate-700/50 rounded-xl p-3">
+                                <p className="text-[10px] text-slate-500">{t('tags.tripCount', { count: report.totals.trips })}</p>
+                                <p className="text-lg font-bold text-slate-900 dark:text-white">{report.totals.km.toFixed(1)} km</p>
+                            </div>
+                            <div className="bg-slate-100 dark:bg-slate-700/50 rounded-xl p-3">
+                                <p className="text-[10px] text-slate-500">{t('mileage.energyCost')}</p>
+                                <p className="text-lg font-bold text-amber-500">{report.totals.cost.toFixed(2)} €</p>
+                            </div>
+                            <div className="bg-emerald-50 dark:bg-emerald-900/20 rounded-xl p-3">
+                                <p className="text-[10px] text-slate-500">{t('mileage.amount')}</p>
+                                <p className="text-lg font-bold text-emerald-600 dark:text-emerald-400">{report.totals.amount.toFixed(2)} €</p>
+                            </div>
+                        </div>
+
+                        {/* Preview */}
+                        {report.rows.length > 0 ? (
+                            <div className="overflow-x-auto rounded-xl border border-slate-200 dark:border-slate-700 max-h-64">
+                                <table className="w-full text-xs text-left">
+                                    <thead className="bg-slate-50 dark:bg-slate-800 text-slate-500 sticky top-0">
+                                        <tr>
+                                            <th className="px-3 py-2">{t('mileage.date')}</th>
+                                            <th className="px-3 py-2 text-right">km</th>
+                                            <th className="px-3 py-2 text-right">€</th>
+                                            <th className="px-3 py-2">{t('mileage.purpose')}</th>
+                                            <th className="px-3 py-2 text-right">{t('mileage.amount')}</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody className="divide-y divide-slate-100 dark:divide-slate-700 text-slate-900 dark:text-white">
+                                        {report.rows.map(row => (
+                                            <tr key={`${row.date}-${row.startTimestamp}`}>
+                                                <td className="px-3 py-1.5 whitespace-nowrap">{formatDate(row.date, i18n.language)} {formatTime(row.startTimestamp, i18n.language)}</td>
+                                                <td className="px-3 py-1.5 text-right">{row.km.toFixed(1)}</td>
+                                                <td className="px-3 py-1.5 text-right">{row.cost.toFixed(2)}</td>
+                                                <td className="px-3 py-1.5 text-slate-500">{row.purpose}</td>
+                                                <td className="px-3 py-1.5 text-right">{row.amount.toFixed(2)}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        ) : (
+                            <p className="text-center text-sm text-slate-500 py-4">{t('mileage.empty')}</p>
+                        )}
+                    </div>
+
+                    {/* Actions */}
+                    <div className="p-5 border-t border-slate-100 dark:border-slate-700 grid grid-cols-3 gap-2">
+                        <button
+                            onClick={() => handleDownload('csv')}
+                            disabled={report.rows.length === 0}
+                            className="py-2.5 rounded-xl text-sm font-medium border border-slate-200 dark:border-slate-600 text-slate-700 dark:text-slate-300 disabled:opacity-50 flex items-center justify-center gap-2"
+                        >
+                            <Download className="w-4 h-4" /> CSV
+                        </button>
+                        <button
+                            onClick={() => handleDownload('html')}
+                            disabled={report.rows.length === 0}
+                            className="py-2.5 rounded-xl text-sm font-medium border border-slate-200 dark:border-slate-600 text-slate-700 dark:text-slate-300 disabled:opacity-50 flex items-center justify-center gap-2"
+                        >
+                            <Download className="w-4 h-4" /> HTML
+                        </button>
+                        {!isNative && (
+                            <button
+                                onClick={() => printHtml(mileageReportToHtml(report, labels, vehicle, i18n.language))}
+                                disabled={report.rows.length === 0}
+                                className="py-2.5 rounded-xl text-sm font-medium text-white bg-emerald-500 hover:bg-emerald-600 disabled:opacity-50 flex items-center justify-center gap-2"
+                                title={t('mileage.printHint')}
+                            >
+                                <Printer className="w-4 h-4" /> PDF
+                            </button>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </ModalPortal>
+    );
+};
+
+export default MileageReportModal;
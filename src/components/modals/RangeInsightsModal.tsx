@@ -2,7 +2,7 @@
 import React from 'react';
 import { useTranslation } from 'react-i18next';
 import ModalPortal from '../common/ModalPortal';
-import { X, ChevronLeft, ChevronRight } from '../Icons';
+import { X, ChevronLeft, ChevronRight, Navigation } from '../Icons';
 import { Chart as ChartJS, CategoryScale, LinearScale, PointElement, LineElement, BarElement, Title, Tooltip, Legend } from 'chart.js';
 import { Bar } from 'react-chartjs-2';
 
@@ -14,9 +14,10 @@ interface RangeInsightsModalProps {
     aiScenarios: Array<{ name: string; speed: number; efficiency: number; range: number }>;
     aiLoss: number | null;
     isTraining?: boolean;
+    onPlanTrip?: () => void;
 }
 
-const RangeInsightsModal: React.FC<RangeInsightsModalProps> = ({ isOpen, onClose, aiScenarios, aiLoss, isTraining = false }) => {
+const RangeInsightsModal: React.FC<RangeInsightsModalProps> = ({ isOpen, onClose, aiScenarios, aiLoss, isTraining = false, onPlanTrip }) => {
     const { t } = useTranslation();
     const [selectedScenario, setSelectedScenario] = React.useState<string | null>(null);
 
@@ -196,6 +197,16 @@ const RangeInsightsModal: React.FC<RangeInsightsModalProps> = ({ isOpen, onClose
                                     )}
                                 </div>
 
+                                {onPlanTrip && (
+                                    <button
+                                        onClick={onPlanTrip}
+                                        className="w-full flex items-center justify-center gap-2 py-3 px-4 rounded-xl text-sm font-semibold bg-indigo-600 hover:bg-indigo-700 text-white transition-colors"
+                                    >
+                                        <Navigation className="w-4 h-4" />
+                                        {t('planner.open')}
+                                    </button>
+                                )}
+
                                 {/* Scenarios Chart */}
                                 <div className="h-64">
                                     <Bar data={chartData} options={chartOptions} />
@@ -0,0 +1,129 @@
+import React from 'react';
+import { toast } from 'react-hot-toast';
+import { useTranslation } from 'react-i18next';
+import ModalPortal from '../common/ModalPortal';
+import { X, Clock, Plus, Trash2, RefreshCw } from '../Icons';
+import { useData } from '@/providers/DataProvider';
+
+interface RestorePointsModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+const formatSize = (bytes: number): string => bytes >= 1024 * 1024
+    ? `${(bytes / 1024 / 1024).toFixed(1)} MB`
+    : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+/**
+ * Local snapshots of the active car's data, taken before imports and syncs or by hand
+ */
+const RestorePointsModal: React.FC<RestorePointsModalProps> = ({ isOpen, onClose }) => {
+    const { t, i18n } = useTranslation();
+    const { restorePoints, createRestorePoint, rollbackToRestorePoint, deleteRestorePoint, showConfirmation } = useData();
+
+    if (!isOpen) return null;
+
+    const handleCreate = async () => {
+        if (await createRestorePoint('manual')) toast.success(t('journal.created'));
+        else toast.error(t('journal.failed'));
+    };
+
+    const handleRestore = (id: string, date: string) => {
+        showConfirmation(t('journal.restore'), t('journal.restoreConfirm', { date }), async () => {
+            if (await rollbackToRestorePoint(id)) {
+                toast.success(t('journal.restored'));
+                onClose();
+            } else {
+                toast.error(t('journal.failed'));
+            }
+        }, true);
+    };
+
+    const handleDelete = async (id: string) => {
+        if (await deleteRestorePoint(id)) toast.success(t('journal.deleted'));
+        else toast.error(t('journal.failed'));
+    };
+
+    // Newest first
+    const points = [...restorePoints].reverse();
+
+    return (
+        <ModalPortal>
+            {/* Portal events still bubble to the modal that opened this one */}
+            <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 animate-modal-backdrop" onClick={(e) => { e.stopPropagation(); onClose(); }}>
+                <div className="absolute inset-0 bg-black/60 backdrop-blur-sm"></div>
+
+                <div
+                    role="dialog"
+                    aria-modal="true"
+                    className="relative bg-white dark:bg-slate-800 rounded-3xl max-w-md w-full shadow-2xl animate-modal-content overflow-hidden border border-slate-200 dark:border-slate-700 flex flex-col max-h-[85vh]"
+                    onClick={(e) => e.stopPropagation()}
+                >
+                    {/* Header */}
+                    <div className="flex justify-between items-center p-5 border-b border-slate-100 dark:border-slate-700 bg-white dark:bg-slate-800 sticky top-0 z-10">
+                        <div className="flex items-center gap-3">
+                            <div className="w-10 h-10 rounded-full bg-indigo-100 dark:bg-indigo-900/30 flex items-center justify-center">
+                                <Clock className="w-5 h-5 text-indigo-600 dark:text-indigo-400" />
+                            </div>
+                            <div>
+                                <h2 className="text-lg font-bold text-slate-900 dark:text-white">{t('journal.restorePoints')}</h2>
+                                <p className="text-xs text-slate-500">{t('journal.restorePointsHint')}</p>
+                            </div>
+                        </div>
+                        <button
+                            onClick={onClose}
+                            className="p-2 rounded-full hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors"
+                        >
+                            <X className="w-5 h-5 text-slate-500" />
+                        </button>
+                    </div>
+
+                    <div className="p-5 overflow-y-auto custom-scrollbar space-y-3">
+                        <button
+                            onClick={handleCreate}
+                            className="w-full py-2.5 px-4 rounded-lg text-sm font-medium text-white bg-indigo-500 hover:bg-indigo-600 transition-colors flex items-center justify-center gap-2"
+                        >
+                            <Plus className="w-4 h-4" />
+                            {t('journal.create')}
+                        </button>
+
+                        {points.length === 0 ? (
+                            <p className="text-sm text-center text-slate-500 dark:text-slate-400 py-6">{t('journal.empty')}</p>
+                        ) : points.map(point => {
+                            const date = new Date(point.createdAt).toLocaleString(i18n.language);
+                            return (
+                                <div key={point.id} className="bg-slate-50 dark:bg-slate-700/50 rounded-xl p-3 border border-slate-100 dark:border-slate-700 flex items-center gap-3">
+                                    <div className="flex-1 min-w-0">
+                                        <p className="text-sm font-medium text-slate-900 dark:text-white">{date}</p>
+                                        <p className="text-[11px] text-slate-500 dark:text-slate-400">
+                                            {t(`journal.reasons.${point.reason}`)} · {formatSize(point.size)}
+                                        </p>
+                                        <p className="text-[11px] text-slate-500 dark:text-slate-400">
+                                            {t('journal.counts', { trips: point.trips, charges: point.charges })}
+                                        </p>
+                                    </div>
+                                    <button
+                                        onClick={() => handleRestore(point.id, date)}
+                                        title={t('journal.restore')}
+                                        className="p-2 rounded-lg text-indigo-600 dark:text-indigo-400 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 transition-colors"
+                                    >
+                                        <RefreshCw className="w-4 h-4" />
+                                    </button>
+                                    <button
+                                        onClick={() => handleDelete(point.id)}
+                                        title={t('common.delete')}
+                                        className="p-2 rounded-lg text-red-500 hover:bg-red-50 dark:hover:bg-red-900/30 transition-colors"
+                                    >
+                                        <Trash2 className="w-4 h-4" />
+                                    </button>
+                                </div>
+                            );
+                        })}
+                    </div>
+                </div>
+            </div>
+        </ModalPortal>
+    );
+};
+
+export default RestorePointsModal;
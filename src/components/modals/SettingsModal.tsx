@@ -2,6 +2,7 @@
 
 import React, { useMemo, useState } from 'react';
 import { useTranslation } from 'react-i18next';
+import { toast } from 'react-hot-toast';
 import { languages } from '../../i18n';
 import { BYD_RED, TAB_ORDER } from '@core/constants';
 import { Settings, Zap, Trash2, Eye, EyeOff, Calendar } from '../Icons';
@@ -9,6 +10,11 @@ import ModalHeader from '../common/ModalHeader';
 import { GaliciaFlag, CataloniaFlag, BasqueFlag, SpainFlag, UKFlag, PortugalFlag } from '../FlagIcons';
 // @ts-ignore
 import GoogleSyncSettings from '../settings/GoogleSyncSettings';
+import TariffSettings from '../settings/TariffSettings';
+import TripTagSettings from '../settings/TripTagSettings';
+import AnomalyRuleSettings from '../settings/AnomalyRuleSettings';
+import { VEHICLE_MODELS, getVehicleModel, getModelSettings } from '@core/vehicleModels';
+import { DEFAULT_JOURNEY_GAP_MINUTES } from '@core/journeys';
 import { useApp } from '../../context/AppContext';
 import { useData } from '../../providers/DataProvider';
 import { useCar } from '../../context/CarContext';
@@ -16,6 +22,7 @@ import { useCar } from '../../context/CarContext';
 // @ts-ignore
 import MfgDateModal from './MfgDateModal';
 import { Charge } from '../../types';
+import { NotificationService } from '@/services/NotificationService';
 
 /**
  * Settings modal for app configuration
@@ -68,6 +75,19 @@ const SettingsModal: React.FC = () => {
         i18n.changeLanguage(langCode);
     };
 
+    // Permission is asked when the alerts are turned on, from the user's tap
+    const handleAnomalyNotificationsToggle = async () => {
+        if (settings.anomalyNotifications) {
+            onSettingsChange({ ...settings, anomalyNotifications: false });
+            return;
+        }
+        if (!(await NotificationService.requestPermission())) {
+            toast.error(t('health.notificationsDenied'));
+            return;
+        }
+        onSettingsChange({ ...settings, anomalyNotifications: true });
+    };
+
     // Charger types management
     const handleChargerTypeChange = (index: number, field: string, value: any) => {
         const updatedTypes = [...(settings.chargerTypes || [])];
@@ -148,6 +168,26 @@ const SettingsModal: React.FC = () => {
                         />
                     </div>
 
+                    <div>
+                        <label className="block text-sm text-slate-600 dark:text-slate-400 mb-2">{t('cars.modelPreset')}</label>
+                        <select
+                            value={settings?.vehicleModelId || ''}
+                            onChange={(e) => {
+                                // The car keeps its name; the preset only brings its battery and specs
+                                const model = getVehicleModel(e.target.value);
+                                const { carModel: _carModel, ...specs } = model ? getModelSettings(model, settings.chargerTypes) : {};
+                                onSettingsChange({ ...settings, ...specs, vehicleModelId: e.target.value });
+                                if (activeCarId) updateCar(activeCarId, { model: model?.name });
+                            }}
+                            className="w-full bg-slate-100 dark:bg-slate-700/50 text-slate-900 dark:text-white rounded-xl px-4 py-2 border border-slate-200 dark:border-slate-600"
+                        >
+                            <option value="">{t('cars.customModel')}</option>
+                            {VEHICLE_MODELS.map(m => (
+                                <option key={m.id} value={m.id}>BYD {m.name}</option>
+                            ))}
+                        </select>
+                    </div>
+
                     <div>
                         <label className="block text-sm text-slate-600 dark:text-slate-400 mb-2">{t('settings.batterySize')}</label>
                         <input
@@ -222,7 +262,7 @@ const SettingsModal: React.FC = () => {
 
                         {/* Pricing Strategy Selector */}
                         <div className="flex gap-2 mb-2 p-1 bg-slate-100 dark:bg-slate-700 rounded-xl">
-                            {['custom', 'average', 'dynamic'].map(strategy => {
+                            {['custom', 'average', 'dynamic', 'fifo'].map(strategy => {
                                 const isActive = (settings.priceStrategy === strategy) ||
                                     (!settings.priceStrategy && (
                                         (strategy === 'average' && settings.useCalculatedPrice) ||
@@ -246,7 +286,8 @@ const SettingsModal: React.FC = () => {
                                     >
                                         {strategy === 'custom' ? t('settings.priceCustom') :
                                             strategy === 'average' ? t('settings.priceCalculated') :
-                                                t('settings.priceDynamics')}
+                                                strategy === 'fifo' ? t('settings.priceFifo') :
+                                                    t('settings.priceDynamics')}
                                     </button>
                                 );
                             })}
@@ -259,8 +300,15 @@ const SettingsModal: React.FC = () => {
                             </p>
                         )}
 
-                        {/* Price input - Only show if not dynamic */}
-                        {settings.priceStrategy !== 'dynamic' && (
+                        {/* FIFO Price Hint */}
+                        {(settings.priceStrategy === 'fifo') && (
+                            <p className="text-xs text-slate-500 dark:text-slate-400 mb-2 italic">
+                                {t('settings.priceFifoHint')}
+                            </p>
+                        )}
+
+                        {/* Price input - Only show if not priced from the charges */}
+                        {settings.priceStrategy !== 'dynamic' && settings.priceStrategy !== 'fifo' && (
                             <input
                                 type="number"
                                 step="0.001"
@@ -389,6 +437,15 @@ const SettingsModal: React.FC = () => {
                                     {t('settings.fuelPriceHint')}
                                 </p>
                             )}
+
+                            <label className="block text-sm text-slate-600 dark:text-slate-400 mt-3 mb-2">{t('settings.tankLiters')}</label>
+                            <input
+                                type="number"
+                                step="1"
+                                value={settings?.tankLiters || ''}
+                                onChange={(e) => onSettingsChange({ ...settings, tankLiters: parseFloat(e.target.value) || undefined })}
+                                className="w-full bg-slate-100 dark:bg-slate-700/50 text-slate-900 dark:text-white rounded-xl px-4 py-2 border border-slate-200 dark:border-slate-600"
+                            />
                         </div>
                     )}
 
@@ -559,6 +616,90 @@ const SettingsModal: React.FC = () => {
                                     </div>
                                 </div>
                             )}
+
+                            <div className="pt-3 border-t border-slate-200 dark:border-slate-600">
+                                <TariffSettings settings={settings} onSettingsChange={onSettingsChange} />
+                            </div>
+                        </div>
+                    </div>
+
+                    {/* Trip Tags */}
+                    <div className="space-y-3 pt-2 border-t border-slate-200 dark:border-slate-700">
+                        <h3 className="text-sm font-semibold text-slate-700 dark:text-slate-300 flex items-center gap-2">
+                            <span style={{ color: BYD_RED }}>🏷️</span>
+                            {t('tags.title')}
+                        </h3>
+                        <div className="bg-slate-50 dark:bg-slate-700/30 rounded-xl p-3">
+                            <TripTagSettings settings={settings} onSettingsChange={onSettingsChange} />
+                        </div>
+                    </div>
+
+                    {/* Journeys */}
+                    <div className="space-y-3 pt-2 border-t border-slate-200 dark:border-slate-700">
+                        <h3 className="text-sm font-semibold text-slate-700 dark:text-slate-300 flex items-center gap-2">
+                            <span style={{ color: BYD_RED }}>🧭</span>
+                            {t('journeys.title')}
+                        </h3>
+                        <div className="bg-slate-50 dark:bg-slate-700/30 rounded-xl p-3 space-y-3">
+                            <div className="flex items-center justify-between gap-3">
+                                <div>
+                                    <label className="text-sm text-slate-700 dark:text-slate-300">{t('journeys.enable')}</label>
+                                    <p className="text-[10px] text-slate-400">{t('journeys.enableHint')}</p>
+                                </div>
+                                <button
+                                    onClick={() => onSettingsChange({ ...settings, tripUnit: settings.tripUnit === 'journey' ? 'trip' : 'journey' })}
+                                    className={`relative inline-flex h-6 w-11 shrink-0 items-center rounded-full transition-colors ${settings.tripUnit === 'journey' ? 'bg-emerald-500' : 'bg-slate-300 dark:bg-slate-600'
+                                        }`}
+                                >
+                                    <span
+                                        className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${settings.tripUnit === 'journey' ? 'translate-x-6' : 'translate-x-1'
+                                            }`}
+                                    />
+                                </button>
+                            </div>
+                            {settings.tripUnit === 'journey' && (
+                                <div>
+                                    <label className="block text-xs text-slate-500 dark:text-slate-400 mb-1">{t('journeys.gap')}</label>
+                                    <input
+                                        type="number"
+                                        min="1"
+                                        step="1"
+                                        value={settings.journeyGapMinutes ?? DEFAULT_JOURNEY_GAP_MINUTES}
+                                        onChange={(e) => onSettingsChange({ ...settings, journeyGapMinutes: Math.max(1, parseInt(e.target.value, 10) || DEFAULT_JOURNEY_GAP_MINUTES) })}
+                                        className="w-full bg-white dark:bg-slate-700 text-slate-900 dark:text-white rounded-lg px-3 py-2 text-sm border border-slate-200 dark:border-slate-600"
+                                    />
+                                    <p className="text-[10px] text-slate-400 mt-1">{t('journeys.gapHint')}</p>
+                                </div>
+                            )}
+                        </div>
+                    </div>
+
+                    {/* Health checks and alerts */}
+                    <div className="space-y-3 pt-2 border-t border-slate-200 dark:border-slate-700">
+                        <h3 className="text-sm font-semibold text-slate-700 dark:text-slate-300 flex items-center gap-2">
+                            <span style={{ color: BYD_RED }}>🩺</span>
+                            {t('anomalies.title')}
+                        </h3>
+                        <div className="bg-slate-50 dark:bg-slate-700/30 rounded-xl p-3 space-y-3">
+                            {NotificationService.isSupported() && (
+                                <div className="flex items-center justify-between gap-3">
+                                    <div>
+                                        <label className="text-sm text-slate-700 dark:text-slate-300">{t('health.notifications')}</label>
+                                        <p className="text-[10px] text-slate-400">{t('health.notificationsHint')}</p>
+                                    </div>
+                                    <button
+                                        onClick={handleAnomalyNotificationsToggle}
+                                        className={`relative inline-flex h-6 w-11 shrink-0 items-center rounded-full transition-colors ${settings.anomalyNotifications ? 'bg-emerald-500' : 'bg-slate-300 dark:bg-slate-600'
+                                            }`}
+                                    >
+                                        <span
+                                            className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${settings.anomalyNotifications ? 'translate-x-6' : 'translate-x-1'
+                                                }`}
+                                        />
+                                    </button>
+                                </div>
+                            )}
+                            <AnomalyRuleSettings settings={settings} onSettingsChange={onSettingsChange} />
                         </div>
                     </div>
 
@@ -589,6 +730,24 @@ const SettingsModal: React.FC = () => {
                         </div>
                     </div>
 
+                    <div>
+                        <label className="block text-sm text-slate-600 dark:text-slate-400 mb-2">{t('settings.hemisphere')}</label>
+                        <div className="flex gap-2">
+                            {(['north', 'south'] as const).map(hemisphere => (
+                                <button
+                                    key={hemisphere}
+                                    onClick={() => onSettingsChange({ ...settings, hemisphere })}
+                                    className={`flex-1 py-2 px-4 rounded-xl text-sm font-medium transition-colors border ${(settings?.hemisphere || 'north') === hemisphere
+                                        ? 'byd-active-item'
+                                        : 'bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-200 border-slate-200 dark:border-slate-600 hover:bg-slate-200 dark:hover:bg-slate-600'
+                                        }`}
+                                >
+                                    {hemisphere === 'north' ? t('settings.hemisphereNorth') : t('settings.hemisphereSouth')}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
                     <div>
                         <label className="block text-sm text-slate-600 dark:text-slate-400 mb-2">{t('settings.theme')}</label>
                         <div className="flex gap-2">
@@ -1,21 +1,51 @@
-import React from 'react';
+import React, { useState, useEffect } from 'react';
 import { useTranslation } from 'react-i18next';
 import { X, Cloud, Database, AlertTriangle } from '../Icons';
 import { useData } from '../../providers/DataProvider';
+import { formatDate, formatTime } from '@core/dateUtils';
+import { ConflictChoice, RecordConflict } from '@core/syncMerge';
+import { Charge, Trip } from '@/types';
+
+const formatValue = (value: unknown): string => {
+    if (value === undefined || value === null || value === '') return '—';
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+};
 
 /**
- * Modal for resolving sync conflicts between local and cloud data
+ * Modal for resolving sync conflicts record by record
  */
 const SyncConflictModal: React.FC = () => {
     const { t } = useTranslation();
     const { googleSync } = useData();
 
     const { pendingConflict: conflict, resolveConflict: onResolve, dismissConflict: onClose } = googleSync || {};
-    const isOpen = !!conflict;
+    const [choices, setChoices] = useState<Record<string, ConflictChoice>>({});
+
+    // Every record starts on the local version
+    useEffect(() => {
+        setChoices({});
+    }, [conflict]);
+
+    if (!conflict) return null;
 
-    if (!isOpen || !conflict) return null;
+    const conflicts: RecordConflict[] = conflict.merge.conflicts;
 
-    const { differences } = conflict;
+    const recordLabel = (c: RecordConflict): string => {
+        const record = (c.local || c.remote) as Trip & Charge;
+        if (c.kind === 'trips') return `${t('sync.record.trips')} · ${formatDate(record.date)} ${formatTime(record.start_timestamp)}`;
+        if (c.kind === 'charges') return `${t('sync.record.charges')} · ${record.date} ${record.time}`;
+        return t('sync.record.settings');
+    };
+
+    const sideValue = (c: RecordConflict, side: ConflictChoice): string => {
+        const record = c[side] as Record<string, unknown> | null;
+        if (!record) return t('sync.deleted');
+        if (c.fields.length === 0) return t('sync.edited');
+        return c.fields.map(field => `${field}: ${formatValue(record[field])}`).join(' · ');
+    };
+
+    const setAll = (side: ConflictChoice) => onResolve && onResolve(Object.fromEntries(conflicts.map(c => [c.id, side])));
 
     return (
         <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4 animate-modal-backdrop">
@@ -41,54 +71,64 @@ const SyncConflictModal: React.FC = () => {
                 {/* Content */}
                 <div className="p-4 space-y-4 overflow-y-auto max-h-[50vh]">
                     <p className="text-sm text-slate-600 dark:text-slate-400">
-                        {t('sync.conflictDescription')}
+                        {t('sync.conflictDescription', { count: conflicts.length })}
                     </p>
 
-                    {/* Differences List */}
+                    {/* One choice per record */}
                     <div className="space-y-2">
-                        {differences.map((diff: any, index: number) => (
-                            <div
-                                key={index}
-                                className="p-3 bg-slate-50 dark:bg-slate-700/50 rounded-lg text-sm"
-                            >
-                                <div className="font-medium text-slate-900 dark:text-white">
-                                    {diff.label}
-                                </div>
-                                <div className="mt-1 flex items-center gap-2 text-slate-600 dark:text-slate-400">
-                                    <Database className="w-4 h-4" />
-                                    <span className="truncate">{diff.local}</span>
-                                </div>
-                                <div className="mt-1 flex items-center gap-2 text-slate-600 dark:text-slate-400">
-                                    <Cloud className="w-4 h-4" />
-                                    <span className="truncate">{diff.cloud}</span>
+                        {conflicts.map(c => {
+                            const selected = choices[c.id] || 'local';
+                            return (
+                                <div
+                                    key={c.id}
+                                    className="p-3 bg-slate-50 dark:bg-slate-700/50 rounded-lg text-sm"
+                                >
+                                    <div className="font-medium text-slate-900 dark:text-white">
+                                        {recordLabel(c)}
+                                    </div>
+                                    {(['local', 'remote'] as ConflictChoice[]).map(side => (
+                                        <button
+                                            key={side}
+                                            onClick={() => setChoices(prev => ({ ...prev, [c.id]: side }))}
+                                            className={`mt-1 w-full flex items-center gap-2 px-2 py-1.5 rounded-lg border text-left transition-colors ${selected === side
+                                                ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20 text-slate-900 dark:text-white'
+                                                : 'border-transparent text-slate-600 dark:text-slate-400'
+                                                }`}
+                                        >
+                                            {side === 'local' ? <Database className="w-4 h-4 shrink-0" /> : <Cloud className="w-4 h-4 shrink-0" />}
+                                            <span className="truncate">{sideValue(c, side)}</span>
+                                        </button>
+                                    ))}
                                 </div>
-                            </div>
-                        ))}
+                            );
+                        })}
                     </div>
                 </div>
 
                 {/* Actions */}
                 <div className="p-4 border-t border-slate-200 dark:border-slate-700 space-y-2">
                     <button
-                        onClick={() => onResolve && onResolve('local')}
-                        className="w-full py-3 px-4 bg-blue-600 hover:bg-blue-700 text-white rounded-xl font-medium transition-colors flex items-center justify-center gap-2"
-                    >
-                        <Database className="w-5 h-5" />
-                        {t('sync.keepLocal')}
-                    </button>
-                    <button
-                        onClick={() => onResolve && onResolve('cloud')}
-                        className="w-full py-3 px-4 bg-slate-600 hover:bg-slate-700 text-white rounded-xl font-medium transition-colors flex items-center justify-center gap-2"
-                    >
-                        <Cloud className="w-5 h-5" />
-                        {t('sync.useCloud')}
-                    </button>
-                    <button
-                        onClick={() => onResolve && onResolve('merge')}
+                        onClick={() => onResolve && onResolve(choices)}
                         className="w-full py-3 px-4 bg-emerald-600 hover:bg-emerald-700 text-white rounded-xl font-medium transition-colors"
                     >
-                        {t('sync.mergeBoth')}
+                        {t('sync.applySelection')}
                     </button>
+                    <div className="grid grid-cols-2 gap-2">
+                        <button
+                            onClick={() => setAll('local')}
+                            className="py-3 px-4 bg-blue-600 hover:bg-blue-700 text-white rounded-xl font-medium transition-colors flex items-center justify-center gap-2"
+                        >
+                            <Database className="w-5 h-5" />
+                            {t('sync.keepLocal')}
+                        </button>
+                        <button
+                            onClick={() => setAll('remote')}
+                            className="py-3 px-4 bg-slate-600 hover:bg-slate-700 text-white rounded-xl font-medium transition-colors flex items-center justify-center gap-2"
+                        >
+                            <Cloud className="w-5 h-5" />
+                            {t('sync.useCloud')}
+                        </button>
+                    </div>
                 </div>
             </div>
         </div>
@@ -4,7 +4,12 @@ import React, { useMemo } from 'react';
 import { useTranslation } from 'react-i18next';
 import { formatDate, formatTime } from '@core/dateUtils';
 import { formatDuration, calculateScore, getScoreColor, calculatePercentile } from '@core/formatters';
-import { MapPin, Clock, Zap, Battery, TrendingUp, Plus } from '../Icons';
+import { tripSyncKey } from '@core/syncMerge';
+import { storedTripKeys } from '@core/journeys';
+import { mergeEnergySources } from '@core/energyInventory';
+import { getTripTagName } from '@core/tripTags';
+import { calculateTripCosts } from '@core/dataProcessing';
+import { MapPin, Clock, Zap, Battery, TrendingUp, Plus, Edit, Trash2 } from '../Icons';
 
 import { useApp } from '../../context/AppContext';
 import { useData } from '../../providers/DataProvider';
@@ -13,9 +18,12 @@ import { useData } from '../../providers/DataProvider';
  * Trip detail modal showing full trip information
  */
 const TripDetailModal: React.FC = () => {
-    const { t } = useTranslation();
+    const { t, i18n } = useTranslation();
     const { settings } = useApp();
-    const { selectedTrip: trip, trips: allTrips, stats, modals, closeModal, setSelectedTrip } = useData();
+    const {
+        selectedTrip: trip, trips: allTrips, charges, stats, modals, closeModal, openModal, setSelectedTrip, tagTrips,
+        setEditingTrip, deleteTrips, showConfirmation
+    } = useData();
     const summary = stats?.summary;
 
     const isOpen = modals.tripDetail;
@@ -24,6 +32,13 @@ const TripDetailModal: React.FC = () => {
         setSelectedTrip(null);
     };
 
+    // Trips opened from the trip lists are stored trips without costs: they are costed against the whole history (FIFO)
+    const costedSegments = useMemo(() => {
+        if (!trip) return [];
+        const tripSegments = trip.segments || [trip];
+        return trip.calculatedCost !== undefined ? tripSegments : calculateTripCosts(tripSegments, settings, charges, allTrips);
+    }, [trip, settings, charges, allTrips]);
+
     const details = useMemo(() => {
         if (!trip) return { efficiency: 0, score: 0, scoreColor: '', comparisonPercent: 0, percentile: 0, cost: 0, electricCost: 0, fuelCost: 0, dayName: '' };
 
@@ -42,14 +57,48 @@ const TripDetailModal: React.FC = () => {
         // @ts-ignore
         const percentile = calculatePercentile(trip, allTrips || []);
 
-        // Calculate costs (electricity + fuel for hybrids)
-        // Use pre-calculated values if available (respects Dynamic/Average strategies), otherwise fallback to custom price
-        const electricCost = trip.electricCost !== undefined ? trip.electricCost : ((trip.electricity || 0) * (Number(settings?.electricPrice) || 0.15));
-        const fuelCost = trip.fuelCost !== undefined ? trip.fuelCost : ((trip.fuel || 0) * (Number(settings?.fuelPrice) || 1.50));
-        const cost = trip.calculatedCost !== undefined ? trip.calculatedCost : (electricCost + fuelCost);
+        // Costs (electricity + fuel for hybrids) with the selected price strategy
+        const sum = (field: 'electricCost' | 'fuelCost' | 'calculatedCost') => costedSegments.reduce((total, s) => total + (s[field] || 0), 0);
+        const electricCost = trip.electricCost ?? sum('electricCost');
+        const fuelCost = trip.fuelCost ?? sum('fuelCost');
+        const cost = trip.calculatedCost ?? sum('calculatedCost');
 
         return { efficiency, score, scoreColor, comparisonPercent, percentile, cost, electricCost, fuelCost };
-    }, [trip, allTrips, summary, settings]);
+    }, [trip, allTrips, summary, costedSegments]);
+
+    // Tags and edits apply to the stored trip, the selected one is a snapshot.
+    // A journey is tagged and deleted through all of its segments and has no single trip to edit
+    const storedTrip = useMemo(() => {
+        if (!trip) return null;
+        const key = tripSyncKey(trip);
+        return allTrips?.find(t => tripSyncKey(t) === key) ?? trip;
+    }, [trip, allTrips]);
+    const keys = useMemo(() => trip ? storedTripKeys(trip) : [], [trip]);
+    const segments = useMemo(() => {
+        const selected = new Set(keys);
+        return trip?.segments ? (allTrips || []).filter(t => selected.has(tripSyncKey(t))) : [];
+    }, [trip, keys, allTrips]);
+    // Charges the trip's energy came from (FIFO strategy), one entry per charge for a journey
+    const energySources = useMemo(
+        () => mergeEnergySources(costedSegments.flatMap(s => s.energySources || [])),
+        [costedSegments]
+    );
+    const hasTag = (tagId: string) => trip?.segments
+        ? segments.length > 0 && segments.every(s => s.tags?.includes(tagId))
+        : !!storedTrip?.tags?.includes(tagId);
+
+    const handleEdit = () => {
+        setEditingTrip(storedTrip);
+        openModal('tripEditor');
+    };
+
+    const handleDelete = () => {
+        if (!trip) return;
+        showConfirmation(t('tripEditor.deleteTrip'), t('tripEditor.deleteMessage', { count: keys.length }), () => {
+            deleteTrips(keys);
+            onClose();
+        }, true);
+    };
 
     if (!isOpen || !trip) return null;
 
@@ -70,6 +119,7 @@ const TripDetailModal: React.FC = () => {
                             <h2 id="trip-detail-modal-title" className="text-lg font-bold text-slate-900 dark:text-white">{t('tripDetail.title')}</h2>
                             <p className="text-sm text-slate-600 dark:text-slate-400">
                                 {formatDate(trip.date)} · {formatTime(trip.start_timestamp)}
+                                {trip.segments && <> · {t('journeys.segments', { count: trip.segments.length })}</>}
                             </p>
                         </div>
                     </div>
@@ -81,12 +131,43 @@ const TripDetailModal: React.FC = () => {
                             </p>
                             <p className="text-slate-500 dark:text-slate-400 text-xs">/ 10</p>
                         </div>
+                        {!trip.segments && (
+                            <button onClick={handleEdit} aria-label={t('tripEditor.editTrip')} title={t('tripEditor.editTrip')} className="p-1 text-slate-500 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white">
+                                <Edit className="w-5 h-5" />
+                            </button>
+                        )}
+                        <button onClick={handleDelete} aria-label={t('tripEditor.deleteTrip')} title={t('tripEditor.deleteTrip')} className="p-1 text-red-500 hover:text-red-700">
+                            <Trash2 className="w-5 h-5" />
+                        </button>
                         <button onClick={onClose} aria-label="Close trip detail" className="text-slate-600 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white ml-2">
                             <Plus className="w-6 h-6 rotate-45" />
                         </button>
                     </div>
                 </div>
 
+                {/* Tags */}
+                {(settings?.tripTags || []).length > 0 && (
+                    <div className="flex flex-wrap items-center gap-1.5 mb-3" aria-label={t('tags.title')}>
+                        {(settings.tripTags || []).map(tag => {
+                            const active = hasTag(tag.id);
+                            return (
+                                <button
+                                    key={tag.id}
+                                    onClick={() => tagTrips(keys, tag.id, !active)}
+                                    aria-pressed={active}
+                                    className={`px-2.5 py-1 rounded-full text-xs font-medium border transition-colors ${active
+                                        ? 'text-white border-transparent'
+                                        : 'text-slate-600 dark:text-slate-300 border-slate-200 dark:border-slate-600 hover:bg-slate-100 dark:hover:bg-slate-700'
+                                        }`}
+                                    style={active ? { backgroundColor: tag.color } : undefined}
+                                >
+                                    {getTripTagName(tag, t)}
+                                </button>
+                            );
+                        })}
+                    </div>
+                )}
+
                 {/* Stats grid */}
                 <div className="grid grid-cols-2 gap-2 mb-3">
                     <div className="bg-slate-100 dark:bg-slate-700/50 rounded-xl p-3 text-center">
@@ -189,6 +270,17 @@ const TripDetailModal: React.FC = () => {
                                 )}
                             </div>
                         </div>
+                        {energySources.length > 0 && (
+                            <div className="pt-1.5 border-t border-slate-200 dark:border-slate-600">
+                                <p className="text-slate-500 dark:text-slate-400 text-xs mb-1">{t('tripDetail.energySources')}</p>
+                                {energySources.map(source => (
+                                    <div key={source.chargeId ?? `unlogged-${source.price}`} className="flex items-center justify-between text-xs text-slate-600 dark:text-slate-300">
+                                        <span>{source.chargeId && source.date ? formatDate(source.date.replace(/-/g, ''), i18n.language) : t('tripDetail.unloggedEnergy')}</span>
+                                        <span>{source.kwh.toFixed(2)} {t('units.kWh')} × {source.price.toFixed(3)} €/kWh</span>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
                     </div>
                 </div>
             </div>
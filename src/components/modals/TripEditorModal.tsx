@@ -0,0 +1,288 @@
+// BYD Stats - Trip Editor Modal Component
+// Form for adding trips by hand and correcting stored ones
+
+import React, { useState, useEffect } from 'react';
+import { toast } from 'react-hot-toast';
+import { useTranslation } from 'react-i18next';
+import { BYD_RED } from '@core/constants';
+import { tripSyncKey } from '@core/syncMerge';
+import { ImportIssue } from '@core/importReport';
+import { MapPin } from '../Icons';
+import ModalHeader from '../common/ModalHeader';
+import { useData } from '../../providers/DataProvider';
+import { useCar } from '../../context/CarContext';
+
+import { Trip } from '../../types';
+
+interface FormData {
+    date: string;
+    time: string;
+    duration: string;
+    trip: string;
+    electricity: string;
+    fuel: string;
+    start_soc: string;
+    end_soc: string;
+    regeneration: string;
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const optional = (value: number | null | undefined) => value === undefined || value === null ? '' : String(value);
+
+const toFormData = (trip: Trip | null): FormData => {
+    const start = trip ? new Date(trip.start_timestamp * 1000) : new Date();
+    return {
+        date: trip ? `${trip.date.slice(0, 4)}-${trip.date.slice(4, 6)}-${trip.date.slice(6, 8)}` : start.toISOString().split('T')[0],
+        time: `${pad(start.getHours())}:${pad(start.getMinutes())}`,
+        duration: trip ? String(Math.round(trip.duration / 60)) : '',
+        trip: optional(trip?.trip),
+        electricity: optional(trip?.electricity),
+        fuel: optional(trip?.fuel),
+        start_soc: optional(trip?.start_soc),
+        end_soc: optional(trip?.end_soc),
+        regeneration: optional(trip?.regeneration)
+    };
+};
+
+const parseOptional = (value: string) => value.trim() === '' ? undefined : parseFloat(value);
+
+/**
+ * Modal for adding a trip the car did not log, or editing a stored one
+ */
+const TripEditorModal: React.FC = () => {
+    const { t } = useTranslation();
+    const { activeCar } = useCar();
+    const {
+        modals,
+        closeModal,
+        addTrip,
+        updateTrip,
+        editingTrip,
+        setEditingTrip,
+        selectedTrip,
+        setSelectedTrip
+    } = useData();
+
+    const onClose = () => {
+        closeModal('tripEditor');
+        setEditingTrip(null);
+    };
+
+    const [initial, setInitial] = useState<FormData>(() => toFormData(editingTrip));
+    const [formData, setFormData] = useState<FormData>(initial);
+    const [issues, setIssues] = useState<ImportIssue[]>([]);
+
+    useEffect(() => {
+        if (!modals.tripEditor) return;
+        const values = toFormData(editingTrip);
+        setInitial(values);
+        setFormData(values);
+        setIssues([]);
+    }, [modals.tripEditor, editingTrip]);
+
+    const handleChange = (field: keyof FormData, value: string) => {
+        setFormData(prev => ({ ...prev, [field]: value }));
+    };
+
+    const isChanged = (field: keyof FormData) => formData[field] !== initial[field];
+
+    // Only the fields the user touched, so untouched values keep their exact stored form
+    const buildChanges = (): Partial<Trip> => {
+        const changes: Partial<Trip> = {};
+        if (!editingTrip || isChanged('date') || isChanged('time')) {
+            changes.date = formData.date.replace(/-/g, '');
+            changes.start_timestamp = Math.floor(new Date(`${formData.date}T${formData.time}`).getTime() / 1000);
+        }
+        if (!editingTrip || isChanged('duration')) {
+            changes.duration = (parseFloat(formData.duration) || 0) * 60;
+        }
+        if (changes.start_timestamp !== undefined || changes.duration !== undefined) {
+            const start = changes.start_timestamp ?? editingTrip!.start_timestamp;
+            changes.end_timestamp = start + (changes.duration ?? editingTrip!.duration);
+        }
+        if (!editingTrip || isChanged('trip')) changes.trip = parseFloat(formData.trip);
+        if (!editingTrip || isChanged('electricity')) changes.electricity = parseFloat(formData.electricity);
+        (['fuel', 'start_soc', 'end_soc', 'regeneration'] as const).forEach(field => {
+            if (!editingTrip || isChanged(field)) changes[field] = parseOptional(formData[field]);
+        });
+        return changes;
+    };
+
+    const handleSubmit = () => {
+        if (!formData.date || !formData.time || !formData.duration || !formData.trip || !formData.electricity) {
+            toast.error(t('tripEditor.fillRequired'));
+            return;
+        }
+
+        const result = editingTrip
+            ? updateTrip(tripSyncKey(editingTrip), buildChanges())
+            : addTrip(buildChanges());
+        if (!result.success) {
+            setIssues(result.issues);
+            return;
+        }
+
+        // The detail modal shows a snapshot of the trip
+        if (editingTrip && selectedTrip && tripSyncKey(selectedTrip) === tripSyncKey(editingTrip)) {
+            setSelectedTrip(result.trip);
+        }
+        toast.success(t(editingTrip ? 'tripEditor.updated' : 'tripEditor.added'));
+        onClose();
+    };
+
+    if (!modals.tripEditor) return null;
+
+    const inputClass = "w-full bg-slate-100 dark:bg-slate-700/50 text-slate-900 dark:text-white rounded-xl px-3 py-2.5 border border-slate-200 dark:border-slate-600 text-sm focus:outline-none focus:ring-2 focus:ring-red-500/50";
+    const labelClass = "block text-sm text-slate-600 dark:text-slate-400 mb-1.5";
+
+    // Zod paths name the trip field; date and start time come from the date and time inputs
+    const fieldIssues = (...paths: string[]) => issues.filter(issue => paths.includes(issue.path));
+    const issueText = (...paths: string[]) => fieldIssues(...paths).map(issue => (
+        <p key={issue.path + issue.message} className="text-xs text-red-500 mt-1">{issue.message}</p>
+    ));
+    const otherIssues = issues.filter(issue => ![
+        'date', 'start_timestamp', 'end_timestamp', 'duration', 'trip', 'electricity', 'fuel', 'start_soc', 'end_soc', 'regeneration'
+    ].includes(issue.path));
+
+    const numberInput = (field: keyof FormData, placeholder?: string, step: string = 'any') => (
+        <input
+            type="number"
+            inputMode="decimal"
+            min="0"
+            step={step}
+            value={formData[field]}
+            onChange={(e) => handleChange(field, e.target.value)}
+            placeholder={placeholder}
+            className={inputClass}
+        />
+    );
+
+    const showFuel = activeCar?.isHybrid || formData.fuel !== '';
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 animate-modal-backdrop" onClick={onClose}>
+            <div className="absolute inset-0 bg-black/60 backdrop-blur-sm"></div>
+
+            <div
+                role="dialog"
+                aria-modal="true"
+                aria-labelledby="trip-editor-modal-title"
+                className="relative bg-white dark:bg-slate-800 rounded-2xl p-5 max-w-md w-full max-h-[85vh] overflow-y-auto border border-slate-200 dark:border-slate-700 animate-modal-content"
+                style={{ paddingBottom: 'max(20px, env(safe-area-inset-bottom))' }}
+                onClick={(e) => e.stopPropagation()}
+            >
+                <ModalHeader
+                    title={editingTrip ? t('tripEditor.editTrip') : t('tripEditor.addTrip')}
+                    Icon={MapPin}
+                    onClose={onClose}
+                    id="trip-editor-modal-title"
+                    iconColor={BYD_RED}
+                    className="mb-4"
+                />
+
+                {editingTrip && editingTrip.source !== 'manual' && (
+                    <p className="text-xs text-slate-500 dark:text-slate-400 mb-4">{t('tripEditor.importedHint')}</p>
+                )}
+
+                <div className="space-y-4">
+                    {/* Date and start time */}
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <label className={labelClass}>{t('tripEditor.date')}</label>
+                            <input
+                                type="date"
+                                value={formData.date}
+                                onChange={(e) => handleChange('date', e.target.value)}
+                                className={inputClass}
+                            />
+                            {issueText('date')}
+                        </div>
+                        <div>
+                            <label className={labelClass}>{t('tripEditor.startTime')}</label>
+                            <input
+                                type="time"
+                                value={formData.time}
+                                onChange={(e) => handleChange('time', e.target.value)}
+                                className={inputClass}
+                            />
+                            {issueText('start_timestamp')}
+                        </div>
+                    </div>
+
+                    {/* Duration and distance */}
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <label className={labelClass}>{t('tripEditor.duration')}</label>
+                            {numberInput('duration', '25', '1')}
+                            {issueText('duration', 'end_timestamp')}
+                        </div>
+                        <div>
+                            <label className={labelClass}>{t('stats.distance')} ({t('units.km')})</label>
+                            {numberInput('trip', '12.5')}
+                            {issueText('trip')}
+                        </div>
+                    </div>
+
+                    {/* Energy */}
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <label className={labelClass}>{t('tripDetail.consumption')} ({t('units.kWh')})</label>
+                            <input
+                                type="number"
+                                inputMode="decimal"
+                                step="any"
+                                value={formData.electricity}
+                                onChange={(e) => handleChange('electricity', e.target.value)}
+                                placeholder="2.1"
+                                className={inputClass}
+                            />
+                            {issueText('electricity')}
+                        </div>
+                        <div>
+                            <label className={labelClass}>{t('tripDetail.energyRecovered')} ({t('units.kWh')})</label>
+                            {numberInput('regeneration', t('charges.optional'))}
+                            {issueText('regeneration')}
+                        </div>
+                    </div>
+
+                    {showFuel && (
+                        <div>
+                            <label className={labelClass}>{t('tripEditor.fuel')}</label>
+                            {numberInput('fuel', t('charges.optional'))}
+                            {issueText('fuel')}
+                        </div>
+                    )}
+
+                    {/* Battery state */}
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <label className={labelClass}>{t('tripEditor.startSoc')}</label>
+                            {numberInput('start_soc', t('charges.optional'), '1')}
+                            {issueText('start_soc')}
+                        </div>
+                        <div>
+                            <label className={labelClass}>{t('tripEditor.endSoc')}</label>
+                            {numberInput('end_soc', t('charges.optional'), '1')}
+                            {issueText('end_soc')}
+                        </div>
+                    </div>
+
+                    {otherIssues.map(issue => (
+                        <p key={issue.path + issue.message} className="text-xs text-red-500">{issue.message}</p>
+                    ))}
+                </div>
+
+                <button
+                    onClick={handleSubmit}
+                    className="w-full mt-6 py-3 rounded-xl font-medium text-white transition-colors hover:opacity-90 active:opacity-80"
+                    style={{ backgroundColor: BYD_RED }}
+                >
+                    {t('tripEditor.save')}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default TripEditorModal;
@@ -3,11 +3,12 @@
 
 import React, { useMemo, useState } from 'react';
 import { useTranslation } from 'react-i18next';
-import { X, Zap, TrendingUp, Calendar, Battery, MapPin, Clock, Car, Fuel, LucideIcon, Info } from '../Icons'; // Added Info
+import { X, Zap, TrendingUp, Calendar, Battery, MapPin, Clock, Car, Fuel, LucideIcon, Info, Shield } from '../Icons'; // Added Info
 import { Line } from 'react-chartjs-2';
 import StatItem from '../ui/StatItem';
 import ModalPortal from '../common/ModalPortal';
 import SoHExplanationModal, { SoHMetricType } from './SoHExplanationModal';
+import BatteryCertificateModal from './BatteryCertificateModal';
 import { isStationaryTrip } from '../../core/dataProcessing';
 import { Trip, Settings as SettingsType } from '../../types'; // Correct import path
 
@@ -238,6 +239,7 @@ const TripInsightsModal: React.FC<TripInsightsModalProps> = ({
 
     // State for sub-modal
     const [explanationType, setExplanationType] = useState<SoHMetricType | null>(null);
+    const [showCertificate, setShowCertificate] = useState(false);
 
     if (!isOpen) return null;
 
@@ -604,11 +606,24 @@ const TripInsightsModal: React.FC<TripInsightsModalProps> = ({
                             </button>
                         </div>
 
+                        <button
+                            onClick={() => setShowCertificate(true)}
+                            className="flex items-center justify-center gap-2 py-2.5 rounded-xl text-sm font-medium text-emerald-700 dark:text-emerald-300 bg-emerald-50 dark:bg-emerald-900/20 border border-emerald-100 dark:border-emerald-800/30 hover:bg-emerald-100 dark:hover:bg-emerald-900/30 transition-colors"
+                        >
+                            <Shield className="w-4 h-4" />
+                            {t('certificate.open')}
+                        </button>
+
                         <SoHExplanationModal
                             isOpen={!!explanationType}
                             onClose={() => setExplanationType(null)}
                             type={explanationType}
                         />
+
+                        <BatteryCertificateModal
+                            isOpen={showCertificate}
+                            onClose={() => setShowCertificate(false)}
+                        />
                     </div>
                 );
             case 'stationary':
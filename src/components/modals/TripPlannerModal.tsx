@@ -0,0 +1,229 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import ModalPortal from '../common/ModalPortal';
+import { X, Navigation, Zap } from '../Icons';
+import { useData } from '@/providers/DataProvider';
+import { getCurrentElectricPrice } from '@core/dataProcessing';
+import { DEFAULT_CHARGE_TO_SOC, DEFAULT_RESERVE_SOC, SPEED_PROFILES, SpeedProfile, planTrip } from '@core/tripPlanner';
+import { Settings } from '@/types';
+
+const PROFILES: SpeedProfile[] = ['city', 'mixed', 'highway'];
+
+const inputClass = 'w-full bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-xl px-3 py-2 text-sm text-slate-900 dark:text-white';
+
+interface TripPlannerModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    settings: Settings;
+    soh?: number; // Effective SoH (calculated mode); falls back to settings.soh
+}
+
+/**
+ * Arrival SoC, charging stops and cost of a planned drive, using the learned efficiency model
+ */
+const TripPlannerModal: React.FC<TripPlannerModalProps> = ({ isOpen, onClose, settings, soh }) => {
+    const { t } = useTranslation();
+    const { trips, charges, predictEfficiency, isAiTraining } = useData();
+
+    const [distance, setDistance] = React.useState(250);
+    const [profile, setProfile] = React.useState<SpeedProfile>('highway');
+    const [startSoc, setStartSoc] = React.useState(90);
+    const [reserveSoc, setReserveSoc] = React.useState(DEFAULT_RESERVE_SOC);
+    const [chargeToSoc, setChargeToSoc] = React.useState(DEFAULT_CHARGE_TO_SOC);
+    const [efficiency, setEfficiency] = React.useState<number | null>(null);
+    const [isPredicting, setIsPredicting] = React.useState(false);
+
+    const speed = SPEED_PROFILES[profile];
+
+    React.useEffect(() => {
+        if (!isOpen || !(distance > 0)) return;
+        let cancelled = false;
+        setIsPredicting(true);
+
+        // Debounced: the distance is an input of the model
+        const timer = setTimeout(() => {
+            predictEfficiency(speed, distance)
+                .then(value => { if (!cancelled) setEfficiency(value); })
+                .catch(() => { if (!cancelled) setEfficiency(null); })
+                .finally(() => { if (!cancelled) setIsPredicting(false); });
+        }, 300);
+
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [isOpen, speed, distance, predictEfficiency]);
+
+    const pricePerKwh = React.useMemo(() => getCurrentElectricPrice(settings, charges, trips), [settings, charges, trips]);
+
+    const plan = React.useMemo(() => {
+        if (efficiency === null || !(distance > 0)) return null;
+        return planTrip(
+            { distanceKm: distance, averageSpeed: speed, startSoc, reserveSoc, chargeToSoc },
+            {
+                efficiency,
+                batterySize: Number(settings.batterySize) || 0,
+                soh: soh ?? (Number(settings.soh) || 100),
+                pricePerKwh
+            }
+        );
+    }, [efficiency, distance, speed, startSoc, reserveSoc, chargeToSoc, settings.batterySize, settings.soh, soh, pricePerKwh]);
+
+    if (!isOpen) return null;
+
+    const numberField = (label: string, value: number, onChange: (value: number) => void, unit: string, max?: number) => (
+        <label className="block">
+            <span className="text-xs font-medium text-slate-500 dark:text-slate-400">{label} ({unit})</span>
+            <input
+                type="number"
+                min={0}
+                max={max}
+                value={Number.isFinite(value) ? value : ''}
+                onChange={e => onChange(parseFloat(e.target.value))}
+                className={`${inputClass} mt-1`}
+            />
+        </label>
+    );
+
+    return (
+        <ModalPortal>
+            <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 animate-modal-backdrop" onClick={onClose}>
+                <div className="absolute inset-0 bg-black/60 backdrop-blur-sm"></div>
+
+                <div
+                    role="dialog"
+                    aria-modal="true"
+                    className="relative bg-white dark:bg-slate-800 rounded-3xl max-w-lg w-full shadow-2xl animate-modal-content overflow-hidden border border-slate-200 dark:border-slate-700 flex flex-col max-h-[85vh]"
+                    onClick={(e) => e.stopPropagation()}
+                >
+                    {/* Header */}
+                    <div className="flex justify-between items-center p-5 border-b border-slate-100 dark:border-slate-700 bg-white dark:bg-slate-800 sticky top-0 z-10">
+                        <div className="flex items-center gap-3">
+                            <div className="w-10 h-10 rounded-full bg-indigo-100 dark:bg-indigo-900/30 flex items-center justify-center">
+                                <Navigation className="w-5 h-5 text-indigo-600 dark:text-indigo-400" />
+                            </div>
+                            <h2 className="text-lg font-bold text-slate-900 dark:text-white">{t('planner.title')}</h2>
+                        </div>
+                        <button
+                            onClick={onClose}
+                            className="p-2 rounded-full hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors"
+                        >
+                            <X className="w-5 h-5 text-slate-500" />
+                        </button>
+                    </div>
+
+                    <div className="p-5 overflow-y-auto custom-scrollbar space-y-5">
+                        {/* Inputs */}
+                        <div className="space-y-3">
+                            <div className="grid grid-cols-2 gap-3">
+                                {numberField(t('planner.distance'), distance, setDistance, 'km')}
+                                {numberField(t('planner.startSoc'), startSoc, setStartSoc, '%', 100)}
+                            </div>
+
+                            <div>
+                                <span className="text-xs font-medium text-slate-500 dark:text-slate-400">{t('planner.speedProfile')}</span>
+                                <div className="grid grid-cols-3 gap-2 mt-1">
+                                    {PROFILES.map(p => (
+                                        <button
+                                            key={p}
+                                            onClick={() => setProfile(p)}
+                                            className={`py-2 px-2 rounded-xl text-xs font-medium border transition-colors ${profile === p
+                                                ? 'bg-indigo-600 border-indigo-600 text-white'
+                                                : 'bg-white dark:bg-slate-700 border-slate-200 dark:border-slate-600 text-slate-700 dark:text-slate-200'
+                                                }`}
+                                        >
+                                            {t(`planner.profiles.${p}`)}
+                                            <span className="block text-[10px] opacity-70">{SPEED_PROFILES[p]} km/h</span>
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+
+                            <div className="grid grid-cols-2 gap-3">
+                                {numberField(t('planner.reserveSoc'), reserveSoc, setReserveSoc, '%', 100)}
+                                {numberField(t('planner.chargeToSoc'), chargeToSoc, setChargeToSoc, '%', 100)}
+                            </div>
+                        </div>
+
+                        {/* Result */}
+                        {isPredicting || isAiTraining ? (
+                            <div className="flex items-center gap-2 text-xs px-3 py-2 rounded-lg text-blue-600 bg-blue-50 dark:bg-blue-900/20 animate-pulse">
+                                <span className="animate-spin text-xl">🧠</span>
+                                <span>{t('insights.analyzing')}</span>
+                            </div>
+                        ) : plan && (
+                            <div className="space-y-4">
+                                <div className={`p-5 rounded-2xl text-center border ${plan.feasible
+                                    ? 'bg-indigo-50 dark:bg-indigo-900/20 border-indigo-100 dark:border-indigo-800 text-indigo-800 dark:text-indigo-200'
+                                    : 'bg-red-50 dark:bg-red-900/20 border-red-100 dark:border-red-800 text-red-800 dark:text-red-200'
+                                    }`}>
+                                    <p className="text-xs uppercase tracking-wide opacity-70">{t('planner.arrivalSoc')}</p>
+                                    <p className="text-4xl font-black my-1">{plan.feasible ? `${plan.arrivalSoc}%` : '—'}</p>
+                                    <p className="text-sm opacity-90">
+                                        {!plan.feasible
+                                            ? t('planner.notFeasible')
+                                            : plan.stops.length === 0
+                                                ? t('planner.noStops')
+                                                : t('planner.stopsNeeded', { count: plan.stops.length })}
+                                    </p>
+                                </div>
+
+                                <div className="grid grid-cols-2 gap-3 text-sm">
+                                    <div className="bg-slate-50 dark:bg-slate-800 p-3 rounded-xl border border-slate-100 dark:border-slate-700">
+                                        <p className="text-xs text-slate-500">{t('stats.efficiency')}</p>
+                                        <p className="font-bold text-slate-900 dark:text-white">{plan.efficiency.toFixed(1)} kWh/100km</p>
+                                    </div>
+                                    <div className="bg-slate-50 dark:bg-slate-800 p-3 rounded-xl border border-slate-100 dark:border-slate-700">
+                                        <p className="text-xs text-slate-500">{t('planner.energy')}</p>
+                                        <p className="font-bold text-slate-900 dark:text-white">{plan.energyKwh.toFixed(1)} kWh</p>
+                                    </div>
+                                    <div className="bg-slate-50 dark:bg-slate-800 p-3 rounded-xl border border-slate-100 dark:border-slate-700">
+                                        <p className="text-xs text-slate-500">{t('planner.range')}</p>
+                                        <p className="font-bold text-slate-900 dark:text-white">{plan.rangeKm} km</p>
+                                    </div>
+                                    <div className="bg-slate-50 dark:bg-slate-800 p-3 rounded-xl border border-slate-100 dark:border-slate-700">
+                                        <p className="text-xs text-slate-500">{t('planner.cost')}</p>
+                                        <p className="font-bold text-slate-900 dark:text-white">{plan.cost.toFixed(2)} €</p>
+                                        <p className="text-[10px] text-slate-400">{pricePerKwh.toFixed(3)} €/kWh</p>
+                                    </div>
+                                </div>
+
+                                {plan.stops.length > 0 && (
+                                    <div className="overflow-hidden rounded-xl border border-slate-200 dark:border-slate-700">
+                                        <table className="w-full text-sm text-left">
+                                            <thead className="bg-slate-50 dark:bg-slate-800 text-slate-500 uppercase text-xs">
+                                                <tr>
+                                                    <th className="px-4 py-3">{t('planner.stopAt')}</th>
+                                                    <th className="px-4 py-3">{t('planner.soc')}</th>
+                                                    <th className="px-4 py-3 text-right">{t('planner.charge')}</th>
+                                                </tr>
+                                            </thead>
+                                            <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+                                                {plan.stops.map((stop, i) => (
+                                                    <tr key={i} className="bg-white dark:bg-slate-900">
+                                                        <td className="px-4 py-3 font-medium text-slate-900 dark:text-white flex items-center gap-2">
+                                                            <Zap className="w-4 h-4 text-amber-500" />
+                                                            {stop.atKm} km
+                                                        </td>
+                                                        <td className="px-4 py-3 text-slate-500">{stop.arrivalSoc}% → {stop.departureSoc}%</td>
+                                                        <td className="px-4 py-3 text-right text-slate-500">
+                                                            {stop.kwh.toFixed(1)} kWh · {stop.cost.toFixed(2)} €
+                                                        </td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                    </div>
+                                )}
+
+                                <p className="text-[10px] text-slate-400 px-1">{t('planner.disclaimer')}</p>
+                            </div>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </ModalPortal>
+    );
+};
+
+export default TripPlannerModal;
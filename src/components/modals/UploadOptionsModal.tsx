@@ -1,17 +1,23 @@
 // BYD Stats - Upload Options Modal
-// Simple modal to choose between merging or replacing data
+// Simple modal to choose between merging or replacing data, or mapping a CSV from another tool
 
-import React, { ChangeEvent } from 'react';
+import React, { ChangeEvent, useState } from 'react';
 import { useTranslation } from 'react-i18next';
-import { Plus, Upload } from '../Icons';
+import { FileText, Plus, Upload } from '../Icons';
 import { useData } from '../../providers/DataProvider';
+import CsvMappingWizard from './CsvMappingWizard';
 
 const UploadOptionsModal: React.FC = () => {
     const { t } = useTranslation();
     const { modals, closeModal, loadFile, clearData } = useData();
 
+    const [showWizard, setShowWizard] = useState(false);
+
     const isOpen = modals.upload;
-    const onClose = () => closeModal('upload');
+    const onClose = () => {
+        setShowWizard(false);
+        closeModal('upload');
+    };
 
     if (!isOpen) return null;
 
@@ -27,12 +33,15 @@ const UploadOptionsModal: React.FC = () => {
     return (
         <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4 animate-modal-backdrop" onClick={onClose}>
             <div
-                className="bg-white dark:bg-slate-800 rounded-2xl p-6 max-w-md w-full border border-slate-200 dark:border-slate-700 animate-modal-content"
+                className={`bg-white dark:bg-slate-800 rounded-2xl p-6 w-full border border-slate-200 dark:border-slate-700 animate-modal-content ${showWizard ? 'max-w-2xl max-h-[90vh] overflow-y-auto' : 'max-w-md'}`}
                 onClick={(e) => e.stopPropagation()}
                 role="dialog"
                 aria-modal="true"
                 aria-labelledby="upload-options-title"
             >
+                {showWizard ? (
+                    <CsvMappingWizard onBack={() => setShowWizard(false)} onDone={onClose} />
+                ) : (<>
                 <h3 id="upload-options-title" className="text-xl font-bold mb-4 text-slate-900 dark:text-white">{t('settings.updateData')}</h3>
 
                 <div className="space-y-3">
@@ -59,6 +68,15 @@ const UploadOptionsModal: React.FC = () => {
                         <Upload className="w-8 h-8 mx-auto mb-2 text-amber-500" />
                         <p className="text-slate-900 dark:text-white">{t('upload.replaceAll')}</p>
                     </label>
+
+                    {/* CSV from another tool */}
+                    <button
+                        onClick={() => setShowWizard(true)}
+                        className="w-full border-2 border-dashed border-slate-600 rounded-xl p-4 text-center hover:border-blue-500 transition-colors"
+                    >
+                        <FileText className="w-6 h-6 mx-auto mb-1 text-blue-500" />
+                        <p className="text-slate-900 dark:text-white">{t('csvWizard.open')}</p>
+                    </button>
                 </div>
 
                 <div className="flex gap-3 mt-6">
@@ -75,6 +93,7 @@ const UploadOptionsModal: React.FC = () => {
                         {t('upload.deleteAll')}
                     </button>
                 </div>
+                </>)}
             </div>
         </div>
     );
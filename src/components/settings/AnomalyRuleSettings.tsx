@@ -0,0 +1,205 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { Trash2 } from '../Icons';
+import { AnomalyRuleSettings as RuleOverrides, AnomalySeverity, AnomalyTier, CustomAnomalyRule, Settings } from '../../types';
+import {
+    ANOMALY_RULES,
+    ANOMALY_SEVERITIES,
+    AnomalyRule,
+    CUSTOM_RULE_METRICS,
+    createCustomAnomalyRule,
+    resolveAnomalyRule
+} from '@core/anomalyRules';
+
+const inputClass = 'w-full bg-white dark:bg-slate-700 text-slate-900 dark:text-white rounded-lg px-3 py-2 text-sm border border-slate-200 dark:border-slate-600';
+const labelClass = 'block text-[10px] text-slate-500 dark:text-slate-400 mb-1';
+
+interface AnomalyRuleSettingsProps {
+    settings: Settings;
+    onSettingsChange: (settings: Settings) => void;
+}
+
+/**
+ * Thresholds, on/off and severities of the health checks, and the user's own checks
+ */
+const AnomalyRuleSettings: React.FC<AnomalyRuleSettingsProps> = ({ settings, onSettingsChange }) => {
+    const { t } = useTranslation();
+    const overrides = settings.anomalyRules || {};
+    const customRules = settings.customAnomalyRules || [];
+
+    const updateOverrides = (id: string, changes: RuleOverrides | undefined) => {
+        const next = { ...overrides };
+        if (changes) {
+            next[id] = changes;
+        } else {
+            delete next[id];
+        }
+        onSettingsChange({ ...settings, anomalyRules: next });
+    };
+
+    const setThreshold = (rule: AnomalyRule, key: string, value: string) => {
+        const current = overrides[rule.id] || {};
+        const thresholds = { ...current.thresholds };
+        if (value === '') {
+            delete thresholds[key];
+        } else {
+            thresholds[key] = parseFloat(value) || 0;
+        }
+        updateOverrides(rule.id, { ...current, thresholds });
+    };
+
+    const setSeverity = (rule: AnomalyRule, tier: AnomalyTier, severity: AnomalySeverity) => {
+        const current = overrides[rule.id] || {};
+        updateOverrides(rule.id, { ...current, severity: { ...current.severity, [tier]: severity } });
+    };
+
+    const updateCustomRule = (id: string, changes: Partial<CustomAnomalyRule>) => {
+        onSettingsChange({ ...settings, customAnomalyRules: customRules.map(rule => rule.id === id ? { ...rule, ...changes } : rule) });
+    };
+
+    const severitySelect = (value: AnomalySeverity, onChange: (severity: AnomalySeverity) => void) => (
+        <select value={value} onChange={(e) => onChange(e.target.value as AnomalySeverity)} className={inputClass}>
+            {ANOMALY_SEVERITIES.map(severity => <option key={severity} value={severity}>{t(`anomalies.severity.${severity}`)}</option>)}
+        </select>
+    );
+
+    return (
+        <div className="space-y-3">
+            {/* Built-in checks */}
+            <div className="space-y-2">
+                <label className="block text-xs font-semibold text-slate-700 dark:text-slate-300">{t('anomalies.rules')}</label>
+                {ANOMALY_RULES.map(rule => {
+                    const config = resolveAnomalyRule(rule, overrides[rule.id]);
+                    const tiers = (Object.keys(rule.severity) as AnomalyTier[]);
+                    return (
+                        <div key={rule.id} className="bg-white/60 dark:bg-slate-800/60 rounded-lg p-2 space-y-2">
+                            <div className="flex items-center justify-between gap-2">
+                                <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+                                    <input
+                                        type="checkbox"
+                                        checked={config.enabled}
+                                        onChange={(e) => updateOverrides(rule.id, { ...overrides[rule.id], enabled: e.target.checked })}
+                                    />
+                                    {t(`anomalies.rule.${rule.id}`)}
+                                </label>
+                                {overrides[rule.id] && (
+                                    <button onClick={() => updateOverrides(rule.id, undefined)} className="text-[10px] text-slate-500 dark:text-slate-400 hover:underline">
+                                        {t('anomalies.reset')}
+                                    </button>
+                                )}
+                            </div>
+                            {config.enabled && (
+                                <div className="grid grid-cols-2 gap-2">
+                                    {rule.thresholds.map(threshold => (
+                                        <div key={threshold.key}>
+                                            <label className={labelClass}>
+                                                {t(`anomalies.thresholds.${threshold.key}`)}{threshold.unit && ` (${threshold.unit})`}
+                                            </label>
+                                            <input
+                                                type="number"
+                                                min={threshold.min}
+                                                max={threshold.max}
+                                                step={threshold.step}
+                                                value={overrides[rule.id]?.thresholds?.[threshold.key] ?? ''}
+                                                placeholder={String(threshold.defaultValue)}
+                                                onChange={(e) => setThreshold(rule, threshold.key, e.target.value)}
+                                                className={inputClass}
+                                            />
+                                        </div>
+                                    ))}
+                                    {tiers.map(tier => (
+                                        <div key={tier}>
+                                            <label className={labelClass}>{t(tiers.length > 1 ? `anomalies.tier.${tier}` : 'anomalies.severityLabel')}</label>
+                                            {severitySelect(config.severity[tier], severity => setSeverity(rule, tier, severity))}
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+
+            {/* Custom checks */}
+            <div className="space-y-2">
+                <label className="block text-xs font-semibold text-slate-700 dark:text-slate-300">{t('anomalies.customRules')}</label>
+                <p className="text-[10px] text-slate-400">{t('anomalies.customRulesHint')}</p>
+                {customRules.map(rule => (
+                    <div key={rule.id} className="bg-white/60 dark:bg-slate-800/60 rounded-lg p-2 space-y-2">
+                        <div className="flex items-center gap-2">
+                            <input
+                                type="checkbox"
+                                checked={rule.enabled}
+                                onChange={(e) => updateCustomRule(rule.id, { enabled: e.target.checked })}
+                            />
+                            <input
+                                type="text"
+                                value={rule.name}
+                                onChange={(e) => updateCustomRule(rule.id, { name: e.target.value })}
+                                className={inputClass}
+                            />
+                            <button
+                                onClick={() => onSettingsChange({ ...settings, customAnomalyRules: customRules.filter(r => r.id !== rule.id) })}
+                                className="p-1 text-red-500 hover:text-red-700"
+                                title={t('anomalies.deleteRule')}
+                            >
+                                <Trash2 className="w-4 h-4" />
+                            </button>
+                        </div>
+                        <div className="grid grid-cols-2 gap-2">
+                            <div>
+                                <label className={labelClass}>{t('anomalies.metric')}</label>
+                                <select
+                                    value={rule.metric}
+                                    onChange={(e) => {
+                                        const metric = e.target.value as CustomAnomalyRule['metric'];
+                                        updateCustomRule(rule.id, { metric, threshold: CUSTOM_RULE_METRICS[metric].defaultThreshold });
+                                    }}
+                                    className={inputClass}
+                                >
+                                    {(Object.keys(CUSTOM_RULE_METRICS) as CustomAnomalyRule['metric'][]).map(metric => (
+                                        <option key={metric} value={metric}>{t(`anomalies.metrics.${metric}`)}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div>
+                                <label className={labelClass}>{t('anomalies.operator')}</label>
+                                <select
+                                    value={rule.operator}
+                                    onChange={(e) => updateCustomRule(rule.id, { operator: e.target.value as CustomAnomalyRule['operator'] })}
+                                    className={inputClass}
+                                >
+                                    <option value="above">{t('anomalies.above')}</option>
+                                    <option value="below">{t('anomalies.below')}</option>
+                                </select>
+                            </div>
+                            <div>
+                                <label className={labelClass}>{t('anomalies.threshold')} ({CUSTOM_RULE_METRICS[rule.metric]?.unit})</label>
+                                <input
+                                    type="number"
+                                    min="0"
+                                    step="any"
+                                    value={rule.threshold}
+                                    onChange={(e) => updateCustomRule(rule.id, { threshold: Math.max(0, parseFloat(e.target.value) || 0) })}
+                                    className={inputClass}
+                                />
+                            </div>
+                            <div>
+                                <label className={labelClass}>{t('anomalies.severityLabel')}</label>
+                                {severitySelect(rule.severity, severity => updateCustomRule(rule.id, { severity }))}
+                            </div>
+                        </div>
+                    </div>
+                ))}
+                <button
+                    onClick={() => onSettingsChange({ ...settings, customAnomalyRules: [...customRules, createCustomAnomalyRule(t('anomalies.newRule'))] })}
+                    className="text-xs text-slate-500 dark:text-slate-400 hover:underline"
+                >
+                    + {t('anomalies.addRule')}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default AnomalyRuleSettings;
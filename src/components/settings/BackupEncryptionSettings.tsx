@@ -0,0 +1,161 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { Lock } from '../Icons';
+import { BackupPassphraseProblem } from '@core/backupCrypto';
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const inputClass = 'w-full bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-xl px-3 py-2 text-sm text-slate-900 dark:text-white';
+
+interface BackupEncryptionSettingsProps {
+    googleSync: {
+        isSyncing: boolean;
+        encryptionEnabled: boolean;
+        passphraseProblem: BackupPassphraseProblem | null;
+        unlockBackups: (passphrase: string) => Promise<boolean>;
+        changeBackupPassphrase: (passphrase: string | null) => Promise<boolean>;
+    };
+}
+
+/**
+ * Optional passphrase for the files uploaded by sync
+ */
+const BackupEncryptionSettings: React.FC<BackupEncryptionSettingsProps> = ({ googleSync }) => {
+    const { t } = useTranslation();
+    const [editing, setEditing] = React.useState(false);
+    const [passphrase, setPassphrase] = React.useState('');
+    const [confirmation, setConfirmation] = React.useState('');
+    const [formError, setFormError] = React.useState<string | null>(null);
+
+    const reset = () => {
+        setEditing(false);
+        setPassphrase('');
+        setConfirmation('');
+        setFormError(null);
+    };
+
+    const handleUnlock = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (await googleSync.unlockBackups(passphrase)) reset();
+    };
+
+    const handleChange = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+            setFormError(t('sync.encryption.tooShort', { count: MIN_PASSPHRASE_LENGTH }));
+            return;
+        }
+        if (passphrase !== confirmation) {
+            setFormError(t('sync.encryption.mismatch'));
+            return;
+        }
+        if (await googleSync.changeBackupPassphrase(passphrase)) reset();
+    };
+
+    const handleDisable = async () => {
+        if (!confirm(t('sync.encryption.confirmDisable'))) return;
+        await googleSync.changeBackupPassphrase(null);
+    };
+
+    return (
+        <div className="mt-3 pt-3 border-t border-slate-200 dark:border-slate-700">
+            <div className="flex items-center justify-between gap-2">
+                <span className="flex items-center gap-2 text-xs font-semibold text-slate-700 dark:text-slate-300">
+                    <Lock className="w-4 h-4 text-slate-500 dark:text-slate-400" />
+                    {t('sync.encryption.title')}
+                </span>
+                <span className={`text-[10px] font-medium ${googleSync.encryptionEnabled ? 'text-green-600 dark:text-green-400' : 'text-slate-400'}`}>
+                    {googleSync.encryptionEnabled ? t('sync.encryption.enabled') : t('sync.encryption.disabled')}
+                </span>
+            </div>
+
+            {googleSync.passphraseProblem ? (
+                // Backups encrypted elsewhere (or with another passphrase) wait for the right one
+                <form onSubmit={handleUnlock} className="mt-2 space-y-2">
+                    <p className="text-xs text-amber-600 dark:text-amber-400">
+                        {googleSync.passphraseProblem === 'wrong' ? t('sync.encryption.wrong') : t('sync.encryption.required')}
+                    </p>
+                    <input
+                        type="password"
+                        required
+                        autoComplete="current-password"
+                        value={passphrase}
+                        onChange={e => setPassphrase(e.target.value)}
+                        placeholder={t('sync.encryption.passphrase')}
+                        className={inputClass}
+                    />
+                    <button
+                        type="submit"
+                        disabled={googleSync.isSyncing}
+                        className="w-full py-2 px-4 rounded-xl text-sm font-medium bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white transition-colors"
+                    >
+                        {t('sync.encryption.unlock')}
+                    </button>
+                </form>
+            ) : editing ? (
+                <form onSubmit={handleChange} className="mt-2 space-y-2">
+                    <input
+                        type="password"
+                        required
+                        autoComplete="new-password"
+                        value={passphrase}
+                        onChange={e => setPassphrase(e.target.value)}
+                        placeholder={t('sync.encryption.passphrase')}
+                        className={inputClass}
+                    />
+                    <input
+                        type="password"
+                        required
+                        autoComplete="new-password"
+                        value={confirmation}
+                        onChange={e => setConfirmation(e.target.value)}
+                        placeholder={t('sync.encryption.confirm')}
+                        className={inputClass}
+                    />
+                    <p className="text-[10px] text-slate-400 px-1">{t('sync.encryption.forgetWarning')}</p>
+                    {formError && <p className="text-xs text-red-500 px-1">{formError}</p>}
+                    <div className="grid grid-cols-2 gap-2">
+                        <button
+                            type="button"
+                            onClick={reset}
+                            className="py-2 px-4 rounded-xl text-sm font-medium bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-200"
+                        >
+                            {t('common.cancel')}
+                        </button>
+                        <button
+                            type="submit"
+                            disabled={googleSync.isSyncing}
+                            className="py-2 px-4 rounded-xl text-sm font-medium bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white transition-colors"
+                        >
+                            {googleSync.encryptionEnabled ? t('sync.encryption.change') : t('sync.encryption.enable')}
+                        </button>
+                    </div>
+                </form>
+            ) : (
+                <div className="mt-2 space-y-2">
+                    <p className="text-[10px] text-slate-400">{t('sync.encryption.description')}</p>
+                    <div className={`grid gap-2 ${googleSync.encryptionEnabled ? 'grid-cols-2' : 'grid-cols-1'}`}>
+                        <button
+                            onClick={() => setEditing(true)}
+                            disabled={googleSync.isSyncing}
+                            className="py-2 px-4 rounded-xl text-sm font-medium bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 text-slate-700 dark:text-white hover:bg-slate-50 dark:hover:bg-slate-600 transition-colors"
+                        >
+                            {googleSync.encryptionEnabled ? t('sync.encryption.change') : t('sync.encryption.enable')}
+                        </button>
+                        {googleSync.encryptionEnabled && (
+                            <button
+                                onClick={handleDisable}
+                                disabled={googleSync.isSyncing}
+                                className="py-2 px-4 rounded-xl text-sm font-medium text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+                            >
+                                {t('sync.encryption.disable')}
+                            </button>
+                        )}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default BackupEncryptionSettings;
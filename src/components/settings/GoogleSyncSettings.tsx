@@ -1,10 +1,28 @@
 import React from 'react';
 import { useTranslation } from 'react-i18next';
 import { useData } from '../../providers/DataProvider';
-import { Cloud, LogOut, RefreshCw, Database } from '../Icons';
+import { Cloud, LogOut, RefreshCw, Database, Server, Folder } from '../Icons';
+import { SyncProviderService } from '../../services/SyncProviderService';
+import { SyncProviderId } from '../../services/syncProvider';
+import { WebDavConfig } from '../../services/webdavProvider';
+import { isFolderSyncSupported } from '../../services/folderProvider';
+import { BackupPassphraseProblem } from '@core/backupCrypto';
+import BackupEncryptionSettings from './BackupEncryptionSettings';
+
+const PROVIDERS: { id: SyncProviderId; labelKey: string; Icon: typeof Cloud }[] = [
+    { id: 'google-drive', labelKey: 'sync.provider.googleDrive', Icon: Cloud },
+    { id: 'webdav', labelKey: 'sync.provider.webdav', Icon: Server },
+    { id: 'folder', labelKey: 'sync.provider.folder', Icon: Folder }
+];
+
+const inputClass = 'w-full bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-xl px-3 py-2 text-sm text-slate-900 dark:text-white';
 
 interface GoogleSyncSettingsProps {
     googleSync: {
+        providerId: SyncProviderId;
+        selectProvider: (id: SyncProviderId) => void;
+        connectWebDav: (config: WebDavConfig) => Promise<boolean>;
+        connectFolder: () => Promise<boolean>;
         isAuthenticated: boolean;
         isSyncing: boolean;
         lastSyncTime: Date | null;
@@ -13,6 +31,10 @@ interface GoogleSyncSettingsProps {
         login: () => void;
         logout: () => void;
         syncNow: () => void;
+        encryptionEnabled: boolean;
+        passphraseProblem: BackupPassphraseProblem | null;
+        unlockBackups: (passphrase: string) => Promise<boolean>;
+        changeBackupPassphrase: (passphrase: string | null) => Promise<boolean>;
     };
 }
 
@@ -20,6 +42,12 @@ const GoogleSyncSettings: React.FC<GoogleSyncSettingsProps> = ({ googleSync }) =
     const { t } = useTranslation();
     const { openModal } = useData();
     const [imgError, setImgError] = React.useState(false);
+    const [webDav, setWebDav] = React.useState<WebDavConfig>(() => ({
+        url: '', username: '', password: '', ...SyncProviderService.getWebDavConfig()
+    }));
+    const [connecting, setConnecting] = React.useState(false);
+
+    const isGoogle = googleSync.providerId === 'google-drive';
 
     // Reset error when profile changes
     React.useEffect(() => {
@@ -29,14 +57,100 @@ const GoogleSyncSettings: React.FC<GoogleSyncSettingsProps> = ({ googleSync }) =
     const userImage = googleSync.userProfile?.picture || googleSync.userProfile?.imageUrl;
     const showImage = userImage && !imgError;
 
+    const handleWebDavConnect = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setConnecting(true);
+        await googleSync.connectWebDav(webDav);
+        setConnecting(false);
+    };
+
+    // Where the data goes, shown instead of the Google profile
+    const location = googleSync.providerId === 'webdav'
+        ? SyncProviderService.getWebDavConfig()?.url
+        : SyncProviderService.getFolderName();
+    const current = PROVIDERS.find(p => p.id === googleSync.providerId) || PROVIDERS[0];
+
     return (
         <div className="pt-4 border-t border-slate-200 dark:border-slate-700 mt-4">
             <h4 className="text-sm font-semibold text-slate-900 dark:text-white mb-3 flex items-center gap-2">
                 <Cloud className="w-4 h-4 text-blue-500" />
-                {t('settings.googleDrive')}
+                {t('settings.cloudSync')}
             </h4>
 
-            {!googleSync.isAuthenticated ? (
+            {/* Provider */}
+            <div className="grid grid-cols-3 gap-1 p-1 mb-3 bg-slate-100 dark:bg-slate-800 rounded-xl">
+                {PROVIDERS.map(({ id, labelKey, Icon }) => (
+                    <button
+                        key={id}
+                        onClick={() => googleSync.selectProvider(id)}
+                        disabled={googleSync.isSyncing}
+                        className={`flex items-center justify-center gap-1.5 py-2 rounded-lg text-xs font-medium transition-colors ${googleSync.providerId === id
+                            ? 'bg-white dark:bg-slate-700 text-slate-900 dark:text-white shadow-sm'
+                            : 'text-slate-500 dark:text-slate-400'
+                            }`}
+                    >
+                        <Icon className="w-4 h-4" />
+                        {t(labelKey)}
+                    </button>
+                ))}
+            </div>
+
+            {!googleSync.isAuthenticated && googleSync.providerId === 'webdav' ? (
+                <form onSubmit={handleWebDavConnect} className="space-y-2">
+                    <input
+                        type="url"
+                        required
+                        value={webDav.url}
+                        onChange={e => setWebDav({ ...webDav, url: e.target.value })}
+                        placeholder="https://cloud.example.com/remote.php/dav/files/usuario/BYDStats"
+                        className={inputClass}
+                    />
+                    <div className="grid grid-cols-2 gap-2">
+                        <input
+                            type="text"
+                            required
+                            autoComplete="username"
+                            value={webDav.username}
+                            onChange={e => setWebDav({ ...webDav, username: e.target.value })}
+                            placeholder={t('sync.webdav.username')}
+                            className={inputClass}
+                        />
+                        <input
+                            type="password"
+                            required
+                            autoComplete="current-password"
+                            value={webDav.password}
+                            onChange={e => setWebDav({ ...webDav, password: e.target.value })}
+                            placeholder={t('sync.webdav.password')}
+                            className={inputClass}
+                        />
+                    </div>
+                    <p className="text-[10px] text-slate-400 px-1">{t('sync.webdav.hint')}</p>
+                    <button
+                        type="submit"
+                        disabled={connecting}
+                        className="w-full flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white font-medium rounded-xl px-4 py-3 transition-all shadow-sm active:scale-[0.98]"
+                    >
+                        <Server className="w-5 h-5" />
+                        {t('sync.webdav.connect')}
+                    </button>
+                    {googleSync.error && <p className="text-xs text-red-500 px-1">{googleSync.error}</p>}
+                </form>
+            ) : !googleSync.isAuthenticated && googleSync.providerId === 'folder' ? (
+                <div className="space-y-2">
+                    <button
+                        onClick={googleSync.connectFolder}
+                        disabled={!isFolderSyncSupported()}
+                        className="w-full flex items-center justify-center gap-2 bg-white dark:bg-slate-700 text-slate-700 dark:text-white border border-slate-300 dark:border-slate-600 hover:bg-slate-50 dark:hover:bg-slate-600 disabled:opacity-50 font-medium rounded-xl px-4 py-3 transition-all shadow-sm active:scale-[0.98]"
+                    >
+                        <Folder className="w-5 h-5" />
+                        {t('sync.folder.choose')}
+                    </button>
+                    <p className="text-[10px] text-slate-400 px-1">
+                        {isFolderSyncSupported() ? t('sync.folder.hint') : t('sync.folder.unsupported')}
+                    </p>
+                </div>
+            ) : !googleSync.isAuthenticated ? (
                 <button
                     onClick={googleSync.login}
                     className="w-full flex items-center justify-center gap-2 bg-white dark:bg-slate-700 text-slate-700 dark:text-white border border-slate-300 dark:border-slate-600 hover:bg-slate-50 dark:hover:bg-slate-600 font-medium rounded-xl px-4 py-3 transition-all shadow-sm active:scale-[0.98]"
@@ -54,7 +168,11 @@ const GoogleSyncSettings: React.FC<GoogleSyncSettingsProps> = ({ googleSync }) =
                     {/* Header: User Info & Logout */}
                     <div className="flex items-start justify-between gap-3 mb-4">
                         <div className="flex items-center gap-3 overflow-hidden">
-                            {showImage ? (
+                            {!isGoogle ? (
+                                <div className="w-10 h-10 rounded-full bg-blue-100 dark:bg-blue-900/30 flex items-center justify-center text-blue-600 dark:text-blue-400 border border-blue-200 dark:border-blue-800">
+                                    <current.Icon className="w-5 h-5" />
+                                </div>
+                            ) : showImage ? (
                                 <img
                                     src={userImage}
                                     alt="User"
@@ -69,10 +187,10 @@ const GoogleSyncSettings: React.FC<GoogleSyncSettingsProps> = ({ googleSync }) =
                             )}
                             <div className="min-w-0">
                                 <p className="text-sm font-semibold text-slate-900 dark:text-white truncate flex items-center gap-2">
-                                    {googleSync.userProfile?.name}
+                                    {isGoogle ? googleSync.userProfile?.name : t(current.labelKey)}
                                 </p>
                                 <p className="text-xs text-slate-500 dark:text-slate-400 truncate">
-                                    {googleSync.userProfile?.email}
+                                    {isGoogle ? googleSync.userProfile?.email : location}
                                 </p>
                                 <div className="flex items-center gap-1.5 mt-0.5">
                                     <span className="w-1.5 h-1.5 rounded-full bg-green-500 animate-pulse"></span>
@@ -116,6 +234,8 @@ const GoogleSyncSettings: React.FC<GoogleSyncSettingsProps> = ({ googleSync }) =
                         </button>
                     </div>
 
+                    <BackupEncryptionSettings googleSync={googleSync} />
+
                     {/* Footer Info */}
                     <div className="mt-3 flex items-center justify-between text-[10px] text-slate-400 px-1">
                         <span>
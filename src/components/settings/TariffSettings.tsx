@@ -0,0 +1,284 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { Trash2 } from '../Icons';
+import { Settings, Tariff, TariffScheduleRule } from '../../types';
+import { HOLIDAY_CALENDARS, TariffTemplateId, createTariffFromTemplate } from '@core/tariffs';
+
+// Monday first, as JS day indexes
+const DAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+const DAY_KEYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+const inputClass = 'w-full bg-white dark:bg-slate-700 text-slate-900 dark:text-white rounded-lg px-3 py-2 text-sm border border-slate-200 dark:border-slate-600';
+const labelClass = 'block text-[10px] text-slate-500 dark:text-slate-400 mb-1';
+
+interface TariffSettingsProps {
+    settings: Settings;
+    onSettingsChange: (settings: Settings) => void;
+}
+
+/**
+ * Time-of-use tariffs: periods, weekly schedule, holidays and dated price versions
+ */
+const TariffSettings: React.FC<TariffSettingsProps> = ({ settings, onSettingsChange }) => {
+    const { t } = useTranslation();
+    const tariffs = settings.tariffs || [];
+    const active = tariffs.find(tariff => tariff.id === settings.activeTariffId);
+
+    const saveTariffs = (next: Tariff[], activeTariffId = settings.activeTariffId) => {
+        onSettingsChange({ ...settings, tariffs: next, activeTariffId });
+    };
+
+    const updateActive = (changes: Partial<Tariff>) => {
+        if (!active) return;
+        saveTariffs(tariffs.map(tariff => tariff.id === active.id ? { ...tariff, ...changes } : tariff));
+    };
+
+    const handleAdd = (template: TariffTemplateId) => {
+        const tariff = createTariffFromTemplate(template);
+        saveTariffs([...tariffs, tariff], tariff.id);
+    };
+
+    const handleDelete = () => {
+        if (!active || !confirm(t('tariffs.confirmDelete', { name: active.name }))) return;
+        saveTariffs(tariffs.filter(tariff => tariff.id !== active.id), '');
+    };
+
+    const updateRule = (index: number, changes: Partial<TariffScheduleRule>) => {
+        if (!active) return;
+        updateActive({ schedule: active.schedule.map((rule, i) => i === index ? { ...rule, ...changes } : rule) });
+    };
+
+    const toggleRuleDay = (index: number, day: number) => {
+        const days = active!.schedule[index].days;
+        updateRule(index, { days: days.includes(day) ? days.filter(d => d !== day) : [...days, day] });
+    };
+
+    const addRule = () => {
+        if (!active) return;
+        updateActive({ schedule: [...active.schedule, { days: [1, 2, 3, 4, 5], start: '00:00', end: '08:00', periodId: active.periods[0]?.id }] });
+    };
+
+    const addPeriod = () => {
+        if (!active) return;
+        const id = `P${active.periods.length + 1}`;
+        updateActive({
+            periods: [...active.periods, { id, name: id }],
+            priceVersions: active.priceVersions.map(version => ({ ...version, prices: { ...version.prices, [id]: 0 } }))
+        });
+    };
+
+    // Newest first; a new version starts today with the latest prices
+    const versions = active ? [...active.priceVersions].sort((a, b) => b.validFrom.localeCompare(a.validFrom)) : [];
+
+    const updateVersion = (validFrom: string, changes: { validFrom?: string; periodId?: string; price?: number }) => {
+        if (!active) return;
+        updateActive({
+            priceVersions: active.priceVersions.map(version => {
+                if (version.validFrom !== validFrom) return version;
+                return {
+                    validFrom: changes.validFrom ?? version.validFrom,
+                    prices: changes.periodId ? { ...version.prices, [changes.periodId]: changes.price ?? 0 } : version.prices
+                };
+            })
+        });
+    };
+
+    const addVersion = () => {
+        if (!active) return;
+        const today = new Date().toISOString().split('T')[0];
+        if (active.priceVersions.some(version => version.validFrom === today)) return;
+        updateActive({ priceVersions: [...active.priceVersions, { validFrom: today, prices: { ...versions[0]?.prices } }] });
+    };
+
+    return (
+        <div className="space-y-3">
+            <div>
+                <label className="block text-xs font-semibold text-slate-700 dark:text-slate-300 mb-1">{t('tariffs.active')}</label>
+                <select
+                    value={active?.id || ''}
+                    onChange={(e) => onSettingsChange({ ...settings, activeTariffId: e.target.value })}
+                    className={inputClass}
+                >
+                    <option value="">{t('tariffs.simpleOffPeak')}</option>
+                    {tariffs.map(tariff => (
+                        <option key={tariff.id} value={tariff.id}>{tariff.name}</option>
+                    ))}
+                </select>
+                <p className="text-[10px] text-slate-400 mt-1">{active ? t('tariffs.activeHint') : t('tariffs.simpleOffPeakHint')}</p>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+                <button onClick={() => handleAdd('es-2.0td')} className="py-2 rounded-xl border-2 border-dashed border-slate-300 dark:border-slate-600 text-slate-500 dark:text-slate-400 text-xs">
+                    + {t('tariffs.add2TD')}
+                </button>
+                <button onClick={() => handleAdd('two-period')} className="py-2 rounded-xl border-2 border-dashed border-slate-300 dark:border-slate-600 text-slate-500 dark:text-slate-400 text-xs">
+                    + {t('tariffs.addTwoPeriod')}
+                </button>
+            </div>
+
+            {active && (
+                <div className="space-y-3 pl-2 border-l-2 border-slate-200 dark:border-slate-600">
+                    <div className="flex items-end gap-2">
+                        <div className="flex-1">
+                            <label className={labelClass}>{t('tariffs.name')}</label>
+                            <input type="text" value={active.name} onChange={(e) => updateActive({ name: e.target.value })} className={inputClass} />
+                        </div>
+                        <button
+                            onClick={handleDelete}
+                            className="p-2 text-red-500 hover:text-red-700 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                            title={t('tariffs.delete')}
+                        >
+                            <Trash2 className="w-4 h-4" />
+                        </button>
+                    </div>
+
+                    {/* Periods */}
+                    <div className="space-y-1">
+                        <label className="block text-xs font-semibold text-slate-700 dark:text-slate-300">{t('tariffs.periods')}</label>
+                        <div className="grid grid-cols-3 gap-2">
+                            {active.periods.map((period, index) => (
+                                <div key={period.id}>
+                                    <label className={labelClass}>{period.id}</label>
+                                    <input
+                                        type="text"
+                                        value={period.name}
+                                        onChange={(e) => updateActive({ periods: active.periods.map((p, i) => i === index ? { ...p, name: e.target.value } : p) })}
+                                        className={inputClass}
+                                    />
+                                </div>
+                            ))}
+                        </div>
+                        <button onClick={addPeriod} className="text-xs text-slate-500 dark:text-slate-400 hover:underline">+ {t('tariffs.addPeriod')}</button>
+                    </div>
+
+                    {/* Weekly schedule */}
+                    <div className="space-y-2">
+                        <label className="block text-xs font-semibold text-slate-700 dark:text-slate-300">{t('tariffs.schedule')}</label>
+                        {active.schedule.map((rule, index) => (
+                            <div key={index} className="bg-white/60 dark:bg-slate-800/60 rounded-lg p-2 space-y-2">
+                                <div className="flex flex-wrap gap-1">
+                                    {DAY_ORDER.map(day => (
+                                        <button
+                                            key={day}
+                                            onClick={() => toggleRuleDay(index, day)}
+                                            className={`px-1.5 py-0.5 rounded text-[10px] font-medium ${rule.days.includes(day)
+                                                ? 'bg-emerald-500 text-white'
+                                                : 'bg-slate-200 dark:bg-slate-600 text-slate-500 dark:text-slate-300'
+                                                }`}
+                                        >
+                                            {t(`weekdays.${DAY_KEYS[day]}`)}
+                                        </button>
+                                    ))}
+                                </div>
+                                <div className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2 items-center">
+                                    <input type="time" value={rule.start} onChange={(e) => updateRule(index, { start: e.target.value })} className={inputClass} />
+                                    <input
+                                        type="time"
+                                        value={rule.end === '24:00' ? '00:00' : rule.end}
+                                        onChange={(e) => updateRule(index, { end: e.target.value === '00:00' ? '24:00' : e.target.value })}
+                                        className={inputClass}
+                                    />
+                                    <select value={rule.periodId} onChange={(e) => updateRule(index, { periodId: e.target.value })} className={inputClass}>
+                                        {active.periods.map(period => <option key={period.id} value={period.id}>{period.name}</option>)}
+                                    </select>
+                                    <button
+                                        onClick={() => updateActive({ schedule: active.schedule.filter((_, i) => i !== index) })}
+                                        className="p-1 text-red-500 hover:text-red-700"
+                                        title={t('tariffs.deleteRule')}
+                                    >
+                                        <Trash2 className="w-4 h-4" />
+                                    </button>
+                                </div>
+                            </div>
+                        ))}
+                        <button onClick={addRule} className="text-xs text-slate-500 dark:text-slate-400 hover:underline">+ {t('tariffs.addRule')}</button>
+                        <div>
+                            <label className={labelClass}>{t('tariffs.defaultPeriod')}</label>
+                            <select value={active.defaultPeriodId} onChange={(e) => updateActive({ defaultPeriodId: e.target.value })} className={inputClass}>
+                                {active.periods.map(period => <option key={period.id} value={period.id}>{period.name}</option>)}
+                            </select>
+                        </div>
+                    </div>
+
+                    {/* Holidays */}
+                    <div className="space-y-2">
+                        <label className="block text-xs font-semibold text-slate-700 dark:text-slate-300">{t('tariffs.holidays')}</label>
+                        <div className="grid grid-cols-2 gap-2">
+                            <div>
+                                <label className={labelClass}>{t('tariffs.calendar')}</label>
+                                <select value={active.holidayCalendar || ''} onChange={(e) => updateActive({ holidayCalendar: e.target.value || undefined })} className={inputClass}>
+                                    <option value="">{t('tariffs.noCalendar')}</option>
+                                    {Object.entries(HOLIDAY_CALENDARS).map(([id, calendar]) => <option key={id} value={id}>{calendar.name}</option>)}
+                                </select>
+                            </div>
+                            <div>
+                                <label className={labelClass}>{t('tariffs.holidayPeriod')}</label>
+                                <select value={active.holidayPeriodId || ''} onChange={(e) => updateActive({ holidayPeriodId: e.target.value || undefined })} className={inputClass}>
+                                    <option value="">{t('tariffs.holidayAsSchedule')}</option>
+                                    {active.periods.map(period => <option key={period.id} value={period.id}>{period.name}</option>)}
+                                </select>
+                            </div>
+                        </div>
+                        <div>
+                            <label className={labelClass}>{t('tariffs.extraHolidays')}</label>
+                            <input
+                                key={active.id}
+                                type="text"
+                                defaultValue={(active.holidays || []).join(', ')}
+                                onBlur={(e) => updateActive({ holidays: e.target.value.split(/[\s,;]+/).filter(d => /^\d{4}-\d{2}-\d{2}$/.test(d)) })}
+                                placeholder="2025-04-17, 2025-07-25"
+                                className={inputClass}
+                            />
+                        </div>
+                    </div>
+
+                    {/* Price versions */}
+                    <div className="space-y-2">
+                        <label className="block text-xs font-semibold text-slate-700 dark:text-slate-300">{t('tariffs.prices')} (€/kWh)</label>
+                        {versions.map(version => (
+                            <div key={version.validFrom} className="bg-white/60 dark:bg-slate-800/60 rounded-lg p-2 space-y-2">
+                                <div className="flex items-end gap-2">
+                                    <div className="flex-1">
+                                        <label className={labelClass}>{t('tariffs.validFrom')}</label>
+                                        <input
+                                            type="date"
+                                            value={version.validFrom}
+                                            onChange={(e) => e.target.value && updateVersion(version.validFrom, { validFrom: e.target.value })}
+                                            className={inputClass}
+                                        />
+                                    </div>
+                                    {versions.length > 1 && (
+                                        <button
+                                            onClick={() => updateActive({ priceVersions: active.priceVersions.filter(v => v.validFrom !== version.validFrom) })}
+                                            className="p-2 text-red-500 hover:text-red-700"
+                                            title={t('tariffs.deleteVersion')}
+                                        >
+                                            <Trash2 className="w-4 h-4" />
+                                        </button>
+                                    )}
+                                </div>
+                                <div className="grid grid-cols-3 gap-2">
+                                    {active.periods.map(period => (
+                                        <div key={period.id}>
+                                            <label className={labelClass}>{period.name}</label>
+                                            <input
+                                                type="number"
+                                                step="0.001"
+                                                value={version.prices[period.id] ?? 0}
+                                                onChange={(e) => updateVersion(version.validFrom, { periodId: period.id, price: parseFloat(e.target.value) || 0 })}
+                                                className={inputClass}
+                                            />
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        ))}
+                        <button onClick={addVersion} className="text-xs text-slate-500 dark:text-slate-400 hover:underline">+ {t('tariffs.addVersion')}</button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default TariffSettings;
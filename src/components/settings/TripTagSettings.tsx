@@ -0,0 +1,162 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { toast } from 'react-hot-toast';
+import { Trash2 } from '../Icons';
+import { Settings, TripTag, TripTagRule } from '../../types';
+import { TAG_COLORS, createTagRule, createTripTag, getTripTagName } from '@core/tripTags';
+import { useData } from '../../providers/DataProvider';
+
+// Monday first, as JS day indexes
+const DAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+const DAY_KEYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+const inputClass = 'w-full bg-white dark:bg-slate-700 text-slate-900 dark:text-white rounded-lg px-3 py-2 text-sm border border-slate-200 dark:border-slate-600';
+const labelClass = 'block text-[10px] text-slate-500 dark:text-slate-400 mb-1';
+
+interface TripTagSettingsProps {
+    settings: Settings;
+    onSettingsChange: (settings: Settings) => void;
+}
+
+/**
+ * Trip tags and the weekday/time/distance rules that tag imported trips
+ */
+const TripTagSettings: React.FC<TripTagSettingsProps> = ({ settings, onSettingsChange }) => {
+    const { t } = useTranslation();
+    const { deleteTripTag, applyTripTagRules } = useData();
+    const tags = settings.tripTags || [];
+    const rules = settings.tripTagRules || [];
+
+    const updateTag = (id: string, changes: Partial<TripTag>) => {
+        onSettingsChange({ ...settings, tripTags: tags.map(tag => tag.id === id ? { ...tag, ...changes } : tag) });
+    };
+
+    const handleAddTag = () => {
+        const tag = createTripTag(t('tags.newTag'), TAG_COLORS[tags.length % TAG_COLORS.length]);
+        onSettingsChange({ ...settings, tripTags: [...tags, tag] });
+    };
+
+    const handleDeleteTag = (tag: TripTag) => {
+        if (!confirm(t('tags.confirmDelete', { name: getTripTagName(tag, t) }))) return;
+        deleteTripTag(tag.id);
+    };
+
+    const updateRule = (id: string, changes: Partial<TripTagRule>) => {
+        onSettingsChange({ ...settings, tripTagRules: rules.map(rule => rule.id === id ? { ...rule, ...changes } : rule) });
+    };
+
+    const toggleRuleDay = (rule: TripTagRule, day: number) => {
+        updateRule(rule.id, { days: rule.days.includes(day) ? rule.days.filter(d => d !== day) : [...rule.days, day] });
+    };
+
+    const parseKm = (value: string): number | undefined => value === '' ? undefined : Math.max(0, parseFloat(value) || 0);
+
+    const handleApplyRules = () => {
+        const tagged = applyTripTagRules();
+        toast.success(t('tags.rulesApplied', { count: tagged }));
+    };
+
+    return (
+        <div className="space-y-3">
+            {/* Tags */}
+            <div className="space-y-2">
+                {tags.map(tag => (
+                    <div key={tag.id} className="flex items-center gap-2">
+                        <input
+                            type="color"
+                            value={tag.color}
+                            onChange={(e) => updateTag(tag.id, { color: e.target.value })}
+                            className="w-9 h-9 rounded-lg border border-slate-200 dark:border-slate-600 bg-transparent cursor-pointer"
+                            title={t('tags.color')}
+                        />
+                        <input
+                            type="text"
+                            value={getTripTagName(tag, t)}
+                            onChange={(e) => updateTag(tag.id, { name: e.target.value, nameKey: undefined })}
+                            className={inputClass}
+                        />
+                        <button
+                            onClick={() => handleDeleteTag(tag)}
+                            className="p-2 text-red-500 hover:text-red-700 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                            title={t('tags.delete')}
+                        >
+                            <Trash2 className="w-4 h-4" />
+                        </button>
+                    </div>
+                ))}
+                <button onClick={handleAddTag} className="text-xs text-slate-500 dark:text-slate-400 hover:underline">+ {t('tags.add')}</button>
+            </div>
+
+            {/* Auto-tagging rules */}
+            {tags.length > 0 && (
+                <div className="space-y-2">
+                    <label className="block text-xs font-semibold text-slate-700 dark:text-slate-300">{t('tags.rules')}</label>
+                    <p className="text-[10px] text-slate-400">{t('tags.rulesHint')}</p>
+                    {rules.map(rule => (
+                        <div key={rule.id} className="bg-white/60 dark:bg-slate-800/60 rounded-lg p-2 space-y-2">
+                            <div className="flex items-center gap-2">
+                                <select value={rule.tagId} onChange={(e) => updateRule(rule.id, { tagId: e.target.value })} className={inputClass}>
+                                    {tags.map(tag => <option key={tag.id} value={tag.id}>{getTripTagName(tag, t)}</option>)}
+                                </select>
+                                <button
+                                    onClick={() => onSettingsChange({ ...settings, tripTagRules: rules.filter(r => r.id !== rule.id) })}
+                                    className="p-1 text-red-500 hover:text-red-700"
+                                    title={t('tags.deleteRule')}
+                                >
+                                    <Trash2 className="w-4 h-4" />
+                                </button>
+                            </div>
+                            <div className="flex flex-wrap gap-1">
+                                {DAY_ORDER.map(day => (
+                                    <button
+                                        key={day}
+                                        onClick={() => toggleRuleDay(rule, day)}
+                                        className={`px-1.5 py-0.5 rounded text-[10px] font-medium ${rule.days.includes(day)
+                                            ? 'bg-emerald-500 text-white'
+                                            : 'bg-slate-200 dark:bg-slate-600 text-slate-500 dark:text-slate-300'
+                                            }`}
+                                    >
+                                        {t(`weekdays.${DAY_KEYS[day]}`)}
+                                    </button>
+                                ))}
+                            </div>
+                            <div className="grid grid-cols-4 gap-2">
+                                <div>
+                                    <label className={labelClass}>{t('tags.from')}</label>
+                                    <input type="time" value={rule.start || ''} onChange={(e) => updateRule(rule.id, { start: e.target.value || undefined })} className={inputClass} />
+                                </div>
+                                <div>
+                                    <label className={labelClass}>{t('tags.to')}</label>
+                                    <input type="time" value={rule.end || ''} onChange={(e) => updateRule(rule.id, { end: e.target.value || undefined })} className={inputClass} />
+                                </div>
+                                <div>
+                                    <label className={labelClass}>{t('tags.minKm')}</label>
+                                    <input type="number" min="0" value={rule.minKm ?? ''} onChange={(e) => updateRule(rule.id, { minKm: parseKm(e.target.value) })} className={inputClass} />
+                                </div>
+                                <div>
+                                    <label className={labelClass}>{t('tags.maxKm')}</label>
+                                    <input type="number" min="0" value={rule.maxKm ?? ''} onChange={(e) => updateRule(rule.id, { maxKm: parseKm(e.target.value) })} className={inputClass} />
+                                </div>
+                            </div>
+                        </div>
+                    ))}
+                    <div className="flex items-center justify-between">
+                        <button
+                            onClick={() => onSettingsChange({ ...settings, tripTagRules: [...rules, createTagRule(tags[0].id)] })}
+                            className="text-xs text-slate-500 dark:text-slate-400 hover:underline"
+                        >
+                            + {t('tags.addRule')}
+                        </button>
+                        {rules.length > 0 && (
+                            <button onClick={handleApplyRules} className="text-xs font-medium text-emerald-600 dark:text-emerald-400 hover:underline">
+                                {t('tags.applyRules')}
+                            </button>
+                        )}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default TripTagSettings;
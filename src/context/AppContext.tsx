@@ -5,8 +5,10 @@
 import React, { createContext, useContext, useState, useEffect, useMemo, ReactNode } from 'react';
 import { logger } from '@core/logger';
 import { useCar } from './CarContext';
-import { SETTINGS_KEY as BASE_SETTINGS_KEY } from '@core/constants';
-import { Settings, ChargerType } from '@/types';
+import { DEFAULT_CHARGER_TYPES, SETTINGS_KEY as BASE_SETTINGS_KEY } from '@core/constants';
+import { DEFAULT_TRIP_TAGS } from '@core/tripTags';
+import { DEFAULT_MILEAGE_RATE } from '@core/mileageReport';
+import { Settings } from '@/types';
 
 interface AppContextType {
     settings: Settings;
@@ -27,14 +29,6 @@ export const useApp = (): AppContextType => {
     return context;
 };
 
-// Default charger types configuration
-const DEFAULT_CHARGER_TYPES: ChargerType[] = [
-    { id: 'domestic', name: '240V (Doméstico)', speedKw: 2.4, efficiency: 0.85 },
-    { id: 'slow', name: 'Carga lenta', speedKw: 7.4, efficiency: 0.90 },
-    { id: 'fast', name: 'Carga rápida', speedKw: 50, efficiency: 0.92 },
-    { id: 'ultrafast', name: 'Carga ultrarrápida', speedKw: 150, efficiency: 0.95 }
-];
-
 // Default settings configuration
 const DEFAULT_SETTINGS: Settings = {
     carModel: '',
@@ -66,6 +60,16 @@ const DEFAULT_SETTINGS: Settings = {
     // AI / Smart Charging Preferences
     smartChargingPreferences: [],
 
+    // Trip tags
+    tripTags: DEFAULT_TRIP_TAGS,
+    tripTagRules: [],
+    mileageRate: DEFAULT_MILEAGE_RATE,
+
+    // Alerts
+    anomalyNotifications: false,
+    anomalyRules: {},
+    customAnomalyRules: [],
+
     // Theme & UI
     theme: 'auto',
     chargerTypes: DEFAULT_CHARGER_TYPES,
@@ -98,13 +102,9 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
         try {
             const saved = localStorage.getItem(settingsKey);
+            // Already on the current schema (CarProvider runs the migrations first)
             const loaded = saved ? JSON.parse(saved) : {};
 
-            // Migration: Ensure smartChargingPreferences is an array (was object in previous version)
-            if (loaded.smartChargingPreferences && !Array.isArray(loaded.smartChargingPreferences)) {
-                loaded.smartChargingPreferences = [];
-            }
-
             // Merge with defaults
             setSettings({ ...DEFAULT_SETTINGS, ...loaded });
         } catch (e) {
@@ -134,7 +134,9 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
                 carModel: updated.carModel ?? prev.carModel ?? '',
                 licensePlate: updated.licensePlate ?? prev.licensePlate ?? '',
                 insurancePolicy: updated.insurancePolicy ?? prev.insurancePolicy ?? '',
+                vehicleModelId: updated.vehicleModelId ?? prev.vehicleModelId,
                 batterySize: updated.batterySize ?? prev.batterySize ?? 60.48,
+                tankLiters: updated.tankLiters ?? prev.tankLiters,
                 soh: updated.soh ?? prev.soh ?? 100,
                 electricPrice: updated.electricPrice ?? prev.electricPrice ?? 0.15,
                 fuelPrice: updated.fuelPrice ?? prev.fuelPrice ?? 1.50,
@@ -158,6 +160,23 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
                 offPeakStartWeekend: updated.offPeakStartWeekend ?? prev.offPeakStartWeekend,
                 offPeakEndWeekend: updated.offPeakEndWeekend ?? prev.offPeakEndWeekend,
                 offPeakPrice: updated.offPeakPrice ?? prev.offPeakPrice ?? 0.08,
+                // Time-of-use tariffs ('' selects none)
+                tariffs: Array.isArray(updated.tariffs) ? updated.tariffs : (prev.tariffs ?? []),
+                activeTariffId: updated.activeTariffId ?? prev.activeTariffId ?? '',
+                // Trip tags
+                tripTags: Array.isArray(updated.tripTags) ? updated.tripTags : (prev.tripTags ?? DEFAULT_TRIP_TAGS),
+                tripTagRules: Array.isArray(updated.tripTagRules) ? updated.tripTagRules : (prev.tripTagRules ?? []),
+                mileageRate: updated.mileageRate ?? prev.mileageRate ?? DEFAULT_MILEAGE_RATE,
+                // Recurring routes
+                namedRoutes: Array.isArray(updated.namedRoutes) ? updated.namedRoutes : prev.namedRoutes,
+                hemisphere: updated.hemisphere ?? prev.hemisphere,
+                // Trips or journeys
+                tripUnit: updated.tripUnit ?? prev.tripUnit,
+                journeyGapMinutes: updated.journeyGapMinutes ?? prev.journeyGapMinutes,
+                // Alerts
+                anomalyNotifications: updated.anomalyNotifications ?? prev.anomalyNotifications ?? false,
+                anomalyRules: updated.anomalyRules ?? prev.anomalyRules ?? {},
+                customAnomalyRules: Array.isArray(updated.customAnomalyRules) ? updated.customAnomalyRules : (prev.customAnomalyRules ?? []),
 
                 // HITL Preferences
                 smartChargingPreferences: Array.isArray(updated.smartChargingPreferences)
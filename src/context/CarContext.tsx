@@ -1,14 +1,21 @@
 import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import { useTranslation } from 'react-i18next';
 import { logger } from '@core/logger';
 import { STORAGE_KEY, TRIP_HISTORY_KEY, CHARGES_STORAGE_KEY, SETTINGS_KEY } from '@core/constants';
-import { Car } from '@/types';
+import { Car, Settings } from '@/types';
+import { StorageService } from '@/services/StorageService';
+import { MigrationService } from '@/services/MigrationService';
+import { SyncStateService } from '@/services/SyncStateService';
+import { AnomalyLogService } from '@/services/AnomalyLogService';
+import { DATA_SCHEMA_VERSION, SchemaVersionError } from '@core/schemaMigrations';
+import ErrorBoundary from '@/components/common/ErrorBoundary';
 
 interface CarContextType {
     cars: Car[];
     activeCarId: string | null;
     setActiveCarId: (id: string | null) => void;
     activeCar?: Car;
-    addCar: (car: Omit<Car, 'id'>) => void;
+    addCar: (car: Omit<Car, 'id'>, initialSettings?: Partial<Settings>) => void;
     updateCar: (id: string, updates: Partial<Car>) => void;
     deleteCar: (id: string) => void;
 }
@@ -26,7 +33,21 @@ export const useCar = (): CarContextType => {
 const CARS_STORAGE_KEY = 'byd_cars';
 const ACTIVE_CAR_KEY = 'byd_active_car_id';
 
+type SchemaState =
+    | { status: 'ready' | 'migrating' }
+    | { status: 'error'; error: SchemaVersionError };
+
+/**
+ * Whether the stored data of these cars can be used as-is
+ */
+const getSchemaState = (cars: Car[]): SchemaState => {
+    const newest = Math.max(0, ...cars.map(c => MigrationService.getVersion(c.id)));
+    if (newest > DATA_SCHEMA_VERSION) return { status: 'error', error: new SchemaVersionError(newest) };
+    return cars.some(c => MigrationService.needsMigration(c.id)) ? { status: 'migrating' } : { status: 'ready' };
+};
+
 export const CarProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+    const { t } = useTranslation();
     const [cars, setCars] = useState<Car[]>(() => {
         try {
             const saved = localStorage.getItem(CARS_STORAGE_KEY);
@@ -41,9 +62,12 @@ export const CarProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         return localStorage.getItem(ACTIVE_CAR_KEY) || null;
     });
 
+    // Car data is only handed to the app once it is on the current schema
+    const [schema, setSchema] = useState<SchemaState>(() => getSchemaState(cars));
+
     // --- Migration Logic ---
     useEffect(() => {
-        const initialize = () => {
+        const initialize = (): Car[] => {
             // Check if we need migration (no cars but legacy data exists)
             if (cars.length === 0) {
                 const legacySettings = localStorage.getItem(SETTINGS_KEY);
@@ -73,7 +97,7 @@ export const CarProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
                     const legacyCharges = localStorage.getItem(CHARGES_STORAGE_KEY);
                     const legacyHistory = localStorage.getItem(TRIP_HISTORY_KEY);
 
-                    // We COPY legacy data to new keys
+                    // We COPY legacy data to new keys (StorageService moves trips and charges to IndexedDB on first load)
                     if (legacySettings) localStorage.setItem(`${SETTINGS_KEY}_${newCarId}`, legacySettings);
                     if (legacyStats) localStorage.setItem(`${STORAGE_KEY}_${newCarId}`, legacyStats);
                     if (legacyCharges) localStorage.setItem(`${CHARGES_STORAGE_KEY}_${newCarId}`, legacyCharges);
@@ -84,6 +108,7 @@ export const CarProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
                     localStorage.setItem(ACTIVE_CAR_KEY, newCarId);
 
                     logger.info(`Migration complete. Created car: ${newCarId}`);
+                    return newCars;
                 } else {
                     // Fresh install - Create default empty car
                     const newCarId = crypto.randomUUID();
@@ -93,15 +118,38 @@ export const CarProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
                     setActiveCarId(newCarId);
                     localStorage.setItem(CARS_STORAGE_KEY, JSON.stringify(newCars));
                     localStorage.setItem(ACTIVE_CAR_KEY, newCarId);
+                    MigrationService.stampVersion(newCarId);
+                    return newCars;
                 }
             } else if (!activeCarId && cars.length > 0) {
                 // Cars exist but no active selection
                 setActiveCarId(cars[0].id);
                 localStorage.setItem(ACTIVE_CAR_KEY, cars[0].id);
             }
+            return cars;
         };
 
-        initialize();
+        const migrateSchemas = async (carList: Car[]) => {
+            const state = getSchemaState(carList);
+            setSchema(state);
+            if (state.status !== 'migrating') return;
+
+            for (const car of carList) {
+                try {
+                    await MigrationService.migrateCar(car.id);
+                } catch (e) {
+                    if (e instanceof SchemaVersionError) {
+                        setSchema({ status: 'error', error: e });
+                        return;
+                    }
+                    // Data stays on its old version (which the app still reads) and is retried next start
+                    logger.error(`Error migrating data of car ${car.id}:`, e);
+                }
+            }
+            setSchema({ status: 'ready' });
+        };
+
+        migrateSchemas(initialize());
     }, []); // Run once on mount
 
     // Persist changes
@@ -117,11 +165,12 @@ export const CarProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         }
     }, [activeCarId]);
 
-    const addCar = useCallback((car: Omit<Car, 'id'>) => {
-        setCars(prev => {
-            const newCar = { ...car, id: crypto.randomUUID() };
-            return [...prev, newCar];
-        });
+    const addCar = useCallback((car: Omit<Car, 'id'>, initialSettings?: Partial<Settings>) => {
+        const newCar = { ...car, id: crypto.randomUUID() };
+        MigrationService.stampVersion(newCar.id);
+        // Loaded (merged with the defaults) when the car becomes active
+        if (initialSettings) StorageService.save(`${SETTINGS_KEY}_${newCar.id}`, initialSettings);
+        setCars(prev => [...prev, newCar]);
     }, []);
 
     const updateCar = useCallback((id: string, updates: Partial<Car>) => {
@@ -130,6 +179,10 @@ export const CarProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
     const deleteCar = useCallback((id: string) => {
         setCars(prev => prev.filter(c => c.id !== id));
+        StorageService.clearCarRecords(id);
+        MigrationService.clearVersion(id);
+        SyncStateService.clear(id);
+        AnomalyLogService.clear(id);
         if (activeCarId === id) {
             setActiveCarId(null);
         }
@@ -145,9 +198,15 @@ export const CarProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         deleteCar
     };
 
+    if (schema.status === 'error') {
+        const title = t('errors.newerSchemaTitle');
+        const message = t('errors.newerSchemaMessage', { version: schema.error.version, supported: DATA_SCHEMA_VERSION });
+        return <ErrorBoundary error={schema.error} title={title} message={message}>{null}</ErrorBoundary>;
+    }
+
     return (
         <CarContext.Provider value={value}>
-            {children}
+            {schema.status === 'ready' ? children : null}
         </CarContext.Provider>
     );
 };
@@ -109,6 +109,22 @@ describe('AppContext', () => {
         expect(saved.batterySize).toBe(100);
     });
 
+    it('should keep the vehicle, trip and route settings on update', () => {
+        const { result } = renderHook(() => useApp(), { wrapper });
+        const route = { id: 'route_1_465_18', name: 'Commute', weekday: 1, startMinute: 465, km: 18.3, minutes: 25 };
+
+        act(() => {
+            result.current.updateSettings({ tankLiters: 60, tripUnit: 'journey', journeyGapMinutes: 15, namedRoutes: [route], hemisphere: 'south' });
+        });
+        act(() => {
+            result.current.updateSettings({ batterySize: 18.3 });
+        });
+
+        expect(result.current.settings).toMatchObject({ tankLiters: 60, tripUnit: 'journey', journeyGapMinutes: 15, namedRoutes: [route], hemisphere: 'south', batterySize: 18.3 });
+        const saved = JSON.parse(window.localStorage.getItem('byd_settings_test-car'));
+        expect(saved).toMatchObject({ tankLiters: 60, tripUnit: 'journey', journeyGapMinutes: 15, namedRoutes: [route], hemisphere: 'south' });
+    });
+
     it('should apply theme classes to document element', () => {
         const { result } = renderHook(() => useApp(), { wrapper });
 
@@ -0,0 +1,102 @@
+// BYD Stats - Anomaly Log Tests
+import { describe, it, expect } from 'vitest';
+import {
+    applyLegacyAnomalyStates,
+    getActiveAnomalies,
+    getAnomalyHistory,
+    hideAnomaly,
+    mergeAnomalyLog,
+    setAnomalyStatus
+} from '../anomalyLog';
+import { Anomaly } from '../../types';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2025, 5, 1);
+
+const anomaly = (id: string, extra: Partial<Anomaly> = {}): Anomaly => ({
+    id,
+    type: 'battery',
+    severity: 'warning',
+    title: id,
+    description: '',
+    ...extra
+});
+
+const seed = (...detected: Anomaly[]) => mergeAnomalyLog([], detected, NOW).log;
+
+describe('mergeAnomalyLog', () => {
+    it('adds new anomalies as active and raises them', () => {
+        const { log, raised } = mergeAnomalyLog([], [anomaly('a')], NOW);
+
+        expect(log).toEqual([expect.objectContaining({ id: 'a', status: 'active', firstSeen: NOW, lastSeen: NOW })]);
+        expect(raised.map(entry => entry.id)).toEqual(['a']);
+    });
+
+    it('updates the last sighting without raising an anomaly again', () => {
+        const { log, raised } = mergeAnomalyLog(seed(anomaly('a')), [anomaly('a')], NOW + DAY);
+
+        expect(log[0]).toMatchObject({ firstSeen: NOW, lastSeen: NOW + DAY });
+        expect(raised).toEqual([]);
+    });
+
+    it('keeps acknowledged anomalies quiet unless they get worse', () => {
+        const log = setAnomalyStatus(seed(anomaly('a')), 'a', 'acknowledged', NOW);
+
+        expect(mergeAnomalyLog(log, [anomaly('a')], NOW + DAY).raised).toEqual([]);
+        const worse = mergeAnomalyLog(log, [anomaly('a', { severity: 'critical' })], NOW + DAY);
+        expect(worse.raised).toHaveLength(1);
+        expect(worse.log[0]).toMatchObject({ status: 'active', severity: 'critical' });
+    });
+
+    it('raises an active anomaly whose severity rises', () => {
+        const { raised } = mergeAnomalyLog(seed(anomaly('a')), [anomaly('a', { severity: 'critical' })], NOW + DAY);
+        expect(raised.map(entry => entry.severity)).toEqual(['critical']);
+    });
+
+    it('reopens a snoozed anomaly once the snooze runs out', () => {
+        const log = setAnomalyStatus(seed(anomaly('a')), 'a', 'snoozed', NOW, 7);
+
+        expect(mergeAnomalyLog(log, [anomaly('a')], NOW + 6 * DAY).log[0].status).toBe('snoozed');
+        const expired = mergeAnomalyLog(log, [anomaly('a')], NOW + 8 * DAY);
+        expect(expired.log[0]).toMatchObject({ status: 'active', snoozedUntil: undefined });
+        expect(expired.raised).toHaveLength(1);
+    });
+
+    it('reopens a resolved anomaly only with evidence newer than the resolution', () => {
+        const log = setAnomalyStatus(seed(anomaly('a')), 'a', 'resolved', NOW);
+
+        // Trip evidence comes in seconds
+        const old = mergeAnomalyLog(log, [anomaly('a', { timestamp: (NOW - DAY) / 1000 })], NOW + DAY);
+        expect(old.log[0].status).toBe('resolved');
+        const fresh = mergeAnomalyLog(log, [anomaly('a', { timestamp: NOW + DAY })], NOW + 2 * DAY);
+        expect(fresh.log[0].status).toBe('active');
+    });
+});
+
+describe('anomaly log selectors', () => {
+    it('sorts active anomalies by severity and splits the history', () => {
+        let log = seed(anomaly('a'), anomaly('b', { severity: 'critical' }), anomaly('c'), anomaly('d'));
+        log = setAnomalyStatus(log, 'c', 'acknowledged', NOW);
+        log = setAnomalyStatus(log, 'd', 'snoozed', NOW, 1);
+
+        expect(getActiveAnomalies(log, NOW).map(entry => entry.id)).toEqual(['b', 'a']);
+        expect(getAnomalyHistory(log, NOW).map(entry => entry.id).sort()).toEqual(['c', 'd']);
+        // An expired snooze needs attention again before the next check
+        expect(getActiveAnomalies(log, NOW + 2 * DAY).map(entry => entry.id)).toContain('d');
+    });
+
+    it('hides deleted anomalies without letting the next check raise them', () => {
+        const log = hideAnomaly(seed(anomaly('a')), 'a', NOW);
+
+        expect(getActiveAnomalies(log, NOW)).toEqual([]);
+        expect(getAnomalyHistory(log, NOW)).toEqual([]);
+        expect(mergeAnomalyLog(log, [anomaly('a')], NOW + DAY).raised).toEqual([]);
+    });
+
+    it('carries over the legacy acknowledged and deleted ids', () => {
+        const log = applyLegacyAnomalyStates(seed(anomaly('a'), anomaly('b'), anomaly('c')), ['a'], ['b'], NOW);
+
+        expect(log.map(entry => entry.status)).toEqual(['acknowledged', 'resolved', 'active']);
+        expect(log[1].hidden).toBe(true);
+    });
+});
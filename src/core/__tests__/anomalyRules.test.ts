@@ -0,0 +1,145 @@
+// BYD Stats - Anomaly Rules Tests
+import { describe, it, expect } from 'vitest';
+import {
+    ANOMALY_RULES,
+    checkCustomAnomalyRule,
+    createCustomAnomalyRule,
+    resolveAnomalyRule,
+    runAnomalyRules
+} from '../anomalyRules';
+import { Charge, ProcessedData, Settings, Trip } from '../../types';
+
+const HOUR = 3600;
+const BASE = Date.UTC(2025, 4, 1) / 1000;
+
+const trip = (start: number, extra: Partial<Trip> = {}): Trip => ({
+    date: '20250501',
+    trip: 20,
+    electricity: 3,
+    duration: 30,
+    start_timestamp: start,
+    end_timestamp: start + 1800,
+    ...extra
+});
+
+const charge = (id: string, extra: Partial<Charge> = {}): Charge => ({
+    id,
+    date: '2025-05-02',
+    time: '14:00',
+    kwhCharged: 40,
+    totalCost: 10,
+    pricePerKwh: 0.25,
+    chargerTypeId: 'fast',
+    initialPercentage: 20,
+    finalPercentage: 70,
+    ...extra
+});
+
+const data = (soh: number, avgEff: string = '15', calibration: boolean = false) => ({
+    summary: { soh, avgEff, sohData: { calibration_warning: calibration } }
+}) as unknown as ProcessedData;
+
+const SETTINGS = { batterySize: 60 } as Settings;
+
+const run = (settings: Partial<Settings> = {}, context: { trips?: Trip[]; charges?: Charge[]; soh?: number } = {}) =>
+    runAnomalyRules({
+        data: data(context.soh ?? 95),
+        settings: { ...SETTINGS, ...settings },
+        trips: context.trips || [],
+        charges: context.charges || []
+    });
+
+const ids = (anomalies: { id: string }[]) => anomalies.map(anomaly => anomaly.id);
+
+describe('resolveAnomalyRule', () => {
+    const soh = ANOMALY_RULES.find(rule => rule.id === 'soh')!;
+
+    it('keeps the defaults when nothing is overridden', () => {
+        expect(resolveAnomalyRule(soh)).toEqual({
+            enabled: true,
+            thresholds: { sohDegraded: 85, sohCritical: 75 },
+            severity: { minor: 'warning', major: 'critical' }
+        });
+    });
+
+    it('applies overrides and clamps thresholds to their range', () => {
+        const config = resolveAnomalyRule(soh, { enabled: false, thresholds: { sohDegraded: 120, sohCritical: NaN }, severity: { major: 'warning' } });
+        expect(config).toEqual({
+            enabled: false,
+            thresholds: { sohDegraded: 100, sohCritical: 75 },
+            severity: { minor: 'warning', major: 'warning' }
+        });
+    });
+});
+
+describe('runAnomalyRules', () => {
+    it('reports the SoH levels with translatable texts', () => {
+        const [critical] = run({}, { soh: 70 });
+        expect(critical).toMatchObject({
+            id: 'soh_critical',
+            severity: 'critical',
+            title: 'anomalies.sohCritical.title',
+            params: { threshold: 75 },
+            value: '70.0%'
+        });
+        expect(ids(run({}, { soh: 80 }))).toEqual(['soh_warning']);
+        expect(run({ anomalyRules: { soh: { thresholds: { sohDegraded: 78 } } } }, { soh: 80 })).toEqual([]);
+    });
+
+    it('skips disabled rules and maps severities', () => {
+        expect(run({ anomalyRules: { soh: { enabled: false } } }, { soh: 70 })).toEqual([]);
+        expect(run({ anomalyRules: { soh: { severity: { major: 'info' } } } }, { soh: 70 })[0].severity).toBe('info');
+    });
+
+    it('flags the most recent phantom drain above the daily threshold', () => {
+        const trips = [
+            trip(BASE, { end_soc: 80 }),
+            trip(BASE + 24 * HOUR, { date: '20250502', start_soc: 70, end_soc: 60 }),
+            trip(BASE + 48 * HOUR, { date: '20250503', start_soc: 57 })
+        ];
+
+        const [drain] = run({}, { trips });
+        expect(drain).toMatchObject({ id: 'drain_20250502', severity: 'info', params: { from: '2025-05-02', to: '2025-05-03' } });
+        expect(run({ anomalyRules: { phantom_drain: { thresholds: { drainPerDay: 5 } } } }, { trips }).map(a => a.id)).toEqual(['drain_20250501']);
+    });
+
+    it('uses the fast or slow charging efficiency threshold', () => {
+        // 30 kWh into the battery out of 40 kWh: 75%
+        const fast = charge('c1');
+        const night = charge('c2', { time: '02:00' });
+
+        expect(ids(run({}, { charges: [fast, night] }))).toEqual(['eff_c1']);
+        expect(run({ anomalyRules: { charge_efficiency: { thresholds: { fastChargeEfficiency: 70 } } } }, { charges: [fast] })).toEqual([]);
+    });
+
+    it('asks for a tyre check when most recent trips use far more than average', () => {
+        const trips = [0, 1, 2, 3, 4].map(i => trip(BASE + i * HOUR, { electricity: i < 3 ? 4 : 3 }));
+
+        expect(run({}, { trips })[0]).toMatchObject({ id: 'tire_pressure', params: { count: 3, total: 5 } });
+        expect(run({ anomalyRules: { tire_pressure: { thresholds: { minHighTrips: 4 } } } }, { trips })).toEqual([]);
+    });
+});
+
+describe('custom anomaly rules', () => {
+    it('checks the latest trips against a consumption limit', () => {
+        const rule = { ...createCustomAnomalyRule('Consumo alto', 'tripEfficiency', 'r1'), threshold: 18 };
+        const trips = [trip(BASE, { electricity: 4 }), trip(BASE + HOUR, { electricity: 3 })];
+
+        const anomalies = checkCustomAnomalyRule(rule, { trips, charges: [] });
+        expect(anomalies).toEqual([expect.objectContaining({
+            id: `custom_r1_20250501-${BASE}`,
+            type: 'efficiency',
+            description: 'anomalies.custom.tripEfficiency.above',
+            params: expect.objectContaining({ name: 'Consumo alto', value: '20.0', threshold: 18 })
+        })]);
+    });
+
+    it('checks charge prices and runs only enabled rules', () => {
+        const rule = { ...createCustomAnomalyRule('Carga cara', 'chargePrice', 'r2'), threshold: 0.4 };
+        const charges = [charge('a', { pricePerKwh: 0.55, initialPercentage: undefined }), charge('b', { pricePerKwh: 0.2, initialPercentage: undefined })];
+
+        expect(ids(run({ customAnomalyRules: [rule] }, { charges }))).toEqual(['custom_r2_a']);
+        expect(run({ customAnomalyRules: [{ ...rule, enabled: false }] }, { charges })).toEqual([]);
+        expect(ids(checkCustomAnomalyRule({ ...rule, operator: 'below' }, { trips: [], charges }))).toEqual(['custom_r2_b']);
+    });
+});
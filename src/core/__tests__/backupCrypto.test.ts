@@ -0,0 +1,47 @@
+// BYD Stats - Backup Encryption Tests
+import { describe, it, expect } from 'vitest';
+import { BackupPassphraseError, decryptPayload, encryptPayload, isEncryptedEnvelope } from '../backupCrypto';
+
+// Few iterations keep the tests fast; the count travels in the envelope
+const ITERATIONS = 1000;
+const data = { settings: { vin: 'LGXCE4CB0N0000001', plate: '1234 ABC' }, charges: [{ lat: 41.38, lon: 2.17 }] };
+
+describe('backupCrypto', () => {
+    it('should round-trip data without leaving it readable', async () => {
+        const envelope = await encryptPayload(data, 'correct horse', ITERATIONS);
+
+        expect(isEncryptedEnvelope(envelope)).toBe(true);
+        expect(envelope.kdf).toMatchObject({ name: 'PBKDF2', hash: 'SHA-256', iterations: ITERATIONS });
+        expect(JSON.stringify(envelope)).not.toContain('LGXCE4CB0N0000001');
+        expect(await decryptPayload(envelope, ['correct horse'])).toEqual(data);
+    });
+
+    it('should use a fresh IV for every file', async () => {
+        const a = await encryptPayload(data, 'correct horse', ITERATIONS);
+        const b = await encryptPayload(data, 'correct horse', ITERATIONS);
+
+        expect(a.iv).not.toBe(b.iv);
+        expect(a.data).not.toBe(b.data);
+    });
+
+    it('should tell a missing passphrase from a wrong one', async () => {
+        const envelope = await encryptPayload(data, 'correct horse', ITERATIONS);
+
+        await expect(decryptPayload(envelope, [])).rejects.toMatchObject({ problem: 'required' });
+        await expect(decryptPayload(envelope, ['battery staple'])).rejects.toBeInstanceOf(BackupPassphraseError);
+        await expect(decryptPayload(envelope, ['battery staple'])).rejects.toMatchObject({ problem: 'wrong' });
+    });
+
+    it('should fall back to the previous passphrase during a rotation', async () => {
+        const envelope = await encryptPayload(data, 'old passphrase', ITERATIONS);
+        expect(await decryptPayload(envelope, ['new passphrase', 'old passphrase'])).toEqual(data);
+    });
+
+    it('should reject a tampered file', async () => {
+        const envelope = await encryptPayload(data, 'correct horse', ITERATIONS);
+        const bytes = atob(envelope.data);
+        const tampered = { ...envelope, data: btoa(String.fromCharCode(bytes.charCodeAt(0) ^ 1) + bytes.slice(1)) };
+
+        await expect(decryptPayload(tampered, ['correct horse'])).rejects.toBeInstanceOf(BackupPassphraseError);
+    });
+});
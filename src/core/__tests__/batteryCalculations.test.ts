@@ -45,6 +45,7 @@ describe('batteryCalculations', () => {
             const result = calculateAdvancedSoH(mockCharges, mfgDate, 0);
             expect(result.real_cycles_count).toBeGreaterThan(0); // Uses fallback
         });
+
     });
 
     describe('estimateInitialSoC', () => {
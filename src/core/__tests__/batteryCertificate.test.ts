@@ -0,0 +1,115 @@
+// BYD Stats - Battery Certificate Tests
+import { describe, it, expect } from 'vitest';
+import {
+    BatteryCertificateLabels,
+    batteryCertificateToHtml,
+    buildBatteryCertificate,
+    checkBatteryCertificateHash,
+    hashBatteryCertificate
+} from '../batteryCertificate';
+import { getChargeSpeedBand } from '../batteryCalculations';
+import { Charge, Settings, Trip } from '../../types';
+
+const makeCharge = (date: string, speedKw: number, extra: Partial<Charge> = {}): Charge => ({
+    id: `${date}-${speedKw}`,
+    date,
+    time: '22:00',
+    kwhCharged: 40,
+    totalCost: 6,
+    pricePerKwh: 0.15,
+    chargerTypeId: 'home',
+    initialPercentage: 20,
+    finalPercentage: 80,
+    speedKw,
+    ...extra
+});
+
+const CHARGES = [
+    makeCharge('2025-03-02', 2.3),
+    makeCharge('2025-03-20', 7.4),
+    makeCharge('2025-04-11', 50),
+    makeCharge('2025-05-01', 150),
+    makeCharge('2025-05-09', 7.4, { type: 'fuel' })
+];
+
+const TRIPS = [
+    { date: '20250301', trip: 120.4 },
+    { date: '20250510', trip: 80 }
+] as Trip[];
+
+const SETTINGS = { batterySize: 60.48, soh: 100, mfgDate: '2024-01-15', vehicleModelId: 'atto-3' } as Settings;
+
+const AI_STATS = {
+    points: [
+        { x: '2025-03-02', y: 99 },
+        { x: '2025-03-20', y: 97 },
+        { x: '2025-04-11', y: 98.5 }
+    ],
+    trend: [
+        { x: '2025-03-02', y: 98.4 },
+        { x: '2025-03-20', y: 98.2 },
+        { x: '2025-04-11', y: 98 }
+    ]
+};
+
+const LABELS = new Proxy({}, {
+    get: (_, key) => key === 'bands' ? { slow: 'Slow', ac: 'AC', dc: 'DC', hpc: 'HPC' } : `<${String(key)}>`
+}) as BatteryCertificateLabels;
+
+const GENERATED_AT = new Date('2025-06-01T10:00:00Z');
+
+const build = () => buildBatteryCertificate({
+    charges: CHARGES,
+    trips: TRIPS,
+    settings: SETTINGS,
+    vehicle: { name: 'Mi coche', vin: 'LGXC123' },
+    aiSoH: 98.04,
+    aiSoHStats: AI_STATS,
+    generatedAt: GENERATED_AT
+});
+
+describe('buildBatteryCertificate', () => {
+    it('gathers the SoH, the charging mix by power band and the data coverage', () => {
+        const certificate = build();
+
+        expect(certificate.vehicle).toEqual({ name: 'Mi coche', vin: 'LGXC123', model: 'Atto 3' });
+        expect(certificate.battery).toEqual({ chemistry: 'lfp', netCapacity: 60.48, mfgDate: '20240115' });
+        expect(certificate.soh.degradation.calendar).toBeGreaterThan(0);
+        expect(certificate.aiSoH).toBe(98);
+        expect(certificate.chargingMix).toEqual({ slow: 1, ac: 1, dc: 1, hpc: 1 });
+        expect(certificate.coverage).toEqual({ from: '20250301', to: '20250510', charges: 4, trips: 2, km: 200 });
+        expect(certificate.generatedAt).toBe('2025-06-01T10:00:00.000Z');
+    });
+
+    it('averages the AI SoH samples per month', () => {
+        expect(build().trend).toEqual([
+            { month: '202503', samples: 2, measured: 98, trend: 98.3 },
+            { month: '202504', samples: 1, measured: 98.5, trend: 98 }
+        ]);
+    });
+
+    it('uses the stress factor power bands', () => {
+        expect([3.5, 11, 22.1, 70, 70.1].map(getChargeSpeedBand)).toEqual(['slow', 'ac', 'dc', 'dc', 'hpc']);
+    });
+});
+
+describe('battery certificate HTML', () => {
+    it('escapes user texts and explains a missing AI trend', () => {
+        const certificate = { ...build(), trend: [], vehicle: { name: 'Coche <script>' } };
+        const html = batteryCertificateToHtml(certificate, LABELS, 'es');
+
+        expect(html).toContain('Coche &lt;script&gt;');
+        expect(html).not.toContain('<script>');
+        expect(html).toContain('&lt;noTrend&gt;');
+    });
+
+    it('embeds a hash that detects accidental edits of the file', async () => {
+        const { html, hash } = await hashBatteryCertificate(build(), LABELS, 'es');
+
+        expect(hash).toMatch(/^[0-9a-f]{64}$/);
+        expect(html).toContain(`content="${hash}"`);
+        expect(await checkBatteryCertificateHash(html)).toBe(true);
+        expect(await checkBatteryCertificateHash(html.replace('LGXC123', 'LGXC999'))).toBe(false);
+        expect(await checkBatteryCertificateHash(batteryCertificateToHtml(build(), LABELS, 'es'))).toBe(false);
+    });
+});
@@ -0,0 +1,76 @@
+// BYD Stats - BYD Database Round-trip Tests
+import { describe, it, expect, beforeAll } from 'vitest';
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+// @ts-expect-error sql.js ships without type declarations
+import initSqlJs from 'sql.js';
+import { readEnergyConsumption, buildEnergyConsumptionDatabase, ENERGY_COLUMNS, DEFAULT_DB_LOCALE } from '../bydDatabase';
+import { Trip } from '@/types';
+
+const ROOT = resolve(__dirname, '../../..');
+
+describe('bydDatabase', () => {
+    let SQL: any;
+    let original: Trip[];
+
+    const readBytes = (bytes: Uint8Array): Trip[] => {
+        const db = new SQL.Database(bytes);
+        try {
+            return readEnergyConsumption(db);
+        } finally {
+            db.close();
+        }
+    };
+
+    beforeAll(async () => {
+        SQL = await initSqlJs({
+            locateFile: (file: string) => resolve(ROOT, 'node_modules/sql.js/dist', file)
+        });
+        original = readBytes(new Uint8Array(readFileSync(resolve(ROOT, 'EC_database_Hybrid.db'))));
+    });
+
+    it('should read every trip from the hybrid database', () => {
+        expect(original.length).toBe(361);
+        expect(original.some(t => (t.fuel || 0) > 0)).toBe(true);
+    });
+
+    it('should round-trip all columns losslessly', () => {
+        const roundTrip = readBytes(buildEnergyConsumptionDatabase(SQL, original));
+
+        expect(roundTrip).toHaveLength(original.length);
+        roundTrip.forEach((trip, i) => {
+            ENERGY_COLUMNS.forEach(col => {
+                expect(trip[col], `row ${i} column ${col}`).toEqual(original[i][col]);
+            });
+        });
+    });
+
+    it('should write the android_metadata and sqlite_sequence tables', () => {
+        const db = new SQL.Database(buildEnergyConsumptionDatabase(SQL, original));
+        try {
+            expect(db.exec('SELECT locale FROM android_metadata')[0].values).toEqual([[DEFAULT_DB_LOCALE]]);
+            const maxId = Math.max(...original.map(t => t._id as number));
+            expect(db.exec("SELECT seq FROM sqlite_sequence WHERE name = 'EnergyConsumption'")[0].values).toEqual([[maxId]]);
+        } finally {
+            db.close();
+        }
+    });
+
+    it('should assign fresh ids when row ids collide', () => {
+        const merged = [...original.slice(0, 2), { ...original[2], _id: original[0]._id }];
+        const roundTrip = readBytes(buildEnergyConsumptionDatabase(SQL, merged));
+
+        expect(roundTrip.map(t => t._id)).toEqual([1, 2, 3]);
+        expect(roundTrip.map(t => t.start_timestamp)).toEqual(merged.map(t => t.start_timestamp));
+    });
+
+    it('should fill end_timestamp and month for trips from CSV sources', () => {
+        const csvTrip = { date: '20260101', start_timestamp: 1767268800, duration: 2700, trip: 80, electricity: 15.26 } as Trip;
+        const [trip] = readBytes(buildEnergyConsumptionDatabase(SQL, [csvTrip]));
+
+        expect(trip.month).toBe('202601');
+        expect(trip.end_timestamp).toBe(1767268800 + 2700);
+        expect(trip.fuel).toBe(0);
+        expect(trip.is_deleted).toBe(0);
+    });
+});
@@ -0,0 +1,153 @@
+// BYD Stats - CSV Column Mapping Tests
+import { describe, it, expect, afterEach } from 'vitest';
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import {
+    detectDelimiter,
+    parseCsv,
+    guessColumnMapping,
+    guessDateFormat,
+    guessCsvProfile,
+    parseCsvDateTime,
+    parseCsvNumber,
+    applyTripMapping,
+    applyChargeMapping,
+    createCsvProfileAdapter,
+    syncCsvProfileImporters,
+    CsvMappingProfile
+} from '../csvMapping';
+import { detectTripImporter, getTripImporters } from '../tripImporters';
+
+const ROOT = resolve(__dirname, '../../..');
+const readFixture = (name: string) => readFileSync(resolve(ROOT, name), 'utf-8');
+
+const LOGGER_CSV = [
+    'Date;Distance (mi);Energy (Wh);Duration (s)',
+    '13/07/2025 11:42;10,5;2500;1800',
+    '31/02/2025 09:00;4;800;600',
+    '14/07/2025 08:15;3;;300'
+].join('\n');
+
+describe('csvMapping', () => {
+    afterEach(() => syncCsvProfileImporters([]));
+
+    describe('parsing helpers', () => {
+        it('should detect the delimiter', () => {
+            expect(detectDelimiter(LOGGER_CSV)).toBe(';');
+            expect(detectDelimiter(readFixture('REGISTRO_VIAJES.csv'))).toBe(',');
+            expect(detectDelimiter('a\tb\tc\n1\t2\t3')).toBe('\t');
+        });
+
+        it('should honour quotes and escaped quotes', () => {
+            const rows = parseCsv('"a,b","say ""hi""",3\n\n4,5,6', ',');
+            expect(rows).toEqual([
+                { line: 1, values: ['a,b', 'say "hi"', '3'], raw: '"a,b","say ""hi""",3' },
+                { line: 3, values: ['4', '5', '6'], raw: '4,5,6' }
+            ]);
+        });
+
+        it('should parse numbers with either decimal separator', () => {
+            expect(parseCsvNumber('10,5')).toBe(10.5);
+            expect(parseCsvNumber('1.234,5')).toBe(1234.5);
+            expect(parseCsvNumber('1,234.5')).toBe(1234.5);
+            expect(parseCsvNumber('12.30 €')).toBe(12.3);
+            expect(parseCsvNumber('')).toBeNaN();
+        });
+
+        it('should parse and guess date formats', () => {
+            expect(guessDateFormat(['2025-07-13 11:42'])).toBe('YYYY-MM-DD HH:mm');
+            expect(guessDateFormat(['07/13/2025 11:42', '07/01/2025 10:00'])).toBe('MM/DD/YYYY HH:mm');
+            expect(guessDateFormat(['01/07/2025 10:00'])).toBe('DD/MM/YYYY HH:mm');
+            expect(guessDateFormat(['1752399720'])).toBe('unix');
+
+            const date = parseCsvDateTime('13.07.2025 11:42', 'DD/MM/YYYY HH:mm');
+            expect(date?.getDate()).toBe(13);
+            expect(date?.getMonth()).toBe(6);
+            expect(date?.getHours()).toBe(11);
+            expect(parseCsvDateTime('31/02/2025', 'DD/MM/YYYY HH:mm')).toBeNull();
+        });
+    });
+
+    describe('guessing', () => {
+        it('should map the REGISTRO_CARGAS.csv columns by header', () => {
+            const headers = parseCsv(readFixture('REGISTRO_CARGAS.csv'), ',')[0].values;
+            expect(guessColumnMapping(headers, 'charges')).toEqual({
+                datetime: 0,
+                odometer: 1,
+                kwhCharged: 2,
+                totalCost: 3,
+                pricePerKwh: 6,
+                chargerType: 5,
+                initialPercentage: null,
+                finalPercentage: 7
+            });
+        });
+
+        it('should guess delimiter, header, date format and units', () => {
+            const guess = guessCsvProfile(LOGGER_CSV, 'trips');
+            expect(guess.delimiter).toBe(';');
+            expect(guess.hasHeader).toBe(true);
+            expect(guess.dateFormat).toBe('DD/MM/YYYY HH:mm');
+            expect(guess.units).toEqual({ distance: 'mi', duration: 's', energy: 'Wh' });
+            expect(guess.mapping).toMatchObject({ start: 0, distance: 1, electricity: 2, duration: 3 });
+        });
+    });
+
+    describe('applying a mapping', () => {
+        const profile: CsvMappingProfile = { id: 'logger', name: 'Logger', ...guessCsvProfile(LOGGER_CSV, 'trips') };
+
+        it('should convert units and report rejected rows', () => {
+            const result = applyTripMapping(parseCsv(LOGGER_CSV, ';'), profile);
+
+            expect(result.totalRows).toBe(3);
+            expect(result.trips).toHaveLength(1);
+            expect(result.trips[0]).toMatchObject({ date: '20250713', month: '202507', duration: 1800, electricity: 2.5 });
+            expect(result.trips[0].trip).toBeCloseTo(16.898, 2);
+            expect(result.errors.map(e => [e.line, e.message])).toEqual([
+                [3, 'Fecha inválida: 31/02/2025 09:00'],
+                [4, 'Energía inválida']
+            ]);
+        });
+
+        it('should refuse a mapping without required columns', () => {
+            expect(() => applyTripMapping([], { ...profile, mapping: { ...profile.mapping, distance: null } }))
+                .toThrow('Faltan columnas obligatorias: distance');
+        });
+
+        it('should build validated charges and derive missing prices', () => {
+            const csv = 'When,kWh,Cost,Charger\n2025-07-13 22:00,20,5,Home\n2025-07-14 22:00,-3,1,Home';
+            const chargeProfile: CsvMappingProfile = { id: 'c', name: 'C', ...guessCsvProfile(csv, 'charges') };
+            chargeProfile.mapping.datetime = 0;
+
+            const result = applyChargeMapping(parseCsv(csv, ','), chargeProfile);
+            expect(result.charges).toEqual([expect.objectContaining({
+                date: '2025-07-13', time: '22:00', kwhCharged: 20, totalCost: 5, pricePerKwh: 0.25, chargerType: 'Home'
+            })]);
+            expect(result.errors[0].line).toBe(3);
+            expect(result.errors[0].message).toContain('kwhCharged');
+        });
+    });
+
+    describe('profile adapters', () => {
+        const profile: CsvMappingProfile = { id: 'logger', name: 'Logger', ...guessCsvProfile(LOGGER_CSV, 'trips') };
+        const source = { name: 'export.csv', bytes: new TextEncoder().encode(LOGGER_CSV) };
+
+        it('should recognise files with the saved header', async () => {
+            const adapter = createCsvProfileAdapter(profile);
+            expect(adapter.sniff(source)).toBe(true);
+            expect(adapter.sniff({ name: 'x.csv', bytes: new TextEncoder().encode('a;b\n1;2') })).toBe(false);
+
+            const result = await adapter.parse(source, {});
+            expect(result.trips).toHaveLength(1);
+        });
+
+        it('should register saved trip profiles in the import registry', () => {
+            syncCsvProfileImporters([profile, { ...profile, id: 'charges', target: 'charges' }]);
+            expect(detectTripImporter(source)?.id).toBe('csv-profile:logger');
+            expect(getTripImporters().filter(a => a.id.startsWith('csv-profile:'))).toHaveLength(1);
+
+            syncCsvProfileImporters([]);
+            expect(detectTripImporter(source)).toBeNull();
+        });
+    });
+});
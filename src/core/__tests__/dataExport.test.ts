@@ -0,0 +1,144 @@
+// BYD Stats - Data Export Tests
+import { describe, it, expect } from 'vitest';
+import { Charge, ChargerType, Trip, TripTag } from '../../types';
+import {
+    buildExportFiles,
+    chargesToCsv,
+    filterChargesByRange,
+    getExportDateRange,
+    parseExportDocument,
+    tripsToCsv,
+    EXPORT_DOCUMENT_VERSION
+} from '../dataExport';
+import { detectTripImporter, importTrips, splitCsvLine } from '../tripImporters';
+import { calculateTripCosts } from '../dataProcessing';
+
+const toSource = (name: string, content: string) => ({ name, bytes: new TextEncoder().encode(content) });
+
+const makeTrip = (year: number, month: number, day: number, hour: number, minute: number, second: number, extra: Partial<Trip>): Trip => {
+    const start = Math.floor(new Date(year, month - 1, day, hour, minute, second).getTime() / 1000);
+    const duration = extra.duration ?? 1234;
+    const ym = `${year}${String(month).padStart(2, '0')}`;
+    return {
+        date: `${ym}${String(day).padStart(2, '0')}`,
+        month: ym,
+        start_timestamp: start,
+        end_timestamp: start + duration,
+        duration,
+        trip: 12.345678,
+        electricity: 2.0987654321,
+        ...extra
+    };
+};
+
+const TRIPS: Trip[] = [
+    makeTrip(2025, 7, 13, 11, 42, 17, { fuel: 0.73, tags: ['commute'] }),
+    makeTrip(2025, 7, 20, 8, 5, 59, { duration: 61, trip: 0.4, electricity: -0.12, tags: ['commute', 'business'] }),
+    makeTrip(2025, 8, 1, 23, 59, 1, { duration: 3600, trip: 101.9, electricity: 15.5, fuel: 0 })
+];
+
+const CHARGER_TYPES: ChargerType[] = [{ id: 'home', name: 'Casa, garaje', speedKw: 7.4, efficiency: 0.9 }];
+
+const TRIP_TAGS: TripTag[] = [
+    { id: 'commute', name: 'Trabajo', color: '#0ea5e9' },
+    { id: 'leisure', name: 'Ocio', color: '#10b981' }
+];
+
+const CHARGES: Charge[] = [
+    {
+        id: 'a', date: '2025-07-12', time: '22:30', kwhCharged: 20.5, totalCost: 3.2, pricePerKwh: 0.156,
+        chargerTypeId: 'home', initialPercentage: 30, finalPercentage: 80, odometer: 10200
+    },
+    {
+        id: 'b', date: '2025-08-02', time: '09:15', kwhCharged: 0, totalCost: 40, pricePerKwh: 0,
+        chargerTypeId: 'fuel_station', type: 'fuel', litersCharged: 25, pricePerLiter: 1.6, odometer: 10900
+    }
+];
+
+const pickTripFields = (t: Trip) => ({
+    date: t.date, month: t.month, start_timestamp: t.start_timestamp, end_timestamp: t.end_timestamp,
+    duration: t.duration, trip: t.trip, electricity: t.electricity, fuel: t.fuel, tags: t.tags
+});
+
+describe('dataExport', () => {
+    it('should re-import the trip CSV through the CSV importer without loss', async () => {
+        const csv = tripsToCsv(TRIPS);
+        const source = toSource('REGISTRO_VIAJES.csv', csv);
+
+        expect(detectTripImporter(source)?.id).toBe('byd-trip-csv');
+        const result = await importTrips(source);
+
+        expect(result.errors).toEqual([]);
+        expect(result.trips.map(pickTripFields)).toEqual(TRIPS.map(pickTripFields));
+    });
+
+    it('should read back values containing quotes', async () => {
+        const quoted = [{ ...CHARGER_TYPES[0], name: 'Casa "garaje", 7 kW' }];
+        const chargeRow = splitCsvLine(chargesToCsv(CHARGES, quoted).split('\n')[1]);
+        expect(chargeRow[5]).toBe('Casa "garaje", 7 kW');
+
+        const tagged = [{ ...TRIPS[0], tags: ['"viaje"'] }];
+        const result = await importTrips(toSource('REGISTRO_VIAJES.csv', tripsToCsv(tagged)));
+        expect(result.trips[0].tags).toEqual(['"viaje"']);
+    });
+
+    it('should write the cost columns computed by processData', () => {
+        const priced = calculateTripCosts(TRIPS, { electricPrice: 0.2, fuelPrice: 1.5 } as any);
+        const firstRow = splitCsvLine(tripsToCsv(priced).split('\n')[1]);
+
+        expect(firstRow[5]).toBe(String(Math.round(2.0987654321 * 0.2 * 10000) / 10000));
+        expect(firstRow[6]).toBe('1.095');
+        // The input trips are not mutated
+        expect(TRIPS[0].electricCost).toBeUndefined();
+    });
+
+    it('should write charges in the REGISTRO_CARGAS column order', () => {
+        const lines = chargesToCsv(CHARGES, CHARGER_TYPES).split('\n');
+        expect(lines[0]).toContain('"Fecha y Hora","km totales","kWh facturados"');
+
+        const values = lines[1].match(/("[^"]*"|[^,]+)/g)!.map(v => v.replace(/^"|"$/g, ''));
+        expect(values).toEqual(['2025-07-12 22:30', '10200', '20.5', '3.2', '', 'Casa, garaje', '0.156', '80', '30', 'electric', '']);
+
+        const fuel = lines[2].match(/("[^"]*"|[^,]+)/g)!.map(v => v.replace(/^"|"$/g, ''));
+        expect(fuel.slice(6)).toEqual(['1.6', '', '', 'fuel', '25']);
+    });
+
+    it('should round-trip trips and charges through the JSON importer', async () => {
+        const [file] = buildExportFiles({
+            scope: 'both', format: 'json', trips: TRIPS, charges: CHARGES, chargerTypes: CHARGER_TYPES, tripTags: TRIP_TAGS,
+            exportedAt: new Date('2025-09-01T10:00:00Z')
+        });
+        expect(file.name).toBe('BYD_Stats_2025-09-01.json');
+
+        const source = toSource(file.name, file.content);
+        expect(detectTripImporter(source)?.id).toBe('byd-stats-json');
+
+        const result = await importTrips(source);
+        expect(result.trips).toEqual(TRIPS);
+        expect(result.charges).toEqual(CHARGES);
+        expect(result.chargerTypes).toEqual(CHARGER_TYPES);
+        expect(result.tripTags).toEqual([TRIP_TAGS[0]]);
+    });
+
+    it('should produce one CSV per data set and nothing when empty', () => {
+        const both = buildExportFiles({ scope: 'both', format: 'csv', trips: TRIPS, charges: CHARGES });
+        expect(both.map(f => f.name.split('_').slice(0, 2).join('_'))).toEqual(['REGISTRO_VIAJES', 'REGISTRO_CARGAS']);
+        expect(buildExportFiles({ scope: 'charges', format: 'json', trips: TRIPS, charges: [] })).toEqual([]);
+    });
+
+    it('should follow the active filter range', () => {
+        expect(getExportDateRange('month', '202507', '', '')).toEqual({ from: '20250701', to: '20250731' });
+        expect(getExportDateRange('range', '', '2025-08-01', '')).toEqual({ from: '20250801', to: undefined });
+        expect(getExportDateRange('all', '202507', '', '')).toEqual({});
+
+        const range = getExportDateRange('range', '', '2025-08-01', '2025-08-31');
+        expect(filterChargesByRange(CHARGES, range).map(c => c.id)).toEqual(['b']);
+    });
+
+    it('should refuse documents from a newer version or another app', () => {
+        const newer = JSON.stringify({ format: 'byd-stats-export', version: EXPORT_DOCUMENT_VERSION + 1, exportedAt: '' });
+        expect(() => parseExportDocument(newer)).toThrow('Versión de exportación no soportada');
+        expect(() => parseExportDocument('{"trips": []}')).toThrow('no es una exportación');
+        expect(() => parseExportDocument('not json')).toThrow('JSON válido');
+    });
+});
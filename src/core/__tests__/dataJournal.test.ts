@@ -0,0 +1,121 @@
+// BYD Stats - Data Journal Tests
+import { describe, it, expect } from 'vitest';
+import {
+    DataSnapshot,
+    EMPTY_JOURNAL,
+    addRestorePoint,
+    createRestorePoint,
+    recordJournalEntry,
+    redoJournal,
+    reviveDeletedRecords,
+    sameSnapshotData,
+    undoJournal
+} from '../dataJournal';
+import { SyncSnapshot, Tombstone, mergeSyncSnapshots, tripSyncKey } from '../syncMerge';
+import { Settings, Trip } from '../../types';
+
+const trip = (km: number): Trip => ({
+    date: '20250501',
+    month: '202505',
+    start_timestamp: 1746086400 + km,
+    end_timestamp: 1746087600 + km,
+    duration: 1200,
+    trip: km,
+    electricity: km * 0.15
+});
+
+const settings = { electricPrice: 0.15 } as Settings;
+
+const snapshot = (...kms: number[]): DataSnapshot => ({ trips: kms.map(trip), charges: [], settings });
+
+describe('recordJournalEntry', () => {
+    it('keeps the latest entries up to the limit and drops the redo list', () => {
+        let journal = EMPTY_JOURNAL;
+        for (let i = 1; i <= 4; i++) journal = recordJournalEntry(journal, 'editTrips', snapshot(i), i, 3);
+
+        expect(journal.undo.map(e => e.snapshot.trips[0].trip)).toEqual([2, 3, 4]);
+
+        const undone = undoJournal(journal, snapshot(5), 10)!;
+        expect(undone.journal.redo).toHaveLength(1);
+        expect(recordJournalEntry(undone.journal, 'tags', snapshot(6), 11).redo).toEqual([]);
+    });
+
+    it('does not record the same data twice in a row', () => {
+        const before = snapshot(1);
+        const journal = recordJournalEntry(recordJournalEntry(EMPTY_JOURNAL, 'import', before), 'tags', before);
+
+        expect(journal.undo).toHaveLength(1);
+        expect(journal.undo[0].action).toBe('import');
+    });
+});
+
+describe('undoJournal / redoJournal', () => {
+    it('moves changes between the undo and redo lists', () => {
+        const before = snapshot(1);
+        const after = snapshot(1, 2);
+        const journal = recordJournalEntry(EMPTY_JOURNAL, 'import', before);
+
+        const undone = undoJournal(journal, after)!;
+        expect(undone.entry.snapshot).toBe(before);
+        expect(undone.journal.undo).toEqual([]);
+
+        const redone = redoJournal(undone.journal, before)!;
+        expect(redone.entry.action).toBe('import');
+        expect(redone.entry.snapshot).toBe(after);
+        expect(redone.journal.undo[0].snapshot).toBe(before);
+        expect(redone.journal.redo).toEqual([]);
+    });
+
+    it('returns null when there is nothing to undo or redo', () => {
+        expect(undoJournal(EMPTY_JOURNAL, snapshot())).toBeNull();
+        expect(redoJournal(EMPTY_JOURNAL, snapshot())).toBeNull();
+    });
+});
+
+describe('addRestorePoint', () => {
+    it('prunes the oldest automatic points and keeps manual ones', () => {
+        let points = [createRestorePoint(snapshot(1), 'manual', 1)];
+        for (let i = 2; i <= 5; i++) points = addRestorePoint(points, createRestorePoint(snapshot(i), 'sync', i), 2);
+
+        expect(points.map(p => [p.reason, p.createdAt])).toEqual([['manual', 1], ['sync', 4], ['sync', 5]]);
+        expect(points[2]).toMatchObject({ trips: 1, charges: 0, date: '1970-01-01' });
+        expect(points[2].size).toBeGreaterThan(0);
+    });
+});
+
+describe('sameSnapshotData', () => {
+    it('compares records and settings by value', () => {
+        expect(sameSnapshotData(snapshot(1, 2), snapshot(1, 2))).toBe(true);
+        expect(sameSnapshotData(snapshot(1, 2), snapshot(1, 3))).toBe(false);
+        expect(sameSnapshotData(snapshot(1), { ...snapshot(1), settings: { ...settings, electricPrice: 0.2 } })).toBe(false);
+    });
+});
+
+describe('reviveDeletedRecords', () => {
+    it('keeps trips brought back by undo after their deletion was synced', () => {
+        const sync = (base: SyncSnapshot | null, local: SyncSnapshot, remote: SyncSnapshot, now: number) =>
+            mergeSyncSnapshots({ base, local, remote, now }).merged;
+
+        // Delete, sync
+        const before = snapshot(1, 2);
+        const deletion: Tombstone = { kind: 'trips', key: tripSyncKey(trip(2)), deletedAt: 1000 };
+        const synced = sync(before, { ...snapshot(1), tombstones: [deletion] }, before, 1500);
+        expect(synced.trips.map(t => t.trip)).toEqual([1]);
+        expect(synced.tombstones).toEqual([deletion]);
+
+        // Undo
+        const revived = reviveDeletedRecords(before, synced.tombstones!, 2000)!;
+        expect(revived.tombstones).toEqual([]);
+        expect(revived.snapshot.trips[1]).toMatchObject({ trip: 2, updatedAt: 2000 });
+        expect(revived.snapshot.trips[0]).toBe(before.trips[0]);
+
+        // Sync: the cloud still has the tombstone
+        const resynced = sync(synced, { ...revived.snapshot, tombstones: revived.tombstones }, synced, 2500);
+        expect(resynced.trips.map(t => t.trip)).toEqual([1, 2]);
+        expect(resynced.tombstones).toEqual([]);
+    });
+
+    it('returns null when no record of the snapshot was deleted', () => {
+        expect(reviveDeletedRecords(snapshot(1), [{ kind: 'charges', key: 'x', deletedAt: 1 }])).toBeNull();
+    });
+});
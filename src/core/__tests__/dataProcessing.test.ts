@@ -1,6 +1,6 @@
 // BYD Stats - Data Processing Tests
 import { describe, it, expect } from 'vitest';
-import { processData } from '../dataProcessing';
+import { calculateTripCosts, getElectricStrategy, processData } from '../dataProcessing';
 import { Trip, Charge, Settings } from '@/types';
 
 describe('dataProcessing', () => {
@@ -262,5 +262,65 @@ describe('dataProcessing', () => {
             // Max cost should track stationary trips too
             expect(result!.summary.maxCost).toBe('5.00');
         });
+
+        it('should count journeys instead of trips when grouping is on', () => {
+            const trips = [
+                { trip: 10, electricity: 1.5, duration: 600, month: '202501', date: '20250114', start_timestamp: 1705237200, end_timestamp: 1705237800 },
+                { trip: 5, electricity: 0.5, duration: 300, month: '202501', date: '20250114', start_timestamp: 1705238000, end_timestamp: 1705238300 },
+                { trip: 20, electricity: 3, duration: 1200, month: '202501', date: '20250114', start_timestamp: 1705250000, end_timestamp: 1705251200 }
+            ] as Trip[];
+            const settings: Settings = {
+                batterySize: 60, soh: 100,
+                electricStrategy: 'custom',
+                electricPrice: 0.2,
+                tripUnit: 'journey',
+                journeyGapMinutes: 5
+            };
+
+            const result = processData(trips, settings);
+            expect(result!.summary.totalTrips).toBe(2);
+            expect(result!.summary.totalKm).toBe('35.0');
+            expect(result!.summary.avgKm).toBe('17.5');
+            expect(result!.tripDist[1].count).toBe(1); // 15 km journey
+            expect(result!.top.km[1]).toMatchObject({ trip: 15, electricity: 2, duration: 900 });
+            expect(result!.top.km[1].calculatedCost).toBeCloseTo(0.4);
+        });
+
+        it('should calculate cost with FIFO strategy from the whole history', () => {
+            const at = (time: string) => new Date(`2025-01-01T${time}:00`).getTime() / 1000;
+            const earlier = { trip: 40, electricity: 6, start_timestamp: at('11:00'), date: '20250101' } as Trip;
+            const trip = { trip: 50, electricity: 8, start_timestamp: at('13:00'), date: '20250101' } as Trip;
+
+            const charges = [
+                { id: 'c1', kwhCharged: 10, totalCost: 2, date: '2025-01-01', time: '10:00', type: 'electric' },
+                { id: 'c2', kwhCharged: 10, totalCost: 5, date: '2025-01-01', time: '12:00', type: 'electric' }
+            ] as Charge[];
+
+            const settings: Settings = {
+                batterySize: 60, soh: 100,
+                electricStrategy: 'fifo'
+            };
+
+            // Only the later trip is shown, but the earlier one already used 6 kWh of the first charge
+            const result = processData([trip], settings, charges, 'es', [earlier, trip]);
+            // Cost = 4 * 0.20 + 4 * 0.50 = 2.8
+            expect(result!.top.km[0].calculatedCost).toBeCloseTo(2.8);
+            expect(result!.top.km[0].energySources!.map(s => s.chargeId)).toEqual(['c1', 'c2']);
+        });
+
+        it('should read the strategy the settings screen stores on the main thread too', () => {
+            const at = (time: string) => new Date(`2025-01-01T${time}:00`).getTime() / 1000;
+            const trip = { trip: 50, electricity: 8, start_timestamp: at('13:00'), date: '20250101' } as Trip;
+            const charges = [{ id: 'c1', kwhCharged: 10, totalCost: 2, date: '2025-01-01', time: '10:00', type: 'electric' }] as Charge[];
+            const settings: Settings = { batterySize: 60, soh: 100, electricPrice: 0.3, priceStrategy: 'fifo', electricStrategy: 'custom' };
+
+            expect(getElectricStrategy(settings)).toBe('fifo');
+            expect(getElectricStrategy({ ...settings, useCalculatedPrice: true })).toBe('average');
+            expect(getElectricStrategy({ electricPrice: 0.3 })).toBe('custom');
+
+            const [costed] = calculateTripCosts([trip], settings, charges);
+            expect(costed.calculatedCost).toBeCloseTo(1.6);
+            expect(costed.energySources!.map(s => s.chargeId)).toEqual(['c1']);
+        });
     });
 });
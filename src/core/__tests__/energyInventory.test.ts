@@ -0,0 +1,75 @@
+// BYD Stats - Energy Inventory Tests
+import { describe, it, expect } from 'vitest';
+import { costBasis, mergeEnergySources, runEnergyInventory } from '../energyInventory';
+import { tripSyncKey } from '../syncMerge';
+import { Charge, Trip } from '../../types';
+
+const trip = (start: number, kwh: number): Trip => ({
+    date: '20250501',
+    month: '202505',
+    start_timestamp: start,
+    end_timestamp: start + 1200,
+    duration: 1200,
+    trip: kwh * 6,
+    electricity: kwh
+});
+
+const charge = (id: string, timestamp: number, kwh: number, price: number): Charge => ({
+    id,
+    date: '2025-05-01',
+    time: '08:00',
+    kwhCharged: kwh,
+    totalCost: kwh * price,
+    pricePerKwh: price,
+    chargerTypeId: 'home',
+    timestamp,
+    effectivePrice: price
+});
+
+describe('runEnergyInventory', () => {
+    it('draws the oldest energy first and prices trips at the mix of their charges', () => {
+        const trips = [trip(2000, 8), trip(4000, 6)];
+        const charges = [charge('a', 1000, 10, 0.10), charge('b', 3000, 10, 0.30)];
+
+        const { trips: costs, lots } = runEnergyInventory(trips, charges, 0.2);
+
+        expect(costs.get(tripSyncKey(trips[0]))!.cost).toBeCloseTo(0.8);
+        const second = costs.get(tripSyncKey(trips[1]))!;
+        expect(second.sources.map(s => [s.chargeId, s.kwh])).toEqual([['a', 2], ['b', 4]]);
+        expect(second.cost).toBeCloseTo(2 * 0.10 + 4 * 0.30);
+        expect(costBasis(lots)).toBeCloseTo(0.30);
+    });
+
+    it('prices energy no logged charge explains at the fallback price', () => {
+        const trips = [trip(2000, 5)];
+
+        const cost = runEnergyInventory(trips, [charge('a', 1000, 3, 0.10)], 0.2).trips.get(tripSyncKey(trips[0]))!;
+
+        expect(cost.sources).toEqual([
+            { chargeId: 'a', date: '2025-05-01', kwh: 3, price: 0.10 },
+            { kwh: 2, price: 0.2 }
+        ]);
+        expect(cost.cost).toBeCloseTo(0.7);
+    });
+
+    it('keeps no more than the battery capacity, dropping the oldest energy', () => {
+        const trips = [trip(3000, 4)];
+        const charges = [charge('a', 1000, 8, 0.10), charge('b', 2000, 8, 0.30)];
+
+        const cost = runEnergyInventory(trips, charges, 0.2, 10).trips.get(tripSyncKey(trips[0]))!;
+
+        expect(cost.sources.map(s => [s.chargeId, s.kwh])).toEqual([['a', 2], ['b', 2]]);
+    });
+});
+
+describe('mergeEnergySources', () => {
+    it('combines the energy each charge gave several trips', () => {
+        const merged = mergeEnergySources([
+            { chargeId: 'a', kwh: 1, price: 0.1 },
+            { kwh: 2, price: 0.2 },
+            { chargeId: 'a', kwh: 3, price: 0.1 }
+        ]);
+
+        expect(merged).toEqual([{ chargeId: 'a', kwh: 4, price: 0.1 }, { kwh: 2, price: 0.2 }]);
+    });
+});
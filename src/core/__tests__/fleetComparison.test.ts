@@ -0,0 +1,74 @@
+// BYD Stats - Fleet Comparison Tests
+import { describe, it, expect } from 'vitest';
+import { buildFleetComparison, getFleetCarStats } from '../fleetComparison';
+import { Car, Settings, Trip } from '@/types';
+
+const settings = { batterySize: 60, soh: 100, electricPrice: 0.2, fuelPrice: 1.5 } as Settings;
+
+const dolphin: Car = { id: 'dolphin', name: 'Dolphin', type: 'ev', isHybrid: false };
+const sealU: Car = { id: 'seal-u', name: 'Seal U DM-i', type: 'phev', isHybrid: true };
+
+const evTrips = [
+    { trip: 100, electricity: 15, duration: 3600, month: '202501', date: '20250110', start_timestamp: 1736503200 },
+    { trip: 100, electricity: 15, duration: 3600, month: '202502', date: '20250210', start_timestamp: 1739181600 }
+] as Trip[];
+
+// 50 km on electricity, then 100 km using 4 L of fuel
+const phevTrips = [
+    { trip: 50, electricity: 10, fuel: 0, duration: 3600, month: '202502', date: '20250211', start_timestamp: 1739268000 },
+    { trip: 100, electricity: 0, fuel: 4, duration: 3600, month: '202502', date: '20250212', start_timestamp: 1739354400 }
+] as Trip[];
+
+describe('fleetComparison', () => {
+    it('should compare an EV on its own electricity', () => {
+        const stats = getFleetCarStats({ car: dolphin, trips: evTrips, charges: [], settings });
+
+        expect(stats.totalKm).toBe(200);
+        expect(stats.efficiency).toBe(15);
+        expect(stats.costPerKm).toBe(0.03);
+        expect(stats.monthlyKm).toBe(100);
+        expect(stats.soh).toBe(100);
+    });
+
+    it('should convert PHEV fuel to kWh so both cars compare', () => {
+        const stats = getFleetCarStats({ car: sealU, trips: phevTrips, charges: [], settings });
+
+        // 10 kWh + 4 L x 9.7 kWh over 150 km
+        expect(stats.isHybrid).toBe(true);
+        expect(stats.energyKwh).toBeCloseTo(48.8);
+        expect(stats.efficiency).toBeCloseTo(32.53);
+        expect(stats.fuelEfficiency).toBeCloseTo(2.67);
+        expect(stats.costPerKm).toBeCloseTo((10 * 0.2 + 4 * 1.5) / 150, 3);
+    });
+
+    it('should leave the stored trips untouched', () => {
+        const trips = evTrips.map(t => ({ ...t }));
+        getFleetCarStats({ car: dolphin, trips, charges: [], settings });
+
+        expect(trips).toEqual(evTrips);
+        expect(trips[0].calculatedCost).toBeUndefined();
+    });
+
+    it('should read the stored settings as the dashboard does', () => {
+        const stored = { batterySize: '60', electricPrice: '0.2', fuelPrice: '1.5', odometerOffset: '1000' } as unknown as Settings;
+        const stats = getFleetCarStats({ car: dolphin, trips: evTrips, charges: [], settings: stored });
+
+        // The offset only moves the odometer, per km figures stay on the driven km
+        expect(stats.totalKm).toBe(1200);
+        expect(stats.drivenKm).toBe(200);
+        expect(stats.efficiency).toBe(15);
+        expect(stats.costPerKm).toBe(0.03);
+    });
+
+    it('should weight fleet totals by distance and merge the months', () => {
+        const fleet = buildFleetComparison([
+            { car: dolphin, trips: evTrips, charges: [], settings },
+            { car: sealU, trips: phevTrips, charges: [], settings }
+        ]);
+
+        expect(fleet.cars.map(c => c.carId)).toEqual(['dolphin', 'seal-u']);
+        expect(fleet.totals.totalKm).toBe(350);
+        expect(fleet.totals.efficiency).toBeCloseTo((30 + 48.8) / 350 * 100, 1);
+        expect(fleet.months).toEqual(['202501', '202502']);
+    });
+});
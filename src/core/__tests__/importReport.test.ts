@@ -0,0 +1,142 @@
+// BYD Stats - Import Report Tests
+import { describe, it, expect } from 'vitest';
+import { ChargeCsvRowSchema } from '@/utils/validation';
+import { Charge, Trip } from '../../types';
+import {
+    classifyImportedCharges,
+    mergeImportedTrips,
+    rejectedRowsToCsv,
+    rowErrorFromZod,
+    ImportReport
+} from '../importReport';
+
+const trip = (date: string, start: number, km: number): Trip => ({
+    date,
+    month: date.slice(0, 6),
+    start_timestamp: start,
+    end_timestamp: start + 600,
+    duration: 600,
+    trip: km,
+    electricity: km * 0.15
+} as Trip);
+
+const report = (overrides: Partial<ImportReport>): ImportReport => ({
+    kind: 'trips',
+    fileName: 'viajes.csv',
+    source: 'byd-trip-csv',
+    createdAt: 0,
+    totalRows: 0,
+    accepted: 0,
+    duplicates: 0,
+    merged: 0,
+    rejected: [],
+    ...overrides
+});
+
+describe('importReport', () => {
+    describe('mergeImportedTrips', () => {
+        const existing = [trip('20250101', 1000, 10), trip('20250102', 2000, 20)];
+
+        it('should count new, duplicate and updated trips when merging', () => {
+            const incoming = [
+                trip('20250101', 1000, 10), // same values
+                trip('20250102', 2000, 25), // same key, different distance
+                trip('20250103', 3000, 30),
+                trip('20250103', 3000, 30) // repeated inside the file
+            ];
+
+            const result = mergeImportedTrips(existing, incoming, true);
+            expect(result).toMatchObject({ accepted: 1, duplicates: 2, merged: 1 });
+            expect(result.trips.map(t => t.trip)).toEqual([10, 25, 30]);
+        });
+
+        it('should ignore existing trips when replacing', () => {
+            const result = mergeImportedTrips(existing, [trip('20250103', 3000, 30)], false);
+            expect(result).toMatchObject({ accepted: 1, duplicates: 0, merged: 0 });
+            expect(result.trips).toHaveLength(1);
+        });
+
+        it('should keep the tags of a trip updated by a re-import', () => {
+            const tagged = [{ ...trip('20250101', 1000, 10), tags: ['commute'] }];
+            const result = mergeImportedTrips(tagged, [trip('20250101', 1000, 12)], true);
+            expect(result.merged).toBe(1);
+            expect(result.trips[0]).toMatchObject({ trip: 12, tags: ['commute'] });
+        });
+
+        it('should keep the fields edited by hand over the imported values', () => {
+            const edited = [{ ...trip('20250101', 1000, 10), trip: 11, editedFields: ['trip'] }];
+
+            expect(mergeImportedTrips(edited, [trip('20250101', 1000, 10)], true)).toMatchObject({ duplicates: 1, merged: 0 });
+
+            const result = mergeImportedTrips(edited, [{ ...trip('20250101', 1000, 10), duration: 900 }], true);
+            expect(result.merged).toBe(1);
+            expect(result.trips[0]).toMatchObject({ trip: 11, duration: 900, editedFields: ['trip'] });
+        });
+
+        it('should not bring back deleted trips', () => {
+            const result = mergeImportedTrips(existing, [trip('20250103', 3000, 30)], true, new Set(['20250103-3000']));
+            expect(result).toMatchObject({ accepted: 0, duplicates: 1 });
+            expect(result.trips).toHaveLength(2);
+        });
+
+        it('should keep manual and edited trips when replacing', () => {
+            const stored = [
+                { ...trip('20250101', 1000, 10), source: 'manual' as const },
+                { ...trip('20250102', 2000, 21), editedFields: ['trip'] },
+                trip('20250104', 4000, 40)
+            ];
+            const result = mergeImportedTrips(stored, [trip('20250102', 2000, 20), trip('20250103', 3000, 30)], false);
+
+            expect(result).toMatchObject({ accepted: 1, merged: 1 });
+            expect(result.trips.map(t => t.trip)).toEqual([10, 21, 30]);
+        });
+    });
+
+    describe('classifyImportedCharges', () => {
+        it('should flag charges already stored or repeated in the file', () => {
+            const stored = [{ timestamp: new Date('2025-01-20T14:30').getTime() } as Charge];
+            const result = classifyImportedCharges(stored, [
+                { date: '2025-01-20', time: '14:30' },
+                { date: '2025-01-21', time: '18:00' },
+                { date: '2025-01-21', time: '18:00' }
+            ]);
+            expect(result).toEqual({ accepted: 1, duplicates: 2 });
+        });
+    });
+
+    describe('rejected rows', () => {
+        it('should keep field paths from Zod issues', () => {
+            const validation = ChargeCsvRowSchema.safeParse({
+                date: '2025-01-20', time: '14:30', odometer: 1, kwhCharged: -1,
+                totalCost: 1, chargerType: 'Home', pricePerKwh: 0.2
+            });
+            expect(validation.success).toBe(false);
+            if (validation.success) return;
+
+            const error = rowErrorFromZod(7, validation.error, 'raw line');
+            expect(error.line).toBe(7);
+            expect(error.raw).toBe('raw line');
+            expect(error.issues).toEqual([{ path: 'kwhCharged', message: 'kWh cannot be negative' }]);
+            expect(error.message).toBe('kwhCharged: kWh cannot be negative');
+        });
+
+        it('should export the original header and lines for re-import', () => {
+            const csv = rejectedRowsToCsv(report({
+                header: 'Inicio,Duracion,Distancia,Consumo',
+                rejected: [
+                    { line: 3, message: 'Fecha inválida', raw: 'x,1,2,3' },
+                    { line: 5, message: 'Energía inválida', raw: '2025-01-01 10:00,1,2,' }
+                ]
+            }));
+            expect(csv).toBe('Inicio,Duracion,Distancia,Consumo\nx,1,2,3\n2025-01-01 10:00,1,2,');
+        });
+
+        it('should fall back to line and error when raw text is missing', () => {
+            const csv = rejectedRowsToCsv(report({
+                source: 'byd-sqlite',
+                rejected: [{ line: 12, message: 'trip: Too small, "quoted"' }]
+            }));
+            expect(csv).toBe('line,error\n12,"trip: Too small, ""quoted"""');
+        });
+    });
+});
@@ -0,0 +1,75 @@
+// BYD Stats - Journeys Tests
+import { describe, it, expect } from 'vitest';
+import { groupJourneys, storedTripKeys, toTripUnits } from '../journeys';
+import { Trip } from '../../types';
+
+const BASE = Date.UTC(2025, 4, 1, 8) / 1000;
+
+// A segment starting `offset` minutes after BASE and driving `minutes`
+const segment = (offset: number, minutes: number, km: number, extra: Partial<Trip> = {}): Trip => ({
+    date: '20250501',
+    month: '202505',
+    start_timestamp: BASE + offset * 60,
+    end_timestamp: BASE + (offset + minutes) * 60,
+    duration: minutes * 60,
+    trip: km,
+    electricity: km * 0.15,
+    ...extra
+});
+
+describe('groupJourneys', () => {
+    it('joins segments separated by less than the gap and keeps the others apart', () => {
+        const trips = [
+            segment(100, 20, 15),
+            segment(0, 10, 5, { start_soc: 80, end_soc: 78, tags: ['commute'] }),
+            segment(13, 7, 3, { start_soc: 78, end_soc: 76, tags: [] })
+        ];
+
+        const journeys = groupJourneys(trips, 5);
+
+        expect(journeys).toHaveLength(2);
+        expect(journeys[0]).toMatchObject({
+            start_timestamp: BASE,
+            end_timestamp: BASE + 20 * 60,
+            duration: 17 * 60,
+            trip: 8,
+            start_soc: 80,
+            end_soc: 76,
+            tags: ['commute']
+        });
+        expect(journeys[0].electricity).toBeCloseTo(1.2);
+        expect(journeys[0].segments).toHaveLength(2);
+        expect(journeys[1]).toBe(trips[0]);
+    });
+
+    it('adds up costs and fuel only when the segments have them', () => {
+        const [journey] = groupJourneys([
+            segment(0, 10, 5, { calculatedCost: 0.2, fuel: 0.5 }),
+            segment(12, 10, 5, { calculatedCost: 0.3 })
+        ], 5);
+
+        expect(journey.calculatedCost).toBeCloseTo(0.5);
+        expect(journey.fuel).toBe(0.5);
+        expect(journey.regeneration).toBeUndefined();
+        expect(journey.tags).toBeUndefined();
+    });
+});
+
+describe('toTripUnits', () => {
+    it('groups only when journeys are the chosen unit', () => {
+        const trips = [segment(0, 10, 5), segment(12, 10, 5)];
+
+        expect(toTripUnits(trips, {})).toBe(trips);
+        expect(toTripUnits(trips, { tripUnit: 'journey' })).toHaveLength(1);
+        expect(toTripUnits(trips, { tripUnit: 'journey', journeyGapMinutes: 1 })).toHaveLength(2);
+    });
+});
+
+describe('storedTripKeys', () => {
+    it('lists the stored trips behind a journey', () => {
+        const [journey] = groupJourneys([segment(0, 10, 5), segment(12, 10, 5)]);
+
+        expect(storedTripKeys(journey)).toEqual([`20250501-${BASE}`, `20250501-${BASE + 720}`]);
+        expect(storedTripKeys(segment(0, 10, 5))).toEqual([`20250501-${BASE}`]);
+    });
+});
@@ -0,0 +1,76 @@
+// BYD Stats - Mileage Report Tests
+import { describe, it, expect } from 'vitest';
+import { MileageReportLabels, buildMileageReport, buildMileageReportFile, mileageReportToCsv, mileageReportToHtml } from '../mileageReport';
+import { Trip, TripTag } from '../../types';
+
+const makeTrip = (day: number, hour: number, km: number, extra: Partial<Trip> = {}): Trip => {
+    const start = new Date(2025, 2, day, hour, 15).getTime() / 1000;
+    return {
+        date: `202503${String(day).padStart(2, '0')}`,
+        start_timestamp: start,
+        end_timestamp: start + 1200,
+        duration: 1200,
+        trip: km,
+        electricity: km * 0.16,
+        electricCost: km * 0.03,
+        fuelCost: 0,
+        ...extra
+    };
+};
+
+const TAGS: TripTag[] = [
+    { id: 'business', name: 'Cliente <ACME>', color: '#f59e0b' },
+    { id: 'leisure', name: 'Ocio', color: '#10b981' }
+];
+
+const TRIPS = [
+    makeTrip(12, 9, 40, { tags: ['business'] }),
+    makeTrip(3, 8, 25.04, { tags: ['business'] }),
+    makeTrip(15, 18, 12, { tags: ['leisure'] }),
+    makeTrip(20, 10, 0, { tags: ['business'] }),
+    { ...makeTrip(1, 9, 30, { tags: ['business'] }), date: '20250228' }
+];
+
+const LABELS = {
+    title: 'Informe', period: 'Periodo', vehicle: 'Vehículo', rate: 'Tarifa', date: 'Fecha', time: 'Hora',
+    distance: 'km', energy: 'kWh', fuel: 'L', cost: 'Coste', purpose: 'Motivo', amount: 'Importe',
+    total: 'Total', signature: 'Firma', generated: 'Generado'
+} as MileageReportLabels;
+
+const march = { from: '20250301', to: '20250331' };
+
+describe('mileageReport', () => {
+    it('should list the driven trips of the range in order with the reimbursement', () => {
+        const report = buildMileageReport(TRIPS, { range: march, ratePerKm: 0.26, tags: TAGS });
+
+        expect(report.rows.map(r => r.date)).toEqual(['20250303', '20250312', '20250315']);
+        expect(report.rows[0]).toMatchObject({ km: 25, purpose: 'Cliente <ACME>', amount: 6.5, cost: 0.75 });
+        expect(report.totals).toMatchObject({ trips: 3, km: 77, amount: 20.02 });
+    });
+
+    it('should keep only the trips of a purpose', () => {
+        const report = buildMileageReport(TRIPS, { range: march, ratePerKm: 0.19, tagId: 'business', tags: TAGS });
+
+        expect(report.totals).toMatchObject({ trips: 2, km: 65, amount: 12.35 });
+    });
+
+    it('should write a CSV with a totals line', () => {
+        const report = buildMileageReport(TRIPS, { range: march, ratePerKm: 0.26, tagId: 'leisure', tags: TAGS });
+        const lines = mileageReportToCsv(report).split('\n');
+
+        expect(lines).toHaveLength(3);
+        expect(lines[1]).toBe('"2025-03-15","18:15","12","1.92","0","0.36","Ocio","3.12"');
+        expect(lines[2]).toBe('"Total","","12","1.92","0","0.36","0.26 €/km","3.12"');
+    });
+
+    it('should escape the printable HTML and name the files after the period', () => {
+        const report = buildMileageReport(TRIPS, { range: march, ratePerKm: 0.26, tags: TAGS });
+        const html = mileageReportToHtml(report, LABELS, { name: 'Seal', licensePlate: '1234 ABC' });
+
+        expect(html).toContain('Cliente &lt;ACME&gt;');
+        expect(html).toContain('Seal · 1234 ABC');
+        expect(html).toContain('<td>Total</td>');
+        expect(buildMileageReportFile(report, 'csv', LABELS).name).toBe('Kilometraje_20250301-20250331.csv');
+        expect(buildMileageReportFile(report, 'html', LABELS).mime).toContain('text/html');
+    });
+});
@@ -0,0 +1,91 @@
+// BYD Stats - Recurring Routes Tests
+import { describe, it, expect } from 'vitest';
+import { detectRoutes, matchesRoute, nameRoute, seasonOf, tripSignature } from '../recurringRoutes';
+import { getProcessingSettings, processData } from '../dataProcessing';
+import { Settings, Trip } from '../../types';
+
+// Local time, so signatures do not depend on the test machine's timezone
+const trip = (year: number, month: number, day: number, hour: number, minute: number, km: number, minutes: number, kwh: number): Trip => {
+    const start = new Date(year, month - 1, day, hour, minute).getTime() / 1000;
+    const date = `${year}${String(month).padStart(2, '0')}${String(day).padStart(2, '0')}`;
+    return {
+        date,
+        month: date.slice(0, 6),
+        start_timestamp: start,
+        end_timestamp: start + minutes * 60,
+        duration: minutes * 60,
+        trip: km,
+        electricity: kwh,
+        calculatedCost: kwh * 0.1
+    };
+};
+
+// Monday commutes (2025-01-06 and 2025-07-07 are Mondays)
+const winter = [6, 13, 20, 27].map(day => trip(2025, 1, day, 7, 45 + day % 2 * 5, 18 + day % 3 * 0.5, 25, 3.6));
+const summer = [7, 14, 21, 28].map(day => trip(2025, 7, day, 7, 50, 18.2, 24, 2.7));
+
+describe('matchesRoute', () => {
+    it('compares weekday, start time, distance and duration', () => {
+        const route = tripSignature(winter[0]);
+
+        expect(matchesRoute(tripSignature(summer[0]), route)).toBe(true);
+        expect(matchesRoute(tripSignature(trip(2025, 1, 7, 7, 45, 18, 25, 3)), route)).toBe(false); // Tuesday
+        expect(matchesRoute(tripSignature(trip(2025, 1, 6, 9, 0, 18, 25, 3)), route)).toBe(false);
+        expect(matchesRoute(tripSignature(trip(2025, 1, 6, 7, 45, 25, 25, 3)), route)).toBe(false);
+        expect(matchesRoute(tripSignature(trip(2025, 1, 6, 7, 45, 18, 45, 3)), route)).toBe(false);
+    });
+});
+
+describe('detectRoutes', () => {
+    it('finds repeated trips and tracks them by season and month', () => {
+        const others = [trip(2025, 1, 6, 18, 0, 40, 50, 8), trip(2025, 3, 1, 11, 0, 5, 10, 1)];
+        const [route, ...rest] = detectRoutes([...summer, ...others, ...winter]);
+
+        expect(rest).toEqual([]);
+        expect(route).toMatchObject({ signature: { weekday: 1, minutes: 24.5 }, trips: 8 });
+        expect(route.signature.km).toBeCloseTo(18.3, 1);
+        expect(route.seasons.map(s => s.period)).toEqual(['winter', 'summer']);
+        expect(route.seasons[0].efficiency).toBeGreaterThan(route.seasons[1].efficiency);
+        expect(route.monthly.map(m => [m.period, m.trips])).toEqual([['202501', 4], ['202507', 4]]);
+        expect(route.cost).toBeCloseTo(2.52);
+    });
+
+    it('uses the seasons of the southern hemisphere when asked', () => {
+        expect(seasonOf(winter[0])).toBe('winter');
+        expect(seasonOf(winter[0], 'south')).toBe('summer');
+
+        const [route] = detectRoutes([...summer, ...winter], [], { hemisphere: 'south' });
+        expect(route.seasons.map(s => s.period)).toEqual(['winter', 'summer']);
+        expect(route.seasons[0].efficiency).toBeLessThan(route.seasons[1].efficiency);
+    });
+
+    it('passes the hemisphere through the settings the worker gets', () => {
+        const stored = { electricPrice: '0.1', hemisphere: 'south' } as Settings;
+        const [route] = processData([...summer, ...winter], getProcessingSettings(stored))!.routes;
+
+        expect(route.seasons.map(s => s.period)).toEqual(['winter', 'summer']);
+        expect(route.seasons[0].trips).toBe(4);
+        expect(route.seasons[0].efficiency).toBeCloseTo(2.7 / 18.2 * 100);
+    });
+
+    it('detects routes on the whole history and only summarizes the filtered trips', () => {
+        const history = [...winter, ...summer];
+        const { routes } = processData(summer.slice(0, 2), { electricPrice: 0.1 } as Settings, [], 'es', history)!;
+
+        expect(routes).toHaveLength(1);
+        expect(routes[0]).toMatchObject({ trips: 2, monthly: [{ period: '202507', trips: 2 }] });
+        expect(routes[0].id).toBe(detectRoutes(history)[0].id);
+        expect(processData(summer.slice(0, 2), { electricPrice: 0.1 } as Settings)!.routes).toEqual([]);
+    });
+
+    it('keeps named routes with their name and id even below the minimum', () => {
+        const [detected] = detectRoutes(winter);
+        const named = nameRoute([], detected, 'Commute');
+
+        const routes = detectRoutes(winter.slice(0, 2), named);
+        expect(routes).toHaveLength(1);
+        expect(routes[0]).toMatchObject({ id: detected.id, name: 'Commute', trips: 2 });
+
+        expect(nameRoute(named, routes[0], 'Work')).toEqual([{ ...named[0], name: 'Work' }]);
+    });
+});
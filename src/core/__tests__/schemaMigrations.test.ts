@@ -0,0 +1,93 @@
+// BYD Stats - Schema Migrations Tests
+import { describe, it, expect, vi } from 'vitest';
+import { Charge } from '../../types';
+import {
+    DATA_SCHEMA_VERSION,
+    SCHEMA_MIGRATIONS,
+    SchemaMigration,
+    SchemaVersionError,
+    VersionedData,
+    migrateData,
+    parseSchemaVersion
+} from '../schemaMigrations';
+
+const empty = (): VersionedData => ({ trips: [], charges: [], settings: {} });
+
+const step = (version: number): SchemaMigration => ({
+    version,
+    description: `v${version}`,
+    migrate: (data) => ({ ...data, settings: { ...data.settings, carModel: `${data.settings.carModel || ''}>${version}` } })
+});
+
+describe('schemaMigrations', () => {
+    it('should treat missing or invalid stamps as unversioned', () => {
+        expect(parseSchemaVersion(null)).toBe(1);
+        expect(parseSchemaVersion('abc')).toBe(1);
+        expect(parseSchemaVersion('3')).toBe(3);
+        expect(parseSchemaVersion(2)).toBe(2);
+    });
+
+    it('should run pending steps in order, backing up before each one', async () => {
+        const backup = vi.fn();
+        const result = await migrateData(empty(), 1, {
+            migrations: [step(3), step(2), step(4)],
+            target: 4,
+            backup
+        });
+
+        expect(result.applied).toEqual([2, 3, 4]);
+        expect(result.version).toBe(4);
+        expect(result.data.settings.carModel).toBe('>2>3>4');
+        expect(backup.mock.calls.map(([data, version]) => [data.settings.carModel, version])).toEqual([
+            [undefined, 1], ['>2', 2], ['>2>3', 3]
+        ]);
+    });
+
+    it('should not run a step when its backup fails', async () => {
+        const migrate = vi.fn((data: VersionedData) => data);
+        await expect(migrateData(empty(), 1, {
+            migrations: [{ version: 2, description: '', migrate }],
+            target: 2,
+            backup: () => Promise.reject(new Error('quota'))
+        })).rejects.toThrow('quota');
+        expect(migrate).not.toHaveBeenCalled();
+    });
+
+    it('should refuse data from a newer version', async () => {
+        const error = await migrateData(empty(), DATA_SCHEMA_VERSION + 1).catch(e => e);
+        expect(error).toBeInstanceOf(SchemaVersionError);
+        expect(error.version).toBe(DATA_SCHEMA_VERSION + 1);
+    });
+
+    it('should fail when a step is missing', async () => {
+        await expect(migrateData(empty(), 1, { migrations: [step(3)], target: 3 })).rejects.toThrow('Falta la migración del esquema 1 al 2');
+    });
+
+    it('should keep extra fields of the migrated object', async () => {
+        const result = await migrateData({ ...empty(), schemaVersion: 1 }, 1);
+        expect(result.data.schemaVersion).toBe(1);
+    });
+
+    describe('version 2', () => {
+        const migrate = SCHEMA_MIGRATIONS.find(m => m.version === 2)!.migrate;
+
+        it('should fold the legacy kwh alias into kwhCharged', () => {
+            const untouched = { id: 'b', kwhCharged: 12 } as Charge;
+            const data = migrate({
+                ...empty(),
+                charges: [{ id: 'a', kwh: 20, kwhCharged: 0 } as Charge, untouched]
+            });
+
+            expect(data.charges[0]).toEqual({ id: 'a', kwhCharged: 20 });
+            expect(data.charges[1]).toBe(untouched);
+        });
+
+        it('should reset smartChargingPreferences saved as an object', () => {
+            const data = migrate({ ...empty(), settings: { smartChargingPreferences: {} as any } });
+            expect(data.settings.smartChargingPreferences).toEqual([]);
+
+            const settings = { carModel: 'Seal' };
+            expect(migrate({ ...empty(), settings }).settings).toBe(settings);
+        });
+    });
+});
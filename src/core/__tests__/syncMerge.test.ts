@@ -0,0 +1,157 @@
+// BYD Stats - Sync Merge Tests
+import { describe, it, expect } from 'vitest';
+import { Charge, Settings, Trip } from '../../types';
+import { SyncSnapshot, TOMBSTONE_RETENTION_MS, chargeSyncKey, mergeSyncSnapshots, resolveSyncConflicts, tripSyncKey } from '../syncMerge';
+
+const charge = (id: string, day: number, extra: Partial<Charge> = {}): Charge => {
+    const date = `2025-01-${String(day).padStart(2, '0')}`;
+    return {
+        id, date, time: '10:00', timestamp: new Date(`${date}T10:00`).getTime(),
+        kwhCharged: 20, totalCost: 3, pricePerKwh: 0.15, chargerTypeId: 'slow', ...extra
+    };
+};
+
+const trip = (day: number, extra: Partial<Trip> = {}): Trip => ({
+    date: `202501${String(day).padStart(2, '0')}`, start_timestamp: 1735689600 + day * 86400,
+    end_timestamp: 1735689600 + day * 86400 + 600, duration: 600, trip: 10, electricity: 1.5, ...extra
+});
+
+const snapshot = (data: Partial<SyncSnapshot>): SyncSnapshot => ({
+    trips: [], charges: [], settings: { batterySize: 60.48, soh: 100 } as Settings, ...data
+});
+
+describe('syncMerge', () => {
+    it('should not bring back a charge deleted on the other side', () => {
+        const a = charge('a', 1), b = charge('b', 2);
+        const base = snapshot({ charges: [a, b] });
+
+        const result = mergeSyncSnapshots({
+            base,
+            local: snapshot({ charges: [a, b] }),
+            remote: snapshot({ charges: [b] })
+        });
+
+        expect(result.conflicts).toEqual([]);
+        expect(result.merged.charges.map(c => c.id)).toEqual(['b']);
+    });
+
+    it('should keep edits to different fields from both sides', () => {
+        const a = charge('a', 1);
+        const result = mergeSyncSnapshots({
+            base: snapshot({ charges: [a] }),
+            local: snapshot({ charges: [{ ...a, kwhCharged: 25, updatedAt: 100 }] }),
+            remote: snapshot({ charges: [{ ...a, totalCost: 4.2, updatedAt: 200 }] })
+        });
+
+        expect(result.conflicts).toEqual([]);
+        expect(result.merged.charges[0]).toMatchObject({ kwhCharged: 25, totalCost: 4.2, updatedAt: 200 });
+    });
+
+    it('should report a field changed differently on both sides and resolve it per record', () => {
+        const a = charge('a', 1), b = charge('b', 2);
+        const result = mergeSyncSnapshots({
+            base: snapshot({ charges: [a, b] }),
+            local: snapshot({ charges: [{ ...a, totalCost: 5, odometer: 100 }, { ...b, totalCost: 1 }] }),
+            remote: snapshot({ charges: [{ ...a, totalCost: 6 }, { ...b, totalCost: 2 }] })
+        });
+
+        expect(result.conflicts.map(c => [c.id, c.fields])).toEqual([
+            [`charges:${chargeSyncKey(a)}`, ['totalCost']],
+            [`charges:${chargeSyncKey(b)}`, ['totalCost']]
+        ]);
+        expect(result.merged.charges).toEqual([]);
+
+        const final = resolveSyncConflicts(result, { [`charges:${chargeSyncKey(a)}`]: 'remote' });
+        const byId = Object.fromEntries(final.charges.map(c => [c.id, c]));
+        // The non-conflicting local odometer edit survives the remote choice
+        expect(byId.a).toMatchObject({ totalCost: 6, odometer: 100 });
+        // Unpicked conflicts keep the local version
+        expect(byId.b.totalCost).toBe(1);
+    });
+
+    it('should order an edit and a deletion by their timestamps', () => {
+        const a = charge('a', 1), b = charge('b', 2);
+        const tombstones = [
+            { kind: 'charges' as const, key: chargeSyncKey(a), deletedAt: 1000 },
+            { kind: 'charges' as const, key: chargeSyncKey(b), deletedAt: 1000 }
+        ];
+
+        const result = mergeSyncSnapshots({
+            base: snapshot({ charges: [a, b] }),
+            local: snapshot({ charges: [{ ...a, totalCost: 9, updatedAt: 2000 }, { ...b, totalCost: 9, updatedAt: 500 }] }),
+            remote: snapshot({ charges: [], tombstones }),
+            now: 3000
+        });
+
+        expect(result.conflicts).toEqual([]);
+        expect(result.merged.charges.map(c => c.id)).toEqual(['a']);
+        expect(result.merged.tombstones).toEqual([tombstones[1]]);
+    });
+
+    it('should ask when an edited record was deleted without a tombstone', () => {
+        const t1 = trip(1);
+        const result = mergeSyncSnapshots({
+            base: snapshot({ trips: [t1] }),
+            local: snapshot({ trips: [] }),
+            remote: snapshot({ trips: [{ ...t1, trip: 12 }] })
+        });
+
+        expect(result.conflicts).toHaveLength(1);
+        expect(result.conflicts[0]).toMatchObject({ kind: 'trips', key: tripSyncKey(t1), local: null, fields: [] });
+
+        const final = resolveSyncConflicts(result, {}, 'local', 5000);
+        expect(final.trips).toEqual([]);
+        expect(final.tombstones).toEqual([{ kind: 'trips', key: tripSyncKey(t1), deletedAt: 5000 }]);
+    });
+
+    it('should union both sides on the first sync, respecting tombstones', () => {
+        const a = charge('a', 1), b = charge('b', 2), c = charge('c', 3);
+        const result = mergeSyncSnapshots({
+            base: null,
+            local: snapshot({ charges: [{ ...a, totalCost: 1 }, b], trips: [trip(1)] }),
+            remote: snapshot({
+                charges: [{ ...a, totalCost: 2 }, c],
+                trips: [trip(2)],
+                tombstones: [{ kind: 'charges', key: chargeSyncKey(b), deletedAt: 1000 }]
+            })
+        });
+
+        expect(result.conflicts).toEqual([]);
+        expect(result.merged.charges.map(x => [x.id, x.totalCost])).toEqual([['c', 3], ['a', 1]]);
+        expect(result.merged.trips.map(t => t.date)).toEqual(['20250101', '20250102']);
+    });
+
+    it('should merge settings field by field against the base', () => {
+        const base = snapshot({ settings: { batterySize: 60.48, soh: 100, carModel: 'Seal', electricPrice: 0.15 } as Settings });
+        const result = mergeSyncSnapshots({
+            base,
+            local: snapshot({ settings: { ...base.settings, carModel: 'Seal AWD', electricPrice: 0.2 } }),
+            remote: snapshot({ settings: { ...base.settings, carModel: 'Atto 3', soh: 97 } })
+        });
+
+        expect(result.conflicts.map(c => [c.id, c.fields])).toEqual([['settings:settings', ['carModel']]]);
+        const final = resolveSyncConflicts(result, {});
+        expect(final.settings).toMatchObject({ carModel: 'Seal AWD', electricPrice: 0.2, soh: 97 });
+    });
+
+    it('should not report the id of a charge logged on both devices as a conflict', () => {
+        const result = mergeSyncSnapshots({
+            base: snapshot({}),
+            local: snapshot({ charges: [charge('local-id', 1, { location: 'Home' })] }),
+            remote: snapshot({ charges: [charge('remote-id', 1, { speedKw: 7 })] })
+        });
+
+        expect(result.conflicts).toEqual([]);
+        expect(result.merged.charges).toEqual([charge('local-id', 1, { location: 'Home', speedKw: 7 })]);
+    });
+
+    it('should forget tombstones older than the retention period', () => {
+        const now = 2 * TOMBSTONE_RETENTION_MS;
+        const old = { kind: 'trips' as const, key: tripSyncKey(trip(1)), deletedAt: now - TOMBSTONE_RETENTION_MS - 1 };
+        const recent = { kind: 'trips' as const, key: tripSyncKey(trip(2)), deletedAt: now - 1000 };
+
+        const result = mergeSyncSnapshots({ base: snapshot({}), local: snapshot({ tombstones: [old] }), remote: snapshot({ tombstones: [recent] }), now });
+
+        expect(result.merged.tombstones).toEqual([recent]);
+    });
+});
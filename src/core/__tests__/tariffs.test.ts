@@ -0,0 +1,145 @@
+// BYD Stats - Tariff Engine Tests
+import { describe, it, expect } from 'vitest';
+import {
+    createLegacyTariff, createTariffFromTemplate, deriveChargeCost, getActiveTariff, getCheapestSlots,
+    getTariffDaySlots, getTariffPeriod, getTariffPrice, isHomeCharge, recalculateChargeCosts, spreadChargeCost
+} from '../tariffs';
+import { calculateTripCosts } from '../dataProcessing';
+import { ChargingLogic } from '../chargingLogic';
+import { Charge, Settings, Tariff, Trip } from '../../types';
+
+const td: Tariff = {
+    ...createTariffFromTemplate('es-2.0td', 'td'),
+    priceVersions: [
+        { validFrom: '2024-01-01', prices: { P1: 0.30, P2: 0.15, P3: 0.05 } },
+        { validFrom: '2025-01-01', prices: { P1: 0.20, P2: 0.12, P3: 0.08 } }
+    ]
+};
+
+// Local times, like the charges entered in the app
+const at = (date: string, time: string) => new Date(`${date}T${time}:00`);
+
+const homeCharge = (date: string, time: string, kwh: number): Charge => ({
+    id: `${date}${time}`, date, time, kwhCharged: kwh, totalCost: 99, pricePerKwh: 0, chargerTypeId: 'domestic', type: 'electric'
+});
+
+const chargerTypes = [
+    { id: 'domestic', name: 'Doméstico', speedKw: 7.4, efficiency: 0.85 },
+    { id: 'fast', name: 'Rápida', speedKw: 50, efficiency: 0.92 }
+];
+
+describe('tariffs', () => {
+    it('should resolve the 2.0TD periods on weekdays, weekends and national holidays', () => {
+        // Wednesday 2025-03-12
+        expect(getTariffPeriod(td, at('2025-03-12', '03:00'))).toBe('P3');
+        expect(getTariffPeriod(td, at('2025-03-12', '09:30'))).toBe('P2');
+        expect(getTariffPeriod(td, at('2025-03-12', '12:00'))).toBe('P1');
+        expect(getTariffPeriod(td, at('2025-03-12', '23:00'))).toBe('P2');
+        // Saturday, then Friday 2025-08-15 (national holiday) and a custom holiday
+        expect(getTariffPeriod(td, at('2025-03-15', '12:00'))).toBe('P3');
+        expect(getTariffPeriod(td, at('2025-08-15', '12:00'))).toBe('P3');
+        expect(getTariffPeriod({ ...td, holidays: ['2025-03-12'] }, at('2025-03-12', '12:00'))).toBe('P3');
+    });
+
+    it('should price a moment with the version in force that day', () => {
+        expect(getTariffPrice(td, at('2024-06-03', '12:00'))).toBe(0.30);
+        expect(getTariffPrice(td, at('2025-06-03', '12:00'))).toBe(0.20);
+        expect(getTariffPrice(td, at('2025-06-03', '02:00'))).toBe(0.08);
+        // Before the first version, its prices apply
+        expect(getTariffPrice(td, at('2023-06-05', '02:00'))).toBe(0.05);
+    });
+
+    it('should split a day into period slots and find the cheapest ones', () => {
+        expect(getTariffDaySlots(td, at('2025-03-12', '00:00')).map(s => [s.startMins, s.endMins, s.periodId])).toEqual([
+            [0, 480, 'P3'], [480, 600, 'P2'], [600, 840, 'P1'], [840, 1080, 'P2'], [1080, 1320, 'P1'], [1320, 1440, 'P2']
+        ]);
+        expect(getCheapestSlots(td, at('2025-03-15', '00:00'))).toEqual([{ startMins: 0, endMins: 1440, periodId: 'P3', price: 0.08 }]);
+    });
+
+    it('should turn the single off-peak window into a tariff crossing midnight', () => {
+        const settings = { offPeakEnabled: true, offPeakStart: '22:00', offPeakEnd: '06:00', offPeakPrice: 0.07, electricPrice: 0.18 } as Settings;
+        const legacy = createLegacyTariff(settings);
+
+        expect(getTariffPrice(legacy, at('2025-03-12', '23:30'))).toBe(0.07);
+        expect(getTariffPrice(legacy, at('2025-03-12', '05:00'))).toBe(0.07);
+        expect(getTariffPrice(legacy, at('2025-03-12', '12:00'))).toBe(0.18);
+
+        expect(getActiveTariff(settings)?.id).toBe('legacy-off-peak');
+        expect(getActiveTariff({ ...settings, offPeakEnabled: false })).toBeNull();
+        expect(getActiveTariff({ ...settings, tariffs: [td], activeTariffId: 'td' })).toBe(td);
+    });
+
+    it('should only treat AC charges up to 11 kW as home charges', () => {
+        expect(isHomeCharge(homeCharge('2025-03-12', '03:00', 10), chargerTypes)).toBe(true);
+        expect(isHomeCharge({ ...homeCharge('2025-03-12', '03:00', 10), chargerTypeId: 'fast' }, chargerTypes)).toBe(false);
+    });
+
+    it('should spread a session across the periods and days it runs through', () => {
+        // 6 kW from 07:00: 1 h of P3, 2 h of P2 and 20 min of P1
+        const morning = spreadChargeCost(td, at('2025-03-12', '07:00'), 20, 6);
+        expect(morning.totalCost).toBeCloseTo(0.48 + 1.44 + 0.40);
+        expect(morning.periods.P2.kwh).toBeCloseTo(12);
+
+        // From 23:00 into Thursday's P3
+        expect(spreadChargeCost(td, at('2025-03-12', '23:00'), 12, 6).totalCost).toBeCloseTo(0.72 + 0.48);
+        // Without a power, everything at the start price
+        expect(spreadChargeCost(td, at('2025-03-12', '12:00'), 10, 0).totalCost).toBeCloseTo(2);
+    });
+
+    it('should derive charge costs and only recalculate those not entered by hand', () => {
+        const settings = { batterySize: 60, soh: 100, tariffs: [td], activeTariffId: 'td', chargerTypes } as Settings;
+        expect(deriveChargeCost(homeCharge('2025-06-03', '02:00', 10), settings)).toEqual({ totalCost: 0.8, pricePerKwh: 0.08 });
+        expect(deriveChargeCost({ ...homeCharge('2025-06-03', '02:00', 10), chargerTypeId: 'fast' }, settings)).toBeNull();
+
+        const charges: Charge[] = [
+            { ...homeCharge('2025-06-03', '02:00', 10), id: 'entered', costSource: 'entered' },
+            { ...homeCharge('2025-06-03', '02:00', 10), id: 'unmarked' },
+            { ...homeCharge('2025-06-03', '12:00', 10), id: 'tariff', costSource: 'tariff' }
+        ];
+
+        const automatic = recalculateChargeCosts(charges, settings);
+        expect(automatic.updated).toBe(1);
+        expect(automatic.charges.map(c => c.totalCost)).toEqual([99, 99, 2]);
+
+        const bulk = recalculateChargeCosts(automatic.charges, settings, true);
+        expect(bulk.updated).toBe(1);
+        expect(bulk.charges.map(c => [c.totalCost, c.costSource])).toEqual([[99, 'entered'], [0.8, 'tariff'], [2, 'tariff']]);
+        expect(recalculateChargeCosts(bulk.charges, settings, true).updated).toBe(0);
+    });
+
+    it('should cost home charges at the tariff in force when pricing trips', () => {
+        const settings = { batterySize: 60, soh: 100, electricStrategy: 'dynamic', electricPrice: 0.15, tariffs: [td], activeTariffId: 'td', chargerTypes } as Settings;
+        const charges: Charge[] = [
+            { ...homeCharge('2024-06-03', '12:00', 10), costSource: 'tariff' },
+            { ...homeCharge('2025-06-03', '02:00', 10), costSource: 'tariff' }
+        ];
+        const trips = [
+            { date: '20240604', start_timestamp: at('2024-06-04', '08:00').getTime() / 1000, electricity: 10 },
+            { date: '20250604', start_timestamp: at('2025-06-04', '08:00').getTime() / 1000, electricity: 10 }
+        ] as Trip[];
+
+        expect(calculateTripCosts(trips, settings, charges).map(t => t.electricCost)).toEqual([3, 0.8]);
+
+        // Charges from before cost sources keep their stored cost, as the charge list shows it
+        const unmarked = charges.map(({ costSource: _costSource, ...charge }) => charge);
+        expect(calculateTripCosts(trips, settings, unmarked).map(t => t.electricCost)).toEqual([99, 99]);
+    });
+
+    it('should keep entered charge costs when only the legacy off-peak window is on', () => {
+        const settings = { batterySize: 60, soh: 100, electricStrategy: 'dynamic', electricPrice: 0.15, offPeakEnabled: true, offPeakPrice: 0.05, chargerTypes } as Settings;
+        const trips = [{ date: '20250604', start_timestamp: at('2025-06-04', '08:00').getTime() / 1000, electricity: 10 }] as Trip[];
+
+        // 99 € for 10 kWh as entered, not 10 kWh at the off-peak price
+        expect(calculateTripCosts(trips, settings, [homeCharge('2025-06-03', '02:00', 10)])[0].electricCost).toBeCloseTo(99);
+    });
+
+    it('should compare charges against the cheapest period for savings', () => {
+        const settings = { batterySize: 60, soh: 100, tariffs: [td], activeTariffId: 'td', chargerTypes, homeChargerRating: 16 } as Settings;
+        // A peak-hour home charge of 10 kWh: 2.00 instead of 0.80
+        const analysis = ChargingLogic.calculateCostSavings([homeCharge('2025-06-03', '12:00', 10)], settings, 5);
+
+        expect(analysis.potentialMonthlySavings).toBeCloseTo(1.2);
+        expect(analysis.offPeakWindowHours).toBe(8);
+        expect(analysis.offPeakWindow).toBe('00:00-08:00');
+    });
+});
@@ -0,0 +1,76 @@
+// BYD Stats - Trip Edits Tests
+import { describe, it, expect } from 'vitest';
+import { addManualTrip, deleteTrips, editTrip } from '../tripEdits';
+import { Trip } from '../../types';
+
+const BASE = Date.UTC(2025, 4, 1, 8) / 1000;
+
+const trip = (date: string, start: number, km: number): Trip => ({
+    date,
+    month: date.slice(0, 6),
+    start_timestamp: start,
+    end_timestamp: start + 1200,
+    duration: 1200,
+    trip: km,
+    electricity: km * 0.15
+});
+
+const stored = [trip('20250501', BASE, 10), trip('20250502', BASE + 86400, 20)];
+
+describe('addManualTrip', () => {
+    it('adds a validated manual trip in date order', () => {
+        const result = addManualTrip(stored, { ...trip('20250501', BASE + 3600, 5), month: undefined }, 42);
+
+        expect(result.success).toBe(true);
+        if (!result.success) return;
+        expect(result.trip).toMatchObject({ source: 'manual', month: '202505', updatedAt: 42 });
+        expect(result.trips.map(t => t.trip)).toEqual([10, 5, 20]);
+    });
+
+    it('rejects invalid values and trips starting at the same time as another', () => {
+        const invalid = addManualTrip(stored, { ...trip('20250503', BASE, 5), end_timestamp: BASE - 60, end_soc: 120 });
+        expect(invalid.success).toBe(false);
+        if (!invalid.success) expect(invalid.issues.map(issue => issue.path)).toEqual(['end_soc', 'end_timestamp']);
+
+        const duplicate = addManualTrip(stored, trip('20250501', BASE, 5));
+        expect(duplicate).toMatchObject({ success: false, issues: [{ path: 'start_timestamp' }] });
+    });
+});
+
+describe('editTrip', () => {
+    it('records the changed fields of a trip read from the car', () => {
+        const result = editTrip(stored, `20250501-${BASE}`, { trip: 12, electricity: 1.8 }, 7);
+
+        expect(result.success).toBe(true);
+        if (!result.success) return;
+        expect(result.trip).toMatchObject({ trip: 12, electricity: 1.8, editedFields: ['trip', 'electricity'], updatedAt: 7 });
+
+        const again = editTrip(result.trips, `20250501-${BASE}`, { trip: 12, duration: 1500 });
+        if (again.success) expect(again.trip.editedFields).toEqual(['trip', 'electricity', 'duration']);
+    });
+
+    it('leaves unchanged trips untouched and moves trips to their new date', () => {
+        expect(editTrip(stored, `20250501-${BASE}`, { trip: 10 })).toMatchObject({ success: true, trips: stored });
+
+        const moved = editTrip(stored, `20250501-${BASE}`, { date: '20250603', start_timestamp: BASE + 40 * 86400, end_timestamp: BASE + 40 * 86400 + 1200 });
+        expect(moved.success).toBe(true);
+        if (moved.success) {
+            expect(moved.trip.month).toBe('202506');
+            expect(moved.trips.map(t => t.date)).toEqual(['20250502', '20250603']);
+        }
+    });
+
+    it('does not record edits on manual trips and reports unknown keys', () => {
+        const manual = [{ ...trip('20250501', BASE, 10), source: 'manual' as const }];
+        const result = editTrip(manual, `20250501-${BASE}`, { trip: 11 });
+        if (result.success) expect(result.trip.editedFields).toBeUndefined();
+
+        expect(editTrip(stored, 'missing', { trip: 1 }).success).toBe(false);
+    });
+});
+
+describe('deleteTrips', () => {
+    it('removes the trips with the given keys', () => {
+        expect(deleteTrips(stored, [`20250502-${BASE + 86400}`])).toEqual([stored[0]]);
+    });
+});
@@ -0,0 +1,145 @@
+// BYD Stats - Trip Import Adapters Tests
+import { describe, it, expect, beforeAll, afterEach } from 'vitest';
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+// @ts-expect-error sql.js ships without type declarations
+import initSqlJs from 'sql.js';
+import {
+    bydSqliteAdapter,
+    bydTripCsvAdapter,
+    detectTripImporter,
+    importTrips,
+    registerTripImporter,
+    unregisterTripImporter,
+    isSupportedImportFile,
+    TripImportSource,
+    TripImportAdapter
+} from '../tripImporters';
+
+const ROOT = resolve(__dirname, '../../..');
+
+const fixture = (name: string): TripImportSource => ({
+    name,
+    bytes: new Uint8Array(readFileSync(resolve(ROOT, name)))
+});
+
+const textSource = (name: string, text: string): TripImportSource => ({
+    name,
+    bytes: new TextEncoder().encode(text)
+});
+
+describe('tripImporters', () => {
+    let SQL: any;
+
+    beforeAll(async () => {
+        SQL = await initSqlJs({
+            locateFile: (file: string) => resolve(ROOT, 'node_modules/sql.js/dist', file)
+        });
+    });
+
+    describe('bydTripCsvAdapter', () => {
+        it('should sniff and parse REGISTRO_VIAJES.csv', () => {
+            const source = fixture('REGISTRO_VIAJES.csv');
+            expect(bydTripCsvAdapter.sniff(source)).toBe(true);
+
+            const result = bydTripCsvAdapter.parse(source, {}) as any;
+            expect(result.totalRows).toBe(1);
+            expect(result.errors).toEqual([]);
+            expect(result.trips[0]).toMatchObject({
+                date: '20260101',
+                month: '202601',
+                trip: 80,
+                electricity: 15.26,
+                duration: 45 * 60
+            });
+            expect(result.trips[0].end_timestamp - result.trips[0].start_timestamp).toBe(45 * 60);
+        });
+
+        it('should report rejected rows with their line number', () => {
+            const source = textSource('trips.csv', [
+                'Inicio,Duracion,Distancia (km),Energia consumida (kWh)',
+                '2026-01-02 08:00,30,20,4',
+                'ayer,30,20,4',
+                '',
+                '2026-01-01 08:00,10'
+            ].join('\n'));
+
+            const result = bydTripCsvAdapter.parse(source, {}) as any;
+            expect(result.totalRows).toBe(3);
+            expect(result.trips).toHaveLength(1);
+            expect(result.errors.map((e: any) => e.line)).toEqual([3, 5]);
+            expect(result.errors[0].raw).toBe('ayer,30,20,4');
+        });
+
+        it('should accept semicolon separated files without header', () => {
+            const source = textSource('trips.csv', '2026-01-02 08:00;30;20,5;4\n2026-01-01 09:00;15;10;2');
+            expect(bydTripCsvAdapter.sniff(source)).toBe(true);
+
+            const result = bydTripCsvAdapter.parse(source, {}) as any;
+            expect(result.trips.map((t: any) => t.date)).toEqual(['20260101', '20260102']);
+        });
+
+        it('should not claim the charges CSV', () => {
+            expect(bydTripCsvAdapter.sniff(fixture('REGISTRO_CARGAS.csv'))).toBe(false);
+        });
+    });
+
+    describe('bydSqliteAdapter', () => {
+        it('should sniff the SQLite header regardless of extension', () => {
+            const source = { ...fixture('EC_database_Hybrid.db'), name: 'shared.jpg' };
+            expect(bydSqliteAdapter.sniff(source)).toBe(true);
+            expect(bydSqliteAdapter.sniff(fixture('REGISTRO_VIAJES.csv'))).toBe(false);
+        });
+
+        it('should parse trips with sql.js from the context', async () => {
+            const result = await bydSqliteAdapter.parse(fixture('EC_database_Hybrid.db'), { SQL });
+            expect(result.trips).toHaveLength(361);
+            expect(result.errors).toEqual([]);
+        });
+
+        it('should fail when sql.js is not loaded', () => {
+            expect(() => bydSqliteAdapter.parse(fixture('EC_database_Hybrid.db'), {})).toThrow('SQL no está listo');
+        });
+    });
+
+    describe('registry', () => {
+        const jsonlAdapter: TripImportAdapter = {
+            id: 'test-jsonl',
+            label: 'JSON Lines',
+            extensions: ['.jsonl'],
+            sniff: (source) => source.name.endsWith('.jsonl'),
+            parse: (source) => {
+                const trips = JSON.parse(new TextDecoder().decode(source.bytes));
+                return { trips, errors: [], totalRows: trips.length };
+            }
+        };
+
+        afterEach(() => unregisterTripImporter('test-jsonl'));
+
+        it('should detect the adapter by content', () => {
+            expect(detectTripImporter(fixture('EC_database_Hybrid.db'))?.id).toBe('byd-sqlite');
+            expect(detectTripImporter(fixture('REGISTRO_VIAJES.csv'))?.id).toBe('byd-trip-csv');
+            expect(detectTripImporter(textSource('notes.txt', 'hola'))).toBeNull();
+        });
+
+        it('should reject unknown formats', async () => {
+            await expect(importTrips(textSource('notes.txt', 'hola'))).rejects.toThrow('Formato de archivo no soportado');
+        });
+
+        it('should dispatch to registered adapters', async () => {
+            registerTripImporter(jsonlAdapter);
+            expect(isSupportedImportFile('export.JSONL')).toBe(true);
+
+            const result = await importTrips(textSource('export.jsonl', '[{"date":"20260101","trip":5}]'));
+            expect(result.adapterId).toBe('test-jsonl');
+            expect(result.trips).toHaveLength(1);
+        });
+
+        it('should stop accepting an extension once its adapter is removed', () => {
+            registerTripImporter(jsonlAdapter);
+            unregisterTripImporter('test-jsonl');
+            expect(isSupportedImportFile('export.jsonl')).toBe(false);
+            expect(isSupportedImportFile('EC_database.db')).toBe(true);
+        });
+    });
+});
@@ -0,0 +1,48 @@
+// BYD Stats - Trip Planner Tests
+import { describe, it, expect } from 'vitest';
+import { planTrip } from '../tripPlanner';
+
+// 80 kWh usable at 100% SoH and 20 kWh/100km: 4 km per 1% SoC
+const context = { efficiency: 20, batterySize: 80, soh: 100, pricePerKwh: 0.2 };
+
+describe('planTrip', () => {
+    it('should arrive without stops when the battery is enough', () => {
+        const plan = planTrip({ distanceKm: 100, averageSpeed: 100, startSoc: 80 }, context);
+
+        expect(plan.stops).toEqual([]);
+        expect(plan.feasible).toBe(true);
+        expect(plan.energyKwh).toBe(20);
+        expect(plan.cost).toBe(4);
+        expect(plan.arrivalSoc).toBe(55);
+        expect(plan.rangeKm).toBe(280);
+    });
+
+    it('should stop at the reserve and charge only what the rest of the drive needs', () => {
+        const plan = planTrip({ distanceKm: 400, averageSpeed: 100, startSoc: 90 }, context);
+
+        // 320 km down to 10%, then 80 km (20% SoC) more, so charging to 30% is enough
+        expect(plan.stops).toEqual([{ atKm: 320, arrivalSoc: 10, departureSoc: 30, kwh: 16, cost: 3.2 }]);
+        expect(plan.arrivalSoc).toBe(10);
+    });
+
+    it('should cap each stop at the charge target on long drives', () => {
+        const plan = planTrip({ distanceKm: 700, averageSpeed: 100, startSoc: 90, chargeToSoc: 80 }, context);
+
+        expect(plan.stops.map(s => [s.atKm, s.departureSoc])).toEqual([[320, 80], [600, 35]]);
+        expect(plan.arrivalSoc).toBe(10);
+    });
+
+    it('should shrink the usable capacity with the SoH', () => {
+        const plan = planTrip({ distanceKm: 100, averageSpeed: 100, startSoc: 80 }, { ...context, soh: 50 });
+
+        expect(plan.arrivalSoc).toBe(30);
+        expect(plan.rangeKm).toBe(140);
+    });
+
+    it('should flag plans whose stops cannot add range', () => {
+        const plan = planTrip({ distanceKm: 500, averageSpeed: 100, startSoc: 90, reserveSoc: 20, chargeToSoc: 20 }, context);
+        expect(plan.feasible).toBe(false);
+
+        expect(planTrip({ distanceKm: 50, averageSpeed: 30, startSoc: 80 }, { ...context, batterySize: 0 }).feasible).toBe(false);
+    });
+});
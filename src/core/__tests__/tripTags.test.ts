@@ -0,0 +1,102 @@
+// BYD Stats - Trip Tags Tests
+import { describe, it, expect } from 'vitest';
+import {
+    DEFAULT_TRIP_TAGS,
+    UNTAGGED_TAG_ID,
+    applyTagRules,
+    filterTripsByTag,
+    getTripTagName,
+    matchesTagRule,
+    removeTagFromTrips,
+    setTripsTag
+} from '../tripTags';
+import { processData } from '../dataProcessing';
+import { tripSyncKey } from '../syncMerge';
+import { Settings, Trip, TripTagRule } from '../../types';
+
+// Local time, as the rules read it
+const trip = (y: number, m: number, d: number, h: number, min: number, km: number, tags?: string[]): Trip => {
+    const start = new Date(y, m - 1, d, h, min).getTime() / 1000;
+    return {
+        date: `${y}${String(m).padStart(2, '0')}${String(d).padStart(2, '0')}`,
+        month: `${y}${String(m).padStart(2, '0')}`,
+        start_timestamp: start,
+        end_timestamp: start + 1800,
+        duration: 1800,
+        trip: km,
+        electricity: km * 0.15,
+        ...(tags ? { tags } : {})
+    };
+};
+
+const commuteRule: TripTagRule = { id: 'r1', tagId: 'commute', days: [1, 2, 3, 4, 5], start: '07:00', end: '10:00', minKm: 5, maxKm: 40 };
+
+describe('tripTags', () => {
+    it('should match weekday, time window and distance', () => {
+        // 2025-01-06 is a Monday, 2025-01-11 a Saturday
+        expect(matchesTagRule(trip(2025, 1, 6, 8, 30, 20), commuteRule)).toBe(true);
+        expect(matchesTagRule(trip(2025, 1, 6, 10, 0, 20), commuteRule)).toBe(false);
+        expect(matchesTagRule(trip(2025, 1, 11, 8, 30, 20), commuteRule)).toBe(false);
+        expect(matchesTagRule(trip(2025, 1, 6, 8, 30, 60), commuteRule)).toBe(false);
+    });
+
+    it('should match windows that cross midnight', () => {
+        const night: TripTagRule = { id: 'r2', tagId: 'leisure', days: [], start: '22:00', end: '02:00' };
+        expect(matchesTagRule(trip(2025, 1, 11, 23, 15, 10), night)).toBe(true);
+        expect(matchesTagRule(trip(2025, 1, 12, 1, 30, 10), night)).toBe(true);
+        expect(matchesTagRule(trip(2025, 1, 12, 12, 0, 10), night)).toBe(false);
+    });
+
+    it('should only auto-tag trips that were never tagged', () => {
+        const trips = [
+            trip(2025, 1, 6, 8, 0, 20),
+            trip(2025, 1, 7, 8, 0, 20, ['business']),
+            trip(2025, 1, 8, 8, 0, 20, []),
+            trip(2025, 1, 11, 8, 0, 20)
+        ];
+        const { trips: tagged, tagged: count } = applyTagRules(trips, [commuteRule]);
+
+        expect(count).toBe(1);
+        expect(tagged.map(t => t.tags)).toEqual([['commute'], ['business'], [], undefined]);
+        expect(tagged[0].updatedAt).toBeGreaterThan(0);
+    });
+
+    it('should add and remove tags in bulk and filter by them', () => {
+        const trips = [trip(2025, 1, 6, 8, 0, 20), trip(2025, 1, 7, 8, 0, 20), trip(2025, 1, 8, 8, 0, 20)];
+        const keys = new Set(trips.slice(0, 2).map(tripSyncKey));
+        const tagged = setTripsTag(trips, keys, 'business', true);
+
+        expect(filterTripsByTag(tagged, 'business')).toHaveLength(2);
+        expect(filterTripsByTag(tagged, UNTAGGED_TAG_ID)).toHaveLength(1);
+        expect(filterTripsByTag(tagged, '')).toHaveLength(3);
+
+        const cleared = removeTagFromTrips(tagged, 'business');
+        expect(cleared.map(t => t.tags)).toEqual([[], [], undefined]);
+    });
+
+    it('should translate built-in tag names until they are renamed', () => {
+        const translate = (key: string, fallback: string) => key === 'tags.defaults.commute' ? 'Commute' : fallback;
+        const [commute] = DEFAULT_TRIP_TAGS;
+
+        expect(getTripTagName(commute, translate)).toBe('Commute');
+        expect(getTripTagName({ ...commute, name: 'Oficina', nameKey: undefined }, translate)).toBe('Oficina');
+    });
+
+    it('should break processData totals down by tag', () => {
+        const trips = [
+            trip(2025, 1, 6, 8, 0, 20, ['commute']),
+            trip(2025, 1, 7, 8, 0, 10, ['commute', 'business']),
+            trip(2025, 1, 11, 12, 0, 50)
+        ];
+        const data = processData(trips, { electricPrice: 0.2, fuelPrice: 1.5 } as Settings);
+
+        expect(data?.tagBreakdown.map(e => [e.tagId, e.trips, e.km])).toEqual([
+            [UNTAGGED_TAG_ID, 1, 50],
+            ['commute', 2, 30],
+            ['business', 1, 10]
+        ]);
+        const commute = data!.tagBreakdown.find(e => e.tagId === 'commute')!;
+        expect(commute.efficiency).toBeCloseTo(15);
+        expect(commute.cost).toBeCloseTo(30 * 0.15 * 0.2);
+    });
+});
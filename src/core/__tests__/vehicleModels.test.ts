@@ -0,0 +1,54 @@
+// BYD Stats - Vehicle Model Catalogue Tests
+import { describe, it, expect } from 'vitest';
+import { VEHICLE_MODELS, getEfficiencyAnchors, getModelSettings, getVehicleModel, getVehicleProfile } from '../vehicleModels';
+import { DEFAULT_CHARGER_TYPES } from '../constants';
+
+describe('vehicleModels', () => {
+    it('should have unique ids and a tank only on PHEVs', () => {
+        expect(new Set(VEHICLE_MODELS.map(m => m.id)).size).toBe(VEHICLE_MODELS.length);
+        VEHICLE_MODELS.forEach(m => {
+            expect(m.grossCapacity).toBeGreaterThanOrEqual(m.netCapacity);
+            expect(!!m.tankLiters).toBe(m.type === 'phev');
+        });
+    });
+
+    it('should fall back to the 60.48 kWh LFP reference without a model', () => {
+        const profile = getVehicleProfile({ batterySize: 0 });
+
+        expect(profile.model).toBeNull();
+        expect(profile.netCapacity).toBe(60.48);
+        expect(profile.chemistry).toBe('lfp');
+        expect(profile.params.needsFullCharge).toBe(true);
+    });
+
+    it('should keep the battery size of the settings over the preset', () => {
+        const profile = getVehicleProfile({ vehicleModelId: 'seal', batterySize: '80' });
+
+        expect(profile.model?.name).toBe('Seal');
+        expect(profile.netCapacity).toBe(80);
+        expect(profile.wltpKwh100).toBe(16.6);
+    });
+
+    it('should anchor the efficiency curve to the WLTP consumption', () => {
+        // The curve the range model was tuned with
+        expect(getEfficiencyAnchors().map(a => a.eff)).toEqual([14.5, 17.5, 23.5]);
+        expect(getEfficiencyAnchors(19.5).map(a => a.eff)).toEqual([18.1, 21.9, 29.4]);
+    });
+
+    it('should pre-fill the settings of a preset', () => {
+        expect(getModelSettings(getVehicleModel('dolphin-60')!)).toEqual({
+            vehicleModelId: 'dolphin-60',
+            carModel: 'BYD Dolphin 60.4 kWh',
+            batterySize: 60.48,
+            // 88 kW DC at most
+            chargerTypes: DEFAULT_CHARGER_TYPES.map(ct => ct.id === 'ultrafast' ? { ...ct, speedKw: 88 } : ct)
+        });
+    });
+
+    it('should limit charger types to the onboard charger and fill in the tank of a PHEV', () => {
+        const settings = getModelSettings(getVehicleModel('seal-u-dmi')!);
+
+        expect(settings.chargerTypes!.map(ct => ct.speedKw)).toEqual([2.4, 3.3, 18, 18]);
+        expect(settings.tankLiters).toBe(60);
+    });
+});
@@ -0,0 +1,122 @@
+// BYD Stats - Anomaly Log
+// Anomalies kept per car across health checks, with acknowledge, snooze and resolve states
+
+import { Anomaly, AnomalyLogEntry, AnomalyStatus } from '../types';
+
+export const SNOOZE_DAYS = [1, 7, 30];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SEVERITY_RANK: Record<Anomaly['severity'], number> = { info: 0, warning: 1, critical: 2 };
+
+// Trip evidence is in seconds, charge evidence in milliseconds
+const toMs = (timestamp?: number): number | undefined =>
+    timestamp === undefined ? undefined : timestamp < 1e12 ? timestamp * 1000 : timestamp;
+
+/**
+ * Whether a detected anomaly should nag again: a snooze that ran out, an acknowledged
+ * anomaly that got worse, or a resolved one with evidence newer than its resolution
+ */
+const shouldReopen = (entry: AnomalyLogEntry, anomaly: Anomaly, now: number): boolean => {
+    switch (entry.status) {
+        case 'snoozed':
+            return (entry.snoozedUntil || 0) <= now;
+        case 'acknowledged':
+            return SEVERITY_RANK[anomaly.severity] > SEVERITY_RANK[entry.severity];
+        case 'resolved': {
+            const evidence = toMs(anomaly.timestamp);
+            return evidence !== undefined && evidence > (entry.resolvedAt || 0);
+        }
+        default:
+            return false;
+    }
+};
+
+/**
+ * Adds the anomalies of a health check to the log.
+ * `raised` has the entries that are new, reopened or got worse, for notifications
+ */
+export const mergeAnomalyLog = (
+    log: AnomalyLogEntry[],
+    detected: Anomaly[],
+    now: number = Date.now()
+): { log: AnomalyLogEntry[]; raised: AnomalyLogEntry[] } => {
+    const byId = new Map(log.map(entry => [entry.id, entry]));
+    const raised: AnomalyLogEntry[] = [];
+
+    detected.forEach(anomaly => {
+        const current = byId.get(anomaly.id);
+        if (!current) {
+            const entry: AnomalyLogEntry = { ...anomaly, status: 'active', firstSeen: now, lastSeen: now };
+            byId.set(anomaly.id, entry);
+            raised.push(entry);
+            return;
+        }
+
+        const reopen = shouldReopen(current, anomaly, now);
+        const worse = current.status === 'active' && SEVERITY_RANK[anomaly.severity] > SEVERITY_RANK[current.severity];
+        const entry: AnomalyLogEntry = reopen
+            ? { ...current, ...anomaly, status: 'active', lastSeen: now, snoozedUntil: undefined, resolvedAt: undefined, hidden: undefined }
+            : { ...current, ...anomaly, lastSeen: now };
+        byId.set(anomaly.id, entry);
+        if (reopen || worse) raised.push(entry);
+    });
+
+    return { log: [...byId.values()], raised };
+};
+
+/**
+ * Acknowledges, snoozes (for `snoozeDays`), resolves or reactivates an anomaly
+ */
+export const setAnomalyStatus = (
+    log: AnomalyLogEntry[],
+    id: string,
+    status: AnomalyStatus,
+    now: number = Date.now(),
+    snoozeDays: number = 7
+): AnomalyLogEntry[] => log.map(entry => entry.id !== id ? entry : {
+    ...entry,
+    status,
+    snoozedUntil: status === 'snoozed' ? now + snoozeDays * DAY_MS : undefined,
+    resolvedAt: status === 'resolved' ? now : undefined,
+    hidden: undefined
+});
+
+/**
+ * Removes an anomaly from the history. It stays resolved in the log so the next check does not raise it again
+ */
+export const hideAnomaly = (log: AnomalyLogEntry[], id: string, now: number = Date.now()): AnomalyLogEntry[] =>
+    setAnomalyStatus(log, id, 'resolved', now).map(entry => entry.id === id ? { ...entry, hidden: true } : entry);
+
+export const isAnomalyActive = (entry: AnomalyLogEntry, now: number = Date.now()): boolean =>
+    entry.status === 'active' || (entry.status === 'snoozed' && (entry.snoozedUntil || 0) <= now);
+
+/**
+ * Anomalies that need attention, most severe and most recent first
+ */
+export const getActiveAnomalies = (log: AnomalyLogEntry[], now: number = Date.now()): AnomalyLogEntry[] =>
+    log
+        .filter(entry => !entry.hidden && isAnomalyActive(entry, now))
+        .sort((a, b) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity] || b.lastSeen - a.lastSeen);
+
+/**
+ * Acknowledged, snoozed and resolved anomalies, most recently seen first
+ */
+export const getAnomalyHistory = (log: AnomalyLogEntry[], now: number = Date.now()): AnomalyLogEntry[] =>
+    log
+        .filter(entry => !entry.hidden && !isAnomalyActive(entry, now))
+        .sort((a, b) => b.lastSeen - a.lastSeen);
+
+/**
+ * Carries over the acknowledged and deleted ids of the app versions without a log
+ */
+export const applyLegacyAnomalyStates = (
+    log: AnomalyLogEntry[],
+    acknowledged: string[] = [],
+    deleted: string[] = [],
+    now: number = Date.now()
+): AnomalyLogEntry[] => log.map(entry => {
+    if (deleted.includes(entry.id)) return { ...entry, status: 'resolved', resolvedAt: now, hidden: true };
+    if (acknowledged.includes(entry.id)) return { ...entry, status: 'acknowledged' };
+    return entry;
+});
@@ -0,0 +1,375 @@
+// BYD Stats - Anomaly Rules
+// Health checks as rules with tunable thresholds, an on/off switch and a severity per level, plus the user's own checks
+
+import {
+    Anomaly,
+    AnomalyRuleSettings,
+    AnomalySeverity,
+    AnomalyTier,
+    Charge,
+    CustomAnomalyRule,
+    ProcessedData,
+    Settings,
+    Trip
+} from '../types';
+import { tripSyncKey } from './syncMerge';
+
+export interface AnomalyRuleContext {
+    data: ProcessedData;
+    settings: Settings;
+    charges: Charge[];
+    trips: Trip[];
+}
+
+/**
+ * A tunable threshold; its label is `anomalies.thresholds.<key>`
+ */
+export interface AnomalyThreshold {
+    key: string;
+    defaultValue: number;
+    min: number;
+    max: number;
+    step: number;
+    unit: string;
+}
+
+export interface ResolvedAnomalyRule {
+    enabled: boolean;
+    thresholds: Record<string, number>;
+    severity: Record<AnomalyTier, AnomalySeverity>;
+}
+
+/**
+ * A built-in health check. `severity` has the default severity of each level the check reports
+ */
+export interface AnomalyRule {
+    id: string;
+    type: Anomaly['type'];
+    thresholds: AnomalyThreshold[];
+    severity: Partial<Record<AnomalyTier, AnomalySeverity>>;
+    check: (context: AnomalyRuleContext, config: ResolvedAnomalyRule) => Anomaly[];
+}
+
+export const ANOMALY_SEVERITIES: AnomalySeverity[] = ['info', 'warning', 'critical'];
+
+// Below this inferred power a charge is slow (Schuko or 16 A single phase, with some margin)
+const SLOW_CHARGE_KW = 4.0;
+// Off-peak charges start before 08:00
+const VALLEY_END_HOUR = 8;
+// Efficiencies outside this range are bad data, not anomalies
+const MIN_VALID_EFFICIENCY = 0.45;
+const MAX_VALID_EFFICIENCY = 1.1;
+// Trips or charges a custom rule looks at
+const CUSTOM_RULE_RECENT = 5;
+
+const batteryCapacity = (settings: Settings): number => parseFloat(String(settings.batterySize)) || 60;
+
+// YYYYMMDD or YYYY-MM-DD to YYYY-MM-DD
+const isoDate = (date: string): string => {
+    const digits = (date || '').replace(/-/g, '');
+    return digits.length === 8 ? `${digits.slice(0, 4)}-${digits.slice(4, 6)}-${digits.slice(6, 8)}` : date;
+};
+
+/**
+ * Local start of a charge in ms, or 0 when its date or time cannot be read
+ */
+const chargeTime = (charge: Charge): number => {
+    const digits = (charge.date || '').replace(/-/g, '');
+    if (digits.length !== 8 || !charge.time) return 0;
+    const [h, min] = charge.time.split(':').map(Number);
+    return new Date(+digits.slice(0, 4), +digits.slice(4, 6) - 1, +digits.slice(6, 8), h || 0, min || 0).getTime();
+};
+
+const latestCharges = (charges: Charge[], count: number): Charge[] =>
+    [...charges].sort((a, b) => chargeTime(b) - chargeTime(a)).slice(0, count);
+
+const latestTrips = (trips: Trip[], count: number): Trip[] =>
+    trips.filter(trip => trip.trip > 0).sort((a, b) => b.start_timestamp - a.start_timestamp).slice(0, count);
+
+/**
+ * Hours parked around a charge: the gap between the trips before and after it.
+ * Charges ending 07:00-09:00 without trips around count as an overnight charge
+ */
+const parkedHours = (charge: Charge, trips: Trip[]): number => {
+    const time = chargeTime(charge) / 1000;
+    if (!time) return 0;
+
+    const sorted = [...trips].sort((a, b) => a.start_timestamp - b.start_timestamp);
+    const index = sorted.findIndex((trip, i) =>
+        trip.end_timestamp < time && (!sorted[i + 1] || sorted[i + 1].start_timestamp > time));
+    const next = index >= 0 ? sorted[index + 1] : undefined;
+    if (next) return (next.start_timestamp - sorted[index].end_timestamp) / 3600;
+
+    const hour = parseInt(charge.time.split(':')[0]);
+    return hour >= 7 && hour <= 9 ? 8 : 0;
+};
+
+const sohRule: AnomalyRule = {
+    id: 'soh',
+    type: 'battery',
+    thresholds: [
+        { key: 'sohDegraded', defaultValue: 85, min: 50, max: 100, step: 1, unit: '%' },
+        { key: 'sohCritical', defaultValue: 75, min: 50, max: 100, step: 1, unit: '%' }
+    ],
+    severity: { minor: 'warning', major: 'critical' },
+    check: ({ data }, { thresholds, severity }) => {
+        const soh = data.summary.soh;
+        const critical = soh < thresholds.sohCritical;
+        if (!critical && soh >= thresholds.sohDegraded) return [];
+        const key = critical ? 'sohCritical' : 'sohDegraded';
+        return [{
+            id: critical ? 'soh_critical' : 'soh_warning',
+            type: 'battery',
+            severity: critical ? severity.major : severity.minor,
+            title: `anomalies.${key}.title`,
+            description: `anomalies.${key}.description`,
+            params: { threshold: thresholds[key] },
+            value: `${soh.toFixed(1)}%`
+        }];
+    }
+};
+
+const bmsCalibrationRule: AnomalyRule = {
+    id: 'bms_calibration',
+    type: 'battery',
+    thresholds: [],
+    severity: { minor: 'info' },
+    check: ({ data }, { severity }) => data.summary.sohData?.calibration_warning ? [{
+        id: 'bms_calibration',
+        type: 'battery',
+        severity: severity.minor,
+        title: 'anomalies.bmsCalibration.title',
+        description: 'anomalies.bmsCalibration.description',
+        value: '100%'
+    }] : []
+};
+
+const phantomDrainRule: AnomalyRule = {
+    id: 'phantom_drain',
+    type: 'drain',
+    thresholds: [
+        { key: 'minParkedHours', defaultValue: 12, min: 1, max: 168, step: 1, unit: 'h' },
+        { key: 'drainPerDay', defaultValue: 2, min: 0.5, max: 20, step: 0.5, unit: '%/24h' },
+        { key: 'majorDrainPerDay', defaultValue: 4, min: 0.5, max: 20, step: 0.5, unit: '%/24h' }
+    ],
+    severity: { minor: 'info', major: 'warning' },
+    check: ({ trips, settings }, { thresholds, severity }) => {
+        const sorted = [...trips].sort((a, b) => a.start_timestamp - b.start_timestamp);
+
+        // Only the most recent drain, to avoid one alert per parking
+        for (let i = sorted.length - 2; i >= 0; i--) {
+            const current = sorted[i];
+            const next = sorted[i + 1];
+            const gapHours = (next.start_timestamp - current.end_timestamp) / 3600;
+            if (gapHours <= thresholds.minParkedHours) continue;
+
+            const endSoc = current.end_soc;
+            const startSoc = next.start_soc;
+            if (endSoc === undefined || startSoc === undefined || startSoc >= endSoc) continue;
+
+            const dropPct = endSoc - startSoc;
+            const dropPerDay = (dropPct / gapHours) * 24;
+            if (dropPerDay <= thresholds.drainPerDay) continue;
+
+            return [{
+                id: `drain_${current.date}`,
+                type: 'drain',
+                severity: dropPerDay > thresholds.majorDrainPerDay ? severity.major : severity.minor,
+                title: 'anomalies.phantomDrain.title',
+                description: 'anomalies.phantomDrain.description',
+                params: {
+                    from: isoDate(current.date),
+                    to: isoDate(next.date),
+                    drop: dropPct.toFixed(1),
+                    kwh: ((dropPct / 100) * batteryCapacity(settings)).toFixed(1),
+                    hours: gapHours.toFixed(0)
+                },
+                value: `-${dropPerDay.toFixed(1)}%/24h`,
+                timestamp: next.start_timestamp
+            }];
+        }
+        return [];
+    }
+};
+
+const chargeEfficiencyRule: AnomalyRule = {
+    id: 'charge_efficiency',
+    type: 'charging',
+    thresholds: [
+        { key: 'slowChargeEfficiency', defaultValue: 70, min: 40, max: 100, step: 1, unit: '%' },
+        { key: 'fastChargeEfficiency', defaultValue: 80, min: 40, max: 100, step: 1, unit: '%' },
+        { key: 'majorEfficiencyGap', defaultValue: 10, min: 1, max: 50, step: 1, unit: '%' },
+        { key: 'recentCharges', defaultValue: 5, min: 1, max: 50, step: 1, unit: '' }
+    ],
+    severity: { minor: 'info', major: 'warning' },
+    check: ({ charges, trips, settings }, { thresholds, severity }) => {
+        const capacity = batteryCapacity(settings);
+        const anomalies: Anomaly[] = [];
+
+        latestCharges(charges, thresholds.recentCharges).forEach(charge => {
+            if (!(charge.kwhCharged > 0) || charge.initialPercentage === undefined || charge.finalPercentage === undefined) return;
+
+            const addedKwh = ((charge.finalPercentage - charge.initialPercentage) / 100) * capacity;
+            const efficiency = addedKwh / charge.kwhCharged;
+
+            const hours = parkedHours(charge, trips);
+            const inferredPower = hours > 0 ? charge.kwhCharged / hours : 0;
+            const isSlowPower = inferredPower > 0 && inferredPower < SLOW_CHARGE_KW;
+            const startHour = charge.time ? parseInt(charge.time.split(':')[0]) : NaN;
+            const isValley = startHour >= 0 && startHour < VALLEY_END_HOUR;
+
+            // Standby losses weigh more on slow and off-peak charges
+            const slow = isSlowPower || isValley;
+            const threshold = (slow ? thresholds.slowChargeEfficiency : thresholds.fastChargeEfficiency) / 100;
+            if (efficiency >= threshold || efficiency <= MIN_VALID_EFFICIENCY || efficiency >= MAX_VALID_EFFICIENCY) return;
+
+            const key = slow ? 'slowChargeEfficiency' : 'chargeEfficiency';
+            anomalies.push({
+                id: `eff_${charge.id}`,
+                type: 'charging',
+                severity: efficiency < threshold - thresholds.majorEfficiencyGap / 100 ? severity.major : severity.minor,
+                title: `anomalies.${key}.title`,
+                description: `anomalies.${key}.description`,
+                params: {
+                    date: isoDate(charge.date),
+                    efficiency: Math.round(efficiency * 100),
+                    power: inferredPower ? ` (~${inferredPower.toFixed(1)} kW)` : ''
+                },
+                value: `${(efficiency * 100).toFixed(0)}%`,
+                timestamp: chargeTime(charge) || Date.now()
+            });
+        });
+
+        return anomalies;
+    }
+};
+
+const tirePressureRule: AnomalyRule = {
+    id: 'tire_pressure',
+    type: 'efficiency',
+    thresholds: [
+        { key: 'overconsumption', defaultValue: 25, min: 5, max: 100, step: 1, unit: '%' },
+        { key: 'recentTrips', defaultValue: 5, min: 1, max: 50, step: 1, unit: '' },
+        { key: 'minHighTrips', defaultValue: 3, min: 1, max: 50, step: 1, unit: '' }
+    ],
+    severity: { minor: 'info' },
+    check: ({ trips, data }, { thresholds, severity }) => {
+        const avgConsumption = parseFloat(data.summary.avgEff); // kWh/100km
+        if (!avgConsumption) return [];
+
+        const recent = latestTrips(trips, thresholds.recentTrips);
+        const limit = avgConsumption * (1 + thresholds.overconsumption / 100);
+        const high = recent.filter(trip => (trip.electricity / trip.trip) * 100 > limit).length;
+        if (high < thresholds.minHighTrips) return [];
+
+        return [{
+            id: 'tire_pressure',
+            type: 'efficiency',
+            severity: severity.minor,
+            title: 'anomalies.tirePressure.title',
+            description: 'anomalies.tirePressure.description',
+            params: { pct: thresholds.overconsumption, count: high, total: recent.length },
+            value: `${high}/${recent.length}`
+        }];
+    }
+};
+
+/**
+ * Built-in health checks, in report order
+ */
+export const ANOMALY_RULES: AnomalyRule[] = [
+    sohRule,
+    bmsCalibrationRule,
+    phantomDrainRule,
+    chargeEfficiencyRule,
+    tirePressureRule
+];
+
+/**
+ * Rule defaults with the user's overrides; thresholds out of range are clamped
+ */
+export const resolveAnomalyRule = (rule: AnomalyRule, overrides: AnomalyRuleSettings = {}): ResolvedAnomalyRule => ({
+    enabled: overrides.enabled ?? true,
+    thresholds: Object.fromEntries(rule.thresholds.map(({ key, defaultValue, min, max }) => {
+        const value = overrides.thresholds?.[key];
+        return [key, typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : defaultValue];
+    })),
+    severity: {
+        minor: overrides.severity?.minor ?? rule.severity.minor ?? 'info',
+        major: overrides.severity?.major ?? rule.severity.major ?? 'warning'
+    }
+});
+
+export const CUSTOM_RULE_METRICS: Record<CustomAnomalyRule['metric'], { type: Anomaly['type']; unit: string; defaultThreshold: number; decimals: number }> = {
+    tripEfficiency: { type: 'efficiency', unit: 'kWh/100km', defaultThreshold: 20, decimals: 1 },
+    chargePrice: { type: 'charging', unit: '€/kWh', defaultThreshold: 0.5, decimals: 3 }
+};
+
+export const createCustomAnomalyRule = (
+    name: string,
+    metric: CustomAnomalyRule['metric'] = 'tripEfficiency',
+    id: string = `anomalyrule_${Date.now()}`
+): CustomAnomalyRule => ({
+    id,
+    name,
+    metric,
+    operator: 'above',
+    threshold: CUSTOM_RULE_METRICS[metric].defaultThreshold,
+    severity: 'warning',
+    enabled: true
+});
+
+/**
+ * One anomaly per recent trip or charge outside the rule's limit
+ */
+export const checkCustomAnomalyRule = (rule: CustomAnomalyRule, { trips, charges }: Pick<AnomalyRuleContext, 'trips' | 'charges'>): Anomaly[] => {
+    const metric = CUSTOM_RULE_METRICS[rule.metric];
+    if (!metric || !Number.isFinite(rule.threshold)) return [];
+
+    const samples = rule.metric === 'tripEfficiency'
+        ? latestTrips(trips, CUSTOM_RULE_RECENT).map(trip => ({
+            key: tripSyncKey(trip),
+            date: trip.date,
+            value: (trip.electricity / trip.trip) * 100,
+            timestamp: trip.start_timestamp
+        }))
+        : latestCharges(charges.filter(charge => charge.type !== 'fuel' && charge.pricePerKwh > 0), CUSTOM_RULE_RECENT).map(charge => ({
+            key: charge.id,
+            date: charge.date,
+            value: charge.pricePerKwh,
+            timestamp: chargeTime(charge) || undefined
+        }));
+
+    return samples
+        .filter(sample => rule.operator === 'above' ? sample.value > rule.threshold : sample.value < rule.threshold)
+        .map(sample => ({
+            id: `custom_${rule.id}_${sample.key}`,
+            type: metric.type,
+            severity: rule.severity,
+            title: 'anomalies.custom.title',
+            description: `anomalies.custom.${rule.metric}.${rule.operator}`,
+            params: {
+                name: rule.name,
+                date: isoDate(sample.date),
+                value: sample.value.toFixed(metric.decimals),
+                threshold: rule.threshold
+            },
+            value: `${sample.value.toFixed(metric.decimals)} ${metric.unit}`,
+            timestamp: sample.timestamp
+        }));
+};
+
+/**
+ * Runs the enabled built-in rules with the user's settings, then the enabled custom rules
+ */
+export const runAnomalyRules = (context: AnomalyRuleContext): Anomaly[] => {
+    const overrides = context.settings.anomalyRules || {};
+    const builtIn = ANOMALY_RULES.flatMap(rule => {
+        const config = resolveAnomalyRule(rule, overrides[rule.id]);
+        return config.enabled ? rule.check(context, config) : [];
+    });
+    const custom = (context.settings.customAnomalyRules || [])
+        .filter(rule => rule.enabled)
+        .flatMap(rule => checkCustomAnomalyRule(rule, context));
+    return [...builtIn, ...custom];
+};
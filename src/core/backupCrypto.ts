@@ -0,0 +1,108 @@
+// BYD Stats - Backup Encryption
+// Client-side AES-GCM for cloud files; the key is derived from the user passphrase with PBKDF2
+
+export const ENCRYPTION_FORMAT = 'byd-stats-aes-gcm';
+export const PBKDF2_ITERATIONS = 600000; // OWASP recommendation for PBKDF2-HMAC-SHA256
+
+/**
+ * What is stored in the cloud instead of the plain JSON
+ */
+export interface EncryptedEnvelope {
+    format: typeof ENCRYPTION_FORMAT;
+    version: 1;
+    kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string }; // Base64 salt
+    iv: string; // Base64, 12 bytes
+    data: string; // Base64 ciphertext including the GCM tag
+}
+
+export type BackupPassphraseProblem = 'required' | 'wrong';
+
+export class BackupPassphraseError extends Error {
+    constructor(public problem: BackupPassphraseProblem) {
+        super(problem === 'required'
+            ? 'Las copias en la nube están cifradas. Introduce la contraseña de cifrado para sincronizar.'
+            : 'La contraseña de cifrado no es correcta para las copias en la nube.');
+        this.name = 'BackupPassphraseError';
+    }
+}
+
+const toBase64 = (bytes: Uint8Array): string => {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+};
+
+const fromBase64 = (text: string): Uint8Array<ArrayBuffer> => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+// Deriving a key takes a noticeable moment, and every sync reads and writes several files
+const keyCache = new Map<string, Promise<CryptoKey>>();
+
+const deriveKey = (passphrase: string, salt: string, iterations: number): Promise<CryptoKey> => {
+    const cacheKey = `${iterations}:${salt}:${passphrase}`;
+    let key = keyCache.get(cacheKey);
+    if (!key) {
+        key = crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey'])
+            .then(material => crypto.subtle.deriveKey(
+                { name: 'PBKDF2', hash: 'SHA-256', salt: fromBase64(salt), iterations },
+                material,
+                { name: 'AES-GCM', length: 256 },
+                false,
+                ['encrypt', 'decrypt']
+            ));
+        keyCache.set(cacheKey, key);
+        key.catch(() => keyCache.delete(cacheKey));
+    }
+    return key;
+};
+
+// One salt per passphrase and session, so repeated uploads reuse the derived key; the IV is always fresh
+const sessionSalts = new Map<string, string>();
+
+export const isEncryptedEnvelope = (value: unknown): value is EncryptedEnvelope =>
+    !!value && typeof value === 'object' && (value as EncryptedEnvelope).format === ENCRYPTION_FORMAT;
+
+export const encryptPayload = async (
+    data: unknown,
+    passphrase: string,
+    iterations: number = PBKDF2_ITERATIONS
+): Promise<EncryptedEnvelope> => {
+    const saltKey = `${iterations}:${passphrase}`;
+    let salt = sessionSalts.get(saltKey);
+    if (!salt) {
+        salt = toBase64(crypto.getRandomValues(new Uint8Array(16)));
+        sessionSalts.set(saltKey, salt);
+    }
+
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const key = await deriveKey(passphrase, salt, iterations);
+    const cipher = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(JSON.stringify(data)));
+
+    return {
+        format: ENCRYPTION_FORMAT,
+        version: 1,
+        kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations, salt },
+        iv: toBase64(iv),
+        data: toBase64(new Uint8Array(cipher))
+    };
+};
+
+/**
+ * Tries each passphrase in order (current first, then one being rotated away).
+ * Throws BackupPassphraseError when none opens the envelope
+ */
+export const decryptPayload = async (envelope: EncryptedEnvelope, passphrases: string[]): Promise<unknown> => {
+    if (passphrases.length === 0) throw new BackupPassphraseError('required');
+
+    for (const passphrase of passphrases) {
+        const key = await deriveKey(passphrase, envelope.kdf.salt, envelope.kdf.iterations);
+        try {
+            const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(envelope.iv) }, key, fromBase64(envelope.data));
+            return JSON.parse(new TextDecoder().decode(plain));
+        } catch {
+            // GCM authentication failed: another passphrase (or a tampered file)
+        }
+    }
+    throw new BackupPassphraseError('wrong');
+};
@@ -1,7 +1,16 @@
 // BYD Stats - Battery Calculations Utility
-// Implements advanced SoH estimation for LFP batteries
+// Implements advanced SoH estimation for LFP and NMC batteries
 
 import { Charge, SoHData, ChargerType } from '../types';
+import { BatteryChemistry, CHEMISTRY_PARAMS } from './vehicleModels';
+
+export type ChargeSpeedBand = 'slow' | 'ac' | 'dc' | 'hpc';
+
+/**
+ * Power band of a charge for the stress factor: 8A socket, AC wallbox, DC and high-power DC
+ */
+export const getChargeSpeedBand = (speedKw: number): ChargeSpeedBand =>
+    speedKw <= 3.5 ? 'slow' : speedKw <= 22 ? 'ac' : speedKw <= 70 ? 'dc' : 'hpc';
 
 /**
  * Estimates Battery State of Health (SoH) based on usage patterns
@@ -11,8 +20,11 @@ export const calculateAdvancedSoH = (
     mfgDate: string,
     batteryNetCapacity: number | string = 60.48,
     chargerTypes: ChargerType[] = [],
-    thermalStressFactor: number = 1.0
+    thermalStressFactor: number = 1.0,
+    chemistry: BatteryChemistry = 'lfp'
 ): SoHData => {
+    const params = CHEMISTRY_PARAMS[chemistry];
+
     // Fallback for battery capacity if 0 is passed
     const netCapacity = (typeof batteryNetCapacity === 'string' ? parseFloat(batteryNetCapacity) : batteryNetCapacity) || 60.48;
 
@@ -58,9 +70,10 @@ export const calculateAdvancedSoH = (
         total_real_kwh += kwh * efficiency;
 
         // Categorize for stress factor
-        if (speed <= 3.5) n_slow_8a++;
-        else if (speed <= 22) n_ac_11kw++;
-        else if (speed <= 70) n_dc_42kw++;
+        const band = getChargeSpeedBand(speed);
+        if (band === 'slow') n_slow_8a++;
+        else if (band === 'ac') n_ac_11kw++;
+        else if (band === 'dc') n_dc_42kw++;
         else n_hpc_150kw++;
 
         // Calibration check
@@ -95,13 +108,13 @@ export const calculateAdvancedSoH = (
 
     // 4. Degradation Components
 
-    // SEI Formation: Linear drop 0-2% over first 50 cycles
-    const sei_drop = Math.min(2.0, (real_cycles / 50) * 2.0);
+    // SEI Formation: Linear drop over the first cycles (LFP: 0-2% over 50)
+    const sei_drop = Math.min(params.seiMaxPct, (real_cycles / params.seiCycles) * params.seiMaxPct);
 
-    // Cycle Aging: cycles * 0.005% * F_stress
-    const cycle_degradation = real_cycles * 0.00005 * stress_score * 100;
+    // Cycle Aging: cycles * loss per cycle (LFP: 0.005%) * F_stress
+    const cycle_degradation = real_cycles * params.cycleLossPct * stress_score;
 
-    // Calendar Aging: age_years * 0.75%
+    // Calendar Aging: age_years * yearly loss (LFP: 0.75%)
     // More robust date parsing
     let calendar_degradation = 0;
     try {
@@ -109,7 +122,7 @@ export const calculateAdvancedSoH = (
         if (!isNaN(mfg.getTime())) {
             const now = new Date();
             const age_years = (now.getTime() - mfg.getTime()) / (1000 * 60 * 60 * 24 * 365.25);
-            calendar_degradation = Math.max(0, age_years * 0.75);
+            calendar_degradation = Math.max(0, age_years * params.calendarLossPctYear);
         }
     } catch (e) {
         calendar_degradation = 0;
@@ -126,8 +139,9 @@ export const calculateAdvancedSoH = (
 
     // If calibrated recently (< 10 days), NO WARNING regardless of ratio.
     // Otherwise, use ratio or strict "not calibrated in 45 days"
+    // Only chemistries with a flat voltage curve (LFP) need full charges to calibrate
     let calibration_warning = false;
-    if (total_sessions > 5) {
+    if (params.needsFullCharge && total_sessions > 5) {
         if (last_calibration_time > 0 && days_since_cal <= 10) {
             calibration_warning = false;
         } else {
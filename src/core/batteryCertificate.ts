@@ -0,0 +1,366 @@
+// BYD Stats - Battery Certificate
+// Battery health report for buyers of a used car, as a self-contained HTML file with a SHA-256 content hash
+// The hash is unkeyed: it detects accidental changes to the file, it is not a signature
+
+import { Charge, Settings, SoHData, Trip } from '../types';
+import { ExportFile } from './dataExport';
+import { ChargeSpeedBand, calculateAdvancedSoH, getChargeSpeedBand } from './batteryCalculations';
+import { BatteryChemistry, getVehicleProfile } from './vehicleModels';
+import { formatDate, formatMonth } from './dateUtils';
+
+export const CERTIFICATE_HASH_META = 'certificate-hash';
+
+/**
+ * Measured capacities and AI trend of the charges (PredictiveService.getSoHDataPoints)
+ */
+export interface SoHDataPoints {
+    points: { x: string; y: number }[];
+    trend: { x: string; y: number }[];
+}
+
+export interface BatteryCertificateVehicle {
+    name?: string;
+    model?: string;
+    vin?: string;
+    licensePlate?: string;
+}
+
+export interface BatteryCertificateTrendPoint {
+    month: string; // YYYYMM
+    samples: number;
+    measured: number; // Average SoH of the month's charges (%)
+    trend: number; // AI model SoH (%)
+}
+
+export interface BatteryCertificate {
+    generatedAt: string; // ISO
+    vehicle: BatteryCertificateVehicle;
+    battery: { chemistry: BatteryChemistry; netCapacity: number; mfgDate: string }; // mfgDate YYYYMMDD
+    soh: SoHData;
+    aiSoH: number | null;
+    chargingMix: Record<ChargeSpeedBand, number>; // Electric sessions per power band
+    trend: BatteryCertificateTrendPoint[];
+    coverage: { from: string; to: string; charges: number; trips: number; km: number }; // Dates YYYYMMDD
+}
+
+export interface BatteryCertificateInput {
+    charges: Charge[];
+    trips: Trip[];
+    settings: Settings;
+    vehicle?: BatteryCertificateVehicle;
+    aiSoH?: number | null;
+    aiSoHStats?: SoHDataPoints | null;
+    generatedAt?: Date;
+}
+
+/**
+ * Texts of the certificate, in the user's language
+ */
+export interface BatteryCertificateLabels {
+    title: string;
+    subtitle: string;
+    vehicle: string;
+    model: string;
+    vin: string;
+    licensePlate: string;
+    chemistry: string;
+    capacity: string;
+    mfgDate: string;
+    estimatedSoh: string;
+    aiSoh: string;
+    cycles: string;
+    stress: string;
+    degradation: string;
+    sei: string;
+    cycle: string;
+    calendar: string;
+    totalLoss: string;
+    chargingMix: string;
+    bands: Record<ChargeSpeedBand, string>;
+    sessions: string;
+    share: string;
+    trend: string;
+    month: string;
+    samples: string;
+    measured: string;
+    aiTrend: string;
+    noTrend: string;
+    coverage: string;
+    period: string;
+    charges: string;
+    trips: string;
+    distance: string;
+    generated: string;
+    hash: string;
+    hashHint: string;
+}
+
+const BANDS: ChargeSpeedBand[] = ['slow', 'ac', 'dc', 'hpc'];
+
+const round = (value: number, decimals: number): number => {
+    const factor = 10 ** decimals;
+    return Math.round(value * factor) / factor;
+};
+
+// Charges and settings store YYYY-MM-DD, trips YYYYMMDD
+const compactDate = (date?: string): string => {
+    const digits = (date || '').replace(/-/g, '').slice(0, 8);
+    return /^\d{8}$/.test(digits) ? digits : '';
+};
+
+const monthlyTrend = (stats?: SoHDataPoints | null): BatteryCertificateTrendPoint[] => {
+    const months = new Map<string, { samples: number; measured: number; trend: number }>();
+    (stats?.points || []).forEach((point, i) => {
+        const month = compactDate(point.x).slice(0, 6);
+        if (!month) return;
+        const entry = months.get(month) || { samples: 0, measured: 0, trend: 0 };
+        entry.samples++;
+        entry.measured += point.y;
+        entry.trend += stats?.trend[i]?.y ?? point.y;
+        months.set(month, entry);
+    });
+
+    return [...months.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([month, entry]) => ({
+            month,
+            samples: entry.samples,
+            measured: round(entry.measured / entry.samples, 1),
+            trend: round(entry.trend / entry.samples, 1)
+        }));
+};
+
+/**
+ * Gathers the SoH estimation, the charging habits and the data it is based on
+ */
+export const buildBatteryCertificate = (input: BatteryCertificateInput): BatteryCertificate => {
+    const { charges, trips, settings, vehicle = {}, aiSoH = null, aiSoHStats, generatedAt = new Date() } = input;
+    const profile = getVehicleProfile(settings);
+    const electric = charges.filter(charge => charge && (charge.type || 'electric') === 'electric');
+
+    const soh = calculateAdvancedSoH(
+        charges,
+        settings.mfgDate || '',
+        profile.netCapacity,
+        settings.chargerTypes,
+        settings.thermalStressFactor || 1.0,
+        profile.chemistry
+    );
+
+    const chargingMix: Record<ChargeSpeedBand, number> = { slow: 0, ac: 0, dc: 0, hpc: 0 };
+    electric.forEach(charge => {
+        chargingMix[getChargeSpeedBand(typeof charge.speedKw === 'number' ? charge.speedKw : 0)]++;
+    });
+
+    const dates = [...electric.map(charge => compactDate(charge.date)), ...trips.map(trip => compactDate(trip.date))]
+        .filter(Boolean)
+        .sort();
+
+    return {
+        generatedAt: generatedAt.toISOString(),
+        vehicle: { ...vehicle, model: vehicle.model || profile.model?.name },
+        battery: { chemistry: profile.chemistry, netCapacity: profile.netCapacity, mfgDate: compactDate(settings.mfgDate) },
+        soh,
+        aiSoH: aiSoH !== null ? round(aiSoH, 1) : null,
+        chargingMix,
+        trend: monthlyTrend(aiSoHStats),
+        coverage: {
+            from: dates[0] || '',
+            to: dates[dates.length - 1] || '',
+            charges: electric.length,
+            trips: trips.length,
+            km: round(trips.reduce((total, trip) => total + (trip.trip || 0), 0), 0)
+        }
+    };
+};
+
+const escapeHtml = (value: string): string =>
+    value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const percent = (value: number): string => `${value.toFixed(2)} %`;
+
+// Measured months as dots and the AI trend as a line
+const trendChart = (trend: BatteryCertificateTrendPoint[]): string => {
+    const width = 640;
+    const height = 160;
+    const values = trend.flatMap(point => [point.measured, point.trend]);
+    const min = Math.floor(Math.min(...values, 90));
+    const max = Math.ceil(Math.max(...values, 100));
+    const x = (i: number) => round(20 + (i * (width - 40)) / Math.max(trend.length - 1, 1), 1);
+    const y = (value: number) => round(height - 20 - ((value - min) * (height - 40)) / (max - min), 1);
+
+    const line = trend.map((point, i) => `${x(i)},${y(point.trend)}`).join(' ');
+    const dots = trend.map((point, i) => `<circle cx="${x(i)}" cy="${y(point.measured)}" r="3" fill="#10b981" fill-opacity="0.5"/>`).join('');
+
+    return `<svg viewBox="0 0 ${width} ${height}" width="100%" role="img">
+<text x="0" y="14" font-size="10" fill="#64748b">${max} %</text>
+<text x="0" y="${height - 4}" font-size="10" fill="#64748b">${min} %</text>
+<polyline points="${line}" fill="none" stroke="#059669" stroke-width="2"/>
+${dots}
+</svg>`;
+};
+
+/**
+ * Standalone HTML page, ready to print or save as PDF from the browser.
+ * The hash goes in a meta tag and the footer; see hashBatteryCertificate
+ */
+export const batteryCertificateToHtml = (
+    certificate: BatteryCertificate,
+    labels: BatteryCertificateLabels,
+    locale: string = 'es',
+    hash: string = ''
+): string => {
+    const { vehicle, battery, soh, chargingMix, trend, coverage } = certificate;
+    const sessions = BANDS.reduce((total, band) => total + chargingMix[band], 0);
+    const totalLoss = soh.degradation.sei + soh.degradation.cycle + soh.degradation.calendar;
+    const row = (label: string, value?: string) => value ? `<dt>${escapeHtml(label)}</dt><dd>${escapeHtml(value)}</dd>` : '';
+    const cells = (values: string[], tag: 'td' | 'th') => values.map(v => `<${tag}>${v}</${tag}>`).join('');
+
+    const mixRows = BANDS.map(band => cells([
+        escapeHtml(labels.bands[band]),
+        String(chargingMix[band]),
+        sessions > 0 ? `${Math.round((chargingMix[band] / sessions) * 100)} %` : '–'
+    ], 'td'));
+
+    const trendRows = trend.map(point => cells([
+        escapeHtml(formatMonth(point.month, locale)),
+        String(point.samples),
+        `${point.measured.toFixed(1)} %`,
+        `${point.trend.toFixed(1)} %`
+    ], 'td'));
+
+    return `<!DOCTYPE html>
+<html lang="${escapeHtml(locale)}">
+<head>
+<meta charset="utf-8">
+<meta name="${CERTIFICATE_HASH_META}" content="${hash}">
+<title>${escapeHtml(labels.title)}</title>
+<style>
+body { font-family: -apple-system, 'Segoe UI', Roboto, sans-serif; color: #0f172a; margin: 32px; font-size: 12px; }
+h1 { font-size: 20px; margin: 0; }
+h2 { font-size: 13px; margin: 24px 0 8px; text-transform: uppercase; letter-spacing: 0.05em; color: #475569; }
+.subtitle { color: #64748b; margin: 4px 0 16px; }
+dl { display: grid; grid-template-columns: max-content 1fr; gap: 4px 16px; margin: 0; }
+dt { color: #64748b; }
+dd { margin: 0; font-weight: 600; }
+.kpis { display: grid; grid-template-columns: repeat(4, 1fr); gap: 8px; margin-top: 16px; }
+.kpi { border: 1px solid #e2e8f0; border-radius: 8px; padding: 10px; text-align: center; }
+.kpi span { display: block; color: #64748b; font-size: 10px; }
+.kpi strong { font-size: 20px; color: #059669; }
+table { width: 100%; border-collapse: collapse; }
+th, td { padding: 6px 8px; border-bottom: 1px solid #e2e8f0; text-align: right; }
+th:first-child, td:first-child { text-align: left; }
+thead th { background: #f1f5f9; font-size: 11px; color: #475569; }
+tfoot td { font-weight: 700; border-top: 2px solid #0f172a; border-bottom: none; }
+footer { margin-top: 32px; padding-top: 8px; border-top: 1px solid #e2e8f0; color: #64748b; font-size: 10px; }
+code { word-break: break-all; color: #0f172a; }
+@media print { body { margin: 0; } section, tr { break-inside: avoid; } }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(labels.title)}</h1>
+<p class="subtitle">${escapeHtml(labels.subtitle)}</p>
+<dl>
+${row(labels.vehicle, vehicle.name)}
+${row(labels.model, vehicle.model)}
+${row(labels.vin, vehicle.vin)}
+${row(labels.licensePlate, vehicle.licensePlate)}
+${row(labels.chemistry, battery.chemistry.toUpperCase())}
+${row(labels.capacity, `${battery.netCapacity} kWh`)}
+${row(labels.mfgDate, battery.mfgDate ? formatDate(battery.mfgDate, locale) : '')}
+</dl>
+<div class="kpis">
+<div class="kpi"><span>${escapeHtml(labels.estimatedSoh)}</span><strong>${percent(soh.estimated_soh)}</strong></div>
+<div class="kpi"><span>${escapeHtml(labels.aiSoh)}</span><strong>${certificate.aiSoH !== null ? `${certificate.aiSoH.toFixed(1)} %` : '–'}</strong></div>
+<div class="kpi"><span>${escapeHtml(labels.cycles)}</span><strong>${soh.real_cycles_count.toFixed(1)}</strong></div>
+<div class="kpi"><span>${escapeHtml(labels.stress)}</span><strong>${soh.stress_score.toFixed(2)}x</strong></div>
+</div>
+<section>
+<h2>${escapeHtml(labels.degradation)}</h2>
+<table>
+<tbody>
+<tr>${cells([escapeHtml(labels.sei), percent(soh.degradation.sei)], 'td')}</tr>
+<tr>${cells([escapeHtml(labels.cycle), percent(soh.degradation.cycle)], 'td')}</tr>
+<tr>${cells([escapeHtml(labels.calendar), percent(soh.degradation.calendar)], 'td')}</tr>
+</tbody>
+<tfoot><tr>${cells([escapeHtml(labels.totalLoss), percent(totalLoss)], 'td')}</tr></tfoot>
+</table>
+</section>
+<section>
+<h2>${escapeHtml(labels.chargingMix)}</h2>
+<table>
+<thead><tr>${cells(['', escapeHtml(labels.sessions), escapeHtml(labels.share)], 'th')}</tr></thead>
+<tbody>
+${mixRows.map(cellsHtml => `<tr>${cellsHtml}</tr>`).join('\n')}
+</tbody>
+</table>
+</section>
+<section>
+<h2>${escapeHtml(labels.trend)}</h2>
+${trend.length > 0 ? `${trend.length > 1 ? trendChart(trend) : ''}
+<table>
+<thead><tr>${cells([labels.month, labels.samples, labels.measured, labels.aiTrend].map(escapeHtml), 'th')}</tr></thead>
+<tbody>
+${trendRows.map(cellsHtml => `<tr>${cellsHtml}</tr>`).join('\n')}
+</tbody>
+</table>` : `<p>${escapeHtml(labels.noTrend)}</p>`}
+</section>
+<section>
+<h2>${escapeHtml(labels.coverage)}</h2>
+<dl>
+${row(labels.period, coverage.from ? `${formatDate(coverage.from, locale)} – ${formatDate(coverage.to, locale)}` : '–')}
+${row(labels.charges, String(coverage.charges))}
+${row(labels.trips, String(coverage.trips))}
+${row(labels.distance, `${coverage.km} km`)}
+</dl>
+</section>
+<footer>
+<p>${escapeHtml(labels.generated)} ${escapeHtml(new Date(certificate.generatedAt).toLocaleString(locale))}</p>
+<p>${escapeHtml(labels.hash)}: <code>${hash}</code></p>
+<p>${escapeHtml(labels.hashHint)}</p>
+</footer>
+</body>
+</html>
+`;
+};
+
+/**
+ * Hex SHA-256 of a text
+ */
+export const sha256Hex = async (text: string): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Renders the certificate and embeds the hash of the page rendered without it,
+ * so an edit that does not recompute the hash is caught by checkBatteryCertificateHash
+ */
+export const hashBatteryCertificate = async (
+    certificate: BatteryCertificate,
+    labels: BatteryCertificateLabels,
+    locale: string = 'es'
+): Promise<{ html: string; hash: string }> => {
+    const hash = await sha256Hex(batteryCertificateToHtml(certificate, labels, locale));
+    return { html: batteryCertificateToHtml(certificate, labels, locale, hash), hash };
+};
+
+/**
+ * Whether a certificate file still matches its embedded hash.
+ * Anyone can recompute the hash, so this does not prove who generated the file
+ */
+export const checkBatteryCertificateHash = async (html: string): Promise<boolean> => {
+    const match = html.match(new RegExp(`<meta name="${CERTIFICATE_HASH_META}" content="([0-9a-f]{64})">`));
+    if (!match) return false;
+    const hash = match[1];
+    return await sha256Hex(html.split(hash).join('')) === hash;
+};
+
+/**
+ * File to download for a hashed certificate
+ */
+export const buildBatteryCertificateFile = (certificate: BatteryCertificate, html: string): ExportFile => ({
+    name: `Certificado_Bateria_${certificate.generatedAt.slice(0, 10).replace(/-/g, '')}.html`,
+    mime: 'text/html;charset=utf-8',
+    content: html
+});
@@ -0,0 +1,112 @@
+// BYD Stats - BYD SQLite Database Utilities
+// Reads and writes the EC_database.db format produced by the car's EnergyData folder
+
+import { Trip } from '../types';
+
+export const ENERGY_TABLE = 'EnergyConsumption';
+export const DEFAULT_DB_LOCALE = 'es_ES';
+
+/**
+ * Columns of the EnergyConsumption table in the order the car writes them
+ */
+export const ENERGY_COLUMNS = [
+    '_id', 'month', 'date', 'start_timestamp', 'end_timestamp',
+    'is_deleted', 'duration', 'trip', 'electricity', 'fuel'
+] as const;
+
+/**
+ * Schema statements matching the car's EC_database_Hybrid.db
+ * sqlite_sequence is created by SQLite itself for AUTOINCREMENT tables
+ */
+const SCHEMA_SQL = [
+    'CREATE TABLE android_metadata (locale TEXT)',
+    `CREATE TABLE ${ENERGY_TABLE} (_id INTEGER PRIMARY KEY AUTOINCREMENT, month TEXT, date TEXT, start_timestamp INTEGER, end_timestamp INTEGER, is_deleted INTEGER DEFAULT 0, duration INTEGER, trip REAL, electricity REAL, fuel REAL )`
+];
+
+/**
+ * Reads all non-deleted trips from an open sql.js database
+ * @param db - sql.js Database instance
+ * @returns Trips ordered by date and start time
+ * @throws Error if the EnergyConsumption table is missing or empty
+ */
+export const readEnergyConsumption = (db: any): Trip[] => {
+    const t = db.exec(`SELECT name FROM sqlite_master WHERE type='table' AND name='${ENERGY_TABLE}'`);
+    if (!t.length || !t[0].values.length) {
+        throw new Error('Tabla no encontrada');
+    }
+
+    const res = db.exec(`SELECT * FROM ${ENERGY_TABLE} WHERE is_deleted = 0 ORDER BY date, start_timestamp`);
+    if (!res.length || !res[0].values.length) {
+        throw new Error('Sin datos');
+    }
+
+    const cols: string[] = res[0].columns;
+    return res[0].values.map((r: any[]) => {
+        const o: any = {};
+        cols.forEach((c, i) => { o[c] = r[i]; });
+        return o as Trip;
+    });
+};
+
+/**
+ * Original row ids are kept only when every trip has a distinct one,
+ * otherwise (e.g. merged imports) SQLite assigns fresh ids
+ */
+const canKeepRowIds = (trips: Trip[]): boolean => {
+    const ids = new Set<number>();
+    for (const trip of trips) {
+        if (!Number.isInteger(trip._id) || ids.has(trip._id as number)) return false;
+        ids.add(trip._id as number);
+    }
+    return true;
+};
+
+/**
+ * Builds a BYD-compatible SQLite file from trips
+ * @param SQL - Initialised sql.js module
+ * @param trips - Trips to write
+ * @param locale - Value stored in android_metadata
+ * @returns Raw database bytes
+ */
+export const buildEnergyConsumptionDatabase = (SQL: any, trips: Trip[], locale: string = DEFAULT_DB_LOCALE): Uint8Array => {
+    const db = new SQL.Database();
+
+    try {
+        SCHEMA_SQL.forEach(sql => db.run(sql));
+        db.run('INSERT INTO android_metadata (locale) VALUES (?)', [locale]);
+
+        const keepIds = canKeepRowIds(trips);
+        const stmt = db.prepare(`
+            INSERT INTO ${ENERGY_TABLE} (${ENERGY_COLUMNS.join(', ')})
+            VALUES (${ENERGY_COLUMNS.map(() => '?').join(', ')})
+        `);
+
+        const sorted = [...trips].sort((a, b) => {
+            const dateComp = (a.date || '').localeCompare(b.date || '');
+            if (dateComp !== 0) return dateComp;
+            return (a.start_timestamp || 0) - (b.start_timestamp || 0);
+        });
+
+        sorted.forEach(trip => {
+            const start = trip.start_timestamp || 0;
+            const duration = trip.duration || 0;
+            stmt.run([
+                keepIds ? trip._id : null,
+                trip.month || (trip.date ? trip.date.substring(0, 6) : ''),
+                trip.date || '',
+                start,
+                trip.end_timestamp || (start ? start + duration : 0),
+                0,
+                duration,
+                trip.trip || 0,
+                trip.electricity || 0,
+                trip.fuel || 0
+            ]);
+        });
+        stmt.free();
+
+        return db.export();
+    } finally {
+        db.close();
+    }
+};
@@ -1,5 +1,7 @@
 
 import { Charge, Settings, Trip } from '../types';
+import { getVehicleProfile } from './vehicleModels';
+import { formatMinutes, getActiveTariff, getCheapestSlots, getChargeDate, getPriceVersion, getTariffPrice, isHomeCharge, isTariffHoliday } from './tariffs';
 
 export interface ChargingRecommendation {
     type: 'balanced' | 'slow' | 'fast' | 'mixed';
@@ -19,6 +21,7 @@ export interface CostSavingsAnalysis {
     feasibleInOffPeak: boolean;
     deficitKwh: number; // If not feasible, how much is missing
     offPeakWindowHours: number;
+    offPeakWindow?: string; // Cheapest weekday window, HH:MM-HH:MM
 }
 
 /**
@@ -33,8 +36,8 @@ export const ChargingLogic = {
     calculateOptimalChargeDay: (dailyStats: { day: string; km: number }[], settings?: Settings): string => {
         if (!dailyStats || dailyStats.length === 0) return 'Domingo';
 
-        // If Off-Peak is enabled, prioritize weekends (Saturday/Sunday)
-        if (settings?.offPeakEnabled) {
+        // With a time-of-use tariff, prioritize weekends (Saturday/Sunday)
+        if (getActiveTariff(settings)) {
             const isWeekend = (d: string) => ['sábado', 'sabado', 'domingo', 'saturday', 'sunday', 'sat', 'sun'].some(w => d.toLowerCase().includes(w));
             const weekendStats = dailyStats.filter(d => isWeekend(d.day));
 
@@ -126,6 +129,13 @@ export const ChargingLogic = {
 
         const isWeekendTariff = (dIndex: number) => dIndex === 0 || dIndex === 6;
 
+        // Cheapest tariff slots of a day; without a tariff, nights until 08:00 and whole weekends
+        const tariff = getActiveTariff(settings);
+        const cheapSlotsFor = (date: Date): { startMins: number; endMins: number }[] => {
+            if (tariff) return getCheapestSlots(tariff, date);
+            return [{ startMins: 0, endMins: isWeekendTariff(date.getDay()) ? 24 * 60 : 8 * 60 }];
+        };
+
         // Analyze historical trips for weekend gaps
         const dayAvailability = new Map<number, { start: number, end: number }[]>();
         if (trips && trips.length > 5) {
@@ -166,7 +176,8 @@ export const ChargingLogic = {
             startMins: number;
             endMins: number;
             duration: number;
-            score: number
+            score: number;
+            tariffEndMins: number;
         }[] = [];
 
         // 2. Simulation Loop (The "AI Probe")
@@ -175,6 +186,11 @@ export const ChargingLogic = {
             const jsDayIndex = (1 + d) % 7; // Mon(1) -> Sun(0)
             const dayName = days[jsDayIndex];
 
+            const day = new Date(startOfWeek);
+            day.setDate(day.getDate() + d);
+            const cheapSlots = cheapSlotsFor(day);
+            const isCheapAllDay = cheapSlots.some(s => s.startMins === 0 && s.endMins >= 24 * 60);
+
             // Probe every 3 hours to "discover" stay windows
             for (let h = 0; h < 24; h += 3) {
                 const simDate = new Date(startOfWeek);
@@ -194,23 +210,23 @@ export const ChargingLogic = {
                     const end = Math.min(naturalStartMins + naturalDurationMins, slot.end);
 
                     if (end - start > 60) {
-                        // Check overlap with current day valley
-                        let tStart = 0, tEnd = 8 * 60;
-                        if (isWeekendTariff(jsDayIndex)) tEnd = 24 * 60;
-
-                        const wStart = Math.max(start, tStart);
-                        const wEnd = Math.min(end, tEnd);
-
-                        if (wEnd > wStart + 30) {
-                            candidates.push({
-                                day: dayName,
-                                dayIndex: jsDayIndex,
-                                startMins: wStart,
-                                endMins: wEnd,
-                                duration: (wEnd - wStart) / 60,
-                                score: (wEnd - wStart) / 60 * (isWeekendTariff(jsDayIndex) ? 2.0 : 0.5)
-                            });
-                        }
+                        // Check overlap with the cheapest tariff slots of the day
+                        cheapSlots.forEach(tariffSlot => {
+                            const wStart = Math.max(start, tariffSlot.startMins);
+                            const wEnd = Math.min(end, tariffSlot.endMins);
+
+                            if (wEnd > wStart + 30) {
+                                candidates.push({
+                                    day: dayName,
+                                    dayIndex: jsDayIndex,
+                                    startMins: wStart,
+                                    endMins: wEnd,
+                                    duration: (wEnd - wStart) / 60,
+                                    score: (wEnd - wStart) / 60 * (isCheapAllDay ? 2.0 : 0.5),
+                                    tariffEndMins: tariffSlot.endMins
+                                });
+                            }
+                        });
                     }
                 });
             }
@@ -249,7 +265,8 @@ export const ChargingLogic = {
                         startMins: sMins,
                         endMins: eMins,
                         duration: (eMins - sMins) / 60,
-                        score: 9999
+                        score: 9999,
+                        tariffEndMins: eMins
                     });
                 }
             });
@@ -346,7 +363,7 @@ export const ChargingLogic = {
                 day: s.day,
                 start: formatTime(s.startMins),
                 end: formatTime(s.endMins),
-                tariffLimit: isWeekendTariff(s.dayIndex) ? "23:59" : "08:00",
+                tariffLimit: formatMinutes(Math.min(s.tariffEndMins, 1439)),
                 startMins: s.startMins,
                 endMins: s.endMins
             })),
@@ -373,7 +390,7 @@ export const ChargingLogic = {
 
     /**
      * Recommends charging type (Slow vs Fast)
-     * Prioritizes 'slow' if calibration hasn't happened recently (e.g. > 1 month)
+     * Prioritizes 'slow' if calibration hasn't happened recently (e.g. > 1 month), for chemistries that need it
      * Prioritizes 'mixed' if weekly usage > battery capacity
      * Prioritizes 'off-peak' if cost savings are significant
      */
@@ -407,14 +424,15 @@ export const ChargingLogic = {
             }
         }
 
-        // 2. Check calibration/balancing need
+        // 2. Check calibration/balancing need (LFP)
+        const needsFullCharge = getVehicleProfile(settings || { batterySize: 0 }).params.needsFullCharge;
         let lastBalancing = lastCalibrationDate ? new Date(lastCalibrationDate) : undefined;
         if (!lastBalancing && lastSlowChargeDate) {
             // Fallback to last slow charge to 100% if explicit calibration date unknown
             lastBalancing = new Date(lastSlowChargeDate);
         }
 
-        if (!lastBalancing || lastBalancing < oneMonthAgo) {
+        if (needsFullCharge && (!lastBalancing || lastBalancing < oneMonthAgo)) {
             return {
                 type: 'slow',
                 reason: 'recommend_calibration', // Translation key
@@ -478,20 +496,28 @@ export const ChargingLogic = {
         settings: Settings,
         avgDailyConsumptionKwh: number
     ): CostSavingsAnalysis => {
-        if (!settings.offPeakEnabled || !settings.offPeakStart || !settings.offPeakEnd || !settings.offPeakPrice) {
+        const tariff = getActiveTariff(settings);
+        const cheapestPriceAt = (date: Date) => {
+            const prices = tariff ? Object.values(getPriceVersion(tariff, date)?.prices ?? {}) : [];
+            return prices.length > 0 ? Math.min(...prices) : 0;
+        };
+
+        if (!tariff || !cheapestPriceAt(new Date())) {
             return { potentialMonthlySavings: 0, feasibleInOffPeak: true, deficitKwh: 0, offPeakWindowHours: 0 };
         }
 
-        const offPeakPrice = settings.offPeakPrice;
-        // Parse Window
-        const [startH, startM] = settings.offPeakStart.split(':').map(Number);
-        const [endH, endM] = settings.offPeakEnd.split(':').map(Number);
-        // Use variables to silence linter
-        void startM; void endM;
+        // Cheapest window of the next working day (the night slot before midnight joins the one after it)
+        const weekday = new Date();
+        while (weekday.getDay() === 0 || weekday.getDay() === 6 || isTariffHoliday(tariff, weekday)) weekday.setDate(weekday.getDate() + 1);
+        const cheapSlots = getCheapestSlots(tariff, weekday);
+        const windowHours = cheapSlots.reduce((sum, s) => sum + (s.endMins - s.startMins), 0) / 60;
 
-        let windowHours = 0;
-        if (endH > startH) windowHours = endH - startH;
-        else windowHours = (24 - startH) + endH; // Crosses midnight
+        const late = cheapSlots.find(s => s.startMins > 0 && s.endMins >= 1440);
+        const early = cheapSlots.find(s => s.startMins === 0);
+        const first = late || cheapSlots[0];
+        const offPeakWindow = first
+            ? `${formatMinutes(first.startMins)}-${formatMinutes(late && early ? early.endMins : first.endMins)}`
+            : undefined;
 
         // 1. Feasibility Check with Home Charger
         const chargerPowerKw = ((settings.homeChargerRating || 8) * 230) / 1000; // V approx
@@ -522,10 +548,12 @@ export const ChargingLogic = {
 
             charges.forEach(c => {
                 if (c.type === 'electric') {
-                    const currentCost = c.totalCost;
                     const kwh = c.kwhCharged || 0;
-                    // Potential cost if charged at off-peak
-                    const potentialCost = kwh * offPeakPrice;
+                    const chargeDate = getChargeDate(c);
+                    // Home charges cost the tariff price at the time; public ones their entered cost
+                    const currentCost = isHomeCharge(c, settings.chargerTypes) ? kwh * getTariffPrice(tariff, chargeDate) : c.totalCost;
+                    // Potential cost if charged in the cheapest period at the prices of that date
+                    const potentialCost = kwh * cheapestPriceAt(chargeDate);
 
                     if (currentCost > potentialCost) {
                         totalSavings += (currentCost - potentialCost);
@@ -540,7 +568,8 @@ export const ChargingLogic = {
             potentialMonthlySavings: Math.max(0, monthlySavings),
             feasibleInOffPeak: feasible,
             deficitKwh: deficit,
-            offPeakWindowHours: windowHours
+            offPeakWindowHours: windowHours,
+            offPeakWindow
         };
     },
 
@@ -1,5 +1,7 @@
 // BYD Stats - Constants
 
+import { ChargerType } from '../types';
+
 export const BYD_RED = '#EA0029';
 
 // Storage keys
@@ -7,6 +9,16 @@ export const STORAGE_KEY = 'byd_stats_data';
 export const TRIP_HISTORY_KEY = 'byd_trip_history';
 export const CHARGES_STORAGE_KEY = 'byd_charges_data';
 export const SETTINGS_KEY = 'byd_settings';
+export const CSV_PROFILES_KEY = 'byd_csv_profiles'; // Shared by all cars
+export const SCHEMA_VERSION_KEY = 'byd_schema_version';
+export const SCHEMA_BACKUPS_KEY = 'byd_schema_backups';
+export const SYNC_BASE_KEY = 'byd_sync_base'; // Last synced state, common ancestor for merges
+export const SYNC_TOMBSTONES_KEY = 'byd_sync_tombstones';
+export const SYNC_PROVIDER_KEY = 'byd_sync_provider'; // Shared by all cars
+export const WEBDAV_CONFIG_KEY = 'byd_webdav_config';
+export const BACKUP_PASSPHRASE_KEY = 'byd_backup_passphrase';
+export const ANOMALY_LOG_KEY = 'byd_anomaly_log';
+export const RESTORE_POINTS_KEY = 'byd_restore_points';
 
 // Layout constants - Tab padding values with safe-area support
 export const TAB_PADDING = '12px 12px calc(96px + env(safe-area-inset-bottom)) 12px';
@@ -32,6 +44,14 @@ export const dayNamesFull: Record<string, string> = {
     'Dom': 'Domingo'
 };
 
+// Default charger types configuration
+export const DEFAULT_CHARGER_TYPES: ChargerType[] = [
+    { id: 'domestic', name: '240V (Doméstico)', speedKw: 2.4, efficiency: 0.85 },
+    { id: 'slow', name: 'Carga lenta', speedKw: 7.4, efficiency: 0.90 },
+    { id: 'fast', name: 'Carga rápida', speedKw: 50, efficiency: 0.92 },
+    { id: 'ultrafast', name: 'Carga ultrarrápida', speedKw: 150, efficiency: 0.95 }
+];
+
 // Default settings
 export const DEFAULT_SETTINGS = {
     carModel: '',
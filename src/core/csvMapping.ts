@@ -0,0 +1,474 @@
+// BYD Stats - CSV Column Mapping
+// Turns CSVs from other tools into trips and charges using a user-confirmed column mapping
+
+import { Trip } from '../types';
+import { ChargeCsvRow, ChargeCsvRowSchema } from '../utils/validation';
+import {
+    TripImportAdapter,
+    TripImportResult,
+    TripImportRowError,
+    readSourceText,
+    validateTrip,
+    getTripImporters,
+    registerTripImporter,
+    unregisterTripImporter
+} from './tripImporters';
+import { ImportRowError, rowErrorFromZod } from './importReport';
+
+export type CsvImportTarget = 'trips' | 'charges';
+export type CsvDelimiter = ',' | ';' | '\t' | '|';
+export type CsvDateFormat = 'YYYY-MM-DD HH:mm' | 'DD/MM/YYYY HH:mm' | 'MM/DD/YYYY HH:mm' | 'unix' | 'unix_ms';
+
+export interface CsvUnits {
+    distance: 'km' | 'mi';
+    duration: 'min' | 's' | 'h';
+    energy: 'kWh' | 'Wh';
+}
+
+export interface CsvRow {
+    line: number; // 1-based line in the file
+    values: string[];
+    raw: string;
+}
+
+/**
+ * Saved mapping from CSV columns to Trip/Charge fields
+ */
+export interface CsvMappingProfile {
+    id: string;
+    name: string;
+    target: CsvImportTarget;
+    delimiter: CsvDelimiter;
+    hasHeader: boolean;
+    dateFormat: CsvDateFormat;
+    units: CsvUnits;
+    mapping: Record<string, number | null>; // field -> column index
+    headerSignature?: string; // Normalised header, used to recognise the same source again
+}
+
+export interface CsvFieldDef {
+    key: string;
+    required: boolean;
+    aliases: string[]; // Normalised (lowercase, no accents, alphanumeric only)
+}
+
+export const CSV_DELIMITERS: CsvDelimiter[] = [',', ';', '\t', '|'];
+export const CSV_DATE_FORMATS: CsvDateFormat[] = ['YYYY-MM-DD HH:mm', 'DD/MM/YYYY HH:mm', 'MM/DD/YYYY HH:mm', 'unix', 'unix_ms'];
+export const DEFAULT_CSV_UNITS: CsvUnits = { distance: 'km', duration: 'min', energy: 'kWh' };
+
+export const TRIP_CSV_FIELDS: CsvFieldDef[] = [
+    { key: 'start', required: true, aliases: ['inicio', 'start', 'starttime', 'startdate', 'fecha', 'date', 'datetime', 'fechayhora', 'salida', 'departure'] },
+    { key: 'end', required: false, aliases: ['fin', 'end', 'endtime', 'enddate', 'llegada', 'arrival'] },
+    { key: 'duration', required: false, aliases: ['duracion', 'duration', 'tiempo', 'minutos', 'minutes'] },
+    { key: 'distance', required: true, aliases: ['distancia', 'distance', 'kilometros', 'recorrido', 'mileage', 'miles', 'km'] },
+    { key: 'electricity', required: true, aliases: ['energia', 'energy', 'electricidad', 'electricity', 'consumo', 'consumption', 'kwh'] },
+    { key: 'fuel', required: false, aliases: ['combustible', 'fuel', 'gasolina', 'litros', 'liters', 'litres'] }
+];
+
+export const CHARGE_CSV_FIELDS: CsvFieldDef[] = [
+    { key: 'datetime', required: true, aliases: ['fechayhora', 'fecha', 'date', 'datetime', 'inicio', 'start', 'timestamp'] },
+    { key: 'odometer', required: false, aliases: ['kmtotales', 'odometro', 'odometer', 'kilometraje', 'mileage', 'km'] },
+    { key: 'kwhCharged', required: true, aliases: ['kwhfacturados', 'kwhcargados', 'kwhcharged', 'energia', 'energy', 'kwh'] },
+    { key: 'totalCost', required: false, aliases: ['preciototal', 'coste', 'costo', 'cost', 'total', 'importe'] },
+    { key: 'pricePerKwh', required: false, aliases: ['preciokw', 'preciokwh', 'pricekwh', 'priceperkwh', 'tarifa'] },
+    { key: 'chargerType', required: false, aliases: ['tipodecargador', 'cargador', 'chargertype', 'charger', 'tipo', 'type'] },
+    { key: 'initialPercentage', required: false, aliases: ['socinicial', 'porcentajeinicial', 'initialsoc', 'startsoc'] },
+    { key: 'finalPercentage', required: false, aliases: ['porcentajefinal', 'socfinal', 'finalsoc', 'endsoc'] }
+];
+
+export const getCsvFields = (target: CsvImportTarget): CsvFieldDef[] =>
+    target === 'trips' ? TRIP_CSV_FIELDS : CHARGE_CSV_FIELDS;
+
+/**
+ * Lowercase, accent-free, alphanumeric-only version of a header cell
+ */
+export const normalizeHeader = (value: string): string =>
+    value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export const getHeaderSignature = (headers: string[]): string =>
+    headers.map(normalizeHeader).join('|');
+
+/**
+ * Picks the delimiter that splits the first lines into the same (largest) number of columns
+ */
+export const detectDelimiter = (text: string): CsvDelimiter => {
+    const sample = text.split(/\r?\n/).filter(l => l.trim()).slice(0, 5);
+    let best: CsvDelimiter = ',';
+    let bestScore = 0;
+
+    CSV_DELIMITERS.forEach(delimiter => {
+        const counts = sample.map(line => splitCsvRecord(line, delimiter).length - 1);
+        if (counts.length === 0 || counts[0] === 0) return;
+        const consistent = counts.every(c => c === counts[0]);
+        const score = consistent ? counts[0] * 2 : Math.min(...counts);
+        if (score > bestScore) {
+            best = delimiter;
+            bestScore = score;
+        }
+    });
+
+    return best;
+};
+
+/**
+ * Splits a single CSV line, honouring quotes and "" escapes
+ */
+const splitCsvRecord = (line: string, delimiter: string): string[] => {
+    const values: string[] = [];
+    let current = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (inQuotes) {
+            if (char === '"' && line[i + 1] === '"') {
+                current += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                current += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            values.push(current.trim());
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+    values.push(current.trim());
+    return values;
+};
+
+/**
+ * Parses CSV text into rows, skipping blank lines
+ */
+export const parseCsv = (text: string, delimiter: CsvDelimiter): CsvRow[] =>
+    text.replace(/^\uFEFF/, '').split(/\r?\n/).reduce<CsvRow[]>((rows, line, index) => {
+        if (line.trim()) rows.push({ line: index + 1, values: splitCsvRecord(line, delimiter), raw: line });
+        return rows;
+    }, []);
+
+/**
+ * Guesses which column holds each field from the header names
+ * Exact alias matches win over partial ones; each column is used once
+ */
+export const guessColumnMapping = (headers: string[], target: CsvImportTarget): Record<string, number | null> => {
+    const normalized = headers.map(normalizeHeader);
+    const used = new Set<number>();
+    const mapping: Record<string, number | null> = {};
+
+    const fields = getCsvFields(target);
+    fields.forEach(field => { mapping[field.key] = null; });
+
+    // Two passes so that exact matches are never stolen by a partial match of an earlier field
+    [true, false].forEach(exact => {
+        fields.forEach(field => {
+            if (mapping[field.key] !== null) return;
+            for (const alias of field.aliases) {
+                const index = normalized.findIndex((h, i) =>
+                    !used.has(i) && (exact ? h === alias : (alias.length >= 3 && h.includes(alias)))
+                );
+                if (index !== -1) {
+                    mapping[field.key] = index;
+                    used.add(index);
+                    return;
+                }
+            }
+        });
+    });
+
+    return mapping;
+};
+
+/**
+ * Guesses units from unit hints in the header, e.g. "Distance (mi)" or "Energy (Wh)"
+ */
+export const guessUnits = (headers: string[], mapping: Record<string, number | null>): CsvUnits => {
+    const header = (key: string) => {
+        const index = mapping[key];
+        return index !== null && index !== undefined ? (headers[index] || '').toLowerCase() : '';
+    };
+
+    const distance = header('distance');
+    const duration = header('duration');
+    const energy = header('electricity') || header('kwhCharged');
+
+    return {
+        distance: /\bmi\b|miles|millas/.test(distance) ? 'mi' : 'km',
+        duration: /\(s\)|\bseg|\bsec/.test(duration) ? 's' : /\(h\)|horas|hours/.test(duration) ? 'h' : 'min',
+        energy: /\bwh\b/.test(energy) && !/kwh/.test(energy) ? 'Wh' : 'kWh'
+    };
+};
+
+const YMD_REGEX = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[ T,]+(\d{1,2}):(\d{2})(?::(\d{2}))?)?/;
+const DMY_REGEX = /^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})(?:[ T,]+(\d{1,2}):(\d{2})(?::(\d{2}))?)?/;
+
+/**
+ * Parses a date/time cell in the given format as local time
+ * @returns Date or null if the value does not match
+ */
+export const parseCsvDateTime = (value: string, format: CsvDateFormat): Date | null => {
+    const trimmed = (value || '').trim();
+    if (!trimmed) return null;
+
+    if (format === 'unix' || format === 'unix_ms') {
+        if (!/^\d+(\.\d+)?$/.test(trimmed)) return null;
+        const ms = format === 'unix' ? parseFloat(trimmed) * 1000 : parseFloat(trimmed);
+        return new Date(ms);
+    }
+
+    const match = trimmed.match(format === 'YYYY-MM-DD HH:mm' ? YMD_REGEX : DMY_REGEX);
+    if (!match) return null;
+
+    let year: number, month: number, day: number;
+    if (format === 'YYYY-MM-DD HH:mm') {
+        [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+    } else if (format === 'DD/MM/YYYY HH:mm') {
+        [day, month, year] = [Number(match[1]), Number(match[2]), Number(match[3])];
+    } else {
+        [month, day, year] = [Number(match[1]), Number(match[2]), Number(match[3])];
+    }
+
+    if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+    const date = new Date(year, month - 1, day, Number(match[4] || 0), Number(match[5] || 0), Number(match[6] || 0));
+    // Reject rollovers such as 31/02
+    if (date.getMonth() !== month - 1) return null;
+    return date;
+};
+
+/**
+ * Guesses the date format from sample cells
+ * Day-first is preferred when the samples are ambiguous
+ */
+export const guessDateFormat = (samples: string[]): CsvDateFormat => {
+    const values = samples.map(s => (s || '').trim()).filter(Boolean);
+    if (values.length === 0) return 'YYYY-MM-DD HH:mm';
+
+    if (values.every(v => /^\d{12,13}$/.test(v))) return 'unix_ms';
+    if (values.every(v => /^\d{9,10}$/.test(v))) return 'unix';
+    if (values.every(v => YMD_REGEX.test(v))) return 'YYYY-MM-DD HH:mm';
+
+    const parts = values.map(v => v.match(DMY_REGEX)).filter((m): m is RegExpMatchArray => !!m);
+    if (parts.some(m => Number(m[2]) > 12) && parts.every(m => Number(m[1]) <= 12)) return 'MM/DD/YYYY HH:mm';
+    return 'DD/MM/YYYY HH:mm';
+};
+
+/**
+ * Parses numbers with either decimal separator and stray units/currency symbols
+ * @returns NaN for empty or non-numeric cells
+ */
+export const parseCsvNumber = (value: string | undefined): number => {
+    if (value === undefined) return NaN;
+    let cleaned = value.replace(/[^\d,.-]/g, '');
+    if (!cleaned) return NaN;
+
+    const lastComma = cleaned.lastIndexOf(',');
+    const lastDot = cleaned.lastIndexOf('.');
+    if (lastComma > lastDot) {
+        // "1.234,5" or "12,5": comma is the decimal separator
+        cleaned = cleaned.replace(/\./g, '').replace(',', '.');
+    } else {
+        cleaned = cleaned.replace(/,/g, '');
+    }
+    return parseFloat(cleaned);
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/**
+ * Splits the rows into header and data according to the profile
+ */
+export const splitHeader = (rows: CsvRow[], hasHeader: boolean): { headers: string[]; dataRows: CsvRow[] } => {
+    if (!hasHeader || rows.length === 0) {
+        const width = rows.reduce((max, r) => Math.max(max, r.values.length), 0);
+        return { headers: Array.from({ length: width }, (_, i) => `#${i + 1}`), dataRows: rows };
+    }
+    return { headers: rows[0].values, dataRows: rows.slice(1) };
+};
+
+/**
+ * Throws if a required field has no column assigned
+ */
+const assertRequiredFields = (profile: CsvMappingProfile): void => {
+    const missing = getCsvFields(profile.target).filter(f => f.required && (profile.mapping[f.key] === null || profile.mapping[f.key] === undefined));
+    if (missing.length > 0) {
+        throw new Error(`Faltan columnas obligatorias: ${missing.map(f => f.key).join(', ')}`);
+    }
+};
+
+const cell = (row: CsvRow, profile: CsvMappingProfile, key: string): string | undefined => {
+    const index = profile.mapping[key];
+    return index === null || index === undefined ? undefined : row.values[index];
+};
+
+/**
+ * Builds trips from mapped rows, converting units to km, seconds and kWh
+ */
+export const applyTripMapping = (rows: CsvRow[], profile: CsvMappingProfile): TripImportResult => {
+    assertRequiredFields(profile);
+
+    const { dataRows } = splitHeader(rows, profile.hasHeader);
+    const trips: Trip[] = [];
+    const errors: TripImportRowError[] = [];
+    const reject = (row: CsvRow, message: string) =>
+        errors.push({ line: row.line, message, raw: row.raw });
+
+    dataRows.forEach(row => {
+        const start = parseCsvDateTime(cell(row, profile, 'start') || '', profile.dateFormat);
+        if (!start) return reject(row, `Fecha inválida: ${cell(row, profile, 'start') || ''}`);
+
+        const distance = parseCsvNumber(cell(row, profile, 'distance'));
+        const energy = parseCsvNumber(cell(row, profile, 'electricity'));
+        if (isNaN(distance)) return reject(row, 'Distancia inválida');
+        if (isNaN(energy)) return reject(row, 'Energía inválida');
+
+        const startTs = Math.floor(start.getTime() / 1000);
+        let duration = parseCsvNumber(cell(row, profile, 'duration'));
+        if (!isNaN(duration)) {
+            duration = Math.round(duration * (profile.units.duration === 'h' ? 3600 : profile.units.duration === 'min' ? 60 : 1));
+        } else {
+            const end = parseCsvDateTime(cell(row, profile, 'end') || '', profile.dateFormat);
+            duration = end ? Math.max(0, Math.floor(end.getTime() / 1000) - startTs) : 0;
+        }
+
+        const fuel = parseCsvNumber(cell(row, profile, 'fuel'));
+        const month = `${start.getFullYear()}${pad(start.getMonth() + 1)}`;
+
+        const trip: Trip = {
+            date: `${month}${pad(start.getDate())}`,
+            month,
+            start_timestamp: startTs,
+            end_timestamp: startTs + duration,
+            duration,
+            trip: profile.units.distance === 'mi' ? distance * 1.609344 : distance,
+            electricity: profile.units.energy === 'Wh' ? energy / 1000 : energy,
+            ...(isNaN(fuel) ? {} : { fuel })
+        };
+
+        const error = validateTrip(trip, row.line, row.raw);
+        if (error) errors.push(error); else trips.push(trip);
+    });
+
+    trips.sort((a, b) => a.start_timestamp - b.start_timestamp);
+    return { trips, errors, totalRows: dataRows.length, header: profile.hasHeader ? rows[0]?.raw : undefined };
+};
+
+/**
+ * Builds validated charge rows (same shape as REGISTRO_CARGAS.csv) from mapped rows
+ * Missing cost or price per kWh is derived from the other one
+ */
+export const applyChargeMapping = (
+    rows: CsvRow[],
+    profile: CsvMappingProfile
+): { charges: ChargeCsvRow[]; errors: ImportRowError[]; totalRows: number; header?: string } => {
+    assertRequiredFields(profile);
+
+    const { dataRows } = splitHeader(rows, profile.hasHeader);
+    const charges: ChargeCsvRow[] = [];
+    const errors: ImportRowError[] = [];
+
+    dataRows.forEach(row => {
+        const raw = row.raw;
+        const date = parseCsvDateTime(cell(row, profile, 'datetime') || '', profile.dateFormat);
+        if (!date) {
+            errors.push({ line: row.line, message: `Fecha inválida: ${cell(row, profile, 'datetime') || ''}`, raw });
+            return;
+        }
+
+        const energy = parseCsvNumber(cell(row, profile, 'kwhCharged'));
+        const kwhCharged = profile.units.energy === 'Wh' ? energy / 1000 : energy;
+        let totalCost = parseCsvNumber(cell(row, profile, 'totalCost'));
+        let pricePerKwh = parseCsvNumber(cell(row, profile, 'pricePerKwh'));
+        if (isNaN(totalCost) && !isNaN(pricePerKwh)) totalCost = kwhCharged * pricePerKwh;
+        if (isNaN(pricePerKwh) && !isNaN(totalCost) && kwhCharged > 0) pricePerKwh = totalCost / kwhCharged;
+
+        const odometer = parseCsvNumber(cell(row, profile, 'odometer'));
+        const initial = parseCsvNumber(cell(row, profile, 'initialPercentage'));
+        const final = parseCsvNumber(cell(row, profile, 'finalPercentage'));
+
+        const validation = ChargeCsvRowSchema.safeParse({
+            date: `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`,
+            time: `${pad(date.getHours())}:${pad(date.getMinutes())}`,
+            odometer: isNaN(odometer) ? 0 : (profile.units.distance === 'mi' ? odometer * 1.609344 : odometer),
+            kwhCharged,
+            totalCost: isNaN(totalCost) ? 0 : totalCost,
+            chargerType: cell(row, profile, 'chargerType') || 'Unknown',
+            pricePerKwh: isNaN(pricePerKwh) ? 0 : pricePerKwh,
+            initialPercentage: isNaN(initial) ? undefined : initial,
+            finalPercentage: isNaN(final) ? undefined : final
+        });
+
+        if (validation.success) {
+            charges.push(validation.data);
+        } else {
+            errors.push(rowErrorFromZod(row.line, validation.error, raw));
+        }
+    });
+
+    return { charges, errors, totalRows: dataRows.length, header: profile.hasHeader ? rows[0]?.raw : undefined };
+};
+
+/**
+ * Builds a first-guess profile for a file: delimiter, header, mapping, date format and units
+ */
+export const guessCsvProfile = (text: string, target: CsvImportTarget): Omit<CsvMappingProfile, 'id' | 'name'> => {
+    const delimiter = detectDelimiter(text);
+    const rows = parseCsv(text, delimiter);
+    const firstRow = rows[0]?.values || [];
+
+    // A header row has labels and no date-like cells
+    const hasHeader = firstRow.some(v => /[a-z]/i.test(v))
+        && !firstRow.some(v => YMD_REGEX.test(v) || DMY_REGEX.test(v) || /^\d{9,13}$/.test(v));
+    const { headers, dataRows } = splitHeader(rows, hasHeader);
+    const mapping = guessColumnMapping(hasHeader ? headers : [], target);
+    getCsvFields(target).forEach(f => { if (!(f.key in mapping)) mapping[f.key] = null; });
+
+    const dateKey = target === 'trips' ? 'start' : 'datetime';
+    const dateIndex = mapping[dateKey];
+    const dateFormat = dateIndex !== null
+        ? guessDateFormat(dataRows.slice(0, 20).map(r => r.values[dateIndex]))
+        : 'YYYY-MM-DD HH:mm';
+
+    return {
+        target,
+        delimiter,
+        hasHeader,
+        dateFormat,
+        units: hasHeader ? guessUnits(headers, mapping) : { ...DEFAULT_CSV_UNITS },
+        mapping,
+        headerSignature: hasHeader ? getHeaderSignature(headers) : undefined
+    };
+};
+
+export const CSV_PROFILE_ADAPTER_PREFIX = 'csv-profile:';
+
+/**
+ * Wraps a saved trip profile as an import adapter that recognises files with the same header
+ */
+export const createCsvProfileAdapter = (profile: CsvMappingProfile): TripImportAdapter => ({
+    id: `${CSV_PROFILE_ADAPTER_PREFIX}${profile.id}`,
+    label: profile.name,
+    extensions: ['.csv', '.txt'],
+    sniff: (source) => {
+        if (!profile.headerSignature) return false;
+        const firstLine = readSourceText(source).split(/\r?\n/).find(l => l.trim()) || '';
+        return getHeaderSignature(splitCsvRecord(firstLine, profile.delimiter)) === profile.headerSignature;
+    },
+    parse: (source) => applyTripMapping(parseCsv(readSourceText(source), profile.delimiter), profile)
+});
+
+/**
+ * Keeps the import registry in line with the saved trip profiles
+ */
+export const syncCsvProfileImporters = (profiles: CsvMappingProfile[]): void => {
+    getTripImporters()
+        .filter(a => a.id.startsWith(CSV_PROFILE_ADAPTER_PREFIX))
+        .forEach(a => unregisterTripImporter(a.id));
+
+    profiles
+        .filter(p => p.target === 'trips' && p.headerSignature)
+        .forEach(p => registerTripImporter(createCsvProfileAdapter(p)));
+};
@@ -0,0 +1,251 @@
+// BYD Stats - Data Export
+// CSV and JSON exports of trips and charges that the importers read back
+
+import { Charge, ChargerType, Trip, TripTag } from '../types';
+import { ExportDocumentSchema } from '../utils/validation';
+
+export type ExportScope = 'trips' | 'charges' | 'both';
+export type ExportFormat = 'csv' | 'json';
+
+export const EXPORT_DOCUMENT_FORMAT = 'byd-stats-export';
+export const EXPORT_DOCUMENT_VERSION = 1;
+
+/**
+ * Inclusive date range, YYYYMMDD. Missing bounds are open
+ */
+export interface ExportDateRange {
+    from?: string;
+    to?: string;
+}
+
+/**
+ * Versioned JSON export. Carries every stored field, so it is the lossless format
+ */
+export interface ExportDocument {
+    format: typeof EXPORT_DOCUMENT_FORMAT;
+    version: number;
+    exportedAt: string; // ISO date
+    range: ExportDateRange;
+    trips?: Trip[];
+    charges?: Charge[];
+    chargerTypes?: ChargerType[]; // Referenced by charges[].chargerTypeId
+    tripTags?: TripTag[]; // Referenced by trips[].tags
+}
+
+export interface ExportFile {
+    name: string;
+    mime: string;
+    content: string;
+}
+
+export interface ExportOptions {
+    scope: ExportScope;
+    format: ExportFormat;
+    trips: Trip[];
+    charges: Charge[];
+    chargerTypes?: ChargerType[];
+    tripTags?: TripTag[];
+    range?: ExportDateRange;
+    exportedAt?: Date;
+}
+
+export const TRIP_EXPORT_HEADERS = [
+    'Inicio',
+    'Duracion',
+    'Distancia (km)',
+    'Energia consumida (kWh)',
+    'Combustible (L)',
+    'Coste eléctrico (€)',
+    'Coste combustible (€)',
+    'Etiquetas'
+];
+
+// Tag ids in the Etiquetas column
+export const TRIP_TAG_SEPARATOR = '|';
+
+export const CHARGE_EXPORT_HEADERS = [
+    'Fecha y Hora',
+    'km totales',
+    'kWh facturados',
+    'Precio Total (€)',
+    'Eficiencia (kWh/100)',
+    'Tipo de cargador',
+    'Precio kW',
+    'Porcentaje final de carga',
+    'Porcentaje inicial de carga',
+    'Tipo',
+    'Litros'
+];
+
+/**
+ * Date range of the active filter (same rules as useAppData)
+ */
+export const getExportDateRange = (filterType: string, selMonth: string, dateFrom: string, dateTo: string): ExportDateRange => {
+    if (filterType === 'month' && selMonth) {
+        return { from: `${selMonth}01`, to: `${selMonth}31` };
+    }
+    if (filterType === 'range') {
+        return {
+            from: dateFrom ? dateFrom.replace(/-/g, '') : undefined,
+            to: dateTo ? dateTo.replace(/-/g, '') : undefined
+        };
+    }
+    return {};
+};
+
+/**
+ * @param date - YYYYMMDD or YYYY-MM-DD
+ */
+export const isInExportRange = (date: string, range: ExportDateRange): boolean => {
+    const value = (date || '').replace(/-/g, '');
+    if (range.from && value < range.from) return false;
+    if (range.to && value > range.to) return false;
+    return true;
+};
+
+export const filterChargesByRange = (charges: Charge[], range: ExportDateRange): Charge[] =>
+    charges.filter(c => isInExportRange(c.date, range));
+
+// Every field quoted, as in REGISTRO_VIAJES.csv: the importers drop empty unquoted fields
+const quote = (value: string | number | undefined | null): string =>
+    `"${value === undefined || value === null ? '' : String(value).replace(/"/g, '""')}"`;
+
+export const csvLine = (values: Array<string | number | undefined | null>): string => values.map(quote).join(',');
+
+const pad = (n: number): string => String(n).padStart(2, '0');
+
+/**
+ * Local date and time with seconds, so the start timestamp survives the round trip
+ */
+export const formatExportDateTime = (timestamp: number): string => {
+    const d = new Date(timestamp * 1000);
+    return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())} ${pad(d.getHours())}:${pad(d.getMinutes())}:${pad(d.getSeconds())}`;
+};
+
+// Derived values only; stored values are written as-is
+const round4 = (value: number | undefined): number | undefined =>
+    value === undefined ? undefined : Math.round(value * 10000) / 10000;
+
+/**
+ * REGISTRO_VIAJES.csv with the fuel, cost and tag columns appended
+ * Duration is written in minutes (the CSV unit) with enough decimals to keep whole seconds
+ */
+export const tripsToCsv = (trips: Trip[]): string => {
+    const rows = [...trips]
+        .sort((a, b) => (a.start_timestamp || 0) - (b.start_timestamp || 0))
+        .map(t => csvLine([
+            formatExportDateTime(t.start_timestamp),
+            round4((t.duration || 0) / 60),
+            t.trip,
+            t.electricity,
+            t.fuel,
+            round4(t.electricCost),
+            round4(t.fuelCost),
+            t.tags?.join(TRIP_TAG_SEPARATOR)
+        ]));
+
+    return [csvLine(TRIP_EXPORT_HEADERS), ...rows].join('\n');
+};
+
+/**
+ * REGISTRO_CARGAS.csv with initial percentage, charge type and liters appended
+ * Charger types are written by name, which is how the importer matches them
+ */
+export const chargesToCsv = (charges: Charge[], chargerTypes: ChargerType[] = []): string => {
+    const names = new Map(chargerTypes.map(ct => [ct.id, ct.name]));
+
+    const rows = [...charges]
+        .sort((a, b) => `${a.date} ${a.time}`.localeCompare(`${b.date} ${b.time}`))
+        .map(c => {
+            const isFuel = c.type === 'fuel';
+            return csvLine([
+                `${c.date} ${c.time}`,
+                c.odometer ?? 0,
+                c.kwhCharged || 0,
+                c.totalCost || 0,
+                '',
+                names.get(c.chargerTypeId) || c.chargerTypeId,
+                isFuel ? (c.pricePerLiter ?? c.pricePerKwh) : c.pricePerKwh,
+                c.finalPercentage,
+                c.initialPercentage,
+                c.type || 'electric',
+                isFuel ? c.litersCharged : undefined
+            ]);
+        });
+
+    return [csvLine(CHARGE_EXPORT_HEADERS), ...rows].join('\n');
+};
+
+export const buildExportDocument = (options: ExportOptions): ExportDocument => {
+    const { scope, trips, charges, chargerTypes = [], tripTags = [], range = {}, exportedAt = new Date() } = options;
+    const doc: ExportDocument = {
+        format: EXPORT_DOCUMENT_FORMAT,
+        version: EXPORT_DOCUMENT_VERSION,
+        exportedAt: exportedAt.toISOString(),
+        range
+    };
+
+    if (scope !== 'charges') {
+        const used = new Set(trips.flatMap(t => t.tags || []));
+        doc.trips = trips;
+        doc.tripTags = tripTags.filter(tag => used.has(tag.id));
+    }
+    if (scope !== 'trips') {
+        const used = new Set(charges.map(c => c.chargerTypeId));
+        doc.charges = charges;
+        doc.chargerTypes = chargerTypes.filter(ct => used.has(ct.id));
+    }
+    return doc;
+};
+
+/**
+ * Parses a JSON export
+ * @throws Error if the text is not an export or comes from a newer version of the app
+ */
+export const parseExportDocument = (text: string): ExportDocument => {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error('El archivo no es un JSON válido');
+    }
+
+    const validation = ExportDocumentSchema.safeParse(data);
+    if (!validation.success) {
+        throw new Error('El archivo no es una exportación de BYD Stats');
+    }
+    if (validation.data.version > EXPORT_DOCUMENT_VERSION) {
+        throw new Error(`Versión de exportación no soportada (${validation.data.version}). Actualiza la aplicación`);
+    }
+
+    return { range: {}, ...validation.data } as unknown as ExportDocument;
+};
+
+/**
+ * Files to download for the selected scope and format. Empty when there is nothing to export
+ */
+export const buildExportFiles = (options: ExportOptions): ExportFile[] => {
+    const { scope, format, trips, charges, chargerTypes = [], exportedAt = new Date() } = options;
+    const stamp = exportedAt.toISOString().slice(0, 10);
+    const withTrips = scope !== 'charges' && trips.length > 0;
+    const withCharges = scope !== 'trips' && charges.length > 0;
+
+    if (!withTrips && !withCharges) return [];
+
+    if (format === 'json') {
+        return [{
+            name: `BYD_Stats_${stamp}.json`,
+            mime: 'application/json',
+            content: JSON.stringify(buildExportDocument({ ...options, exportedAt }), null, 2)
+        }];
+    }
+
+    const files: ExportFile[] = [];
+    if (withTrips) {
+        files.push({ name: `REGISTRO_VIAJES_${stamp}.csv`, mime: 'text/csv;charset=utf-8', content: tripsToCsv(trips) });
+    }
+    if (withCharges) {
+        files.push({ name: `REGISTRO_CARGAS_${stamp}.csv`, mime: 'text/csv;charset=utf-8', content: chargesToCsv(charges, chargerTypes) });
+    }
+    return files;
+};
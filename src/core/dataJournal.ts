@@ -0,0 +1,165 @@
+// BYD Stats - Data Journal
+// Undo/redo of data changes and restore points: snapshots of a car's trips, charges, settings and car details
+
+import { Car, Charge, Settings, Trip } from '../types';
+import { Tombstone, chargeSyncKey, tripSyncKey } from './syncMerge';
+
+/**
+ * A car's data at one moment. Records are immutable state, so a snapshot shares them with the app
+ */
+export interface DataSnapshot {
+    trips: Trip[];
+    charges: Charge[];
+    settings: Settings;
+    car?: Car;
+}
+
+export type JournalAction =
+    | 'import'
+    | 'sync'
+    | 'clearTrips'
+    | 'loadHistory'
+    | 'clearCharges'
+    | 'replaceCharges'
+    | 'editTrips'
+    | 'editCharges'
+    | 'tags'
+    | 'settings'
+    | 'restorePoint';
+
+/**
+ * The data as it was before `action` (in the undo list) or before undoing it (in the redo list)
+ */
+export interface JournalEntry {
+    id: string;
+    action: JournalAction;
+    createdAt: number;
+    snapshot: DataSnapshot;
+}
+
+export interface DataJournal {
+    undo: JournalEntry[]; // Oldest first
+    redo: JournalEntry[]; // Oldest first
+}
+
+export type RestorePointReason = 'import' | 'sync' | 'manual' | 'rollback';
+
+export interface RestorePoint {
+    id: string;
+    reason: RestorePointReason;
+    createdAt: number;
+    date: string; // YYYY-MM-DD, for the date index
+    size: number; // Bytes of the stored snapshot
+    trips: number;
+    charges: number;
+    snapshot: DataSnapshot;
+}
+
+export const JOURNAL_LIMIT = 20;
+export const RESTORE_POINT_LIMIT = 10; // Automatic points kept per car; manual ones are only removed by the user
+
+export const EMPTY_JOURNAL: DataJournal = { undo: [], redo: [] };
+
+export const sameSnapshot = (a: DataSnapshot, b: DataSnapshot): boolean =>
+    a.trips === b.trips && a.charges === b.charges && a.settings === b.settings && a.car === b.car;
+
+/**
+ * Whether two snapshots hold the same records and settings, even as different objects
+ */
+export const sameSnapshotData = (a: DataSnapshot, b: DataSnapshot): boolean =>
+    sameSnapshot(a, b) || JSON.stringify([a.trips, a.charges, a.settings]) === JSON.stringify([b.trips, b.charges, b.settings]);
+
+const entry = (action: JournalAction, snapshot: DataSnapshot, now: number): JournalEntry =>
+    ({ id: `${now}-${Math.random().toString(36).slice(2, 8)}`, action, createdAt: now, snapshot });
+
+/**
+ * Adds the data as it was before `action`. A new change drops what could be redone
+ */
+export const recordJournalEntry = (
+    journal: DataJournal,
+    action: JournalAction,
+    before: DataSnapshot,
+    now: number = Date.now(),
+    limit: number = JOURNAL_LIMIT
+): DataJournal => {
+    const last = journal.undo[journal.undo.length - 1];
+    // Nothing changed since the last entry was recorded
+    if (last && sameSnapshot(last.snapshot, before)) return { undo: journal.undo, redo: [] };
+    return { undo: [...journal.undo, entry(action, before, now)].slice(-limit), redo: [] };
+};
+
+/**
+ * Takes the latest change back: returns the data to apply and keeps `current` to redo it
+ */
+export const undoJournal = (journal: DataJournal, current: DataSnapshot, now: number = Date.now()): { journal: DataJournal; entry: JournalEntry } | null => {
+    const last = journal.undo[journal.undo.length - 1];
+    if (!last) return null;
+    return {
+        journal: { undo: journal.undo.slice(0, -1), redo: [...journal.redo, entry(last.action, current, now)] },
+        entry: last
+    };
+};
+
+export const redoJournal = (journal: DataJournal, current: DataSnapshot, now: number = Date.now()): { journal: DataJournal; entry: JournalEntry } | null => {
+    const last = journal.redo[journal.redo.length - 1];
+    if (!last) return null;
+    return {
+        journal: { undo: [...journal.undo, entry(last.action, current, now)], redo: journal.redo.slice(0, -1) },
+        entry: last
+    };
+};
+
+/**
+ * Brings back the deleted records of a snapshot: they get a fresh updatedAt, so they win over the tombstones a sync
+ * already shared, and their local tombstones are dropped, so imports and the next sync keep them
+ * @returns null when the snapshot has no deleted records
+ */
+export const reviveDeletedRecords = (
+    snapshot: DataSnapshot,
+    tombstones: Tombstone[],
+    now: number = Date.now()
+): { snapshot: DataSnapshot; tombstones: Tombstone[] } | null => {
+    const deleted = new Set(tombstones.map(t => `${t.kind}:${t.key}`));
+    const revived = new Set<string>();
+    const revive = <T extends Trip | Charge>(record: T, id: string): T => {
+        if (!deleted.has(id)) return record;
+        revived.add(id);
+        return { ...record, updatedAt: now };
+    };
+
+    const trips = snapshot.trips.map(trip => revive(trip, `trips:${tripSyncKey(trip)}`));
+    const charges = snapshot.charges.map(charge => revive(charge, `charges:${chargeSyncKey(charge)}`));
+    if (revived.size === 0) return null;
+
+    return {
+        snapshot: { ...snapshot, trips, charges },
+        tombstones: tombstones.filter(t => !revived.has(`${t.kind}:${t.key}`))
+    };
+};
+
+export const createRestorePoint = (snapshot: DataSnapshot, reason: RestorePointReason, now: number = Date.now()): RestorePoint => ({
+    id: `${now}-${reason}`,
+    reason,
+    createdAt: now,
+    date: new Date(now).toISOString().slice(0, 10),
+    size: new TextEncoder().encode(JSON.stringify(snapshot)).length,
+    trips: snapshot.trips.length,
+    charges: snapshot.charges.length,
+    snapshot
+});
+
+/**
+ * Whether two restore points hold the same data (a sync that changed nothing needs no new point)
+ */
+export const sameRestorePointData = (a: RestorePoint, b: RestorePoint): boolean =>
+    a.size === b.size && JSON.stringify(a.snapshot) === JSON.stringify(b.snapshot);
+
+/**
+ * Adds a point, keeping the newest automatic points within the limit
+ */
+export const addRestorePoint = (points: RestorePoint[], point: RestorePoint, limit: number = RESTORE_POINT_LIMIT): RestorePoint[] => {
+    const sorted = [...points, point].sort((a, b) => a.createdAt - b.createdAt);
+    const automatic = sorted.filter(p => p.reason !== 'manual');
+    const dropped = new Set(automatic.slice(0, Math.max(0, automatic.length - limit)).map(p => p.id));
+    return sorted.filter(p => !dropped.has(p.id));
+};
@@ -3,8 +3,15 @@
 import { BYD_RED } from './constants';
 // @ts-ignore
 import { formatMonth, formatDate } from './dateUtils';
-import { Trip, Charge, ProcessedData, Summary, MonthlyData, DailyData, Settings } from '../types';
+import { Trip, Charge, ProcessedData, Summary, MonthlyData, DailyData, Settings, TagSummary } from '../types';
 import { calculateAdvancedSoH } from './batteryCalculations.ts';
+import { getCostingTariff, getTariffChargeCost } from './tariffs';
+import { getVehicleProfile } from './vehicleModels';
+import { addToTagBreakdown, finalizeTagBreakdown } from './tripTags';
+import { toTripUnits } from './journeys';
+import { detectRoutes } from './recurringRoutes';
+import { TripEnergyCost, costBasis, runEnergyInventory } from './energyInventory';
+import { tripSyncKey } from './syncMerge';
 
 interface AggregatedStats {
     totalKm: number;
@@ -28,7 +35,7 @@ interface AggregatedStats {
 }
 
 interface PriceStrategies {
-    elec: { strategy: string; custom: number; avg: number; processed: Charge[] };
+    elec: { strategy: string; custom: number; avg: number; processed: Charge[]; fifo?: Map<string, TripEnergyCost>; basis?: number | null };
     fuel: { strategy: string; custom: number; avg: number; processed: Charge[] };
 }
 
@@ -90,10 +97,55 @@ function getPriceForTrip(trip: Trip, strategy: string, customPrice: number, avgP
 }
 
 /**
- * Formats and pre-processes price settings and charges for lookup
+ * Electricity price strategy of the settings. The settings screen stores it as the legacy `priceStrategy`
+ * (plus `useCalculatedPrice` for 'average'), which wins over `electricStrategy`
  */
-function preparePriceStrategies(priceSettings: Settings, charges: Charge[]): PriceStrategies {
-    const elecStrategy = priceSettings.electricStrategy || 'custom';
+export const getElectricStrategy = (settings: Partial<Settings>): NonNullable<Settings['electricStrategy']> => {
+    if (settings.useCalculatedPrice) return 'average';
+    if (settings.priceStrategy) return settings.priceStrategy as NonNullable<Settings['electricStrategy']>;
+    return settings.electricStrategy || (settings.electricPrice ? 'custom' : 'average');
+};
+
+/**
+ * The settings processData reads, with numbers parsed and the price strategy resolved.
+ * The worker only gets these, so a setting processData uses must be copied here
+ */
+export const getProcessingSettings = (settings: Partial<Settings> = {}) => ({
+    electricStrategy: getElectricStrategy(settings),
+    fuelStrategy: settings.fuelStrategy || 'average',
+    electricPrice: Number(settings.electricPrice) || 0,
+    fuelPrice: Number(settings.fuelPrice) || 0,
+    batterySize: Number(settings.batterySize) || 0,
+    soh: Number(settings.soh) || 100,
+    sohMode: settings.sohMode || 'manual',
+    mfgDate: settings.mfgDate,
+    vehicleModelId: settings.vehicleModelId,
+    chargerTypes: settings.chargerTypes || [],
+    thermalStressFactor: parseFloat(String(settings.thermalStressFactor)) || 1.0,
+    // Home charges are costed with the active tariff (or the legacy off-peak window)
+    tariffs: settings.tariffs || [],
+    activeTariffId: settings.activeTariffId,
+    offPeakEnabled: settings.offPeakEnabled,
+    offPeakStart: settings.offPeakStart,
+    offPeakEnd: settings.offPeakEnd,
+    offPeakStartWeekend: settings.offPeakStartWeekend,
+    offPeakEndWeekend: settings.offPeakEndWeekend,
+    offPeakPrice: settings.offPeakPrice,
+    // Trips or journeys as the unit of counts, averages and records
+    tripUnit: settings.tripUnit,
+    journeyGapMinutes: settings.journeyGapMinutes,
+    // Recurring routes
+    namedRoutes: settings.namedRoutes || [],
+    hemisphere: settings.hemisphere,
+    odometerOffset: parseFloat(String(settings.odometerOffset)) || 0
+});
+
+/**
+ * Formats and pre-processes price settings and charges for lookup.
+ * The FIFO strategy prices `history` (every trip drawing energy, not only the ones being costed) up front
+ */
+function preparePriceStrategies(priceSettings: Settings, charges: Charge[], history: Trip[] = []): PriceStrategies {
+    const elecStrategy = getElectricStrategy(priceSettings);
     const fuelStrategy = priceSettings.fuelStrategy || 'custom';
     const elecCustomPrice = typeof priceSettings.electricPrice === 'string' ? parseFloat(priceSettings.electricPrice) : (priceSettings.electricPrice || 0);
     const fuelCustomPrice = typeof priceSettings.fuelPrice === 'string' ? parseFloat(priceSettings.fuelPrice) : (priceSettings.fuelPrice || 0);
@@ -104,7 +156,14 @@ function preparePriceStrategies(priceSettings: Settings, charges: Charge[]): Pri
     let processedFuelCharges: Charge[] = [];
 
     if (charges && charges.length > 0) {
-        const eCharges = charges.filter(c => !c.type || c.type === 'electric');
+        const tariff = getCostingTariff(priceSettings);
+        // Home charges cost what the tariff charged at the time; the rest keep their entered cost
+        const eCharges = charges
+            .filter(c => !c.type || c.type === 'electric')
+            .map(c => {
+                const tariffCost = getTariffChargeCost(c, tariff, priceSettings.chargerTypes);
+                return tariffCost === null ? c : { ...c, totalCost: tariffCost };
+            });
         const fCharges = charges.filter(c => c.type === 'fuel');
 
         const eKwh = eCharges.reduce((s, c) => s + (c.kwhCharged || 0), 0);
@@ -113,7 +172,7 @@ function preparePriceStrategies(priceSettings: Settings, charges: Charge[]): Pri
         const fLiters = fCharges.reduce((s, c) => s + (c.litersCharged || 0), 0);
         if (fLiters > 0) fuelAvgPrice = fCharges.reduce((s, c) => s + (c.totalCost || 0), 0) / fLiters;
 
-        if (elecStrategy === 'dynamic') {
+        if (elecStrategy === 'dynamic' || elecStrategy === 'fifo') {
             processedElectricCharges = eCharges.map(c => {
                 const ts = new Date(`${c.date}T${c.time || "00:00"}:00`).getTime() / 1000;
                 return { ...c, timestamp: ts, effectivePrice: c.kwhCharged > 0 ? (c.totalCost / c.kwhCharged) : 0 };
@@ -128,8 +187,19 @@ function preparePriceStrategies(priceSettings: Settings, charges: Charge[]): Pri
         }
     }
 
+    let fifo: Map<string, TripEnergyCost> | undefined;
+    let basis: number | null | undefined;
+    if (elecStrategy === 'fifo') {
+        // Energy no logged charge explains costs the average price, as with the average strategy
+        const fallback = elecAvgPrice > 0 ? elecAvgPrice : elecCustomPrice;
+        const capacity = typeof priceSettings.batterySize === 'string' ? parseFloat(priceSettings.batterySize) : (priceSettings.batterySize || 0);
+        const inventory = runEnergyInventory(history, processedElectricCharges, fallback, capacity || 0);
+        fifo = inventory.trips;
+        basis = costBasis(inventory.lots);
+    }
+
     return {
-        elec: { strategy: elecStrategy, custom: elecCustomPrice, avg: elecAvgPrice, processed: processedElectricCharges },
+        elec: { strategy: elecStrategy, custom: elecCustomPrice, avg: elecAvgPrice, processed: processedElectricCharges, fifo, basis },
         fuel: { strategy: fuelStrategy, custom: fuelCustomPrice, avg: fuelAvgPrice, processed: processedFuelCharges }
     };
 }
@@ -144,16 +214,44 @@ function calculateTripCost(trip: Trip, strategies: PriceStrategies): number {
     const ePrice = getPriceForTrip(trip, strategies.elec.strategy, strategies.elec.custom, strategies.elec.avg, strategies.elec.processed);
     const fPrice = getPriceForTrip(trip, strategies.fuel.strategy, strategies.fuel.custom, strategies.fuel.avg, strategies.fuel.processed);
 
-    const tripCost = (tElec * ePrice) + (tFuel * fPrice);
+    // FIFO: the mixed price of the charges the trip drew from
+    const fifoCost = strategies.elec.fifo?.get(tripSyncKey(trip));
+    const electricCost = fifoCost ? fifoCost.cost : tElec * ePrice;
+    const tripCost = electricCost + (tFuel * fPrice);
 
     // Decorate trip object with cost details
     trip.calculatedCost = tripCost;
-    trip.electricCost = tElec * ePrice;
+    trip.electricCost = electricCost;
+    if (fifoCost) trip.energySources = fifoCost.sources;
     trip.fuelCost = tFuel * fPrice;
 
     return tripCost;
 }
 
+/**
+ * Copies of the trips with the cost fields processData would add (calculatedCost, electricCost, fuelCost)
+ * processData runs in the worker, so callers on the main thread use this instead
+ * @param history All trips of the car when `trips` is only part of them (FIFO strategy)
+ */
+export function calculateTripCosts(trips: Trip[], priceSettings: Settings = {} as Settings, charges: Charge[] = [], history: Trip[] = trips): Trip[] {
+    const strategies = preparePriceStrategies(priceSettings, charges, history);
+    return trips.map(t => {
+        const trip = { ...t };
+        calculateTripCost(trip, strategies);
+        return trip;
+    });
+}
+
+/**
+ * Electricity price a trip starting now would be costed at (dynamic strategy: the latest charge;
+ * FIFO: the cost basis of the energy left after `trips`)
+ */
+export function getCurrentElectricPrice(priceSettings: Settings = {} as Settings, charges: Charge[] = [], trips: Trip[] = []): number {
+    const { elec } = preparePriceStrategies(priceSettings, charges, trips);
+    if (elec.basis) return elec.basis;
+    return getPriceForTrip({ start_timestamp: Number.MAX_SAFE_INTEGER } as Trip, elec.strategy, elec.custom, elec.avg, elec.processed);
+}
+
 /**
  * Updates aggregators and stats with trip data
  */
@@ -247,7 +345,8 @@ function finalizeSummary(
 
     // Advanced SoH Calculation
     if (settings.mfgDate) {
-        sohData = calculateAdvancedSoH(charges, settings.mfgDate, batterySize, settings.chargerTypes, settings.thermalStressFactor || 1.0);
+        const { chemistry } = getVehicleProfile(settings);
+        sohData = calculateAdvancedSoH(charges, settings.mfgDate, batterySize, settings.chargerTypes, settings.thermalStressFactor || 1.0, chemistry);
         if (settings.sohMode === 'calculated') {
             soh = sohData.estimated_soh;
         }
@@ -307,16 +406,39 @@ function finalizeSummary(
     };
 }
 
+const isStoredTrip = (trip: Trip): boolean => trip && typeof trip.trip === 'number' && trip.trip >= 0;
+
+/**
+ * Routes of the shown driving trips. They are detected on the whole `history` when given,
+ * so a filter only narrows their stats and does not split or hide a route
+ */
+function detectTripRoutes(shownTrips: Trip[], rows: Trip[], history: Trip[] | undefined, strategies: PriceStrategies, priceSettings: Settings) {
+    const options = { hemisphere: priceSettings.hemisphere };
+    if (!history || history === rows) return detectRoutes(shownTrips, priceSettings.namedRoutes, options);
+
+    const storedHistory = history.filter(isStoredTrip);
+    storedHistory.forEach(trip => calculateTripCost(trip, strategies));
+    const drivingHistory = toTripUnits(storedHistory, priceSettings).filter(trip => !isStationaryTrip(trip));
+
+    const shown = new Set(shownTrips.map(tripSyncKey));
+    return detectRoutes(drivingHistory, priceSettings.namedRoutes, { ...options, shown: trip => shown.has(tripSyncKey(trip)) });
+}
+
 /**
  * Core data processing function
  * Processes raw trip data into statistics and aggregated data
+ * @param history All trips of the car when `rows` is filtered: FIFO prices and recurring routes use it
  */
-export function processData(rows: Trip[], priceSettings: Settings = {} as Settings, charges: Charge[] = [], language: string = 'es'): ProcessedData | null {
+export function processData(rows: Trip[], priceSettings: Settings = {} as Settings, charges: Charge[] = [], language: string = 'es', history?: Trip[]): ProcessedData | null {
     if (!rows || rows.length === 0) return null;
 
-    const strategies = preparePriceStrategies(priceSettings, charges);
-    const allTrips = rows.filter(r => r && typeof r.trip === 'number' && r.trip >= 0);
-    if (allTrips.length === 0) return null;
+    const strategies = preparePriceStrategies(priceSettings, charges, history || rows);
+    const storedTrips = rows.filter(isStoredTrip);
+    if (storedTrips.length === 0) return null;
+
+    // Each stored trip is costed at its own price; journeys add up the costs of their segments
+    storedTrips.forEach(trip => calculateTripCost(trip, strategies));
+    const allTrips = toTripUnits(storedTrips, priceSettings);
 
     // Aggregators & Stats
     const stats: AggregatedStats = {
@@ -338,10 +460,11 @@ export function processData(rows: Trip[], priceSettings: Settings = {} as Settin
     ];
     const efficiencyScatter: { x: number; y: number; fuel: number }[] = [];
     const validTrips: Trip[] = [];
+    const tagBreakdown: Record<string, TagSummary> = {};
 
     // Main Processing Loop
     for (const trip of allTrips) {
-        const tripCost = calculateTripCost(trip, strategies);
+        const tripCost = trip.calculatedCost || 0;
 
         if ((trip.fuel || 0) > 0) stats.hasAnyFuel = true;
 
@@ -355,6 +478,7 @@ export function processData(rows: Trip[], priceSettings: Settings = {} as Settin
 
         // Process active trip
         validTrips.push(trip);
+        addToTagBreakdown(tagBreakdown, trip, tripCost);
         updateAggregators(trip, stats, monthlyData, dailyData, uniqueDates, hourlyData, weekdayData, tripDistribution, efficiencyScatter);
     }
 
@@ -399,6 +523,8 @@ export function processData(rows: Trip[], priceSettings: Settings = {} as Settin
         tripDist: tripDistribution,
         effScatter: efficiencyScatter,
         top: topRecords,
-        isHybrid: stats.hasAnyFuel
+        isHybrid: stats.hasAnyFuel,
+        tagBreakdown: finalizeTagBreakdown(tagBreakdown),
+        routes: detectTripRoutes(validTrips, rows, history, strategies, priceSettings)
     };
 }
@@ -0,0 +1,106 @@
+// BYD Stats - Energy Inventory
+// FIFO cost accounting of the battery: charges add energy at their price, trips draw the oldest energy first
+
+import { Charge, EnergySource, Trip } from '../types';
+import { tripSyncKey } from './syncMerge';
+
+const EPSILON = 1e-6;
+
+export interface EnergyLot {
+    chargeId: string;
+    date: string;
+    price: number;
+    kwh: number; // Still in the battery
+}
+
+export interface TripEnergyCost {
+    cost: number;
+    sources: EnergySource[];
+}
+
+export interface EnergyInventory {
+    trips: Map<string, TripEnergyCost>; // By tripSyncKey
+    lots: EnergyLot[]; // Energy left after the last trip, oldest first
+}
+
+/**
+ * Price per kWh of the energy left in the battery, or null if no logged charge is left
+ */
+export const costBasis = (lots: EnergyLot[]): number | null => {
+    const kwh = lots.reduce((sum, lot) => sum + lot.kwh, 0);
+    return kwh > EPSILON ? lots.reduce((sum, lot) => sum + lot.kwh * lot.price, 0) / kwh : null;
+};
+
+/**
+ * Combines the sources of several trips, one entry per charge
+ */
+export const mergeEnergySources = (sources: EnergySource[]): EnergySource[] => {
+    const merged = new Map<string, EnergySource>();
+    sources.forEach(source => {
+        const key = source.chargeId ?? `unlogged-${source.price}`;
+        const entry = merged.get(key);
+        if (entry) entry.kwh += source.kwh;
+        else merged.set(key, { ...source });
+    });
+    return [...merged.values()];
+};
+
+// Takes `kwh` from the oldest lots; what they cannot cover is priced at `fallbackPrice`
+const draw = (lots: EnergyLot[], kwh: number, fallbackPrice: number): TripEnergyCost => {
+    const sources: EnergySource[] = [];
+    let needed = kwh;
+    while (needed > EPSILON && lots.length > 0) {
+        const lot = lots[0];
+        const used = Math.min(lot.kwh, needed);
+        sources.push({ chargeId: lot.chargeId, date: lot.date, kwh: used, price: lot.price });
+        lot.kwh -= used;
+        needed -= used;
+        if (lot.kwh <= EPSILON) lots.shift();
+    }
+    if (needed > EPSILON) sources.push({ kwh: needed, price: fallbackPrice });
+    return { cost: sources.reduce((sum, s) => sum + s.kwh * s.price, 0), sources };
+};
+
+/**
+ * Runs the trips and electric charges in time order through the battery's energy inventory.
+ * A charge before a trip's start adds its kWh at its price; each trip draws its consumption from the oldest energy.
+ * With a `capacity`, energy beyond it is taken as used by driving no trip logged, oldest first.
+ * Trips without consumption draw nothing
+ * @param charges Electric charges with `timestamp` and `effectivePrice`
+ * @param fallbackPrice Price of energy no logged charge explains (e.g. from before the first one)
+ */
+export const runEnergyInventory = (trips: Trip[], charges: Charge[], fallbackPrice: number, capacity: number = 0): EnergyInventory => {
+    const sortedTrips = trips
+        .filter(trip => trip && typeof trip.start_timestamp === 'number')
+        .sort((a, b) => a.start_timestamp - b.start_timestamp);
+    const sortedCharges = [...charges].sort((a, b) => (a.timestamp || 0) - (b.timestamp || 0));
+
+    const lots: EnergyLot[] = [];
+    const result = new Map<string, TripEnergyCost>();
+    let next = 0;
+
+    const addCharge = (charge: Charge) => {
+        const kwh = charge.kwhCharged || 0;
+        if (kwh <= 0) return;
+        lots.push({ chargeId: charge.id, date: charge.date, price: charge.effectivePrice || 0, kwh });
+        if (capacity <= 0) return;
+        let excess = lots.reduce((sum, lot) => sum + lot.kwh, 0) - capacity;
+        while (excess > EPSILON && lots.length > 1) {
+            const dropped = Math.min(lots[0].kwh, excess);
+            lots[0].kwh -= dropped;
+            excess -= dropped;
+            if (lots[0].kwh <= EPSILON) lots.shift();
+        }
+    };
+
+    for (const trip of sortedTrips) {
+        while (next < sortedCharges.length && (sortedCharges[next].timestamp || 0) < trip.start_timestamp) {
+            addCharge(sortedCharges[next++]);
+        }
+        const kwh = trip.electricity || 0;
+        result.set(tripSyncKey(trip), kwh > 0 ? draw(lots, kwh, fallbackPrice) : { cost: 0, sources: [] });
+    }
+    while (next < sortedCharges.length) addCharge(sortedCharges[next++]);
+
+    return { trips: result, lots };
+};
@@ -0,0 +1,110 @@
+// BYD Stats - Fleet Comparison
+// Side-by-side metrics of every car, with fuel converted to kWh so EVs and PHEVs compare
+
+import { FUEL_ENERGY_EQUIVALENT_KWH } from './constants';
+import { calculateTripCosts, getProcessingSettings, processData } from './dataProcessing';
+import { Car, Charge, Settings, Trip } from '../types';
+
+export interface FleetCarData {
+    car: Car;
+    trips: Trip[];
+    charges: Charge[];
+    settings: Settings;
+}
+
+export interface FleetCarStats {
+    carId: string;
+    name: string;
+    isHybrid: boolean;
+    totalKm: number; // Includes the odometer offset, as the dashboard
+    drivenKm: number; // Trip km, the base of every per km figure
+    electricKwh: number; // Driving consumption
+    fuelLiters: number;
+    energyKwh: number; // Electricity plus fuel as kWh equivalent
+    efficiency: number; // kWh (equivalent) / 100 km
+    electricEfficiency: number; // kWh / 100 km, electricity only
+    fuelEfficiency: number; // L / 100 km
+    electricShare: number; // % of km driven without fuel
+    totalCost: number;
+    costPerKm: number;
+    monthlyKm: number; // Average over the months with trips
+    monthly: { month: string; km: number }[];
+    soh: number | null;
+}
+
+export interface FleetComparison {
+    cars: FleetCarStats[];
+    totals: { totalKm: number; energyKwh: number; totalCost: number; efficiency: number; costPerKm: number };
+    months: string[]; // YYYYMM, union of every car's months
+}
+
+const round = (value: number, decimals: number): number => {
+    const factor = 10 ** decimals;
+    return Math.round(value * factor) / factor;
+};
+
+/**
+ * Metrics of one car from the same processData summary its dashboard shows.
+ * processData writes the costs into the trips it gets, so it works on copies of the stored ones
+ */
+export const getFleetCarStats = ({ car, trips, charges, settings }: FleetCarData, language: string = 'es'): FleetCarStats => {
+    const processingSettings = getProcessingSettings(settings);
+    const data = processData(trips.map(t => ({ ...t })), processingSettings, charges, language);
+    const summary = data?.summary;
+
+    const drivenKm = parseFloat(summary?.totalKm || '0');
+    const totalKm = drivenKm + processingSettings.odometerOffset;
+    const electricKwh = parseFloat(summary?.drivingKwh || '0');
+    const fuelLiters = parseFloat(summary?.totalFuel || '0');
+    const energyKwh = electricKwh + fuelLiters * FUEL_ENERGY_EQUIVALENT_KWH;
+    const totalCost = calculateTripCosts(trips.filter(t => t && typeof t.trip === 'number' && t.trip >= 0), processingSettings, charges)
+        .reduce((sum, t) => sum + (t.calculatedCost || 0), 0);
+
+    const monthly = (data?.monthly || []).map(m => ({ month: m.month, km: m.km }));
+    const per100 = (value: number) => drivenKm > 0 ? round(value / drivenKm * 100, 2) : 0;
+
+    return {
+        carId: car.id,
+        name: car.name,
+        isHybrid: !!car.isHybrid || !!summary?.isHybrid,
+        totalKm: round(totalKm, 1),
+        drivenKm: round(drivenKm, 1),
+        electricKwh: round(electricKwh, 1),
+        fuelLiters: round(fuelLiters, 2),
+        energyKwh: round(energyKwh, 1),
+        efficiency: per100(energyKwh),
+        electricEfficiency: per100(electricKwh),
+        fuelEfficiency: per100(fuelLiters),
+        electricShare: summary ? parseFloat(summary.electricPercentage) : 0,
+        totalCost: round(totalCost, 2),
+        costPerKm: drivenKm > 0 ? round(totalCost / drivenKm, 3) : 0,
+        monthlyKm: monthly.length > 0 ? round(monthly.reduce((sum, m) => sum + m.km, 0) / monthly.length, 0) : 0,
+        monthly,
+        soh: summary ? round(summary.soh, 1) : null
+    };
+};
+
+/**
+ * Compares every car of the fleet, with totals weighted by distance
+ */
+export const buildFleetComparison = (fleet: FleetCarData[], language: string = 'es'): FleetComparison => {
+    const cars = fleet.map(data => getFleetCarStats(data, language));
+
+    const totalKm = cars.reduce((sum, c) => sum + c.totalKm, 0);
+    const drivenKm = cars.reduce((sum, c) => sum + c.drivenKm, 0);
+    const energyKwh = cars.reduce((sum, c) => sum + c.energyKwh, 0);
+    const totalCost = cars.reduce((sum, c) => sum + c.totalCost, 0);
+    const months = [...new Set(cars.flatMap(c => c.monthly.map(m => m.month)))].sort();
+
+    return {
+        cars,
+        totals: {
+            totalKm: round(totalKm, 1),
+            energyKwh: round(energyKwh, 1),
+            totalCost: round(totalCost, 2),
+            efficiency: drivenKm > 0 ? round(energyKwh / drivenKm * 100, 2) : 0,
+            costPerKm: drivenKm > 0 ? round(totalCost / drivenKm, 3) : 0
+        },
+        months
+    };
+};
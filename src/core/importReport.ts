@@ -0,0 +1,167 @@
+// BYD Stats - Import Report
+// Row-level outcome of a trip or charge import
+
+import type { ZodError } from 'zod';
+import { Charge, Trip } from '../types';
+
+export interface ImportIssue {
+    path: string;
+    message: string;
+}
+
+/**
+ * A row that could not be imported
+ */
+export interface ImportRowError {
+    line: number; // 1-based line (or row) number in the source file
+    message: string;
+    raw?: string;
+    issues?: ImportIssue[];
+}
+
+export interface ImportReport {
+    kind: 'trips' | 'charges';
+    fileName: string;
+    source: string; // Adapter id or importer name
+    createdAt: number;
+    totalRows: number;
+    accepted: number; // New rows
+    duplicates: number; // Already present with the same values, skipped
+    merged: number; // Already present with different values, replaced
+    rejected: ImportRowError[];
+    header?: string; // Header line of the source, reused for the rejected-rows CSV
+}
+
+/**
+ * Flattens Zod issues into path/message pairs
+ */
+export const issuesFromZod = (error: ZodError): ImportIssue[] =>
+    error.issues.map(issue => ({ path: issue.path.join('.'), message: issue.message }));
+
+/**
+ * Builds a row error from a failed Zod validation
+ */
+export const rowErrorFromZod = (line: number, error: ZodError, raw?: string): ImportRowError => {
+    const issues = issuesFromZod(error);
+    return {
+        line,
+        message: issues.map(i => (i.path ? `${i.path}: ${i.message}` : i.message)).join('; '),
+        raw,
+        issues
+    };
+};
+
+export const tripKey = (trip: Trip): string => `${trip.date}-${trip.start_timestamp}`;
+
+const TRIP_VALUE_FIELDS: (keyof Trip)[] = ['trip', 'electricity', 'fuel', 'duration', 'end_timestamp'];
+
+const sameTripValues = (a: Trip, b: Trip): boolean =>
+    TRIP_VALUE_FIELDS.every(field => (a[field] ?? 0) === (b[field] ?? 0));
+
+const hasManualChanges = (trip: Trip): boolean => trip.source === 'manual' || !!trip.editedFields?.length;
+
+/**
+ * The imported version of a trip with what was set in the app: tags and the fields edited by hand
+ */
+const keepManualChanges = (current: Trip, incoming: Trip): Trip => {
+    const trip: Trip = current.tags && !incoming.tags ? { ...incoming, tags: current.tags } : { ...incoming };
+    if (current.editedFields?.length) {
+        trip.editedFields = current.editedFields;
+        current.editedFields.forEach(field => {
+            (trip as unknown as Record<string, unknown>)[field] = current[field as keyof Trip];
+        });
+    }
+    return trip;
+};
+
+/**
+ * Combines imported trips with the existing ones and counts what happened to each row
+ * In replace mode only the trips added or edited by hand are kept; repeated rows inside the file are always duplicates.
+ * Rows with a key in `deletedKeys` (trips the user deleted) count as duplicates and are not brought back
+ */
+export const mergeImportedTrips = (
+    existing: Trip[],
+    incoming: Trip[],
+    merge: boolean,
+    deletedKeys: Set<string> = new Set()
+): { trips: Trip[]; accepted: number; duplicates: number; merged: number } => {
+    const map = new Map<string, Trip>();
+    (merge ? existing : existing.filter(hasManualChanges)).forEach(t => map.set(tripKey(t), t));
+
+    const seen = new Set<string>();
+    let accepted = 0, duplicates = 0, merged = 0;
+
+    incoming.forEach(trip => {
+        const key = tripKey(trip);
+        const current = map.get(key);
+        const next = current ? keepManualChanges(current, trip) : trip;
+
+        if (seen.has(key) || (current && sameTripValues(current, next)) || (!current && deletedKeys.has(key))) {
+            duplicates++;
+        } else if (current) {
+            merged++;
+            map.set(key, next);
+        } else {
+            accepted++;
+            map.set(key, trip);
+        }
+        seen.add(key);
+    });
+
+    const trips = Array.from(map.values()).sort((a, b) => {
+        const dateComp = (a.date || '').localeCompare(b.date || '');
+        if (dateComp !== 0) return dateComp;
+        return (a.start_timestamp || 0) - (b.start_timestamp || 0);
+    });
+
+    return { trips, accepted, duplicates, merged };
+};
+
+const escapeCsv = (value: string): string =>
+    /[",;\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * Rejected rows as CSV: the original header and lines, so they can be fixed and re-imported
+ * When a row has no raw text the line number and error are written instead
+ */
+export const rejectedRowsToCsv = (report: ImportReport): string => {
+    const hasRaw = report.rejected.every(r => r.raw !== undefined);
+    if (hasRaw) {
+        return [report.header, ...report.rejected.map(r => r.raw)].filter(l => l !== undefined).join('\n');
+    }
+
+    return [
+        'line,error',
+        ...report.rejected.map(r => `${r.line},${escapeCsv(r.message)}`)
+    ].join('\n');
+};
+
+/**
+ * First non-empty line of a CSV, used as report header
+ */
+export const firstCsvLine = (text: string): string | undefined =>
+    text.replace(/^\uFEFF/, '').split(/\r?\n/).find(l => l.trim());
+
+/**
+ * Counts imported charges that are new vs. already stored
+ * Uses the same timestamp key as useChargesData.addMultipleCharges, which skips existing ones
+ */
+export const classifyImportedCharges = (
+    existing: Charge[],
+    incoming: Array<{ date: string; time: string }>
+): { accepted: number; duplicates: number } => {
+    const seen = new Set(existing.map(c => c.timestamp));
+    let accepted = 0, duplicates = 0;
+
+    incoming.forEach(c => {
+        const timestamp = new Date(`${c.date}T${c.time}`).getTime();
+        if (seen.has(timestamp)) {
+            duplicates++;
+        } else {
+            accepted++;
+            seen.add(timestamp);
+        }
+    });
+
+    return { accepted, duplicates };
+};
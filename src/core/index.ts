@@ -3,5 +3,5 @@
 export * from './constants';
 export * from './dateUtils';
 export * from './formatters';
-export { processData } from './dataProcessing';
+export { processData, calculateTripCosts, getCurrentElectricPrice } from './dataProcessing';
 
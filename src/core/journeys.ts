@@ -0,0 +1,78 @@
+// BYD Stats - Journeys
+// The car logs a new trip each time it is switched off, so a short stop splits one outing into several segments
+
+import { Settings, Trip } from '../types';
+import { tripSyncKey } from './syncMerge';
+
+export const DEFAULT_JOURNEY_GAP_MINUTES = 10;
+
+const tripEnd = (trip: Trip): number => trip.end_timestamp || (trip.start_timestamp || 0) + (trip.duration || 0);
+
+// Sum of an optional field, undefined when no segment has it
+const sumOptional = (segments: Trip[], field: 'fuel' | 'regeneration' | 'calculatedCost' | 'electricCost' | 'fuelCost'): number | undefined =>
+    segments.some(s => s[field] !== undefined)
+        ? segments.reduce((sum, s) => sum + (s[field] || 0), 0)
+        : undefined;
+
+/**
+ * One journey with the combined distance, energy, driving time and cost of its segments
+ */
+const combineSegments = (segments: Trip[]): Trip => {
+    const first = segments[0];
+    const last = segments[segments.length - 1];
+    const tags = [...new Set(segments.flatMap(s => s.tags || []))];
+
+    const journey: Trip = {
+        date: first.date,
+        month: first.month,
+        start_timestamp: first.start_timestamp,
+        end_timestamp: tripEnd(last),
+        duration: segments.reduce((sum, s) => sum + (s.duration || 0), 0),
+        trip: segments.reduce((sum, s) => sum + (s.trip || 0), 0),
+        electricity: segments.reduce((sum, s) => sum + (s.electricity || 0), 0),
+        start_soc: first.start_soc,
+        end_soc: last.end_soc,
+        segments
+    };
+    if (segments.some(s => s.tags)) journey.tags = tags;
+
+    (['fuel', 'regeneration', 'calculatedCost', 'electricCost', 'fuelCost'] as const).forEach(field => {
+        const value = sumOptional(segments, field);
+        if (value !== undefined) journey[field] = value;
+    });
+    return journey;
+};
+
+/**
+ * Groups trips that start less than `gapMinutes` after the previous one ended, oldest first.
+ * Trips without a neighbour in range are returned as they are
+ */
+export const groupJourneys = (trips: Trip[], gapMinutes: number = DEFAULT_JOURNEY_GAP_MINUTES): Trip[] => {
+    const sorted = [...trips].sort((a, b) => (a.start_timestamp || 0) - (b.start_timestamp || 0));
+    const gap = Math.max(0, gapMinutes) * 60;
+
+    const groups: Trip[][] = [];
+    for (const trip of sorted) {
+        const current = groups[groups.length - 1];
+        const previous = current?.[current.length - 1];
+        if (previous && trip.start_timestamp && (trip.start_timestamp - tripEnd(previous)) < gap) {
+            current.push(trip);
+        } else {
+            groups.push([trip]);
+        }
+    }
+    return groups.map(group => group.length > 1 ? combineSegments(group) : group[0]);
+};
+
+/**
+ * The trips in the unit the user counts them in (settings.tripUnit)
+ */
+export const toTripUnits = (trips: Trip[], settings: Pick<Settings, 'tripUnit' | 'journeyGapMinutes'>): Trip[] =>
+    settings.tripUnit === 'journey'
+        ? groupJourneys(trips, settings.journeyGapMinutes ?? DEFAULT_JOURNEY_GAP_MINUTES)
+        : trips;
+
+/**
+ * Sync keys of the stored trips behind a trip or journey
+ */
+export const storedTripKeys = (trip: Trip): string[] => (trip.segments || [trip]).map(tripSyncKey);
@@ -0,0 +1,242 @@
+// BYD Stats - Mileage Report
+// Mileage and expense log of a period for business reimbursement, as CSV or printable HTML
+
+import { Trip, TripTag } from '../types';
+import { ExportDateRange, ExportFile, csvLine, isInExportRange } from './dataExport';
+import { filterTripsByTag } from './tripTags';
+import { formatDate, formatTime } from './dateUtils';
+
+// Spanish tax-exempt allowance for business use of a private car (€/km)
+export const DEFAULT_MILEAGE_RATE = 0.26;
+
+export type MileageReportFormat = 'csv' | 'html';
+
+export interface MileageReportOptions {
+    range: ExportDateRange;
+    ratePerKm: number;
+    tagId?: string; // Only trips with this tag ('' or undefined for every trip)
+    tags?: TripTag[]; // Names of the purposes
+}
+
+export interface MileageReportRow {
+    date: string; // YYYYMMDD
+    startTimestamp: number;
+    km: number;
+    kwh: number;
+    fuel: number;
+    cost: number; // Energy cost (electricCost + fuelCost)
+    purpose: string; // Tag names
+    amount: number; // km x rate
+}
+
+export interface MileageReport {
+    range: ExportDateRange;
+    ratePerKm: number;
+    rows: MileageReportRow[];
+    totals: { trips: number; km: number; kwh: number; fuel: number; cost: number; amount: number };
+}
+
+/**
+ * Texts of the printable report, in the user's language
+ */
+export interface MileageReportLabels {
+    title: string;
+    period: string;
+    vehicle: string;
+    rate: string;
+    date: string;
+    time: string;
+    distance: string;
+    energy: string;
+    fuel: string;
+    cost: string;
+    purpose: string;
+    amount: string;
+    total: string;
+    signature: string;
+    generated: string;
+}
+
+export interface MileageReportVehicle {
+    name?: string;
+    licensePlate?: string;
+}
+
+export const MILEAGE_CSV_HEADERS = [
+    'Fecha',
+    'Hora',
+    'Distancia (km)',
+    'Energia (kWh)',
+    'Combustible (L)',
+    'Coste energia (€)',
+    'Motivo',
+    'Importe (€)'
+];
+
+const round = (value: number, decimals: number): number => {
+    const factor = 10 ** decimals;
+    return Math.round(value * factor) / factor;
+};
+
+const pad = (n: number): string => String(n).padStart(2, '0');
+
+const isoDate = (date: string): string => `${date.slice(0, 4)}-${date.slice(4, 6)}-${date.slice(6, 8)}`;
+
+const isoTime = (timestamp: number): string => {
+    const d = new Date(timestamp * 1000);
+    return `${pad(d.getHours())}:${pad(d.getMinutes())}`;
+};
+
+/**
+ * Driving trips of the range, oldest first
+ * @param trips - Trips with costs (calculateTripCosts)
+ */
+export const buildMileageReport = (trips: Trip[], options: MileageReportOptions): MileageReport => {
+    const { range, ratePerKm, tagId = '', tags = [] } = options;
+    const names = new Map(tags.map(tag => [tag.id, tag.name]));
+
+    const rows = filterTripsByTag(trips, tagId)
+        .filter(t => (t.trip || 0) > 0 && isInExportRange(t.date, range))
+        .sort((a, b) => (a.start_timestamp || 0) - (b.start_timestamp || 0))
+        .map(t => {
+            const km = round(t.trip || 0, 1);
+            return {
+                date: t.date,
+                startTimestamp: t.start_timestamp,
+                km,
+                kwh: round(t.electricity || 0, 2),
+                fuel: round(t.fuel || 0, 2),
+                cost: round((t.electricCost || 0) + (t.fuelCost || 0), 2),
+                purpose: (t.tags || []).map(id => names.get(id) || id).join(', '),
+                amount: round(km * ratePerKm, 2)
+            };
+        });
+
+    const sum = (field: 'km' | 'kwh' | 'fuel' | 'cost' | 'amount') => rows.reduce((total, row) => total + row[field], 0);
+
+    return {
+        range,
+        ratePerKm,
+        rows,
+        totals: {
+            trips: rows.length,
+            km: round(sum('km'), 1),
+            kwh: round(sum('kwh'), 2),
+            fuel: round(sum('fuel'), 2),
+            cost: round(sum('cost'), 2),
+            amount: round(sum('amount'), 2)
+        }
+    };
+};
+
+/**
+ * One line per trip and a totals line; dates in ISO format for spreadsheets
+ */
+export const mileageReportToCsv = (report: MileageReport): string => {
+    const rows = report.rows.map(row => csvLine([
+        isoDate(row.date),
+        isoTime(row.startTimestamp),
+        row.km,
+        row.kwh,
+        row.fuel,
+        row.cost,
+        row.purpose,
+        row.amount
+    ]));
+    const { totals } = report;
+    const totalLine = csvLine(['Total', '', totals.km, totals.kwh, totals.fuel, totals.cost, `${report.ratePerKm} €/km`, totals.amount]);
+
+    return [csvLine(MILEAGE_CSV_HEADERS), ...rows, totalLine].join('\n');
+};
+
+const escapeHtml = (value: string): string =>
+    value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const money = (value: number): string => `${value.toFixed(2)} €`;
+
+/**
+ * Standalone HTML page, ready to print or save as PDF from the browser
+ */
+export const mileageReportToHtml = (
+    report: MileageReport,
+    labels: MileageReportLabels,
+    vehicle: MileageReportVehicle = {},
+    locale: string = 'es',
+    generatedAt: Date = new Date()
+): string => {
+    const { range, totals } = report;
+    const period = `${range.from ? formatDate(range.from, locale) : '…'} – ${range.to ? formatDate(range.to, locale) : '…'}`;
+    const vehicleText = [vehicle.name, vehicle.licensePlate].filter(Boolean).join(' · ');
+    const hasFuel = totals.fuel > 0;
+
+    const header = [labels.date, labels.time, labels.distance, labels.energy, ...(hasFuel ? [labels.fuel] : []), labels.cost, labels.purpose, labels.amount];
+    const rows = report.rows.map(row => [
+        formatDate(row.date, locale),
+        formatTime(row.startTimestamp, locale),
+        row.km.toFixed(1),
+        row.kwh.toFixed(2),
+        ...(hasFuel ? [row.fuel.toFixed(2)] : []),
+        money(row.cost),
+        escapeHtml(row.purpose),
+        money(row.amount)
+    ]);
+    const totalRow = [labels.total, '', totals.km.toFixed(1), totals.kwh.toFixed(2), ...(hasFuel ? [totals.fuel.toFixed(2)] : []), money(totals.cost), '', money(totals.amount)];
+
+    const cells = (values: string[], tag: 'td' | 'th') => values.map(v => `<${tag}>${v}</${tag}>`).join('');
+
+    return `<!DOCTYPE html>
+<html lang="${escapeHtml(locale)}">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(labels.title)}</title>
+<style>
+body { font-family: -apple-system, 'Segoe UI', Roboto, sans-serif; color: #0f172a; margin: 32px; font-size: 12px; }
+h1 { font-size: 20px; margin: 0 0 12px; }
+dl { display: grid; grid-template-columns: max-content 1fr; gap: 4px 16px; margin: 0 0 20px; }
+dt { color: #64748b; }
+dd { margin: 0; font-weight: 600; }
+table { width: 100%; border-collapse: collapse; }
+th, td { padding: 6px 8px; border-bottom: 1px solid #e2e8f0; text-align: right; }
+th:nth-child(-n+2), td:nth-child(-n+2), th:nth-last-child(2), td:nth-last-child(2) { text-align: left; }
+thead th { background: #f1f5f9; font-size: 11px; color: #475569; }
+tfoot td { font-weight: 700; border-top: 2px solid #0f172a; border-bottom: none; }
+.signature { margin-top: 48px; display: flex; justify-content: space-between; color: #64748b; }
+.signature span { border-top: 1px solid #94a3b8; padding-top: 4px; min-width: 200px; }
+@media print { body { margin: 0; } thead { display: table-header-group; } tr { break-inside: avoid; } }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(labels.title)}</h1>
+<dl>
+<dt>${escapeHtml(labels.period)}</dt><dd>${period}</dd>
+${vehicleText ? `<dt>${escapeHtml(labels.vehicle)}</dt><dd>${escapeHtml(vehicleText)}</dd>` : ''}
+<dt>${escapeHtml(labels.rate)}</dt><dd>${report.ratePerKm.toFixed(2)} €/km</dd>
+</dl>
+<table>
+<thead><tr>${cells(header.map(escapeHtml), 'th')}</tr></thead>
+<tbody>
+${rows.map(row => `<tr>${cells(row, 'td')}</tr>`).join('\n')}
+</tbody>
+<tfoot><tr>${cells(totalRow, 'td')}</tr></tfoot>
+</table>
+<div class="signature"><span>${escapeHtml(labels.signature)}</span><span>${escapeHtml(labels.generated)} ${generatedAt.toLocaleDateString(locale)}</span></div>
+</body>
+</html>
+`;
+};
+
+/**
+ * File to download for a report
+ */
+export const buildMileageReportFile = (
+    report: MileageReport,
+    format: MileageReportFormat,
+    labels: MileageReportLabels,
+    vehicle: MileageReportVehicle = {},
+    locale: string = 'es'
+): ExportFile => {
+    const period = [report.range.from, report.range.to].filter(Boolean).join('-') || 'total';
+    return format === 'csv'
+        ? { name: `Kilometraje_${period}.csv`, mime: 'text/csv;charset=utf-8', content: mileageReportToCsv(report) }
+        : { name: `Kilometraje_${period}.html`, mime: 'text/html;charset=utf-8', content: mileageReportToHtml(report, labels, vehicle, locale) };
+};
@@ -0,0 +1,175 @@
+// BYD Stats - Recurring Routes
+// Trips that repeat at the same time of day with the same distance and duration, and their efficiency over time
+
+import { Hemisphere, NamedRoute, RoutePeriodStats, RouteSignature, RouteSummary, Trip } from '../types';
+
+export const MIN_ROUTE_TRIPS = 4; // Repetitions before a cluster counts as a route
+export const ROUTE_START_TOLERANCE = 45; // Minutes
+export const ROUTE_MIN_KM = 1;
+
+export type Season = 'winter' | 'spring' | 'summer' | 'autumn';
+
+export const SEASONS: Season[] = ['winter', 'spring', 'summer', 'autumn'];
+
+// Meteorological seasons of the northern hemisphere, by month (0 = January); the southern one is six months apart
+const SEASON_BY_MONTH: Season[] = [
+    'winter', 'winter', 'spring', 'spring', 'spring', 'summer',
+    'summer', 'summer', 'autumn', 'autumn', 'autumn', 'winter'
+];
+
+interface Cluster {
+    signature: RouteSignature;
+    trips: Trip[];
+    named?: NamedRoute;
+}
+
+export const tripSignature = (trip: Trip): RouteSignature => {
+    const start = new Date(trip.start_timestamp * 1000);
+    return {
+        weekday: start.getDay(),
+        startMinute: start.getHours() * 60 + start.getMinutes(),
+        km: trip.trip || 0,
+        minutes: (trip.duration || 0) / 60
+    };
+};
+
+/**
+ * Whether a trip's signature is close enough to a route's: same weekday, start within
+ * ROUTE_START_TOLERANCE, distance within 10% (at least 1 km) and driving time within 30% (at least 5 min)
+ */
+export const matchesRoute = (trip: RouteSignature, route: RouteSignature): boolean => {
+    if (trip.weekday !== route.weekday) return false;
+    const startDiff = Math.abs(trip.startMinute - route.startMinute);
+    if (Math.min(startDiff, 24 * 60 - startDiff) > ROUTE_START_TOLERANCE) return false;
+    if (Math.abs(trip.km - route.km) > Math.max(1, route.km * 0.1)) return false;
+    return Math.abs(trip.minutes - route.minutes) <= Math.max(5, route.minutes * 0.3);
+};
+
+// Running average, so the cluster follows the trips it collects
+const addToCluster = (cluster: Cluster, trip: Trip, signature: RouteSignature): void => {
+    const n = cluster.trips.length;
+    cluster.trips.push(trip);
+    if (cluster.named) return;
+    const avg = (current: number, value: number) => (current * n + value) / (n + 1);
+    cluster.signature = {
+        weekday: cluster.signature.weekday,
+        startMinute: avg(cluster.signature.startMinute, signature.startMinute),
+        km: avg(cluster.signature.km, signature.km),
+        minutes: avg(cluster.signature.minutes, signature.minutes)
+    };
+};
+
+const emptyStats = (period: string): RoutePeriodStats => ({ period, trips: 0, km: 0, kwh: 0, cost: 0, efficiency: 0 });
+
+const addTrip = (stats: RoutePeriodStats, trip: Trip): void => {
+    stats.trips++;
+    stats.km += trip.trip || 0;
+    stats.kwh += trip.electricity || 0;
+    stats.cost += trip.calculatedCost || 0;
+};
+
+const finalize = (stats: RoutePeriodStats): RoutePeriodStats =>
+    ({ ...stats, efficiency: stats.km > 0 ? stats.kwh / stats.km * 100 : 0 });
+
+export const seasonOf = (trip: Trip, hemisphere: Hemisphere = 'north'): Season => {
+    const month = new Date(trip.start_timestamp * 1000).getMonth();
+    return SEASON_BY_MONTH[hemisphere === 'south' ? (month + 6) % 12 : month];
+};
+
+/**
+ * Stable id of a detected route, from its signature rounded to 15 minutes and 1 km
+ */
+export const routeId = (signature: RouteSignature): string =>
+    `route_${signature.weekday}_${Math.round(signature.startMinute / 15) * 15}_${Math.round(signature.km)}`;
+
+const summarize = (cluster: Cluster, id: string, trips: Trip[], hemisphere: Hemisphere): RouteSummary => {
+    const total = emptyStats('');
+    const monthly: Record<string, RoutePeriodStats> = {};
+    const seasons: Record<string, RoutePeriodStats> = {};
+
+    trips.forEach(trip => {
+        const month = trip.month || trip.date.slice(0, 6);
+        const season = seasonOf(trip, hemisphere);
+        addTrip(total, trip);
+        if (!monthly[month]) monthly[month] = emptyStats(month);
+        if (!seasons[season]) seasons[season] = emptyStats(season);
+        addTrip(monthly[month], trip);
+        addTrip(seasons[season], trip);
+    });
+
+    const { weekday, startMinute, km, minutes } = cluster.signature;
+    const { period: _period, ...totals } = finalize(total);
+    return {
+        id,
+        name: cluster.named?.name,
+        signature: { weekday, startMinute, km, minutes },
+        ...totals,
+        monthly: Object.values(monthly).map(finalize).sort((a, b) => a.period.localeCompare(b.period)),
+        seasons: SEASONS.filter(season => seasons[season]).map(season => finalize(seasons[season]))
+    };
+};
+
+export interface DetectRoutesOptions {
+    minTrips?: number;
+    shown?: (trip: Trip) => boolean; // Trips the stats cover, e.g. those in the active filter; all by default
+    hemisphere?: Hemisphere;
+}
+
+/**
+ * Groups driving trips into recurring routes. Trips matching a named route belong to it;
+ * the rest are clustered by signature and clusters of at least `minTrips` trips are kept.
+ * Routes are detected on every trip given and only summarize the `shown` ones; routes without shown trips are left out.
+ * Named routes come first, then the detected ones with the most trips
+ */
+export const detectRoutes = (trips: Trip[], named: NamedRoute[] = [], options: DetectRoutesOptions = {}): RouteSummary[] => {
+    const { minTrips = MIN_ROUTE_TRIPS, shown, hemisphere = 'north' } = options;
+    const namedClusters: Cluster[] = named.map(route => ({ signature: route, trips: [], named: route }));
+    const detected: Cluster[] = [];
+
+    const driving = trips
+        .filter(trip => trip.start_timestamp && (trip.trip || 0) >= ROUTE_MIN_KM)
+        .sort((a, b) => a.start_timestamp - b.start_timestamp);
+
+    for (const trip of driving) {
+        const signature = tripSignature(trip);
+        const cluster = namedClusters.find(c => matchesRoute(signature, c.signature))
+            || detected.find(c => matchesRoute(signature, c.signature));
+        if (cluster) {
+            addToCluster(cluster, trip, signature);
+        } else {
+            detected.push({ signature, trips: [trip] });
+        }
+    }
+
+    const used = new Set(named.map(route => route.id));
+    const ids = new Map<Cluster, string>();
+    detected
+        .filter(cluster => cluster.trips.length >= minTrips)
+        .sort((a, b) => b.trips.length - a.trips.length)
+        .forEach(cluster => {
+            const base = routeId(cluster.signature);
+            let id = base;
+            for (let i = 2; used.has(id); i++) id = `${base}_${i}`;
+            used.add(id);
+            ids.set(cluster, id);
+        });
+
+    return [
+        ...namedClusters.map(cluster => [cluster, cluster.named!.id] as const),
+        ...ids.entries()
+    ].flatMap(([cluster, id]) => {
+        const routeTrips = shown ? cluster.trips.filter(shown) : cluster.trips;
+        return routeTrips.length > 0 ? [summarize(cluster, id, routeTrips, hemisphere)] : [];
+    });
+};
+
+/**
+ * Names a route, keeping the signature it was detected with so later trips keep matching it
+ */
+export const nameRoute = (routes: NamedRoute[] = [], route: RouteSummary, name: string): NamedRoute[] => {
+    const { id, signature: { weekday, startMinute, km, minutes } } = route;
+    const entry: NamedRoute = { id, name, weekday, startMinute: Math.round(startMinute), km: Math.round(km * 10) / 10, minutes: Math.round(minutes) };
+    return routes.some(r => r.id === id)
+        ? routes.map(r => r.id === id ? { ...r, name } : r)
+        : [...routes, entry];
+};
@@ -0,0 +1,127 @@
+// BYD Stats - Schema Migrations
+// Ordered upgrade steps for persisted car data and Drive sync files
+
+import { Charge, Settings, Trip } from '../types';
+
+/**
+ * Version written by this build. Data without a version stamp is version 1
+ */
+export const DATA_SCHEMA_VERSION = 2;
+export const UNVERSIONED_SCHEMA_VERSION = 1;
+
+/**
+ * Everything stored for one car, as migrations see it
+ */
+export interface VersionedData {
+    trips: Trip[];
+    tripHistory?: Trip[];
+    charges: Charge[];
+    settings: Partial<Settings>;
+}
+
+export interface SchemaMigration {
+    version: number; // Version produced by this step; it runs on data of version - 1
+    description: string;
+    migrate: (data: VersionedData) => VersionedData;
+}
+
+export interface MigrationResult<T extends VersionedData = VersionedData> {
+    data: T;
+    version: number;
+    applied: number[]; // Versions of the steps that ran
+}
+
+/**
+ * Data written by a newer version of the app: loading it could drop fields we do not know
+ */
+export class SchemaVersionError extends Error {
+    readonly version: number;
+
+    constructor(version: number) {
+        super(`Los datos son de una versión más reciente de la aplicación (esquema ${version}, soportado ${DATA_SCHEMA_VERSION}). Actualiza la aplicación`);
+        this.name = 'SchemaVersionError';
+        this.version = version;
+    }
+}
+
+// Steps return the same object for records they leave alone, so storage only rewrites what changed
+export const SCHEMA_MIGRATIONS: SchemaMigration[] = [
+    {
+        version: 2,
+        description: 'Charges: legacy kwh folded into kwhCharged. Settings: smartChargingPreferences is an array',
+        migrate: (data) => {
+            const charges = data.charges.map(charge => {
+                if (!('kwh' in charge)) return charge;
+                const { kwh, ...rest } = charge;
+                return { ...rest, kwhCharged: rest.kwhCharged || kwh || 0 };
+            });
+
+            const prefs = data.settings.smartChargingPreferences;
+            const settings = prefs !== undefined && !Array.isArray(prefs)
+                ? { ...data.settings, smartChargingPreferences: [] }
+                : data.settings;
+
+            return { ...data, charges, settings };
+        }
+    }
+];
+
+/**
+ * Reads a version stamp. Missing or invalid stamps mean data from before versioning
+ */
+export const parseSchemaVersion = (value: unknown): number => {
+    const version = typeof value === 'string' ? parseInt(value, 10) : value;
+    return typeof version === 'number' && Number.isInteger(version) && version >= UNVERSIONED_SCHEMA_VERSION
+        ? version
+        : UNVERSIONED_SCHEMA_VERSION;
+};
+
+/**
+ * @throws SchemaVersionError if the version is newer than this build
+ */
+export const assertSupportedVersion = (version: number, target: number = DATA_SCHEMA_VERSION): void => {
+    if (version > target) throw new SchemaVersionError(version);
+};
+
+/**
+ * Runs the pending steps in order. `backup` is called with the data before each step;
+ * if it fails, the migration stops and nothing is returned, so no step runs without a backup
+ * @throws SchemaVersionError if the data is newer than `target`
+ */
+export const migrateData = async <T extends VersionedData>(
+    data: T,
+    fromVersion: number,
+    options: {
+        backup?: (data: T, version: number) => Promise<void> | void;
+        migrations?: SchemaMigration[];
+        target?: number;
+    } = {}
+): Promise<MigrationResult<T>> => {
+    const { backup, migrations = SCHEMA_MIGRATIONS, target = DATA_SCHEMA_VERSION } = options;
+    assertSupportedVersion(fromVersion, target);
+
+    const steps = migrations
+        .filter(m => m.version > fromVersion && m.version <= target)
+        .sort((a, b) => a.version - b.version);
+
+    let current = data;
+    let version = fromVersion;
+    const applied: number[] = [];
+
+    for (const step of steps) {
+        if (step.version !== version + 1) {
+            throw new Error(`Falta la migración del esquema ${version} al ${version + 1}`);
+        }
+        if (backup) await backup(current, version);
+        // Fields outside VersionedData (e.g. on SyncData) are carried through
+        current = { ...current, ...step.migrate(current) };
+        version = step.version;
+        applied.push(step.version);
+    }
+
+    if (version < target) {
+        throw new Error(`Falta la migración del esquema ${version} al ${version + 1}`);
+    }
+
+    return { data: current, version, applied };
+};
@@ -0,0 +1,359 @@
+// BYD Stats - Sync Merge
+// Three-way merge of local and cloud data against the state of the last successful sync
+
+import { Charge, ChargerType, Settings, Trip } from '../types';
+
+export type SyncRecordKind = 'trips' | 'charges' | 'settings';
+
+/**
+ * Marks a trip or charge deleted on one device, so the other side does not bring it back
+ */
+export interface Tombstone {
+    kind: 'trips' | 'charges';
+    key: string; // tripSyncKey / chargeSyncKey
+    deletedAt: number;
+}
+
+export interface SyncSnapshot {
+    trips: Trip[];
+    charges: Charge[];
+    settings: Settings;
+    tombstones?: Tombstone[];
+}
+
+export type SyncRecord = Trip | Charge | Settings;
+
+/**
+ * A record changed on both sides in a way that cannot be combined
+ */
+export interface RecordConflict {
+    id: string; // `${kind}:${key}`
+    kind: SyncRecordKind;
+    key: string;
+    fields: string[]; // Fields set to different values on each side; empty when one side deleted the record
+    local: SyncRecord | null; // null: deleted on this side
+    remote: SyncRecord | null;
+    // Record kept for each choice. Non-conflicting changes from both sides are already in it
+    resolved: { local: SyncRecord | null; remote: SyncRecord | null };
+}
+
+export type ConflictChoice = 'local' | 'remote';
+
+export interface SyncMergeResult {
+    merged: SyncSnapshot; // Records in conflict are left out until resolveSyncConflicts
+    conflicts: RecordConflict[];
+}
+
+export const tripSyncKey = (trip: Trip): string => `${trip.date}-${trip.start_timestamp}`;
+
+export const chargeSyncKey = (charge: Charge): string =>
+    charge.timestamp ? String(charge.timestamp) : `${charge.date}T${charge.time}`;
+
+// Bookkeeping, not data: two sides with the same values are equal whenever they were saved
+const IGNORED_FIELDS = new Set(['updatedAt']);
+// Charges are keyed by time; each device gives the same charge its own random id
+const CHARGE_IGNORED_FIELDS = new Set([...IGNORED_FIELDS, 'id']);
+
+const ignoredFields = (kind: SyncRecordKind): Set<string> => kind === 'charges' ? CHARGE_IGNORED_FIELDS : IGNORED_FIELDS;
+
+// Deletions older than this are forgotten; a device that has not synced for longer may bring the record back
+export const TOMBSTONE_RETENTION_MS = 180 * 24 * 60 * 60 * 1000;
+
+type Fields = Record<string, unknown>;
+
+const same = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+const updatedAt = (record: object): number => (record as { updatedAt?: number }).updatedAt || 0;
+
+const changedFields = (from: Fields, to: Fields, ignored: Set<string> = IGNORED_FIELDS): string[] =>
+    [...new Set([...Object.keys(from), ...Object.keys(to)])]
+        .filter(field => !ignored.has(field) && !same(from[field], to[field]));
+
+const assign = (target: Fields, field: string, value: unknown): void => {
+    if (value === undefined) delete target[field];
+    else target[field] = value;
+};
+
+/**
+ * Applies the changes each side made to `base`. Fields both sides changed to different values are
+ * reported; the merged record holds the remote value for them
+ */
+const mergeFields = <T extends object>(base: T, local: T, remote: T, ignored: Set<string> = IGNORED_FIELDS) => {
+    const b = base as Fields, l = local as Fields, r = remote as Fields;
+    const localChanges = changedFields(b, l, ignored);
+    const remoteChanges = changedFields(b, r, ignored);
+    const conflicting = localChanges.filter(f => remoteChanges.includes(f) && !same(l[f], r[f]));
+
+    const merged: Fields = { ...b };
+    // Ignored fields the ancestor lacks (e.g. the id of a charge both sides added) come from local
+    ignored.forEach(f => {
+        if (!(f in merged) && f in l) merged[f] = l[f];
+    });
+    localChanges.forEach(f => assign(merged, f, l[f]));
+    remoteChanges.forEach(f => assign(merged, f, r[f]));
+    const stamp = Math.max(updatedAt(local), updatedAt(remote));
+    if (stamp) merged.updatedAt = stamp;
+
+    const withLocal: Fields = { ...merged };
+    conflicting.forEach(f => assign(withLocal, f, l[f]));
+
+    return { merged: merged as T, withLocal: withLocal as T, conflicting };
+};
+
+const deletionConflict = (kind: SyncRecordKind, key: string, local: SyncRecord | null, remote: SyncRecord | null): RecordConflict => ({
+    id: `${kind}:${key}`, kind, key, fields: [], local, remote, resolved: { local, remote }
+});
+
+/**
+ * Record present on one side only. `deletedElsewhere` is the other side's tombstone, if any
+ */
+const mergeOneSided = <T extends object>(
+    kind: SyncRecordKind,
+    key: string,
+    record: T,
+    base: T | undefined,
+    deletedElsewhere: Tombstone | undefined,
+    side: ConflictChoice
+): { keep?: T; conflict?: RecordConflict } => {
+    if (!base) {
+        // Added here, unless the other side deleted it after our last change
+        return deletedElsewhere && updatedAt(record) <= deletedElsewhere.deletedAt ? {} : { keep: record };
+    }
+    // Deleted on the other side since the last sync
+    if (changedFields(base as Fields, record as Fields, ignoredFields(kind)).length === 0) return {};
+    if (deletedElsewhere && updatedAt(record)) {
+        return updatedAt(record) > deletedElsewhere.deletedAt ? { keep: record } : {};
+    }
+    const conflict = side === 'local'
+        ? deletionConflict(kind, key, record as SyncRecord, null)
+        : deletionConflict(kind, key, null, record as SyncRecord);
+    return { conflict };
+};
+
+const mergeRecordList = <T extends object>(
+    kind: 'trips' | 'charges',
+    keyOf: (record: T) => string,
+    base: T[] | null,
+    local: T[],
+    remote: T[],
+    localTombstones: Map<string, Tombstone>,
+    remoteTombstones: Map<string, Tombstone>
+): { records: T[]; conflicts: RecordConflict[] } => {
+    const byKey = (list: T[]) => new Map(list.map(r => [keyOf(r), r]));
+    const baseMap = byKey(base || []);
+    const localMap = byKey(local);
+    const remoteMap = byKey(remote);
+
+    const records: T[] = [];
+    const conflicts: RecordConflict[] = [];
+    const keys = new Set([...localMap.keys(), ...remoteMap.keys()]);
+
+    keys.forEach(key => {
+        const b = baseMap.get(key);
+        const l = localMap.get(key);
+        const r = remoteMap.get(key);
+
+        if (l && r) {
+            if (changedFields(l as Fields, r as Fields, ignoredFields(kind)).length === 0) {
+                records.push(updatedAt(r) > updatedAt(l) ? r : l);
+            } else if (b || base) {
+                // With no record in the ancestor, both sides added it: merge against an empty record
+                const { merged, withLocal, conflicting } = mergeFields((b || {}) as T, l, r, ignoredFields(kind));
+                if (conflicting.length === 0) {
+                    records.push(merged);
+                } else {
+                    conflicts.push({
+                        id: `${kind}:${key}`, kind, key, fields: conflicting,
+                        local: l as SyncRecord, remote: r as SyncRecord,
+                        resolved: { local: withLocal as SyncRecord, remote: merged as SyncRecord }
+                    });
+                }
+            } else {
+                // No ancestor yet (first sync): newest change wins, then local
+                records.push(updatedAt(r) > updatedAt(l) ? r : l);
+            }
+            return;
+        }
+
+        const outcome = l
+            ? mergeOneSided(kind, key, l, b, remoteTombstones.get(key), 'local')
+            : mergeOneSided(kind, key, r as T, b, localTombstones.get(key), 'remote');
+        if (outcome.keep) records.push(outcome.keep);
+        if (outcome.conflict) conflicts.push(outcome.conflict);
+    });
+
+    return { records, conflicts };
+};
+
+const tombstoneMap = (tombstones: Tombstone[] | undefined, kind: Tombstone['kind']) =>
+    new Map((tombstones || []).filter(t => t.kind === kind).map(t => [t.key, t]));
+
+/**
+ * Union of both sides' tombstones, newest per record, without the records that exist after the merge
+ * and those older than TOMBSTONE_RETENTION_MS
+ */
+const mergeTombstones = (lists: Array<Tombstone[] | undefined>, trips: Trip[], charges: Charge[], now: number): Tombstone[] => {
+    const alive = new Set([...trips.map(t => `trips:${tripSyncKey(t)}`), ...charges.map(c => `charges:${chargeSyncKey(c)}`)]);
+    const merged = new Map<string, Tombstone>();
+    lists.flat().forEach(t => {
+        if (!t) return;
+        const id = `${t.kind}:${t.key}`;
+        const existing = merged.get(id);
+        if (!existing || t.deletedAt > existing.deletedAt) merged.set(id, t);
+    });
+    return [...merged.entries()]
+        .filter(([id, t]) => !alive.has(id) && now - t.deletedAt <= TOMBSTONE_RETENTION_MS)
+        .map(([, t]) => t);
+};
+
+const sortTrips = (trips: Trip[]) => trips.sort((a, b) => (a.date || '').localeCompare(b.date || ''));
+const sortCharges = (charges: Charge[]) => charges.sort((a, b) => (b.timestamp || 0) - (a.timestamp || 0));
+
+/**
+ * Two-way settings merge, for when there is no common ancestor:
+ * a non-default value wins over a default one, then local wins
+ */
+export const mergeSettings = (localSettings: Settings, remoteSettings: Settings): Settings => {
+    const local = (localSettings || {}) as Settings;
+    const remote = (remoteSettings || {}) as Settings;
+
+    // Helper: Is a value a "default" or "empty" value?
+    const isDefault = (key: string, val: any): boolean => {
+        if (val === undefined || val === null) return true;
+        // Empty string is only default for specific fields, otherwise it might be user intent
+        if (val === '' && (key === 'mfgDate' || key === 'mfgDateDisplay')) return true;
+
+        if (key === 'odometerOffset' && val === 0) return true;
+        if (key === 'soh' && val === 100) return true;
+        if (key === 'batterySize' && val === 60.48) return true;
+        // offPeakEnabled: false is a valid value, NOT a default that should be overwritten by true
+        if (key === 'offPeakEnabled' && val === false) return false;
+
+        return false;
+    };
+
+    const mergedSettings: any = { ...remote, ...local };
+    const allKeys = new Set([...Object.keys(local), ...Object.keys(remote)]);
+
+    allKeys.forEach(key => {
+        if (key === 'chargerTypes' || key === 'hiddenTabs') return;
+
+        const localVal = (local as any)[key];
+        const remoteVal = (remote as any)[key];
+
+        if (isDefault(key, localVal) && !isDefault(key, remoteVal)) {
+            mergedSettings[key] = remoteVal;
+        } else if (!isDefault(key, localVal)) {
+            mergedSettings[key] = localVal;
+        }
+    });
+
+    // Special handling for chargerTypes array
+    const localChargerTypes = local.chargerTypes || [];
+    const remoteChargerTypes = remote.chargerTypes || [];
+
+    const DEFAULT_IDS = ['domestic', 'slow', 'fast', 'ultrafast'];
+    const chargerTypeMap = new Map<string, ChargerType>();
+
+    // Fill with remote first, then overwrite with local
+    remoteChargerTypes.forEach(ct => chargerTypeMap.set(ct.id, ct));
+    localChargerTypes.forEach(ct => chargerTypeMap.set(ct.id, ct));
+
+    // Cleanup deleted defaults
+    if (localChargerTypes.length > 0) {
+        DEFAULT_IDS.forEach(id => {
+            const inLocal = localChargerTypes.some(ct => ct.id === id);
+            const inRemote = remoteChargerTypes.some(ct => ct.id === id);
+            if (inRemote && !inLocal) {
+                chargerTypeMap.delete(id);
+            }
+        });
+    }
+
+    const mergedChargerTypes = Array.from(chargerTypeMap.values());
+    if (mergedChargerTypes.length > 0) {
+        mergedSettings.chargerTypes = mergedChargerTypes;
+    }
+
+    return mergedSettings as Settings;
+};
+
+/**
+ * Merges local and cloud data field by field against `base`, the data as of the last successful sync.
+ * Without a base (first sync) records are combined as a union where the newest change, then local, wins
+ */
+export const mergeSyncSnapshots = ({ base, local, remote, now = Date.now() }: {
+    base: SyncSnapshot | null;
+    local: SyncSnapshot;
+    remote: SyncSnapshot;
+    now?: number;
+}): SyncMergeResult => {
+    const trips = mergeRecordList('trips', tripSyncKey, base ? base.trips : null, local.trips || [], remote.trips || [],
+        tombstoneMap(local.tombstones, 'trips'), tombstoneMap(remote.tombstones, 'trips'));
+    const charges = mergeRecordList('charges', chargeSyncKey, base ? base.charges : null, local.charges || [], remote.charges || [],
+        tombstoneMap(local.tombstones, 'charges'), tombstoneMap(remote.tombstones, 'charges'));
+
+    const conflicts = [...trips.conflicts, ...charges.conflicts];
+    let settings: Settings;
+    if (base) {
+        const { merged, withLocal, conflicting } = mergeFields(base.settings || {} as Settings, local.settings || {} as Settings, remote.settings || {} as Settings);
+        settings = merged;
+        if (conflicting.length > 0) {
+            conflicts.push({
+                id: 'settings:settings', kind: 'settings', key: 'settings', fields: conflicting,
+                local: local.settings, remote: remote.settings, resolved: { local: withLocal, remote: merged }
+            });
+        }
+    } else {
+        settings = mergeSettings(local.settings, remote.settings);
+    }
+
+    const mergedTrips = sortTrips(trips.records);
+    const mergedCharges = sortCharges(charges.records);
+
+    return {
+        merged: {
+            trips: mergedTrips,
+            charges: mergedCharges,
+            settings,
+            tombstones: mergeTombstones([local.tombstones, remote.tombstones], mergedTrips, mergedCharges, now)
+        },
+        conflicts
+    };
+};
+
+/**
+ * Final data once the user picked a side for each conflict (unpicked conflicts use `fallback`)
+ */
+export const resolveSyncConflicts = (
+    result: SyncMergeResult,
+    choices: Record<string, ConflictChoice>,
+    fallback: ConflictChoice = 'local',
+    now: number = Date.now()
+): SyncSnapshot => {
+    const trips = [...result.merged.trips];
+    const charges = [...result.merged.charges];
+    let settings = result.merged.settings;
+    const deleted: Tombstone[] = [];
+
+    result.conflicts.forEach(conflict => {
+        const record = conflict.resolved[choices[conflict.id] || fallback];
+        if (conflict.kind === 'settings') {
+            if (record) settings = record as Settings;
+        } else if (record) {
+            if (conflict.kind === 'trips') trips.push(record as Trip);
+            else charges.push(record as Charge);
+        } else {
+            deleted.push({ kind: conflict.kind, key: conflict.key, deletedAt: now });
+        }
+    });
+
+    sortTrips(trips);
+    sortCharges(charges);
+    return {
+        trips,
+        charges,
+        settings,
+        tombstones: mergeTombstones([result.merged.tombstones, deleted], trips, charges, now)
+    };
+};
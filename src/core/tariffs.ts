@@ -0,0 +1,304 @@
+// BYD Stats - Time-of-Use Tariffs
+// Period schedules, holiday calendars and dated price versions for home charging
+
+import { Charge, ChargerType, Settings, Tariff, TariffPriceVersion, TariffScheduleRule } from '../types';
+
+export const LEGACY_TARIFF_ID = 'legacy-off-peak';
+
+// AC wallboxes go up to 11 kW; faster sessions are at public chargers, billed by the operator
+export const HOME_CHARGER_MAX_KW = 11;
+
+const WEEKDAYS = [1, 2, 3, 4, 5];
+const WEEKEND = [0, 6];
+
+/**
+ * Holidays that follow the weekend schedule. Dates are MM-DD, repeating every year
+ */
+export const HOLIDAY_CALENDARS: Record<string, { name: string; dates: string[] }> = {
+    // National holidays with a fixed date (2.0TD bills them as valley all day; Good Friday is excluded)
+    'es-national': {
+        name: 'España (festivos nacionales)',
+        dates: ['01-01', '01-06', '05-01', '08-15', '10-12', '11-01', '12-06', '12-08', '12-25']
+    }
+};
+
+export type TariffTemplateId = 'es-2.0td' | 'two-period';
+
+export interface ChargeCostBreakdown {
+    totalCost: number;
+    periods: Record<string, { kwh: number; cost: number }>;
+}
+
+export interface TariffSlot {
+    startMins: number;
+    endMins: number; // Exclusive, 1440 for midnight
+    periodId: string;
+    price: number;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const toMinutes = (time: string): number => {
+    const [h, m] = time.split(':').map(Number);
+    return (h || 0) * 60 + (m || 0);
+};
+
+export const formatMinutes = (mins: number): string => `${pad(Math.floor(mins / 60))}:${pad(Math.floor(mins % 60))}`;
+
+const toDateKey = (date: Date): string => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+/**
+ * Local start of a charge (dates are stored as YYYY-MM-DD or YYYYMMDD)
+ */
+export const getChargeDate = (charge: Pick<Charge, 'date' | 'time'>): Date => {
+    const digits = (charge.date || '').replace(/-/g, '');
+    const [h, m] = (charge.time || '00:00').split(':').map(Number);
+    return new Date(Number(digits.slice(0, 4)), Number(digits.slice(4, 6)) - 1, Number(digits.slice(6, 8)), h || 0, m || 0);
+};
+
+export const isTariffHoliday = (tariff: Tariff, date: Date): boolean => {
+    const key = toDateKey(date);
+    if (tariff.holidays?.includes(key)) return true;
+    const calendar = tariff.holidayCalendar ? HOLIDAY_CALENDARS[tariff.holidayCalendar] : undefined;
+    return !!calendar && calendar.dates.includes(key.slice(5));
+};
+
+/**
+ * Price version in force on a date. Dates before the first version use the first one
+ */
+export const getPriceVersion = (tariff: Tariff, date: Date): TariffPriceVersion | null => {
+    const key = toDateKey(date);
+    const sorted = [...tariff.priceVersions].sort((a, b) => a.validFrom.localeCompare(b.validFrom));
+    let version = sorted[0] ?? null;
+    for (const candidate of sorted) {
+        if (candidate.validFrom <= key) version = candidate;
+    }
+    return version;
+};
+
+const getPeriodAt = (tariff: Tariff, date: Date, mins: number): string => {
+    if (tariff.holidayPeriodId && isTariffHoliday(tariff, date)) return tariff.holidayPeriodId;
+    const day = date.getDay();
+    const rule = tariff.schedule.find(r => r.days.includes(day) && toMinutes(r.start) <= mins && mins < toMinutes(r.end));
+    return rule?.periodId ?? tariff.defaultPeriodId;
+};
+
+export const getTariffPeriod = (tariff: Tariff, date: Date): string =>
+    getPeriodAt(tariff, date, date.getHours() * 60 + date.getMinutes());
+
+/**
+ * Price per kWh at a moment: the period it falls in, at the price version in force that day
+ */
+export const getTariffPrice = (tariff: Tariff, date: Date): number =>
+    getPriceVersion(tariff, date)?.prices[getTariffPeriod(tariff, date)] ?? 0;
+
+/**
+ * The day split into consecutive slots of a single period, from 00:00 to 24:00
+ */
+export const getTariffDaySlots = (tariff: Tariff, date: Date): TariffSlot[] => {
+    const prices = getPriceVersion(tariff, date)?.prices ?? {};
+    const bounds = new Set([0, 1440]);
+    tariff.schedule.forEach(r => {
+        bounds.add(toMinutes(r.start));
+        bounds.add(Math.min(1440, toMinutes(r.end)));
+    });
+    const edges = [...bounds].sort((a, b) => a - b);
+
+    const slots: TariffSlot[] = [];
+    for (let i = 0; i < edges.length - 1; i++) {
+        const periodId = getPeriodAt(tariff, date, edges[i]);
+        const last = slots[slots.length - 1];
+        if (last && last.periodId === periodId) {
+            last.endMins = edges[i + 1];
+        } else {
+            slots.push({ startMins: edges[i], endMins: edges[i + 1], periodId, price: prices[periodId] ?? 0 });
+        }
+    }
+    return slots;
+};
+
+/**
+ * Slots of the day at the lowest price of the tariff (empty when the cheapest period does not apply that day)
+ */
+export const getCheapestSlots = (tariff: Tariff, date: Date): TariffSlot[] => {
+    const prices = Object.values(getPriceVersion(tariff, date)?.prices ?? {});
+    if (prices.length === 0) return [];
+    const cheapest = Math.min(...prices);
+    return getTariffDaySlots(tariff, date).filter(s => s.price <= cheapest);
+};
+
+// A window that crosses midnight becomes two rules on the same days
+const windowRules = (start: string, end: string, days: number[], periodId: string): TariffScheduleRule[] => {
+    if (toMinutes(start) === toMinutes(end)) return [{ days, start: '00:00', end: '24:00', periodId }];
+    if (toMinutes(end) > toMinutes(start)) return [{ days, start, end, periodId }];
+    return [{ days, start, end: '24:00', periodId }, { days, start: '00:00', end, periodId }];
+};
+
+/**
+ * Two-period tariff equivalent to the single off-peak window settings (offPeakStart/End, weekend variants)
+ */
+export const createLegacyTariff = (settings: Settings): Tariff => {
+    const start = settings.offPeakStart || '00:00';
+    const end = settings.offPeakEnd || '08:00';
+    const peakPrice = typeof settings.electricPrice === 'string' ? parseFloat(settings.electricPrice) : (settings.electricPrice || 0);
+
+    return {
+        id: LEGACY_TARIFF_ID,
+        name: 'Valle',
+        periods: [{ id: 'peak', name: 'Punta' }, { id: 'offpeak', name: 'Valle' }],
+        defaultPeriodId: 'peak',
+        schedule: [
+            ...windowRules(start, end, WEEKDAYS, 'offpeak'),
+            ...windowRules(settings.offPeakStartWeekend || start, settings.offPeakEndWeekend || end, WEEKEND, 'offpeak')
+        ],
+        priceVersions: [{ validFrom: '2000-01-01', prices: { peak: peakPrice || 0, offpeak: settings.offPeakPrice || 0 } }]
+    };
+};
+
+/**
+ * Tariff home charges are costed with: the selected one, else the legacy off-peak window when enabled
+ */
+export const getActiveTariff = (settings?: Settings): Tariff | null => {
+    if (!settings) return null;
+    if (settings.activeTariffId) {
+        const tariff = settings.tariffs?.find(t => t.id === settings.activeTariffId);
+        if (tariff) return tariff;
+    }
+    return settings.offPeakEnabled ? createLegacyTariff(settings) : null;
+};
+
+/**
+ * Tariff stats re-price home charges with: only one the user set up. The legacy off-peak window
+ * still drives the charging advice, but its charges keep the cost entered for them
+ */
+export const getCostingTariff = (settings?: Settings): Tariff | null => {
+    const tariff = getActiveTariff(settings);
+    return tariff && tariff.id !== LEGACY_TARIFF_ID ? tariff : null;
+};
+
+export const createTariffFromTemplate = (template: TariffTemplateId, id: string = `tariff_${Date.now()}`): Tariff => {
+    const validFrom = toDateKey(new Date()).slice(0, 8) + '01';
+
+    if (template === 'two-period') {
+        return {
+            ...createLegacyTariff({ offPeakStart: '00:00', offPeakEnd: '08:00', electricPrice: 0.15, offPeakPrice: 0.08 } as Settings),
+            id,
+            name: 'Dos periodos',
+            priceVersions: [{ validFrom, prices: { peak: 0.15, offpeak: 0.08 } }]
+        };
+    }
+
+    // Spanish 2.0TD: peak and flat on weekdays, valley at night, weekends and national holidays
+    return {
+        id,
+        name: '2.0TD',
+        periods: [{ id: 'P1', name: 'Punta' }, { id: 'P2', name: 'Llano' }, { id: 'P3', name: 'Valle' }],
+        defaultPeriodId: 'P3',
+        schedule: [
+            { days: WEEKDAYS, start: '08:00', end: '10:00', periodId: 'P2' },
+            { days: WEEKDAYS, start: '10:00', end: '14:00', periodId: 'P1' },
+            { days: WEEKDAYS, start: '14:00', end: '18:00', periodId: 'P2' },
+            { days: WEEKDAYS, start: '18:00', end: '22:00', periodId: 'P1' },
+            { days: WEEKDAYS, start: '22:00', end: '24:00', periodId: 'P2' }
+        ],
+        holidayCalendar: 'es-national',
+        holidays: [],
+        holidayPeriodId: 'P3',
+        priceVersions: [{ validFrom, prices: { P1: 0.20, P2: 0.13, P3: 0.08 } }]
+    };
+};
+
+/**
+ * Spreads a session drawing powerKw from start across the periods (and days) it runs through
+ */
+export const spreadChargeCost = (tariff: Tariff, start: Date, kwh: number, powerKw: number): ChargeCostBreakdown => {
+    const periods: ChargeCostBreakdown['periods'] = {};
+    let totalCost = 0;
+    let remaining = Math.max(0, kwh);
+    let cursor = new Date(start);
+
+    // Without a power the whole session is priced at its start
+    for (let guard = 0; remaining > 1e-9 && guard < 1000; guard++) {
+        const mins = cursor.getHours() * 60 + cursor.getMinutes() + cursor.getSeconds() / 60;
+        const slot = getTariffDaySlots(tariff, cursor).find(s => s.startMins <= mins && mins < s.endMins)!;
+        const slotEnd = new Date(cursor.getFullYear(), cursor.getMonth(), cursor.getDate(), 0, slot.endMins);
+
+        const slotKwh = powerKw > 0 ? Math.min(remaining, (slotEnd.getTime() - cursor.getTime()) / 3600000 * powerKw) : remaining;
+        const period = periods[slot.periodId] ?? (periods[slot.periodId] = { kwh: 0, cost: 0 });
+        period.kwh += slotKwh;
+        period.cost += slotKwh * slot.price;
+        totalCost += slotKwh * slot.price;
+
+        remaining -= slotKwh;
+        cursor = slotEnd;
+    }
+
+    return { totalCost, periods };
+};
+
+const getChargerSpeed = (charge: Charge, chargerTypes: ChargerType[] = []): number =>
+    chargerTypes.find(c => c.id === charge.chargerTypeId)?.speedKw ?? charge.speedKw ?? 0;
+
+/**
+ * Charges at a home charger: AC up to HOME_CHARGER_MAX_KW, by charger type or the charge's own speed
+ */
+export const isHomeCharge = (charge: Charge, chargerTypes: ChargerType[] = []): boolean => {
+    if (charge.type === 'fuel') return false;
+    const speed = getChargerSpeed(charge, chargerTypes);
+    return speed > 0 && speed <= HOME_CHARGER_MAX_KW;
+};
+
+/**
+ * Cost of a home charge under the tariff, spread over the periods the session runs through.
+ * Null when it is not a home charge or its cost was not derived from the tariff (charges without a
+ * costSource predate it and show their stored cost everywhere, so they count as entered)
+ */
+export const getTariffChargeCost = (charge: Charge, tariff: Tariff | null, chargerTypes: ChargerType[] = []): number | null => {
+    if (!tariff || charge.costSource !== 'tariff' || !isHomeCharge(charge, chargerTypes)) return null;
+    return spreadChargeCost(tariff, getChargeDate(charge), charge.kwhCharged || 0, getChargerSpeed(charge, chargerTypes)).totalCost;
+};
+
+/**
+ * Cost and average price of a charge derived from the active tariff; null when it cannot be derived
+ * (no tariff, not a home charge, or missing start time or kWh)
+ */
+export const deriveChargeCost = (
+    charge: Pick<Charge, 'date' | 'time' | 'kwhCharged' | 'chargerTypeId' | 'type' | 'speedKw'>,
+    settings: Settings
+): { totalCost: number; pricePerKwh: number } | null => {
+    const tariff = getActiveTariff(settings);
+    if (!tariff || !charge.date || !charge.time || !(charge.kwhCharged > 0)) return null;
+    if (!isHomeCharge(charge as Charge, settings.chargerTypes)) return null;
+
+    const { totalCost } = spreadChargeCost(tariff, getChargeDate(charge), charge.kwhCharged, getChargerSpeed(charge as Charge, settings.chargerTypes));
+    return {
+        totalCost: Math.round(totalCost * 100) / 100,
+        pricePerKwh: Math.round(totalCost / charge.kwhCharged * 1000) / 1000
+    };
+};
+
+/**
+ * Re-derives the charges costed from the tariff (after tariff or charger type changes).
+ * With includeUnmarked, also home charges whose cost was never marked as entered (bulk recalculation)
+ */
+export const recalculateChargeCosts = (
+    charges: Charge[],
+    settings: Settings,
+    includeUnmarked: boolean = false
+): { charges: Charge[]; updated: number } => {
+    let updated = 0;
+    const result = charges.map(charge => {
+        const eligible = charge.costSource === 'tariff' || (includeUnmarked && !charge.costSource);
+        if (!eligible) return charge;
+
+        const derived = deriveChargeCost(charge, settings);
+        if (!derived) return charge;
+        if (charge.costSource === 'tariff' && derived.totalCost === charge.totalCost && derived.pricePerKwh === charge.pricePerKwh) {
+            return charge;
+        }
+
+        updated++;
+        return { ...charge, ...derived, costSource: 'tariff' as const, updatedAt: Date.now() };
+    });
+    return { charges: result, updated };
+};
@@ -0,0 +1,68 @@
+// BYD Stats - Trip Edits
+// Trips added, changed or deleted by hand. Changed fields are recorded so re-imports of the car's data keep them
+
+import { Trip } from '../types';
+import { TripEditSchema } from '../utils/validation';
+import { ImportIssue, issuesFromZod } from './importReport';
+import { tripSyncKey } from './syncMerge';
+
+// Fields the trip editor sets
+export const TRIP_EDIT_FIELDS: (keyof Trip)[] = [
+    'date', 'start_timestamp', 'end_timestamp', 'duration', 'trip', 'electricity', 'fuel', 'start_soc', 'end_soc', 'regeneration'
+];
+
+export type TripEditResult =
+    | { success: true; trip: Trip; trips: Trip[] }
+    | { success: false; issues: ImportIssue[] };
+
+const DUPLICATE_ISSUE: ImportIssue = { path: 'start_timestamp', message: 'Another trip starts at the same time' };
+
+export const validateTrip = (trip: Trip): ImportIssue[] => {
+    const result = TripEditSchema.safeParse(trip);
+    return result.success ? [] : issuesFromZod(result.error);
+};
+
+const sortTrips = (trips: Trip[]): Trip[] => trips.sort((a, b) =>
+    (a.date || '').localeCompare(b.date || '') || (a.start_timestamp || 0) - (b.start_timestamp || 0));
+
+/**
+ * Adds a trip the car never logged
+ */
+export const addManualTrip = (trips: Trip[], values: Partial<Trip>, now: number = Date.now()): TripEditResult => {
+    const trip = { ...values, month: values.date?.slice(0, 6), source: 'manual', updatedAt: now } as Trip;
+    const issues = validateTrip(trip);
+    if (issues.length > 0) return { success: false, issues };
+
+    const key = tripSyncKey(trip);
+    if (trips.some(t => tripSyncKey(t) === key)) return { success: false, issues: [DUPLICATE_ISSUE] };
+    return { success: true, trip, trips: sortTrips([...trips, trip]) };
+};
+
+/**
+ * Applies the editor's changes to the trip with `key` (its tripSyncKey).
+ * On trips read from the car the changed fields are added to `editedFields`
+ */
+export const editTrip = (trips: Trip[], key: string, changes: Partial<Trip>, now: number = Date.now()): TripEditResult => {
+    const current = trips.find(t => tripSyncKey(t) === key);
+    if (!current) return { success: false, issues: [{ path: '', message: 'Trip not found' }] };
+
+    const changed = TRIP_EDIT_FIELDS.filter(field => field in changes && changes[field] !== current[field]);
+    if (changed.length === 0) return { success: true, trip: current, trips };
+
+    const trip: Trip = { ...current, ...changes, month: (changes.date ?? current.date)?.slice(0, 6), updatedAt: now };
+    if (current.source !== 'manual') {
+        trip.editedFields = [...new Set([...(current.editedFields || []), ...changed])];
+    }
+
+    const issues = validateTrip(trip);
+    if (issues.length > 0) return { success: false, issues };
+
+    const newKey = tripSyncKey(trip);
+    if (newKey !== key && trips.some(t => tripSyncKey(t) === newKey)) return { success: false, issues: [DUPLICATE_ISSUE] };
+    return { success: true, trip, trips: sortTrips(trips.map(t => t === current ? trip : t)) };
+};
+
+export const deleteTrips = (trips: Trip[], keys: string[]): Trip[] => {
+    const deleted = new Set(keys);
+    return trips.filter(trip => !deleted.has(tripSyncKey(trip)));
+};
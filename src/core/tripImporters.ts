@@ -0,0 +1,320 @@
+// BYD Stats - Trip Import Adapters
+// Registry of file formats that can be turned into trips
+
+import { Charge, ChargerType, Trip, TripTag } from '../types';
+import { TripRowSchema } from '../utils/validation';
+import { readEnergyConsumption } from './bydDatabase';
+import { ImportRowError, rowErrorFromZod } from './importReport';
+import { EXPORT_DOCUMENT_FORMAT, TRIP_TAG_SEPARATOR, parseExportDocument } from './dataExport';
+
+/**
+ * Raw file handed to the adapters
+ */
+export interface TripImportSource {
+    name: string;
+    bytes: Uint8Array;
+}
+
+/**
+ * Runtime dependencies adapters may need (e.g. sql.js for SQLite files)
+ */
+export interface TripImportContext {
+    SQL?: any;
+}
+
+export type TripImportRowError = ImportRowError;
+
+export interface TripImportResult {
+    trips: Trip[];
+    errors: TripImportRowError[];
+    totalRows: number;
+    header?: string; // Header line of text sources
+    charges?: Charge[]; // Charges bundled with the trips (JSON export)
+    chargerTypes?: ChargerType[];
+    tripTags?: TripTag[]; // Tag definitions of the bundled trips
+}
+
+export interface TripImportAdapter {
+    id: string;
+    label: string;
+    extensions: string[]; // Lowercase, including the dot
+    /** Cheap check on the file contents to decide if this adapter applies */
+    sniff: (source: TripImportSource) => boolean;
+    parse: (source: TripImportSource, context: TripImportContext) => TripImportResult | Promise<TripImportResult>;
+}
+
+const SQLITE_MAGIC = 'SQLite format 3\0';
+const CSV_DATE_REGEX = /^(\d{4}-\d{2}-\d{2})\s*(\d{2}:\d{2}(?::\d{2})?)/;
+
+/**
+ * Decodes the source as UTF-8 text (BOM stripped)
+ */
+export const readSourceText = (source: TripImportSource): string =>
+    new TextDecoder('utf-8').decode(source.bytes).replace(/^\uFEFF/, '');
+
+/**
+ * Reads a File (or Blob with a name) into an import source
+ */
+export const createImportSource = async (file: Blob & { name: string }): Promise<TripImportSource> => ({
+    name: file.name,
+    bytes: new Uint8Array(await file.arrayBuffer())
+});
+
+const unquote = (value: string): string =>
+    value.length > 1 && value.startsWith('"') && value.endsWith('"')
+        ? value.slice(1, -1).replace(/""/g, '"')
+        : value.replace(/^"|"$/g, '');
+
+/**
+ * Splits a CSV line on commas, falling back to semicolons when that yields fewer fields
+ * Quoted values are unwrapped (with "" read as ") and trimmed
+ */
+export const splitCsvLine = (line: string, minFields: number = 0): string[] => {
+    const split = (delimiter: string) => {
+        const pattern = new RegExp(`("(?:[^"]|"")*"|[^${delimiter}]+)`, 'g');
+        return line.match(pattern)?.map(v => unquote(v).trim()) || [];
+    };
+
+    const values = split(',');
+    if (values.length >= minFields) return values;
+
+    const semiValues = split(';');
+    return semiValues.length > values.length ? semiValues : values;
+};
+
+const sortTrips = (trips: Trip[]): Trip[] => trips.sort((a, b) => {
+    const dateComp = (a.date || '').localeCompare(b.date || '');
+    if (dateComp !== 0) return dateComp;
+    return (a.start_timestamp || 0) - (b.start_timestamp || 0);
+});
+
+/**
+ * Checks a parsed trip against TripRowSchema
+ * @returns Row error, or null when the trip is valid
+ */
+export const validateTrip = (trip: Trip, line: number, raw?: string): TripImportRowError | null => {
+    const validation = TripRowSchema.safeParse(trip);
+    return validation.success ? null : rowErrorFromZod(line, validation.error, raw);
+};
+
+/**
+ * BYD EnergyData SQLite database (EC_database.db)
+ * Some Android apps share it renamed to .jpg, so the header is what counts
+ */
+export const bydSqliteAdapter: TripImportAdapter = {
+    id: 'byd-sqlite',
+    label: 'BYD EC_database.db',
+    extensions: ['.db', '.jpg', '.jpeg'],
+    sniff: (source) => {
+        if (source.bytes.length < SQLITE_MAGIC.length) return false;
+        for (let i = 0; i < SQLITE_MAGIC.length; i++) {
+            if (source.bytes[i] !== SQLITE_MAGIC.charCodeAt(i)) return false;
+        }
+        return true;
+    },
+    parse: (source, context) => {
+        if (!context.SQL) throw new Error('SQL no está listo');
+
+        const db = new context.SQL.Database(source.bytes);
+        try {
+            const rows = readEnergyConsumption(db);
+            const trips: Trip[] = [];
+            const errors: TripImportRowError[] = [];
+
+            // No text lines in a database: rows are identified by their _id
+            rows.forEach((trip, i) => {
+                const error = validateTrip(trip, trip._id ?? i + 1);
+                if (error) errors.push(error); else trips.push(trip);
+            });
+
+            return { trips, errors, totalRows: rows.length };
+        } finally {
+            db.close();
+        }
+    }
+};
+
+/**
+ * Parses one row of the trip CSV: Inicio, Duracion (min), Distancia (km), Energia (kWh)
+ * and the optional Combustible (L) and Etiquetas columns of our own exports. Cost columns are derived, so they are ignored
+ * @returns Trip or an error message
+ */
+const parseTripCsvRow = (values: string[]): Trip | string => {
+    if (values.length < 4) return 'Formato de fila incorrecto';
+
+    const [inicio, dur, dist, energy, fuel, , , tags] = values;
+    const dateMatch = inicio.match(CSV_DATE_REGEX);
+    if (!dateMatch) return `Fecha inválida: ${inicio}`;
+
+    const [year, month, day] = dateMatch[1].split('-').map(Number);
+    const [hour, minute, second] = dateMatch[2].split(':').map(Number);
+
+    // Local time, month is 0-indexed
+    const dateObj = new Date(year, month - 1, day, hour || 0, minute || 0, second || 0);
+    const timestamp = Math.floor(dateObj.getTime() / 1000);
+
+    // Duration in the CSV is in minutes (exports keep decimals), the app works in seconds
+    const durationSeconds = Math.round((parseFloat(dur) || 0) * 60);
+
+    const appMonthStr = `${year}${String(month).padStart(2, '0')}`;
+
+    const trip: Trip = {
+        trip: parseFloat(dist) || 0,
+        electricity: parseFloat(energy) || 0,
+        duration: durationSeconds,
+        date: `${appMonthStr}${String(day).padStart(2, '0')}`,
+        start_timestamp: timestamp,
+        month: appMonthStr,
+        end_timestamp: timestamp + durationSeconds
+    };
+    if (fuel) trip.fuel = parseFloat(fuel);
+    if (tags) trip.tags = tags.split(TRIP_TAG_SEPARATOR).filter(Boolean);
+
+    return trip;
+};
+
+/**
+ * Trip registry CSV written by the app (REGISTRO_VIAJES.csv)
+ */
+export const bydTripCsvAdapter: TripImportAdapter = {
+    id: 'byd-trip-csv',
+    label: 'REGISTRO_VIAJES.csv',
+    extensions: ['.csv'],
+    sniff: (source) => {
+        const lines = readSourceText(source).split(/\r?\n/, 3).filter(l => l.trim());
+        if (lines.length === 0) return false;
+
+        const header = splitCsvLine(lines[0]);
+        if (header[0]?.toLowerCase() === 'inicio') return true;
+
+        // Headerless export: four columns starting with a date
+        const firstRow = splitCsvLine(lines[lines.length > 1 ? 1 : 0], 4);
+        return firstRow.length === 4 && CSV_DATE_REGEX.test(firstRow[0]);
+    },
+    parse: (source) => {
+        const lines = readSourceText(source).split(/\r?\n/);
+        const trips: Trip[] = [];
+        const errors: TripImportRowError[] = [];
+        let totalRows = 0;
+        let isFirstLine = true;
+        let header: string | undefined;
+
+        lines.forEach((line, index) => {
+            if (!line.trim()) return;
+
+            const values = splitCsvLine(line, 4);
+            // Skip the header (first line without a date in the first column)
+            if (isFirstLine) {
+                isFirstLine = false;
+                if (!CSV_DATE_REGEX.test(values[0] || '')) {
+                    header = line;
+                    return;
+                }
+            }
+
+            totalRows++;
+            const result = parseTripCsvRow(values);
+            const error = typeof result === 'string'
+                ? { line: index + 1, message: result, raw: line }
+                : validateTrip(result, index + 1, line);
+            if (error) {
+                errors.push(error);
+            } else {
+                trips.push(result as Trip);
+            }
+        });
+
+        return { trips: sortTrips(trips), errors, totalRows, header };
+    }
+};
+
+/**
+ * Versioned JSON export written by the app (core/dataExport), with trips and/or charges
+ */
+export const bydJsonExportAdapter: TripImportAdapter = {
+    id: 'byd-stats-json',
+    label: 'BYD Stats JSON',
+    extensions: ['.json'],
+    sniff: (source) => {
+        const head = readSourceText({ ...source, bytes: source.bytes.subarray(0, 256) }).trimStart();
+        return head.startsWith('{') && head.includes(`"${EXPORT_DOCUMENT_FORMAT}"`);
+    },
+    parse: (source) => {
+        const doc = parseExportDocument(readSourceText(source));
+        const trips: Trip[] = [];
+        const errors: TripImportRowError[] = [];
+
+        // Rows are identified by their position in the trips array
+        (doc.trips || []).forEach((trip, i) => {
+            const error = validateTrip(trip, i + 1);
+            if (error) errors.push(error); else trips.push(trip);
+        });
+
+        return {
+            trips: sortTrips(trips),
+            errors,
+            totalRows: doc.trips?.length || 0,
+            charges: doc.charges,
+            chargerTypes: doc.chargerTypes,
+            tripTags: doc.tripTags
+        };
+    }
+};
+
+const adapters: TripImportAdapter[] = [bydSqliteAdapter, bydJsonExportAdapter, bydTripCsvAdapter];
+
+/**
+ * Registers an adapter, replacing any existing one with the same id
+ * Adapters registered later are tried first
+ */
+export const registerTripImporter = (adapter: TripImportAdapter): void => {
+    const existing = adapters.findIndex(a => a.id === adapter.id);
+    if (existing !== -1) adapters.splice(existing, 1);
+    adapters.unshift(adapter);
+};
+
+/**
+ * Removes an adapter by id
+ */
+export const unregisterTripImporter = (id: string): void => {
+    const existing = adapters.findIndex(a => a.id === id);
+    if (existing !== -1) adapters.splice(existing, 1);
+};
+
+export const getTripImporters = (): TripImportAdapter[] => [...adapters];
+
+/**
+ * File extensions accepted by at least one adapter
+ */
+export const getSupportedExtensions = (): string[] =>
+    Array.from(new Set(adapters.flatMap(a => a.extensions)));
+
+/**
+ * Quick extension check, used before reading the file
+ */
+export const isSupportedImportFile = (fileName: string): boolean => {
+    const name = fileName.toLowerCase();
+    return getSupportedExtensions().some(ext => name.endsWith(ext));
+};
+
+/**
+ * Finds the adapter for a source by sniffing its contents
+ */
+export const detectTripImporter = (source: TripImportSource): TripImportAdapter | null =>
+    adapters.find(a => a.sniff(source)) || null;
+
+/**
+ * Detects the format and parses the source into trips
+ * @param adapter - Skips detection, e.g. for a mapping confirmed in the CSV wizard
+ * @throws Error if no adapter recognises the file
+ */
+export const importTrips = async (
+    source: TripImportSource,
+    context: TripImportContext = {},
+    adapter: TripImportAdapter | null = detectTripImporter(source)
+): Promise<TripImportResult & { adapterId: string }> => {
+    if (!adapter) throw new Error('Formato de archivo no soportado');
+
+    const result = await adapter.parse(source, context);
+    return { ...result, adapterId: adapter.id };
+};
@@ -0,0 +1,106 @@
+// BYD Stats - Trip Planner
+// Arrival SoC, charging stops and cost of a planned drive from a predicted efficiency
+
+export type SpeedProfile = 'city' | 'mixed' | 'highway';
+
+// Average speeds of the AI range scenarios (PredictiveService.getScenarios)
+export const SPEED_PROFILES: Record<SpeedProfile, number> = {
+    city: 30,
+    mixed: 70,
+    highway: 100
+};
+
+export const DEFAULT_RESERVE_SOC = 10;
+export const DEFAULT_CHARGE_TO_SOC = 80;
+
+export interface TripPlanInput {
+    distanceKm: number;
+    averageSpeed: number; // km/h
+    startSoc: number; // %
+    reserveSoc?: number; // % never planned below
+    chargeToSoc?: number; // % charged to at each stop (less when that is enough to arrive)
+}
+
+export interface TripPlanContext {
+    efficiency: number; // kWh/100km predicted for the drive
+    batterySize: number; // Nominal kWh
+    soh: number; // %
+    pricePerKwh: number;
+}
+
+export interface ChargingStop {
+    atKm: number;
+    arrivalSoc: number;
+    departureSoc: number;
+    kwh: number;
+    cost: number;
+}
+
+export interface TripPlan {
+    efficiency: number;
+    energyKwh: number;
+    cost: number; // Energy used by the drive at the active price
+    arrivalSoc: number;
+    rangeKm: number; // From the starting SoC down to the reserve
+    stops: ChargingStop[];
+    feasible: boolean; // False when stops cannot add range (charge target not above the reserve)
+}
+
+const round = (value: number, decimals: number) => {
+    const factor = Math.pow(10, decimals);
+    return Math.round(value * factor) / factor;
+};
+
+/**
+ * Drives until the reserve is reached, then stops to charge, until the destination.
+ * Each stop charges only what the rest of the drive needs, capped at chargeToSoc
+ */
+export const planTrip = (input: TripPlanInput, context: TripPlanContext): TripPlan => {
+    const reserve = input.reserveSoc ?? DEFAULT_RESERVE_SOC;
+    const chargeTo = input.chargeToSoc ?? DEFAULT_CHARGE_TO_SOC;
+    const usableKwh = context.batterySize * (context.soh / 100);
+    const distance = Math.max(0, input.distanceKm);
+
+    const energyKwh = distance * context.efficiency / 100;
+    const socPerKm = usableKwh > 0 ? (context.efficiency / 100) / usableKwh * 100 : Infinity;
+    const rangeKm = Math.max(0, (input.startSoc - reserve) / socPerKm);
+
+    const stops: ChargingStop[] = [];
+    let position = 0;
+    let soc = input.startSoc;
+    let feasible = usableKwh > 0;
+
+    while (feasible && (distance - position) * socPerKm > soc - reserve + 1e-9) {
+        if (chargeTo <= reserve) {
+            feasible = false;
+            break;
+        }
+
+        // Drive down to the reserve (or stop right away when starting below it)
+        position += Math.max(0, (soc - reserve) / socPerKm);
+        const arrivalSoc = Math.min(soc, reserve);
+        const departureSoc = Math.min(chargeTo, reserve + (distance - position) * socPerKm);
+        const kwh = (departureSoc - arrivalSoc) / 100 * usableKwh;
+
+        stops.push({
+            atKm: round(position, 1),
+            arrivalSoc: round(arrivalSoc, 1),
+            departureSoc: round(departureSoc, 1),
+            kwh: round(kwh, 2),
+            cost: round(kwh * context.pricePerKwh, 2)
+        });
+        soc = departureSoc;
+    }
+
+    const arrivalSoc = feasible ? soc - (distance - position) * socPerKm : 0;
+
+    return {
+        efficiency: context.efficiency,
+        energyKwh: round(energyKwh, 2),
+        cost: round(energyKwh * context.pricePerKwh, 2),
+        arrivalSoc: round(Math.max(0, arrivalSoc), 1),
+        rangeKm: Math.round(rangeKm),
+        stops,
+        feasible
+    };
+};
@@ -0,0 +1,141 @@
+// BYD Stats - Trip Tags
+// User-defined trip categories, the rules that assign them and the per-tag totals
+
+import { TagSummary, Trip, TripTag, TripTagRule } from '../types';
+import { tripSyncKey } from './syncMerge';
+
+export const UNTAGGED_TAG_ID = '__untagged__';
+
+// Names are the fallback for nameKey
+export const DEFAULT_TRIP_TAGS: TripTag[] = [
+    { id: 'commute', name: 'Trabajo', nameKey: 'tags.defaults.commute', color: '#0ea5e9' },
+    { id: 'business', name: 'Negocios', nameKey: 'tags.defaults.business', color: '#f59e0b' },
+    { id: 'leisure', name: 'Ocio', nameKey: 'tags.defaults.leisure', color: '#10b981' }
+];
+
+export const TAG_COLORS = ['#0ea5e9', '#f59e0b', '#10b981', '#8b5cf6', '#ec4899', '#64748b', '#EA0029'];
+
+/**
+ * Display name of a tag: built-in tags are translated until the user renames them
+ */
+export const getTripTagName = (tag: TripTag, translate: (key: string, fallback: string) => string): string =>
+    tag.nameKey ? translate(tag.nameKey, tag.name) : tag.name;
+
+export const localizeTripTags = (tags: TripTag[], translate: (key: string, fallback: string) => string): TripTag[] =>
+    tags.map(tag => ({ ...tag, name: getTripTagName(tag, translate) }));
+
+export const createTripTag = (name: string, color: string, id: string = `tag_${Date.now()}`): TripTag => ({ id, name, color });
+
+export const createTagRule = (tagId: string, id: string = `tagrule_${Date.now()}`): TripTagRule => ({
+    id,
+    tagId,
+    days: [1, 2, 3, 4, 5],
+    start: '07:00',
+    end: '10:00'
+});
+
+const toMinutes = (time: string): number => {
+    const [h, m] = time.split(':').map(Number);
+    return (h || 0) * 60 + (m || 0);
+};
+
+export const hasTag = (trip: Trip, tagId: string): boolean =>
+    tagId === UNTAGGED_TAG_ID ? !trip.tags?.length : !!trip.tags?.includes(tagId);
+
+export const filterTripsByTag = (trips: Trip[], tagId: string): Trip[] =>
+    tagId ? trips.filter(trip => hasTag(trip, tagId)) : trips;
+
+/**
+ * Whether a trip starts inside the rule's days and time window and its distance is in range
+ */
+export const matchesTagRule = (trip: Trip, rule: TripTagRule): boolean => {
+    if (!trip.start_timestamp) return false;
+    const start = new Date(trip.start_timestamp * 1000);
+
+    if (rule.days.length > 0 && !rule.days.includes(start.getDay())) return false;
+
+    if (rule.start || rule.end) {
+        const minutes = start.getHours() * 60 + start.getMinutes();
+        const from = rule.start ? toMinutes(rule.start) : 0;
+        const to = rule.end ? toMinutes(rule.end) : 24 * 60;
+        const inWindow = from <= to ? minutes >= from && minutes < to : minutes >= from || minutes < to;
+        if (!inWindow) return false;
+    }
+
+    const km = trip.trip || 0;
+    if (rule.minKm !== undefined && km < rule.minKm) return false;
+    if (rule.maxKm !== undefined && km > rule.maxKm) return false;
+    return true;
+};
+
+/**
+ * Tags the trips that were never tagged with every matching rule.
+ * Trips tagged or cleared by hand keep their tags
+ */
+export const applyTagRules = (trips: Trip[], rules: TripTagRule[] = []): { trips: Trip[]; tagged: number } => {
+    if (rules.length === 0) return { trips, tagged: 0 };
+
+    let tagged = 0;
+    const now = Date.now();
+    const result = trips.map(trip => {
+        if (trip.tags !== undefined) return trip;
+        const tags = [...new Set(rules.filter(rule => matchesTagRule(trip, rule)).map(rule => rule.tagId))];
+        if (tags.length === 0) return trip;
+        tagged++;
+        return { ...trip, tags, updatedAt: now };
+    });
+
+    return { trips: tagged > 0 ? result : trips, tagged };
+};
+
+/**
+ * Adds or removes a tag on the trips with the given sync keys (see tripSyncKey)
+ */
+export const setTripsTag = (trips: Trip[], keys: Set<string>, tagId: string, enabled: boolean): Trip[] => {
+    const now = Date.now();
+    return trips.map(trip => {
+        if (!keys.has(tripSyncKey(trip))) return trip;
+        const current = trip.tags || [];
+        if (current.includes(tagId) === enabled) return trip;
+        const tags = enabled ? [...current, tagId] : current.filter(id => id !== tagId);
+        return { ...trip, tags, updatedAt: now };
+    });
+};
+
+/**
+ * Drops a deleted tag from every trip
+ */
+export const removeTagFromTrips = (trips: Trip[], tagId: string): Trip[] =>
+    setTripsTag(trips, new Set(trips.filter(trip => trip.tags?.includes(tagId)).map(tripSyncKey)), tagId, false);
+
+/**
+ * Appends the tags of an import that are not defined yet
+ */
+export const mergeTripTags = (current: TripTag[] = [], incoming: TripTag[] = []): TripTag[] => {
+    const known = new Set(current.map(tag => tag.id));
+    return [...current, ...incoming.filter(tag => !known.has(tag.id))];
+};
+
+/**
+ * Adds a driving trip to the totals of each of its tags (or of UNTAGGED_TAG_ID)
+ */
+export const addToTagBreakdown = (breakdown: Record<string, TagSummary>, trip: Trip, cost: number): void => {
+    const tagIds = trip.tags?.length ? trip.tags : [UNTAGGED_TAG_ID];
+    tagIds.forEach(tagId => {
+        if (!breakdown[tagId]) breakdown[tagId] = { tagId, trips: 0, km: 0, kwh: 0, fuel: 0, cost: 0, efficiency: 0 };
+        const entry = breakdown[tagId];
+        entry.trips++;
+        entry.km += trip.trip || 0;
+        entry.kwh += trip.electricity || 0;
+        entry.fuel += trip.fuel || 0;
+        entry.cost += cost;
+    });
+};
+
+/**
+ * Per-tag totals, most driven first. A trip with several tags counts in each of them
+ */
+export const finalizeTagBreakdown = (breakdown: Record<string, TagSummary>): TagSummary[] =>
+    Object.values(breakdown)
+        .map(entry => ({ ...entry, efficiency: entry.km > 0 ? entry.kwh / entry.km * 100 : 0 }))
+        .sort((a, b) => b.km - a.km);
@@ -0,0 +1,116 @@
+// BYD Stats - Vehicle Model Catalogue
+// Battery, charging and consumption specs of BYD models, and the parameters of their battery chemistry
+
+import { ChargerType, Settings } from '../types';
+import { DEFAULT_CHARGER_TYPES } from './constants';
+
+// Every BYD pack sold here is LFP (Blade)
+export type BatteryChemistry = 'lfp';
+
+export interface VehicleModel {
+    id: string;
+    name: string;
+    type: 'ev' | 'phev';
+    netCapacity: number; // kWh usable
+    grossCapacity: number; // kWh installed (approximate)
+    chemistry: BatteryChemistry;
+    maxAcKw: number;
+    maxDcKw: number;
+    wltpKwh100: number; // Combined WLTP consumption (electric mode for PHEVs)
+    tankLiters?: number; // PHEVs
+}
+
+export interface ChemistryParams {
+    seiMaxPct: number; // SEI formation loss, reached over the first cycles
+    seiCycles: number;
+    cycleLossPct: number; // Loss per full cycle at stress 1.0
+    calendarLossPctYear: number;
+    needsFullCharge: boolean; // Flat voltage curve: the BMS needs regular 100% charges to balance
+}
+
+export const CHEMISTRY_PARAMS: Record<BatteryChemistry, ChemistryParams> = {
+    lfp: { seiMaxPct: 2.0, seiCycles: 50, cycleLossPct: 0.005, calendarLossPctYear: 0.75, needsFullCharge: true }
+};
+
+// Charger types above this power are DC
+const AC_MAX_KW = 22;
+
+export const VEHICLE_MODELS: VehicleModel[] = [
+    { id: 'dolphin-surf', name: 'Dolphin Surf', type: 'ev', netCapacity: 43.2, grossCapacity: 44.4, chemistry: 'lfp', maxAcKw: 11, maxDcKw: 85, wltpKwh100: 15.5 },
+    { id: 'dolphin-44', name: 'Dolphin 44.9 kWh', type: 'ev', netCapacity: 44.9, grossCapacity: 46.2, chemistry: 'lfp', maxAcKw: 7, maxDcKw: 60, wltpKwh100: 15.4 },
+    { id: 'dolphin-60', name: 'Dolphin 60.4 kWh', type: 'ev', netCapacity: 60.48, grossCapacity: 62.2, chemistry: 'lfp', maxAcKw: 11, maxDcKw: 88, wltpKwh100: 15.9 },
+    { id: 'atto-2', name: 'Atto 2', type: 'ev', netCapacity: 45.12, grossCapacity: 46.4, chemistry: 'lfp', maxAcKw: 11, maxDcKw: 65, wltpKwh100: 15.6 },
+    { id: 'atto-3', name: 'Atto 3', type: 'ev', netCapacity: 60.48, grossCapacity: 62.2, chemistry: 'lfp', maxAcKw: 11, maxDcKw: 88, wltpKwh100: 15.6 },
+    { id: 'seal', name: 'Seal', type: 'ev', netCapacity: 82.56, grossCapacity: 85.2, chemistry: 'lfp', maxAcKw: 11, maxDcKw: 150, wltpKwh100: 16.6 },
+    { id: 'seal-u', name: 'Seal U', type: 'ev', netCapacity: 87, grossCapacity: 89.6, chemistry: 'lfp', maxAcKw: 11, maxDcKw: 140, wltpKwh100: 19.5 },
+    { id: 'seal-u-dmi', name: 'Seal U DM-i', type: 'phev', netCapacity: 18.3, grossCapacity: 18.9, chemistry: 'lfp', maxAcKw: 3.3, maxDcKw: 18, wltpKwh100: 21.9, tankLiters: 60 },
+    { id: 'seal-6-dmi', name: 'Seal 6 DM-i', type: 'phev', netCapacity: 19.0, grossCapacity: 19.6, chemistry: 'lfp', maxAcKw: 6.6, maxDcKw: 26, wltpKwh100: 17.8, tankLiters: 65 },
+    { id: 'han', name: 'Han', type: 'ev', netCapacity: 85.4, grossCapacity: 88.0, chemistry: 'lfp', maxAcKw: 11, maxDcKw: 120, wltpKwh100: 17.9 },
+    { id: 'tang', name: 'Tang', type: 'ev', netCapacity: 108.8, grossCapacity: 112.0, chemistry: 'lfp', maxAcKw: 11, maxDcKw: 170, wltpKwh100: 24.0 },
+    { id: 'e6', name: 'e6', type: 'ev', netCapacity: 71.7, grossCapacity: 71.7, chemistry: 'lfp', maxAcKw: 6.6, maxDcKw: 60, wltpKwh100: 18.3 }
+];
+
+// Reference for settings without a model: the 60.48 kWh LFP pack the app was tuned on
+const DEFAULT_MODEL_ID = 'atto-3';
+
+// City / mixed / highway efficiency relative to WLTP, fitted on the Atto 3 (14.5 / 17.5 / 23.5 kWh)
+const EFFICIENCY_ANCHORS = [
+    { speed: 30, distance: 15, ratio: 14.5 / 15.6 },
+    { speed: 80, distance: 35, ratio: 17.5 / 15.6 },
+    { speed: 100, distance: 100, ratio: 23.5 / 15.6 }
+];
+
+export interface VehicleProfile {
+    model: VehicleModel | null;
+    netCapacity: number;
+    chemistry: BatteryChemistry;
+    wltpKwh100: number;
+    params: ChemistryParams;
+}
+
+export const getVehicleModel = (id?: string): VehicleModel | null =>
+    VEHICLE_MODELS.find(m => m.id === id) ?? null;
+
+/**
+ * Specs the calculations use for a car: its model, with the battery size of its settings
+ */
+export const getVehicleProfile = (settings: Pick<Settings, 'vehicleModelId' | 'batterySize'>): VehicleProfile => {
+    const model = getVehicleModel(settings.vehicleModelId);
+    const reference = model ?? getVehicleModel(DEFAULT_MODEL_ID)!;
+    const batterySize = parseFloat(String(settings.batterySize));
+
+    return {
+        model,
+        netCapacity: batterySize > 0 ? batterySize : reference.netCapacity,
+        chemistry: reference.chemistry,
+        wltpKwh100: reference.wltpKwh100,
+        params: CHEMISTRY_PARAMS[reference.chemistry]
+    };
+};
+
+/**
+ * Synthetic points that anchor the efficiency regression to the car's own consumption
+ */
+export const getEfficiencyAnchors = (wltpKwh100: number = getVehicleModel(DEFAULT_MODEL_ID)!.wltpKwh100) =>
+    EFFICIENCY_ANCHORS.map(a => ({ speed: a.speed, distance: a.distance, eff: Math.round(wltpKwh100 * a.ratio * 10) / 10 }));
+
+/**
+ * Charger types limited to what the car accepts: AC chargers to its onboard charger, DC ones to its peak DC power
+ */
+export const fitChargerTypes = (chargerTypes: ChargerType[], model: VehicleModel): ChargerType[] =>
+    chargerTypes.map(ct => {
+        const max = ct.speedKw <= AC_MAX_KW ? model.maxAcKw : model.maxDcKw;
+        return ct.speedKw > max ? { ...ct, speedKw: max } : ct;
+    });
+
+/**
+ * Settings a model pre-fills when it is picked
+ * @param chargerTypes The car's charger types (the defaults for a new car)
+ */
+export const getModelSettings = (model: VehicleModel, chargerTypes: ChargerType[] = DEFAULT_CHARGER_TYPES): Partial<Settings> => ({
+    vehicleModelId: model.id,
+    carModel: `BYD ${model.name}`,
+    batterySize: model.netCapacity,
+    chargerTypes: fitChargerTypes(chargerTypes, model),
+    ...(model.tankLiters && { tankLiters: model.tankLiters })
+});
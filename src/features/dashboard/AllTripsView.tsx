@@ -1,7 +1,12 @@
-import React, { useMemo } from 'react';
+import React, { useMemo, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import ModalContainer from '../../components/common/ModalContainer';
 import VirtualizedTripList from '../../components/lists/VirtualizedTripList';
+import { useApp } from '@/context/AppContext';
+import { useData } from '@/providers/DataProvider';
+import { UNTAGGED_TAG_ID, filterTripsByTag, localizeTripTags } from '@core/tripTags';
+import { tripSyncKey } from '@core/syncMerge';
+import { storedTripKeys, toTripUnits } from '@core/journeys';
 
 import { Trip } from '@/types';
 
@@ -45,10 +50,20 @@ const AllTripsView = ({
     isNative,
 }: AllTripsViewProps) => {
     const { t } = useTranslation();
+    const { settings, updateSettings } = useApp();
+    const { tripUnit, journeyGapMinutes } = settings;
+    const { tagTrips, deleteTrips, openModal, setEditingTrip, showConfirmation } = useData();
+    const tripTags = localizeTripTags(settings.tripTags || [], t);
+    const [tagFilter, setTagFilter] = useState('');
+
+    // Bulk tagging and deletion: stored trips picked by tripSyncKey while selecting (all segments of a journey)
+    const [selecting, setSelecting] = useState(false);
+    const [selectedKeys, setSelectedKeys] = useState<Set<string>>(new Set());
 
     // Filter and sort logic moved here or kept in memo
     const { finalTrips, minEff, maxEff } = useMemo(() => {
-        let allTripsFiltered = [...rawTrips];
+        // Journeys are grouped before filtering, so one crossing midnight stays whole
+        let allTripsFiltered = [...toTripUnits(rawTrips, { tripUnit, journeyGapMinutes })];
 
         // Apply filters
         if (filterType === 'month' && month) {
@@ -57,6 +72,7 @@ const AllTripsView = ({
             if (dateFrom) allTripsFiltered = allTripsFiltered.filter(t => t.date >= dateFrom.replace(/-/g, ''));
             if (dateTo) allTripsFiltered = allTripsFiltered.filter(t => t.date <= dateTo.replace(/-/g, ''));
         }
+        allTripsFiltered = filterTripsByTag(allTripsFiltered, tagFilter);
 
         // Sort trips
         allTripsFiltered.sort((a, b) => {
@@ -93,7 +109,45 @@ const AllTripsView = ({
         const max = efficiencies.length > 0 ? Math.max(...efficiencies) : 0;
 
         return { finalTrips: allTripsFiltered, minEff: min, maxEff: max };
-    }, [rawTrips, filterType, month, dateFrom, dateTo, sortBy, sortOrder]);
+    }, [rawTrips, tripUnit, journeyGapMinutes, filterType, month, dateFrom, dateTo, tagFilter, sortBy, sortOrder]);
+
+    const handleTripClick = (trip: Trip) => {
+        if (!selecting) {
+            openTripDetail(trip);
+            return;
+        }
+        const keys = storedTripKeys(trip);
+        setSelectedKeys(prev => {
+            const next = new Set(prev);
+            const selected = next.has(keys[0]);
+            keys.forEach(key => selected ? next.delete(key) : next.add(key));
+            return next;
+        });
+    };
+
+    const stopSelecting = () => {
+        setSelecting(false);
+        setSelectedKeys(new Set());
+    };
+
+    // Removes the tag when every selected trip has it, adds it otherwise
+    const handleBulkTag = (tagId: string) => {
+        const selected = rawTrips.filter(trip => selectedKeys.has(tripSyncKey(trip)));
+        const allTagged = selected.length > 0 && selected.every(trip => trip.tags?.includes(tagId));
+        tagTrips([...selectedKeys], tagId, !allTagged);
+    };
+
+    const handleBulkDelete = () => {
+        showConfirmation(t('tripEditor.deleteTitle'), t('tripEditor.deleteMessage', { count: selectedKeys.size }), () => {
+            deleteTrips([...selectedKeys]);
+            stopSelecting();
+        }, true);
+    };
+
+    const handleAddTrip = () => {
+        setEditingTrip(null);
+        openModal('tripEditor');
+    };
 
 
     // State for scroller element to ensure virtualizer updates on mount
@@ -126,8 +180,34 @@ const AllTripsView = ({
                             {t('common.allTrips', 'Todos los viajes')}
                         </h2>
                         <p className="text-sm text-slate-500 dark:text-slate-400">
-                            {t('header.trips', { count: finalTrips.length, defaultValue: 'viajes' })}
+                            {tripUnit === 'journey'
+                                ? t('journeys.count', { count: finalTrips.length })
+                                : t('header.trips', { count: finalTrips.length, defaultValue: 'viajes' })}
                         </p>
+                        <div className="flex items-center gap-2 mt-3">
+                            <button
+                                onClick={handleAddTrip}
+                                className="px-3 py-1 rounded-full text-xs font-medium bg-red-500 text-white hover:bg-red-600"
+                            >
+                                + {t('tripEditor.addTrip')}
+                            </button>
+                            <button
+                                onClick={() => selecting ? stopSelecting() : setSelecting(true)}
+                                className="px-3 py-1 rounded-full text-xs font-medium border border-slate-300 dark:border-slate-600 text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800"
+                            >
+                                {selecting ? t('common.cancel') : t('tags.select')}
+                            </button>
+                            <button
+                                onClick={() => updateSettings({ tripUnit: tripUnit === 'journey' ? 'trip' : 'journey' })}
+                                title={t('journeys.enableHint')}
+                                className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors ${tripUnit === 'journey'
+                                    ? 'bg-slate-800 dark:bg-slate-700 border-slate-800 dark:border-slate-700 text-white'
+                                    : 'border-slate-300 dark:border-slate-600 text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800'
+                                    }`}
+                            >
+                                {t('journeys.title')}
+                            </button>
+                        </div>
                     </div>
 
                     <div className="flex flex-col gap-3">
@@ -188,6 +268,63 @@ const AllTripsView = ({
                             </div>
                         )}
 
+                        {/* Tags */}
+                        {tripTags.length > 0 && (
+                            <div className="flex flex-wrap items-center gap-2">
+                                {[
+                                    { id: '', name: t('tags.all'), color: '' },
+                                    ...tripTags,
+                                    { id: UNTAGGED_TAG_ID, name: t('tags.untagged'), color: '#64748b' }
+                                ].map(tag => (
+                                    <button
+                                        key={tag.id || 'all'}
+                                        onClick={() => setTagFilter(tag.id)}
+                                        className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${tagFilter === tag.id
+                                            ? 'bg-slate-800 dark:bg-slate-700 text-white'
+                                            : 'bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700'
+                                            }`}
+                                    >
+                                        {tag.color && <span className="inline-block w-2 h-2 rounded-full mr-1.5" style={{ backgroundColor: tag.color }} />}
+                                        {tag.name}
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+
+                        {/* Bulk tagging and deletion */}
+                        {selecting && (
+                            <div className="flex flex-wrap items-center gap-2 p-3 rounded-xl bg-slate-100 dark:bg-slate-800 animate-in fade-in slide-in-from-top-2 duration-200">
+                                <span className="text-sm text-slate-600 dark:text-slate-300 mr-1">
+                                    {t('tags.selected', { count: selectedKeys.size })}
+                                </span>
+                                <button
+                                    onClick={() => setSelectedKeys(new Set(finalTrips.flatMap(storedTripKeys)))}
+                                    className="text-xs text-slate-500 dark:text-slate-400 hover:underline"
+                                >
+                                    {t('tags.selectAll')}
+                                </button>
+                                {selectedKeys.size > 0 && tripTags.map(tag => (
+                                    <button
+                                        key={tag.id}
+                                        onClick={() => handleBulkTag(tag.id)}
+                                        className="px-3 py-1 rounded-full text-xs font-medium text-white"
+                                        style={{ backgroundColor: tag.color }}
+                                        title={t('tags.toggleHint')}
+                                    >
+                                        {tag.name}
+                                    </button>
+                                ))}
+                                {selectedKeys.size > 0 && (
+                                    <button
+                                        onClick={handleBulkDelete}
+                                        className="ml-auto px-3 py-1 rounded-full text-xs font-medium border border-red-500 text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20"
+                                    >
+                                        {t('tripEditor.deleteSelected')}
+                                    </button>
+                                )}
+                            </div>
+                        )}
+
                         {/* Sorting */}
                         <div className="flex flex-wrap items-center gap-2 pt-1">
                             <span className="text-sm text-slate-500 dark:text-slate-400 mr-1">
@@ -229,10 +366,11 @@ const AllTripsView = ({
                 <div className="bg-white dark:bg-slate-900 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-800 overflow-hidden">
                     <VirtualizedTripList
                         trips={finalTrips}
-                        onTripClick={openTripDetail}
+                        onTripClick={handleTripClick}
                         minEff={minEff}
                         maxEff={maxEff}
                         scrollElement={scroller}
+                        selectedKeys={selecting ? selectedKeys : undefined}
                     />
                 </div>
             </div>
@@ -3,8 +3,11 @@ import { useTranslation } from 'react-i18next';
 import { toast } from 'react-hot-toast';
 import { useLayout } from '@/context/LayoutContext';
 import { useData } from '@/providers/DataProvider';
+import { useApp } from '@/context/AppContext';
+import { getActiveTariff, recalculateChargeCosts } from '@core/tariffs';
+import { getVehicleProfile } from '@core/vehicleModels';
 import { BYD_RED } from '@core/constants';
-import { Zap, Euro, Battery, Calendar, TrendingUp, Fuel, IconProps } from '@components/Icons';
+import { Zap, Euro, Battery, Calendar, TrendingUp, Fuel, RefreshCw, IconProps } from '@components/Icons';
 import FloatingActionButton from '@components/common/FloatingActionButton';
 import ChargeInsightsModal from '@components/modals/ChargeInsightsModal';
 import { Charge, ChargerType } from '@/types';
@@ -40,11 +43,18 @@ const ChargesTab: FC<ChargesTabProps> = React.memo(({
     onChargeClick,
     onAddClick,
     setShowAllChargesModal,
-    batterySize = 60.48
+    batterySize
 }) => {
     const { t } = useTranslation();
     const { isCompact, isVertical, isFullscreenBYD } = useLayout();
     const { replaceCharges } = useData();
+    const { settings } = useApp();
+    const hasTariff = useMemo(() => getActiveTariff(settings) !== null, [settings]);
+    // Without a battery size, the one of the car's model
+    const netCapacity = useMemo(
+        () => getVehicleProfile({ vehicleModelId: settings.vehicleModelId, batterySize: batterySize ?? settings.batterySize }).netCapacity,
+        [settings.vehicleModelId, settings.batterySize, batterySize]
+    );
 
     // State for insights modal
     const [insightType, setInsightType] = useState<'kwh' | 'cost' | 'price' | 'count' | 'fuel' | null>(null);
@@ -58,8 +68,7 @@ const ChargesTab: FC<ChargesTabProps> = React.memo(({
         if (newCount === 10) {
             toast.loading(t('common.recalculating', 'Recalculating...'), { duration: 2000 });
 
-            // Ensure batterySize is valid number
-            const validBatterySize = parseFloat(String(batterySize)) || 60.48;
+            const validBatterySize = netCapacity;
             let updatedCount = 0;
 
             // Logic to recalc missing initial SoC
@@ -99,7 +108,31 @@ const ChargesTab: FC<ChargesTabProps> = React.memo(({
             }
             setEggCount(0);
         }
-    }, [eggCount, charges, batterySize, replaceCharges, t]);
+    }, [eggCount, charges, netCapacity, replaceCharges, t]);
+
+    // Re-derive home charge costs from the active tariff; costs typed in by hand are kept
+    const handleRecalculateCosts = useCallback(() => {
+        toast.loading(t('common.recalculating', 'Recalculating...'), { duration: 1000 });
+        const { charges: recalculated, updated } = recalculateChargeCosts(charges, settings, true);
+
+        if (updated > 0) {
+            replaceCharges(recalculated);
+            toast.success(t('charges.costsRecalculated', { count: updated }));
+        } else {
+            toast(t('common.noUpdatesNeeded', 'No charges needed updating.'));
+        }
+    }, [charges, settings, replaceCharges, t]);
+
+    const recalculateButton = hasTariff && (
+        <button
+            onClick={handleRecalculateCosts}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium text-slate-600 dark:text-slate-300 bg-slate-100 dark:bg-slate-700/50 hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors"
+            title={t('charges.recalculateCostsHint')}
+        >
+            <RefreshCw className="w-3.5 h-3.5" />
+            {t('charges.recalculateCosts')}
+        </button>
+    );
 
     // Get last 10 charges split into columns (assuming charges are already sorted descending by useChargesData)
     const { firstColumn, secondColumn, last10 } = useMemo(() => {
@@ -216,6 +249,9 @@ const ChargesTab: FC<ChargesTabProps> = React.memo(({
                         <p className="text-slate-900 dark:text-white font-semibold">
                             {charge.totalCost?.toFixed(2) || '0.00'} €
                         </p>
+                        {charge.costSource === 'tariff' && (
+                            <p className="text-[10px] text-emerald-600 dark:text-emerald-400">{t('charges.tariffCost')}</p>
+                        )}
                         {!isFuel && charge.finalPercentage && (
                             <p className="text-xs text-slate-500 dark:text-slate-400">
                                 {(charge.initialPercentage !== undefined && charge.initialPercentage !== null) ? `${Math.round(charge.initialPercentage)}% → ` : ''}
@@ -280,6 +316,7 @@ const ChargesTab: FC<ChargesTabProps> = React.memo(({
                     >
                         {t('charges.last10Charges')}
                     </h2>
+                    {recalculateButton}
                 </div>
 
                 {/* Stats grid */}
@@ -330,7 +367,7 @@ const ChargesTab: FC<ChargesTabProps> = React.memo(({
                     onClose={() => setInsightType(null)}
                     type={insightType || 'kwh'}
                     charges={charges}
-                    batterySize={batterySize}
+                    batterySize={netCapacity}
                     chargerTypes={chargerTypes}
                 />
             </div>
@@ -352,12 +389,15 @@ const ChargesTab: FC<ChargesTabProps> = React.memo(({
     return (
         <div className={verticalSpace}>
             {/* Title */}
-            <h2
-                className={`font-bold text-slate-900 dark:text-white ${headerText} ${headerMargin} cursor-pointer select-none active:scale-95 transition-transform`}
-                onClick={handleEggClick}
-            >
-                {t('charges.last10Charges')}
-            </h2>
+            <div className={`flex items-center justify-between ${headerMargin}`}>
+                <h2
+                    className={`font-bold text-slate-900 dark:text-white ${headerText} cursor-pointer select-none active:scale-95 transition-transform`}
+                    onClick={handleEggClick}
+                >
+                    {t('charges.last10Charges')}
+                </h2>
+                {recalculateButton}
+            </div>
 
             {/* Main content: 8-column grid */}
             <div className={`grid lg:grid-cols-8 ${columnGap}`}>
@@ -397,7 +437,7 @@ const ChargesTab: FC<ChargesTabProps> = React.memo(({
                 onClose={() => setInsightType(null)}
                 type={insightType || 'kwh'}
                 charges={charges}
-                batterySize={batterySize}
+                batterySize={netCapacity}
                 chargerTypes={chargerTypes}
             />
 
@@ -3,6 +3,8 @@ import { useTranslation } from 'react-i18next';
 import { MapPin, Zap, Battery, Clock, TrendingUp, BYD_RED, IconProps } from '@components/Icons';
 import TripCard from '@components/cards/TripCard';
 import { useLayout } from '@/context/LayoutContext';
+import { useApp } from '@/context/AppContext';
+import { toTripUnits } from '@core/journeys';
 import { Trip } from '@/types';
 
 interface HistoryTabProps {
@@ -22,6 +24,9 @@ const HistoryTab: FC<HistoryTabProps> = React.memo(({
 }) => {
   const { t } = useTranslation();
   const { isCompact, isVertical, isFullscreenBYD } = useLayout();
+  const { settings } = useApp();
+  const { tripUnit, journeyGapMinutes } = settings;
+  const title = tripUnit === 'journey' ? t('journeys.last10') : t('history.last10Trips');
 
   // Memoize all calculations to avoid recalculating on every render
   const {
@@ -35,8 +40,8 @@ const HistoryTab: FC<HistoryTabProps> = React.memo(({
     avgDuration,
     avgSpeed
   } = useMemo(() => {
-    // Sort all trips by date and timestamp
-    const sorted = [...filtered].sort((a, b) => {
+    // Sort all trips (or journeys) by date and timestamp
+    const sorted = [...toTripUnits(filtered, { tripUnit, journeyGapMinutes })].sort((a, b) => {
       const dateCompare = (b.date || '').localeCompare(a.date || '');
       if (dateCompare !== 0) return dateCompare;
       return (b.start_timestamp || 0) - (a.start_timestamp || 0);
@@ -87,7 +92,7 @@ const HistoryTab: FC<HistoryTabProps> = React.memo(({
       avgDuration: avgDur,
       avgSpeed: avgSpd
     };
-  }, [filtered]);
+  }, [filtered, tripUnit, journeyGapMinutes]);
 
   // Stat card visual config
   const statPadding = isCompact ? 'p-1.5' : (isFullscreenBYD ? 'p-2' : 'p-4');
@@ -120,7 +125,7 @@ const HistoryTab: FC<HistoryTabProps> = React.memo(({
       <div className="space-y-4">
         {/* Header with title */}
         <h2 className="font-bold text-slate-900 dark:text-white text-xl">
-          {t('history.last10Trips')}
+          {title}
         </h2>
 
         {/* Stats grid - no header */}
@@ -174,7 +179,7 @@ const HistoryTab: FC<HistoryTabProps> = React.memo(({
     <div className={verticalSpace}>
       {/* Title */}
       <h2 className={`font-bold text-slate-900 dark:text-white ${(isCompact || isFullscreenBYD) ? 'text-lg' : 'text-xl'} ${headerMargin}`}>
-        {t('history.last10Trips')}
+        {title}
       </h2>
 
       <div className={`grid lg:grid-cols-8 ${columnGap}`}>
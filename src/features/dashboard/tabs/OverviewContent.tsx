@@ -1,4 +1,4 @@
-import { useRef, useEffect, useState, useMemo, FC } from 'react';
+import { useRef, useEffect, useState, FC } from 'react';
 import { useTranslation } from 'react-i18next';
 import { Line as LineJS, Pie as PieJS } from 'react-chartjs-2';
 import StatCard from '@components/ui/StatCard';
@@ -11,7 +11,6 @@ import HealthReportModal from '@components/modals/HealthReportModal';
 import { MapPin, Zap, Clock, Battery, TrendingUp, Activity, Fuel, IconProps, AlertTriangle } from '@components/Icons';
 import { useLayout } from '@/context/LayoutContext';
 import { Summary, Trip, Settings, TripInsightType, Charge, ProcessedData } from '@/types';
-import { AnomalyService, Anomaly } from '@/services/AnomalyService';
 import { useData } from '@/providers/DataProvider';
 
 const PIE_CHART_OPTIONS = {
@@ -92,34 +91,14 @@ const OverviewContent: FC<OverviewContentProps> = ({
     const lineChartRef = useRef<any>(null);
     const pieChartRef = useRef<any>(null);
 
-    const { acknowledgedAnomalies = [], setAcknowledgedAnomalies, deletedAnomalies = [], setDeletedAnomalies } = useData();
+    // Anomalies of the car's log (useAnomalyLog)
+    const { activeAnomalies = [], anomalyHistory = [], updateAnomalyStatus, deleteAnomaly } = useData();
     const [showHealthModal, setShowHealthModal] = useState(false);
 
-    // Calculate Anomalies
-    const allAnomalies: Anomaly[] = useMemo(() => {
-        if (!stats || !settings) return [];
-        return AnomalyService.checkSystemHealth(stats, settings, charges || [], trips);
-    }, [stats, settings, charges, trips]);
-
-    const activeAnomalies = useMemo(() =>
-        allAnomalies.filter(a => !acknowledgedAnomalies.includes(a.id) && !deletedAnomalies.includes(a.id)),
-        [allAnomalies, acknowledgedAnomalies, deletedAnomalies]);
-
-    const historyAnomalies = useMemo(() =>
-        allAnomalies.filter(a => acknowledgedAnomalies.includes(a.id) && !deletedAnomalies.includes(a.id)),
-        [allAnomalies, acknowledgedAnomalies, deletedAnomalies]);
-
     const criticalAnomalies = activeAnomalies.filter(a => a.severity === 'critical').length;
     const warningAnomalies = activeAnomalies.filter(a => a.severity === 'warning').length;
     const hasAnomalies = activeAnomalies.length > 0;
 
-    const handleAcknowledge = (id: string) => {
-        setAcknowledgedAnomalies([...acknowledgedAnomalies, id]);
-    };
-
-    const handleDelete = (id: string) => {
-        setDeletedAnomalies([...deletedAnomalies, id]);
-    };
 
     // Effect to trigger animation when tab becomes active
     useEffect(() => {
@@ -230,7 +209,7 @@ const OverviewContent: FC<OverviewContentProps> = ({
             key: 'system_health',
             icon: hasAnomalies ? AlertTriangle : Activity,
             label: t('stats.systemStatus', 'Estado Sistema'),
-            value: hasAnomalies ? `${activeAnomalies.length} Alerta${activeAnomalies.length > 1 ? 's' : ''}` : t('stats.normal', 'Normal'),
+            value: hasAnomalies ? t('health.alerts', { count: activeAnomalies.length }) : t('stats.normal', 'Normal'),
             unit: '',
             color: criticalAnomalies > 0
                 ? "bg-red-500/20 text-red-500"
@@ -357,9 +336,9 @@ const OverviewContent: FC<OverviewContentProps> = ({
                 isOpen={showHealthModal}
                 onClose={() => setShowHealthModal(false)}
                 anomalies={activeAnomalies}
-                historyAnomalies={historyAnomalies}
-                onAcknowledge={handleAcknowledge}
-                onDelete={handleDelete}
+                historyAnomalies={anomalyHistory}
+                onStatusChange={updateAnomalyStatus}
+                onDelete={deleteAnomaly}
             />
         </div>
     );
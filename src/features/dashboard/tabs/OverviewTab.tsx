@@ -4,6 +4,7 @@ import OverviewContent from './OverviewContent';
 import MfgDateModal from '@components/modals/MfgDateModal';
 import ThermalStressModal from '@components/modals/ThermalStressModal';
 import RangeInsightsModal from '@components/modals/RangeInsightsModal';
+import TripPlannerModal from '@components/modals/TripPlannerModal';
 import { useApp } from '@/context/AppContext';
 import { useData } from '@/providers/DataProvider';
 import { Summary, MonthlyData, Settings, Trip, TripInsightType } from '@/types';
@@ -51,6 +52,7 @@ const OverviewTab: React.FC<OverviewTabProps> = React.memo(({
   const [showMfgModal, setShowMfgModal] = useState(false);
   const [showThermalModal, setShowThermalModal] = useState(false);
   const [showRangeModal, setShowRangeModal] = useState(false);
+  const [showPlannerModal, setShowPlannerModal] = useState(false);
 
   const handleCardClick = (type: TripInsightType) => {
     if (type === 'distance') {
@@ -159,6 +161,16 @@ const OverviewTab: React.FC<OverviewTabProps> = React.memo(({
         aiScenarios={aiScenarios}
         aiLoss={aiLoss}
         isTraining={isAiTraining}
+        onPlanTrip={() => {
+          setShowRangeModal(false);
+          setShowPlannerModal(true);
+        }}
+      />
+      <TripPlannerModal
+        isOpen={showPlannerModal}
+        onClose={() => setShowPlannerModal(false)}
+        settings={settings}
+        soh={summary?.soh}
       />
     </>
   );
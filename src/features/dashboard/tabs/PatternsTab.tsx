@@ -4,6 +4,8 @@ import { Bar as BarJS, Radar as RadarJS } from 'react-chartjs-2';
 import { Calendar, Clock, TrendingUp, BYD_RED, Car } from '@components/Icons';
 import StatCard from '@components/ui/StatCard';
 import ChartCard from '@components/ui/ChartCard';
+import TagBreakdownCard from '@components/cards/TagBreakdownCard';
+import RecurringRoutesCard from '@components/cards/RecurringRoutesCard';
 import { useLayout } from '@/context/LayoutContext';
 import { Summary } from '@/types';
 
@@ -210,6 +212,8 @@ const PatternsTab: FC<PatternsTabProps> = React.memo(({
             </div>
           ))}
         </div>
+        <TagBreakdownCard isCompact={isCompact} />
+        <RecurringRoutesCard isCompact={isCompact} />
       </div>
     );
   }
@@ -277,6 +281,8 @@ const PatternsTab: FC<PatternsTabProps> = React.memo(({
           </div>
         ))}
       </div>
+      <TagBreakdownCard isCompact={isCompact} />
+      <RecurringRoutesCard isCompact={isCompact} />
     </div>
   );
 });
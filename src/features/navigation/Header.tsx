@@ -1,11 +1,13 @@
 import React, { memo } from 'react';
 import { useTranslation } from 'react-i18next';
-import { HelpCircle, Minimize, Maximize, Database, Settings, Filter, ChevronDown, Plus, Car, Check, Cloud, RefreshCw, AlertCircle } from '../../components/Icons';
+import { HelpCircle, Minimize, Maximize, Database, Settings, Filter, ChevronDown, Plus, Car, Check, Cloud, RefreshCw, AlertCircle, BarChart3 } from '../../components/Icons';
 import { useLayout } from '../../context/LayoutContext';
 import { useData } from '../../providers/DataProvider';
 import { useCar } from '../../context/CarContext';
 // import useModalState from '../../hooks/useModalState';
 import AddCarModal from '../../components/modals/AddCarModal';
+import FleetComparisonModal from '../../components/modals/FleetComparisonModal';
+import { Settings as SettingsType } from '../../types';
 import { useState, useRef, useEffect, useCallback } from 'react';
 
 const Header: React.FC = memo(() => {
@@ -15,6 +17,7 @@ const Header: React.FC = memo(() => {
     const { cars, activeCar, activeCarId, setActiveCarId, addCar } = useCar();
     const [showCarDropdown, setShowCarDropdown] = useState(false);
     const [showAddCarModal, setShowAddCarModal] = useState(false);
+    const [showFleetModal, setShowFleetModal] = useState(false);
     const dropdownRef = useRef<HTMLDivElement>(null);
 
     // Close dropdown when clicking outside
@@ -38,8 +41,8 @@ const Header: React.FC = memo(() => {
         setShowCarDropdown(false);
     }, [setActiveCarId]);
 
-    const handleAddCar = useCallback((carData: { name: string; type: 'ev' | 'phev'; isHybrid: boolean }) => {
-        addCar(carData);
+    const handleAddCar = useCallback((carData: { name: string; type: 'ev' | 'phev'; isHybrid: boolean; model?: string }, settings?: Partial<SettingsType>) => {
+        addCar(carData, settings);
     }, [addCar]);
     // Removed local useModalState
 
@@ -117,7 +120,19 @@ const Header: React.FC = memo(() => {
                                             </button>
                                         ))}
                                     </div>
-                                    <div className="p-2 border-t border-slate-100 dark:border-slate-700 bg-slate-50 dark:bg-slate-900/50">
+                                    <div className="p-2 border-t border-slate-100 dark:border-slate-700 bg-slate-50 dark:bg-slate-900/50 space-y-1">
+                                        {cars.length > 1 && (
+                                            <button
+                                                onClick={() => {
+                                                    setShowCarDropdown(false);
+                                                    setShowFleetModal(true);
+                                                }}
+                                                className="w-full flex items-center justify-center gap-2 px-3 py-2 rounded-lg text-sm font-medium text-slate-600 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white hover:bg-white dark:hover:bg-slate-800 border border-transparent hover:border-slate-200 dark:hover:border-slate-700 transition-all"
+                                            >
+                                                <BarChart3 className="w-4 h-4" />
+                                                {t('fleet.compare')}
+                                            </button>
+                                        )}
                                         <button
                                             onClick={() => {
                                                 setShowCarDropdown(false);
@@ -215,6 +230,14 @@ const Header: React.FC = memo(() => {
                 onClose={() => setShowAddCarModal(false)}
                 onSave={handleAddCar}
             />
+
+            {/* Fleet Comparison Modal */}
+            {showFleetModal && (
+                <FleetComparisonModal
+                    isOpen={showFleetModal}
+                    onClose={() => setShowFleetModal(false)}
+                />
+            )}
         </div>
     );
 });
@@ -8,6 +8,7 @@ const mockT = vi.fn((key, params) => key + (params ? JSON.stringify(params) : ''
 const mockUpdateSettings = vi.fn();
 const mockAddMultipleCharges = vi.fn();
 const mockSyncNow = vi.fn();
+const mockShowImportReport = vi.fn();
 
 vi.mock('react-hot-toast', () => ({
     toast: {
@@ -34,6 +35,8 @@ vi.mock('@/context/AppContext', () => ({
 vi.mock('@/providers/DataProvider', () => ({
     useData: () => ({
         addMultipleCharges: mockAddMultipleCharges,
+        charges: [],
+        showImportReport: mockShowImportReport,
         googleSync: {
             isAuthenticated: true,
             syncNow: mockSyncNow
@@ -96,6 +99,36 @@ describe('useChargeImporter', () => {
 
         // Verify toast shown
         expect(toast.success).toHaveBeenCalledWith(expect.stringContaining('charges.chargesImported'));
+
+        // Clean imports get a report too
+        expect(mockShowImportReport).toHaveBeenCalledWith(expect.objectContaining({ accepted: 2, rejected: [] }));
+    });
+
+    it('should report rejected rows', async () => {
+        const { result } = renderHook(() => useChargeImporter());
+        const csvContent =
+            `Fecha,Km totales,kWh facturados,Importe total,Duracion,Tipo de carga,Precio/kWh,Porcentaje carga final
+2025-01-20 14:30,10000,50.5,15.25,01:30,Home Charger,0.30,80
+2025-01-21 18:00,10200,20.0
+2025-01-22 18:00,10300,-5,1.00,00:10,Home Charger,0.30,90`;
+        const file = new File([csvContent], 'REGISTRO_CARGAS.csv', { type: 'text/csv' });
+        file.text = () => Promise.resolve(csvContent);
+
+        await act(async () => {
+            await result.current.loadChargeRegistry(file);
+        });
+
+        expect(mockAddMultipleCharges).toHaveBeenCalledWith([expect.objectContaining({ date: '2025-01-20' })]);
+        expect(mockShowImportReport).toHaveBeenCalledWith(expect.objectContaining({
+            kind: 'charges',
+            totalRows: 3,
+            accepted: 1,
+            header: expect.stringContaining('Fecha')
+        }));
+
+        const report = mockShowImportReport.mock.calls[0][0];
+        expect(report.rejected.map(r => r.line)).toEqual([3, 4]);
+        expect(report.rejected[1].issues[0].path).toBe('kwhCharged');
     });
 
     it('should handle empty or invalid files', async () => {
@@ -0,0 +1,30 @@
+// BYD Stats - useChargesData Hook Tests
+import { describe, it, expect, beforeEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import useChargesData from '../useChargesData';
+
+const exported = [
+    { id: 'charge-1', date: '2025-07-12', time: '22:30', kwhCharged: 20.5, totalCost: 3.2, pricePerKwh: 0.156, chargerTypeId: 'home' },
+    { id: 'charge-2', date: '2025-08-02', time: '09:15', kwhCharged: 12, totalCost: 2, pricePerKwh: 0.166, chargerTypeId: 'home' }
+];
+
+describe('useChargesData', () => {
+    beforeEach(() => localStorage.clear());
+
+    it('should keep the ids of re-imported charges and skip the ones already present', () => {
+        const { result } = renderHook(() => useChargesData(null));
+
+        act(() => { result.current.addMultipleCharges(exported); });
+        expect(result.current.charges.map(c => c.id).sort()).toEqual(['charge-1', 'charge-2']);
+
+        act(() => { result.current.addMultipleCharges(exported); });
+        expect(result.current.charges).toHaveLength(2);
+    });
+
+    it('should give new ids to charges without one', () => {
+        const { result } = renderHook(() => useChargesData(null));
+
+        act(() => { result.current.addMultipleCharges([{ date: '2025-07-12', time: '22:30', kwhCharged: 20.5 }]); });
+        expect(result.current.charges[0].id).toEqual(expect.any(String));
+    });
+});
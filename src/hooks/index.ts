@@ -9,5 +9,6 @@ export { useFileHandling } from './useFileHandling';
 export { default as useAppData } from './useAppData';
 export { useChartDimensions } from './useChartDimensions';
 export { useConfirmation } from './useConfirmation';
+export { useCsvProfiles } from './useCsvProfiles';
 export { useChargeImporter } from './useChargeImporter';
 export { useGoogleSync } from './useGoogleSync';
@@ -0,0 +1,103 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Anomaly, AnomalyLogEntry, AnomalyStatus } from '@/types';
+import { AnomalyLogService } from '@/services/AnomalyLogService';
+import { NotificationService } from '@/services/NotificationService';
+import { StorageService } from '@/services/StorageService';
+import {
+    applyLegacyAnomalyStates,
+    getActiveAnomalies,
+    getAnomalyHistory,
+    hideAnomaly,
+    mergeAnomalyLog,
+    setAnomalyStatus
+} from '@core/anomalyLog';
+
+export interface UseAnomalyLogReturn {
+    anomalyLog: AnomalyLogEntry[];
+    activeAnomalies: AnomalyLogEntry[];
+    anomalyHistory: AnomalyLogEntry[];
+    updateAnomalyStatus: (id: string, status: AnomalyStatus, snoozeDays?: number) => void;
+    deleteAnomaly: (id: string) => void;
+}
+
+/**
+ * Keeps the car's anomaly log in step with the health checks and notifies new critical anomalies
+ */
+export const useAnomalyLog = (
+    activeCarId: string | null,
+    detected: Anomaly[],
+    notify: boolean = false
+): UseAnomalyLogReturn => {
+    const { t } = useTranslation();
+    const [anomalyLog, setAnomalyLog] = useState<AnomalyLogEntry[]>([]);
+    // Car whose log is in state; nothing is saved until its load finishes
+    const [loadedCar, setLoadedCar] = useState<string | null>(null);
+    const seedingRef = useRef(false);
+
+    useEffect(() => {
+        const stored = activeCarId ? AnomalyLogService.get(activeCarId) : null;
+        seedingRef.current = !!activeCarId && stored === null;
+        setAnomalyLog(stored || []);
+        setLoadedCar(activeCarId);
+    }, [activeCarId]);
+
+    // Latest log for the merge, which must not re-run on its own changes
+    const logRef = useRef<AnomalyLogEntry[]>([]);
+    useEffect(() => {
+        logRef.current = anomalyLog;
+    }, [anomalyLog]);
+
+    // Translator for the notification texts; a language change is no new check
+    const tRef = useRef(t);
+    useEffect(() => {
+        tRef.current = t;
+    }, [t]);
+
+    useEffect(() => {
+        if (!activeCarId || loadedCar !== activeCarId || detected.length === 0) return;
+
+        // The first check of a car has nothing new to tell
+        const seeding = seedingRef.current;
+        seedingRef.current = false;
+        const now = Date.now();
+        const { log, raised } = mergeAnomalyLog(logRef.current, detected, now);
+
+        const critical = seeding || !notify ? [] : raised.filter(entry => entry.severity === 'critical');
+        const translate = tRef.current;
+        critical.forEach(entry => NotificationService.notify(
+            translate(entry.title, { ...entry.params, defaultValue: entry.title }),
+            translate(entry.description, { ...entry.params, defaultValue: entry.description }),
+            entry.id
+        ));
+        const notified = new Set(critical.map(entry => entry.id));
+
+        // Ids acknowledged or deleted before the log existed were shared by all cars
+        const next = seeding
+            ? applyLegacyAnomalyStates(log, StorageService.get<string[]>('acknowledged_anomalies', []), StorageService.get<string[]>('deleted_anomalies', []), now)
+            : log.map(entry => notified.has(entry.id) ? { ...entry, notifiedAt: now } : entry);
+        logRef.current = next;
+        setAnomalyLog(next);
+    }, [activeCarId, loadedCar, detected, notify]);
+
+    useEffect(() => {
+        if (activeCarId && loadedCar === activeCarId) {
+            AnomalyLogService.save(activeCarId, anomalyLog);
+        }
+    }, [anomalyLog, activeCarId, loadedCar]);
+
+    const updateAnomalyStatus = useCallback((id: string, status: AnomalyStatus, snoozeDays?: number) => {
+        setAnomalyLog(prev => setAnomalyStatus(prev, id, status, Date.now(), snoozeDays));
+    }, []);
+
+    const deleteAnomaly = useCallback((id: string) => {
+        setAnomalyLog(prev => hideAnomaly(prev, id));
+    }, []);
+
+    const activeAnomalies = useMemo(() => getActiveAnomalies(anomalyLog), [anomalyLog]);
+    const anomalyHistory = useMemo(() => getAnomalyHistory(anomalyLog), [anomalyLog]);
+
+    return { anomalyLog, activeAnomalies, anomalyHistory, updateAnomalyStatus, deleteAnomaly };
+};
+
+export default useAnomalyLog;
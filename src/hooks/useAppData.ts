@@ -2,11 +2,14 @@
 // Composes granular hooks into a unified API for backward compatibility
 
 import { useMemo } from 'react';
-import { Trip, Charge, Settings, ProcessedData } from '@/types';
+import { Trip, Charge, Settings, ProcessedData, Anomaly, AnomalyLogEntry, AnomalyStatus } from '@/types';
 import { useFilters } from './useFilters';
 import { useTrips } from './useTrips';
 import { useProcessedData } from './useProcessedData';
-import { useLocalStorage } from './useLocalStorage';
+import { useAnomalyLog } from './useAnomalyLog';
+import { filterTripsByTag } from '@core/tripTags';
+import { AnomalyService } from '@/services/AnomalyService';
+import { TripEditResult } from '@core/tripEdits';
 
 export interface UseAppDataReturn {
     rawTrips: Trip[];
@@ -21,6 +24,8 @@ export interface UseAppDataReturn {
     setDateFrom: React.Dispatch<React.SetStateAction<string>>;
     dateTo: string;
     setDateTo: React.Dispatch<React.SetStateAction<string>>;
+    tagFilter: string;
+    setTagFilter: React.Dispatch<React.SetStateAction<string>>;
     months: string[];
     filtered: Trip[];
     data: ProcessedData | null;
@@ -28,6 +33,9 @@ export interface UseAppDataReturn {
     saveToHistory: () => { success: boolean; total?: number; added?: number; reason?: string };
     loadFromHistory: () => { success: boolean; count?: number; reason?: string };
     clearHistory: () => boolean;
+    addTrip: (values: Partial<Trip>) => TripEditResult;
+    updateTrip: (key: string, changes: Partial<Trip>) => TripEditResult;
+    deleteTrips: (keys: string[]) => Trip[];
     isProcessing: boolean;
     isAiTraining: boolean;
     aiScenarios: Array<{ name: string; speed: number; efficiency: number; range: number }>;
@@ -35,10 +43,12 @@ export interface UseAppDataReturn {
     aiSoH: number | null;
     aiSoHStats: { points: any[]; trend: any[] } | null;
     predictDeparture: (startTime: number) => Promise<{ departureTime: number; duration: number } | null>;
-    acknowledgedAnomalies: string[];
-    setAcknowledgedAnomalies: (ids: string[]) => void;
-    deletedAnomalies: string[];
-    setDeletedAnomalies: (ids: string[]) => void;
+    predictEfficiency: (speed: number, distance: number) => Promise<number | null>;
+    anomalyLog: AnomalyLogEntry[];
+    activeAnomalies: AnomalyLogEntry[];
+    anomalyHistory: AnomalyLogEntry[];
+    updateAnomalyStatus: (id: string, status: AnomalyStatus, snoozeDays?: number) => void;
+    deleteAnomaly: (id: string) => void;
     forceRecalculate: () => void;
 }
 
@@ -52,7 +62,10 @@ const useAppData = (settings: Settings, charges: Charge[] = [], activeCarId: str
         clearData,
         saveToHistory,
         loadFromHistory,
-        clearHistory
+        clearHistory,
+        addTrip,
+        updateTrip,
+        deleteTrips
     } = useTrips(activeCarId);
 
     // 2. Manage Filters
@@ -64,7 +77,9 @@ const useAppData = (settings: Settings, charges: Charge[] = [], activeCarId: str
         dateFrom,
         setDateFrom,
         dateTo,
-        setDateTo
+        setDateTo,
+        tagFilter,
+        setTagFilter
     } = useFilters();
 
     // 3. Computed: Unique Months
@@ -77,10 +92,10 @@ const useAppData = (settings: Settings, charges: Charge[] = [], activeCarId: str
         if (!rawTrips || rawTrips.length === 0) return [];
 
         if (filterType === 'month' && selMonth) {
-            return rawTrips.filter(t => {
+            return filterTripsByTag(rawTrips.filter(t => {
                 const m = t.month || (t.date ? t.date.substring(0, 6) : '');
                 return m === selMonth;
-            });
+            }), tagFilter);
         }
 
         if (filterType === 'range') {
@@ -93,18 +108,23 @@ const useAppData = (settings: Settings, charges: Charge[] = [], activeCarId: str
                 const limit = dateTo.replace(/-/g, '');
                 r = r.filter(t => (t.date || '') <= limit);
             }
-            return r;
+            return filterTripsByTag(r, tagFilter);
         }
 
-        return rawTrips;
-    }, [rawTrips, filterType, selMonth, dateFrom, dateTo]);
+        return filterTripsByTag(rawTrips, tagFilter);
+    }, [rawTrips, filterType, selMonth, dateFrom, dateTo, tagFilter]);
 
     // 5. Worker Processing (Async Stats)
-    const { data, isProcessing, isAiTraining, aiScenarios, aiLoss, aiSoH, aiSoHStats, predictDeparture, forceRecalculate } = useProcessedData(filtered, settings, charges);
+    const { data, isProcessing, isAiTraining, aiScenarios, aiLoss, aiSoH, aiSoHStats, predictDeparture, predictEfficiency, forceRecalculate } = useProcessedData(filtered, settings, charges, rawTrips);
+
+    // 6. Anomalies: health check of the processed data, kept in the car's log
+    const detectedAnomalies: Anomaly[] = useMemo(() => {
+        if (!data || !settings) return [];
+        return AnomalyService.checkSystemHealth(data, settings, charges, rawTrips);
+    }, [data, settings, charges, rawTrips]);
 
-    // 6. Anomalies State
-    const [acknowledgedAnomalies, setAcknowledgedAnomalies] = useLocalStorage<string[]>('acknowledged_anomalies', []);
-    const [deletedAnomalies, setDeletedAnomalies] = useLocalStorage<string[]>('deleted_anomalies', []);
+    const { anomalyLog, activeAnomalies, anomalyHistory, updateAnomalyStatus, deleteAnomaly } =
+        useAnomalyLog(activeCarId, detectedAnomalies, !!settings?.anomalyNotifications);
 
     return useMemo(() => ({
         // Trip Data
@@ -122,6 +142,8 @@ const useAppData = (settings: Settings, charges: Charge[] = [], activeCarId: str
         setDateFrom,
         dateTo,
         setDateTo,
+        tagFilter,
+        setTagFilter,
 
         // Computed
         months,
@@ -133,6 +155,9 @@ const useAppData = (settings: Settings, charges: Charge[] = [], activeCarId: str
         saveToHistory,
         loadFromHistory,
         clearHistory,
+        addTrip,
+        updateTrip,
+        deleteTrips,
         isProcessing,
         isAiTraining,
 
@@ -142,21 +167,23 @@ const useAppData = (settings: Settings, charges: Charge[] = [], activeCarId: str
         aiSoH,
         aiSoHStats,
         predictDeparture, // Added explicitly
+        predictEfficiency,
 
         // Anomalies
-        acknowledgedAnomalies,
-        setAcknowledgedAnomalies,
-        deletedAnomalies,
-        setDeletedAnomalies,
+        anomalyLog,
+        activeAnomalies,
+        anomalyHistory,
+        updateAnomalyStatus,
+        deleteAnomaly,
         forceRecalculate
 
     }), [
         rawTrips, tripHistory,
-        filterType, selMonth, dateFrom, dateTo,
+        filterType, selMonth, dateFrom, dateTo, tagFilter,
         months, filtered, data,
-        clearData, saveToHistory, loadFromHistory, clearHistory,
-        isProcessing, isAiTraining, aiScenarios, aiLoss, aiSoH, aiSoHStats, predictDeparture, forceRecalculate,
-        acknowledgedAnomalies, deletedAnomalies
+        clearData, saveToHistory, loadFromHistory, clearHistory, addTrip, updateTrip, deleteTrips,
+        isProcessing, isAiTraining, aiScenarios, aiLoss, aiSoH, aiSoHStats, predictDeparture, predictEfficiency, forceRecalculate,
+        anomalyLog, activeAnomalies, anomalyHistory, updateAnomalyStatus, deleteAnomaly
     ]);
 };
 
@@ -29,7 +29,7 @@ export const useAppOrchestrator = () => {
         charges,
 
         // Actions
-        setRawTrips,
+        loadFile,
         replaceCharges,
         addCharge,
         deleteCharge,
@@ -56,7 +56,7 @@ export const useAppOrchestrator = () => {
         setEditingCharge
     } = useData();
 
-    const { sqlReady, loading, error, initSql, processDB: processDBHook, exportDatabase: exportDBHook } = database;
+    const { sqlReady, loading, error, initSql, exportDatabase: exportDBHook } = database;
 
     // View State (Local to orchestrator, lifting up from App.jsx)
     const [backgroundLoad, setBackgroundLoad] = useState(false);
@@ -94,17 +94,12 @@ export const useAppOrchestrator = () => {
     const isLandingPage = rawTrips.length === 0 && charges.length === 0;
 
     // Handlers
+    // Same import path as the upload modals, so the landing page also gets the import report
     const processDB = useCallback(async (file: File, merge = false) => {
-        const trips = await processDBHook(file, merge ? rawTrips : [], merge);
-        if (trips) {
-            setRawTrips(trips);
-            if (googleSync.isAuthenticated) {
-                googleSync.syncNow(trips);
-            }
-            closeModal('upload');
-            closeModal('history');
-        }
-    }, [processDBHook, rawTrips, googleSync, closeModal, setRawTrips]);
+        await loadFile(file, merge);
+        closeModal('upload');
+        closeModal('history');
+    }, [loadFile, closeModal]);
 
     const exportDatabase = useCallback(async () => {
         const success = await exportDBHook(filtered);
@@ -5,11 +5,14 @@ import { useApp } from '@/context/AppContext';
 import { useData } from '@/providers/DataProvider';
 import { Charge, ChargerType } from '@/types';
 import { ChargeCsvRowSchema, parseChargeCsvLine } from '@/utils/validation';
+import { ImportReport, ImportRowError, classifyImportedCharges, rowErrorFromZod } from '@core/importReport';
+import { getVehicleProfile } from '@core/vehicleModels';
+import { splitCsvLine } from '@core/tripImporters';
 
 export const useChargeImporter = () => {
     const { t } = useTranslation();
     const { settings, updateSettings } = useApp();
-    const { addMultipleCharges, googleSync } = useData();
+    const { addMultipleCharges, googleSync, charges: existingCharges, showImportReport } = useData();
 
     /**
      * Load charges from a CSV file with REGISTRO_CARGAS.csv format
@@ -26,6 +29,7 @@ export const useChargeImporter = () => {
             }
 
             const charges: Partial<Charge>[] = [];
+            const rejected: ImportRowError[] = [];
             const newChargerTypes: ChargerType[] = [];
             const existingChargerNames = new Set(
                 (settings.chargerTypes || []).map(ct => ct.name.toLowerCase())
@@ -34,18 +38,19 @@ export const useChargeImporter = () => {
             // Parse each line (skip header)
             for (let i = 1; i < lines.length; i++) {
                 const line = lines[i];
-                const values = line.match(/("[^"]*"|[^,]+)/g)?.map(v => v.replace(/^"|"$/g, '').trim());
-
-                if (!values) continue;
+                const values = splitCsvLine(line);
 
                 // 1. Pre-parse raw values
                 const rawData = parseChargeCsvLine(values);
-                if (!rawData) continue;
+                if (!rawData) {
+                    rejected.push({ line: i + 1, message: 'Formato de fila incorrecto', raw: line });
+                    continue;
+                }
 
                 // 2. Validate with Zod
                 const validation = ChargeCsvRowSchema.safeParse(rawData);
                 if (!validation.success) {
-                    console.warn(`Skipping invalid row ${i}:`, validation.error.format());
+                    rejected.push(rowErrorFromZod(i + 1, validation.error, line));
                     continue;
                 }
 
@@ -103,7 +108,7 @@ export const useChargeImporter = () => {
             }
 
             // Get battery capacity for estimation
-            const batterySize = parseFloat(String(settings.batterySize)) || 60.48;
+            const batterySize = getVehicleProfile(settings).netCapacity;
 
             // Import charges with estimation logic
             const processedCharges = charges.map(c => {
@@ -133,6 +138,23 @@ export const useChargeImporter = () => {
                 } as Charge;
             });
 
+            if (showImportReport) {
+                const { accepted, duplicates } = classifyImportedCharges(existingCharges || [], processedCharges);
+                const report: ImportReport = {
+                    kind: 'charges',
+                    fileName: file.name,
+                    source: 'REGISTRO_CARGAS.csv',
+                    createdAt: Date.now(),
+                    totalRows: lines.length - 1,
+                    accepted,
+                    duplicates,
+                    merged: 0,
+                    rejected,
+                    header: lines[0]
+                };
+                showImportReport(report);
+            }
+
             if (processedCharges.length > 0) {
                 const count = addMultipleCharges(processedCharges);
 
@@ -156,7 +178,7 @@ export const useChargeImporter = () => {
             console.error('Error loading charge registry:', error);
             toast.error(t('errors.processingFile') || 'Error processing file');
         }
-    }, [settings, updateSettings, addMultipleCharges, googleSync, t]);
+    }, [settings, updateSettings, addMultipleCharges, googleSync, existingCharges, showImportReport, t]);
 
     return { loadChargeRegistry };
 };
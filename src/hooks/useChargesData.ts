@@ -2,11 +2,14 @@
 // Manages charging session data persistence and CRUD operations
 
 import { useState, useCallback, useEffect, useMemo } from 'react';
-import { CHARGES_STORAGE_KEY as BASE_CHARGES_KEY } from '@core/constants';
 import { logger } from '@core/logger';
+import { StorageService } from '@/services/StorageService';
+import { SyncStateService } from '@/services/SyncStateService';
+import { chargeSyncKey } from '@core/syncMerge';
 import { Charge } from '@/types';
 
 interface ChargeData {
+    id?: string; // Kept when re-importing an export
     date: string;
     time: string;
     kwhCharged?: number;
@@ -22,6 +25,7 @@ interface ChargeData {
     pricePerLiter?: number;
     speedKw?: number;
     efficiency?: number;
+    costSource?: 'entered' | 'tariff';
 }
 
 interface ChargeSummary {
@@ -52,53 +56,39 @@ interface UseChargesDataReturn {
 
 /**
  * Hook to manage charging session data
- * Provides CRUD operations with localStorage persistence
+ * Provides CRUD operations with per-record persistence (StorageService)
  */
 const useChargesData = (activeCarId: string | null = null): UseChargesDataReturn => {
-    // specific keys for current car
-    const storageKey = activeCarId ? `${BASE_CHARGES_KEY}_${activeCarId}` : null;
-
     // Initialize state
     const [charges, setCharges] = useState<Charge[]>([]);
+    // Car whose charges are in state; nothing is saved until its load finishes
+    const [loadedCarId, setLoadedCarId] = useState<string | null>(null);
 
     // Load data when activeCarId changes
     useEffect(() => {
-        if (!storageKey) {
+        setLoadedCarId(null);
+        if (!activeCarId) {
             setCharges([]);
             return;
         }
 
-        try {
-            const saved = localStorage.getItem(storageKey);
-            if (saved) {
-                const parsed = JSON.parse(saved);
-                // Sort by timestamp descending (newest first)
-                if (Array.isArray(parsed)) {
-                    setCharges(parsed.sort((a: Charge, b: Charge) => (b.timestamp || 0) - (a.timestamp || 0)));
-                } else {
-                    setCharges([]);
-                }
-            } else {
-                setCharges([]);
-            }
-        } catch (e) {
-            logger.error('Error loading charges from localStorage:', e);
-            setCharges([]);
-        }
-    }, [storageKey]);
+        let cancelled = false;
+        StorageService.loadRecords<Charge>('charges', activeCarId).then(saved => {
+            if (cancelled) return;
+            // Sort by timestamp descending (newest first)
+            setCharges(saved.sort((a: Charge, b: Charge) => (b.timestamp || 0) - (a.timestamp || 0)));
+            setLoadedCarId(activeCarId);
+        });
+        return () => { cancelled = true; };
+    }, [activeCarId]);
 
-    // Persist changes to localStorage
+    // Persist changes (only the records that changed are written)
+    // Empty lists are saved too: the load guard keeps a pending load from wiping the store
     useEffect(() => {
-        if (storageKey && charges.length > 0) {
-            try {
-                localStorage.setItem(storageKey, JSON.stringify(charges));
-            } catch (e) {
-                logger.error('Error saving charges to localStorage:', e);
-            }
-        } else if (storageKey && charges.length === 0) {
-            // Optional: clean up?
+        if (activeCarId && loadedCarId === activeCarId) {
+            StorageService.saveRecords('charges', activeCarId, charges);
         }
-    }, [charges, storageKey]);
+    }, [charges, activeCarId, loadedCarId]);
 
     /**
      * Add a new charge
@@ -111,7 +101,8 @@ const useChargesData = (activeCarId: string | null = null): UseChargesDataReturn
             kwhCharged: chargeData.kwhCharged || chargeData.kwh || 0,
             totalCost: chargeData.totalCost || 0,
             pricePerKwh: chargeData.pricePerKwh || 0,
-            chargerTypeId: chargeData.chargerTypeId || 'unknown'
+            chargerTypeId: chargeData.chargerTypeId || 'unknown',
+            updatedAt: Date.now()
         };
 
         setCharges(prev => {
@@ -125,27 +116,30 @@ const useChargesData = (activeCarId: string | null = null): UseChargesDataReturn
     }, []);
 
     /**
-     * Add multiple charges at once (for CSV import)
+     * Add multiple charges at once (CSV import, or a JSON export that keeps its ids)
      */
     const addMultipleCharges = useCallback((chargesArray: ChargeData[]) => {
         if (!Array.isArray(chargesArray) || chargesArray.length === 0) {
             return 0;
         }
 
+        const now = Date.now();
         const newCharges: Charge[] = chargesArray.map(chargeData => ({
             ...chargeData,
-            id: crypto.randomUUID(),
+            id: chargeData.id || crypto.randomUUID(),
             timestamp: new Date(`${chargeData.date}T${chargeData.time}`).getTime(),
             kwhCharged: chargeData.kwhCharged || chargeData.kwh || 0,
             totalCost: chargeData.totalCost || 0,
             pricePerKwh: chargeData.pricePerKwh || 0,
-            chargerTypeId: chargeData.chargerTypeId || 'unknown'
+            chargerTypeId: chargeData.chargerTypeId || 'unknown',
+            updatedAt: now
         }));
 
         setCharges(prev => {
-            // Combine existing and new, avoiding duplicates by timestamp
+            // Combine existing and new, avoiding duplicates by timestamp or id
             const existingTimestamps = new Set(prev.map(c => c.timestamp));
-            const uniqueNew = newCharges.filter(c => !existingTimestamps.has(c.timestamp));
+            const existingIds = new Set(prev.map(c => c.id));
+            const uniqueNew = newCharges.filter(c => !existingTimestamps.has(c.timestamp) && !existingIds.has(c.id));
             const combined = [...prev, ...uniqueNew];
             // Sort by timestamp descending
             return combined.sort((a, b) => (b.timestamp || 0) - (a.timestamp || 0));
@@ -159,11 +153,21 @@ const useChargesData = (activeCarId: string | null = null): UseChargesDataReturn
      * Update an existing charge
      */
     const updateCharge = useCallback((id: string, updates: Partial<Charge>) => {
+        const current = charges.find(charge => charge.id === id);
+        if (current && activeCarId && (updates.date || updates.time)) {
+            const moved = { ...current, ...updates };
+            moved.timestamp = new Date(`${moved.date}T${moved.time}`).getTime();
+            // Date and time identify the charge in sync: the old identity is gone
+            if (chargeSyncKey(moved) !== chargeSyncKey(current)) {
+                SyncStateService.addTombstones(activeCarId, [{ kind: 'charges', key: chargeSyncKey(current), deletedAt: Date.now() }]);
+            }
+        }
+
         setCharges(prev => {
             const updated = prev.map(charge => {
                 if (charge.id !== id) return charge;
 
-                const updatedCharge = { ...charge, ...updates };
+                const updatedCharge = { ...charge, ...updates, updatedAt: Date.now() };
                 // Recalculate timestamp if date or time changed
                 if (updates.date || updates.time) {
                     const date = updates.date || charge.date;
@@ -177,15 +181,19 @@ const useChargesData = (activeCarId: string | null = null): UseChargesDataReturn
         });
 
         logger.info('Charge updated:', id);
-    }, []);
+    }, [charges, activeCarId]);
 
     /**
      * Delete a charge by ID
      */
     const deleteCharge = useCallback((id: string) => {
+        const charge = charges.find(c => c.id === id);
+        if (charge && activeCarId) {
+            SyncStateService.addTombstones(activeCarId, [{ kind: 'charges', key: chargeSyncKey(charge), deletedAt: Date.now() }]);
+        }
         setCharges(prev => prev.filter(charge => charge.id !== id));
         logger.info('Charge deleted:', id);
-    }, []);
+    }, [charges, activeCarId]);
 
     /**
      * Get a charge by ID
@@ -0,0 +1,44 @@
+// BYD Stats - useCsvProfiles Hook
+
+import { useCallback, useEffect, useMemo } from 'react';
+import { useLocalStorage } from './useLocalStorage';
+import { CSV_PROFILES_KEY } from '@core/constants';
+import { CsvMappingProfile, syncCsvProfileImporters } from '@core/csvMapping';
+
+export interface UseCsvProfilesReturn {
+    profiles: CsvMappingProfile[];
+    saveProfile: (profile: Omit<CsvMappingProfile, 'id'> & { id?: string }) => CsvMappingProfile;
+    deleteProfile: (id: string) => void;
+}
+
+/**
+ * Saved CSV column mappings
+ * Trip profiles are also registered as import adapters so matching files import directly
+ */
+export function useCsvProfiles(): UseCsvProfilesReturn {
+    const [profiles, setProfiles] = useLocalStorage<CsvMappingProfile[]>(CSV_PROFILES_KEY, []);
+
+    useEffect(() => {
+        syncCsvProfileImporters(profiles);
+    }, [profiles]);
+
+    const saveProfile = useCallback((profile: Omit<CsvMappingProfile, 'id'> & { id?: string }) => {
+        // Same name replaces the existing profile
+        const existing = profiles.find(p => p.id === profile.id || p.name.toLowerCase() === profile.name.toLowerCase());
+        const saved: CsvMappingProfile = { ...profile, id: existing?.id || profile.id || `csv_${Date.now()}` };
+        setProfiles([...profiles.filter(p => p.id !== saved.id), saved]);
+        return saved;
+    }, [profiles, setProfiles]);
+
+    const deleteProfile = useCallback((id: string) => {
+        setProfiles(profiles.filter(p => p.id !== id));
+    }, [profiles, setProfiles]);
+
+    return useMemo(() => ({
+        profiles,
+        saveProfile,
+        deleteProfile
+    }), [profiles, saveProfile, deleteProfile]);
+}
+
+export default useCsvProfiles;
@@ -0,0 +1,128 @@
+// BYD Stats - Data Journal Hook
+// Undo/redo of the active car's data changes and its restore points
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { logger } from '@core/logger';
+import {
+    DataJournal,
+    DataSnapshot,
+    EMPTY_JOURNAL,
+    JournalAction,
+    RestorePoint,
+    RestorePointReason,
+    recordJournalEntry,
+    redoJournal,
+    undoJournal
+} from '@core/dataJournal';
+import { RestorePointService } from '@/services/RestorePointService';
+
+export interface UseDataJournalReturn {
+    undoAction: JournalAction | null;
+    redoAction: JournalAction | null;
+    /** Records the data as it is now (or `before`) as the state prior to `action` */
+    record: (action: JournalAction, before?: DataSnapshot) => void;
+    undo: () => JournalAction | null;
+    redo: () => JournalAction | null;
+    restorePoints: RestorePoint[];
+    createRestorePoint: (reason: RestorePointReason) => Promise<boolean>;
+    rollback: (id: string) => Promise<boolean>;
+    deleteRestorePoint: (id: string) => Promise<boolean>;
+}
+
+/**
+ * @param snapshot Current data of the active car
+ * @param applySnapshot Puts a snapshot back in place of the current data
+ */
+export const useDataJournal = (
+    activeCarId: string | null,
+    snapshot: DataSnapshot,
+    applySnapshot: (snapshot: DataSnapshot) => void
+): UseDataJournalReturn => {
+    const [journal, setJournal] = useState<DataJournal>(EMPTY_JOURNAL);
+    const [restorePoints, setRestorePoints] = useState<RestorePoint[]>([]);
+
+    // Read at call time: operations record the data before their own state updates render
+    const snapshotRef = useRef(snapshot);
+    snapshotRef.current = snapshot;
+    const journalRef = useRef(journal);
+    journalRef.current = journal;
+
+    // The journal belongs to the car whose data is loaded
+    useEffect(() => {
+        setJournal(EMPTY_JOURNAL);
+        setRestorePoints([]);
+        if (!activeCarId) return;
+
+        let cancelled = false;
+        RestorePointService.list(activeCarId).then(points => {
+            if (!cancelled) setRestorePoints(points);
+        });
+        return () => { cancelled = true; };
+    }, [activeCarId]);
+
+    const record = useCallback((action: JournalAction, before?: DataSnapshot) => {
+        setJournal(prev => recordJournalEntry(prev, action, before || snapshotRef.current));
+    }, []);
+
+    const undo = useCallback(() => {
+        const result = undoJournal(journalRef.current, snapshotRef.current);
+        if (!result) return null;
+        journalRef.current = result.journal;
+        setJournal(result.journal);
+        applySnapshot(result.entry.snapshot);
+        logger.info(`Undone: ${result.entry.action}`);
+        return result.entry.action;
+    }, [applySnapshot]);
+
+    const redo = useCallback(() => {
+        const result = redoJournal(journalRef.current, snapshotRef.current);
+        if (!result) return null;
+        journalRef.current = result.journal;
+        setJournal(result.journal);
+        applySnapshot(result.entry.snapshot);
+        logger.info(`Redone: ${result.entry.action}`);
+        return result.entry.action;
+    }, [applySnapshot]);
+
+    const createRestorePoint = useCallback(async (reason: RestorePointReason) => {
+        if (!activeCarId) return false;
+        const points = await RestorePointService.create(activeCarId, snapshotRef.current, reason);
+        if (points) setRestorePoints(points);
+        return points !== null;
+    }, [activeCarId]);
+
+    // The current data is kept as a restore point and in the journal, so a rollback can be reverted too
+    const rollback = useCallback(async (id: string) => {
+        const point = restorePoints.find(p => p.id === id);
+        if (!point || !activeCarId) return false;
+
+        const before = snapshotRef.current;
+        const points = await RestorePointService.create(activeCarId, before, 'rollback');
+        if (!points) return false;
+
+        setRestorePoints(points);
+        setJournal(prev => recordJournalEntry(prev, 'restorePoint', before));
+        applySnapshot(point.snapshot);
+        logger.info(`Rolled back to restore point ${id}`);
+        return true;
+    }, [restorePoints, activeCarId, applySnapshot]);
+
+    const deleteRestorePoint = useCallback(async (id: string) => {
+        if (!activeCarId) return false;
+        const points = await RestorePointService.remove(activeCarId, id);
+        if (points) setRestorePoints(points);
+        return points !== null;
+    }, [activeCarId]);
+
+    return {
+        undoAction: journal.undo[journal.undo.length - 1]?.action ?? null,
+        redoAction: journal.redo[journal.redo.length - 1]?.action ?? null,
+        record,
+        undo,
+        redo,
+        restorePoints,
+        createRestorePoint,
+        rollback,
+        deleteRestorePoint
+    };
+};
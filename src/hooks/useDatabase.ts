@@ -3,7 +3,10 @@
 import { useState, useCallback, useMemo } from 'react';
 import { logger } from '@core/logger';
 import { toast } from 'react-hot-toast';
-import { Trip } from '@/types';
+import { Charge, ChargerType, Trip, TripTag } from '@/types';
+import { buildEnergyConsumptionDatabase } from '@core/bydDatabase';
+import { createImportSource, importTrips, isSupportedImportFile, TripImportAdapter } from '@core/tripImporters';
+import { ImportReport, mergeImportedTrips } from '@core/importReport';
 
 // Declare types for window.SQL and initSqlJs
 declare global {
@@ -13,12 +16,21 @@ declare global {
     }
 }
 
+export interface TripFileImport {
+    trips: Trip[]; // Resulting trip list (merged with the existing ones when requested)
+    report: ImportReport;
+    charges?: Charge[]; // Bundled charges (JSON export), not yet stored
+    chargerTypes?: ChargerType[];
+    tripTags?: TripTag[];
+}
+
 interface UseDatabaseReturn {
     sqlReady: boolean;
     loading: boolean;
     error: string | null;
     initSql: () => Promise<boolean>;
-    processDB: (file: File, existingTrips?: Trip[], merge?: boolean) => Promise<Trip[] | null>;
+    processDB: (file: File, existingTrips?: Trip[], merge?: boolean, adapter?: TripImportAdapter) => Promise<Trip[] | null>;
+    importTripFile: (file: File, existingTrips?: Trip[], merge?: boolean, adapter?: TripImportAdapter, deletedKeys?: Set<string>) => Promise<TripFileImport | null>;
     exportDatabase: (trips: Trip[]) => Promise<{ success: boolean; reason?: string; message?: string }>;
     validateFile: (file: File) => boolean;
     setError: (error: string | null) => void;
@@ -71,140 +83,35 @@ export function useDatabase(): UseDatabaseReturn {
         }
     }, []);
 
-    // Process database file (or CSV)
-    const processDB = useCallback(async (file: File, existingTrips: Trip[] = [], merge: boolean = false): Promise<Trip[] | null> => {
+    // Import any supported trip file (see core/tripImporters) and report what happened to each row
+    const importTripFile = useCallback(async (file: File, existingTrips: Trip[] = [], merge: boolean = false, adapter?: TripImportAdapter, deletedKeys?: Set<string>): Promise<TripFileImport | null> => {
         setLoading(true);
         setError(null);
 
         try {
-            // Handle CSV Import
-            if (file.name.toLowerCase().endsWith('.csv')) {
-                const text = await file.text();
-                const lines = text.split(/\r?\n/).filter(l => l.trim());
-
-                if (lines.length < 2) throw new Error('CSV vacío o formato incorrecto');
-
-                const rows = lines.slice(1).map((line, index) => {
-                    // Method from DataProvider.jsx (loadChargeRegistry)
-                    // Matches quoted strings OR non-comma sequences
-                    const values = line.match(/("[^"]*"|[^,]+)/g)?.map(v => v.replace(/^"|"$/g, '').trim());
-
-                    if (!values || values.length < 4) {
-                        // Try semicolon fallback if comma failed
-                        const semiValues = line.match(/("[^"]*"|[^;]+)/g)?.map(v => v.replace(/^"|"$/g, '').trim());
-                        if (semiValues && semiValues.length >= 4) {
-                            // Use semicolon logic if it looks better
-                            return parseTripRow(semiValues);
-                        }
-                        return null;
-                    }
-
-                    return parseTripRow(values);
-                }).filter((r): r is Trip => r !== null);
-
-                // Helper to parse a standardized row array
-                function parseTripRow(values: string[]): Trip | null {
-                    const [inicio, dur, dist, energy] = values;
-                    if (!inicio) return null;
-
-                    // Strict Date Parsing (from DataProvider)
-                    // Expects YYYY-MM-DD HH:MM specifically
-                    const dateMatch = inicio.match(/^(\d{4}-\d{2}-\d{2})\s*(\d{2}:\d{2})/);
-
-                    if (!dateMatch) {
-                        return null;
-                    }
-
-                    const dateStr = dateMatch[1]; // "2025-07-13"
-                    const timeStr = dateMatch[2]; // "11:42"
-
-                    const [year, month, day] = dateStr.split('-').map(Number);
-                    const [hour, minute] = timeStr.split(':').map(Number);
-
-                    // Construct Date object (month is 0-indexed)
-                    const dateObj = new Date(year, month - 1, day, hour || 0, minute || 0);
-                    const timestamp = Math.floor(dateObj.getTime() / 1000); // Seconds for App compatibility
-
-                    // Fix: Duration in CSV is in minutes (integer), app expects seconds
-                    const durationSeconds = (parseInt(dur) || 0) * 60;
-
-                    // Format for App (YYYYMMDD without hyphens, expected by dateUtils)
-                    const appDateStr = `${year}${String(month).padStart(2, '0')}${String(day).padStart(2, '0')}`;
-                    const appMonthStr = `${year}${String(month).padStart(2, '0')}`;
-
-                    return {
-                        trip: parseFloat(dist) || 0,
-                        electricity: parseFloat(energy) || 0,
-                        duration: durationSeconds,
-                        date: appDateStr,
-                        start_timestamp: timestamp,
-                        month: appMonthStr,
-                        end_timestamp: timestamp + durationSeconds
-                    };
-                }
-
-                if (rows.length === 0) {
-                    toast.error(`CSV leído (${lines.length} líneas) pero 0 filas válidas detectadas. Verifica el formato.`);
-                    logger.warn(`CSV Parsing failed. Lines: ${lines.length}, Rows: 0`);
-                    return [];
-                }
-
-                logger.info(`CSV Parsed: ${rows.length} valid trips.`);
-
-                // Merge Logic (Reused)
-                if (merge && existingTrips.length) {
-                    const map = new Map<string, Trip>();
-                    // Use a unique key for deduplication. Date + Timestamp is good.
-                    existingTrips.forEach(t => map.set(`${t.date}-${t.start_timestamp}`, t));
-                    rows.forEach(t => map.set(`${t.date}-${t.start_timestamp}`, t));
-
-                    return Array.from(map.values()).sort((a, b) => {
-                        const dateComp = (a.date || '').localeCompare(b.date || '');
-                        if (dateComp !== 0) return dateComp;
-                        return (a.start_timestamp || 0) - (b.start_timestamp || 0);
-                    });
-                } else {
-                    return rows;
-                }
-            }
+            const source = await createImportSource(file);
+            const result = await importTrips(source, { SQL: window.SQL }, adapter);
 
-            // Handle SQLite Import (Existing Logic)
-            if (!window.SQL) {
-                setError('SQL no está listo');
-                return null;
-            }
-
-            const buf = await file.arrayBuffer();
-            const db = new window.SQL.Database(new Uint8Array(buf));
-            const t = db.exec("SELECT name FROM sqlite_master WHERE type='table' AND name='EnergyConsumption'");
-
-            if (!t.length || !t[0].values.length) {
-                throw new Error('Tabla no encontrada');
-            }
-
-            const res = db.exec("SELECT * FROM EnergyConsumption WHERE is_deleted = 0 ORDER BY date, start_timestamp");
-
-            if (res.length && res[0].values.length) {
-                const cols = res[0].columns;
-                const rows = res[0].values.map((r: any[]) => {
-                    const o: any = {};
-                    cols.forEach((c: string, i: number) => { o[c] = r[i]; });
-                    return o as Trip;
-                });
-
-                db.close();
-
-                if (merge && existingTrips.length) {
-                    const map = new Map<string, Trip>();
-                    existingTrips.forEach(t => map.set(`${t.date}-${t.start_timestamp}`, t));
-                    rows.forEach((t: Trip) => map.set(`${t.date}-${t.start_timestamp}`, t));
-                    return Array.from(map.values()).sort((a, b) => (a.date || '').localeCompare(b.date || ''));
-                } else {
-                    return rows;
-                }
-            } else {
-                throw new Error('Sin datos');
+            if (result.errors.length > 0) {
+                logger.warn(`[${result.adapterId}] ${result.errors.length} rows rejected`, result.errors);
             }
+            logger.info(`[${result.adapterId}] Parsed ${result.trips.length} valid trips.`);
+
+            const { trips, accepted, duplicates, merged } = mergeImportedTrips(existingTrips, result.trips, merge, deletedKeys);
+            const report: ImportReport = {
+                kind: 'trips',
+                fileName: file.name,
+                source: result.adapterId,
+                createdAt: Date.now(),
+                totalRows: result.totalRows,
+                accepted,
+                duplicates,
+                merged,
+                rejected: result.errors,
+                header: result.header
+            };
+
+            return { trips, report, charges: result.charges, chargerTypes: result.chargerTypes, tripTags: result.tripTags };
         } catch (e: any) {
             const msg = `Error importando: ${e.message}`;
             toast.error(msg);
@@ -216,6 +123,19 @@ export function useDatabase(): UseDatabaseReturn {
         }
     }, []);
 
+    // Legacy entry point: resulting trip list only
+    const processDB = useCallback(async (file: File, existingTrips: Trip[] = [], merge: boolean = false, adapter?: TripImportAdapter): Promise<Trip[] | null> => {
+        const result = await importTripFile(file, existingTrips, merge, adapter);
+        if (!result) return null;
+
+        const { report } = result;
+        if (report.accepted + report.merged + report.duplicates === 0 && !result.charges?.length) {
+            toast.error(`Archivo leído (${report.totalRows} filas) pero 0 filas válidas detectadas. Verifica el formato.`);
+            return [];
+        }
+        return result.trips;
+    }, [importTripFile]);
+
     // Export database
     const exportDatabase = useCallback(async (trips: Trip[]) => {
         if (!window.SQL || trips.length === 0) {
@@ -223,40 +143,8 @@ export function useDatabase(): UseDatabaseReturn {
         }
 
         try {
-            const db = new window.SQL.Database();
-
-            db.run(`
-        CREATE TABLE IF NOT EXISTS EnergyConsumption (
-          id INTEGER PRIMARY KEY AUTOINCREMENT,
-          trip REAL,
-          electricity REAL,
-          duration INTEGER,
-          date TEXT,
-          start_timestamp INTEGER,
-          month TEXT,
-          is_deleted INTEGER DEFAULT 0
-        )
-      `);
-
-            const stmt = db.prepare(`
-        INSERT INTO EnergyConsumption (trip, electricity, duration, date, start_timestamp, month, is_deleted)
-        VALUES (?, ?, ?, ?, ?, ?, 0)
-      `);
-
-            trips.forEach(trip => {
-                stmt.run([
-                    trip.trip || 0,
-                    trip.electricity || 0,
-                    trip.duration || 0,
-                    trip.date || '',
-                    trip.start_timestamp || 0,
-                    trip.month || ''
-                ]);
-            });
-            stmt.free();
-
-            const data = db.export();
-            const blob = new Blob([data], { type: 'application/x-sqlite3' });
+            const data = buildEnergyConsumptionDatabase(window.SQL, trips);
+            const blob = new Blob([data as BlobPart], { type: 'application/x-sqlite3' });
             const url = URL.createObjectURL(blob);
             const a = document.createElement('a');
             a.href = url;
@@ -266,7 +154,6 @@ export function useDatabase(): UseDatabaseReturn {
             document.body.removeChild(a);
             URL.revokeObjectURL(url);
 
-            db.close();
             return { success: true };
         } catch (e: any) {
             logger.error('Error exporting database:', e);
@@ -275,13 +162,7 @@ export function useDatabase(): UseDatabaseReturn {
     }, []);
 
     // Validate file type
-    const validateFile = useCallback((file: File) => {
-        const fileName = file.name.toLowerCase();
-        if (!fileName.endsWith('.db') && !fileName.endsWith('.jpg') && !fileName.endsWith('.jpeg') && !fileName.endsWith('.csv')) {
-            return false;
-        }
-        return true;
-    }, []);
+    const validateFile = useCallback((file: File) => isSupportedImportFile(file.name), []);
 
     return {
         sqlReady,
@@ -289,6 +170,7 @@ export function useDatabase(): UseDatabaseReturn {
         error,
         initSql,
         processDB,
+        importTripFile,
         exportDatabase,
         validateFile,
         setError
@@ -5,6 +5,7 @@ import { App as CapacitorApp } from '@capacitor/app';
 import { Capacitor } from '@capacitor/core';
 import { registerPlugin } from '@capacitor/core';
 import { logger } from '@core/logger';
+import { detectTripImporter } from '@core/tripImporters';
 
 // Type definitions for our custom plugin
 interface FileOpenerPlugin {
@@ -221,8 +222,9 @@ export function useFileHandling(): UseFileHandlingReturn {
                 const byteArray = new Uint8Array(byteNumbers);
                 const blob = new Blob([byteArray], { type: result.mimeType || 'application/x-sqlite3' });
 
-                // Create File object
-                const fileName = result.fileName || 'shared.db';
+                // Content URIs may not carry a name: take the extension of the adapter that recognises the bytes
+                const importer = detectTripImporter({ name: '', bytes: byteArray });
+                const fileName = result.fileName || `shared${importer ? importer.extensions[0] : '.db'}`;
                 return new File([blob], fileName, { type: result.mimeType || 'application/x-sqlite3' });
             } catch (err) {
                 logger.error('[Android] Error reading file from URI:', err);
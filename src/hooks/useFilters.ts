@@ -9,6 +9,8 @@ export interface UseFiltersReturn {
     setDateFrom: React.Dispatch<React.SetStateAction<string>>;
     dateTo: string;
     setDateTo: React.Dispatch<React.SetStateAction<string>>;
+    tagFilter: string; // TripTag id, UNTAGGED_TAG_ID or '' for every trip
+    setTagFilter: React.Dispatch<React.SetStateAction<string>>;
 }
 
 export const useFilters = (): UseFiltersReturn => {
@@ -16,6 +18,7 @@ export const useFilters = (): UseFiltersReturn => {
     const [selMonth, setSelMonth] = useState<string>('');
     const [dateFrom, setDateFrom] = useState<string>('');
     const [dateTo, setDateTo] = useState<string>('');
+    const [tagFilter, setTagFilter] = useState<string>('');
 
     return {
         filterType,
@@ -25,6 +28,8 @@ export const useFilters = (): UseFiltersReturn => {
         dateFrom,
         setDateFrom,
         dateTo,
-        setDateTo
+        setDateTo,
+        tagFilter,
+        setTagFilter
     };
 };
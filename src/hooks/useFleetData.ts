@@ -0,0 +1,57 @@
+// BYD Stats - Fleet Data Hook
+import { useState, useEffect, useMemo } from 'react';
+import { Charge, Settings, Trip } from '@/types';
+import { logger } from '@core/logger';
+import { DEFAULT_SETTINGS, SETTINGS_KEY } from '@core/constants';
+import { FleetCarData } from '@core/fleetComparison';
+import { StorageService } from '@/services/StorageService';
+import { useCar } from '@/context/CarContext';
+
+export interface UseFleetDataReturn {
+    fleet: FleetCarData[];
+    isLoading: boolean;
+    loadError: boolean; // The other cars could not be read; only the active one is compared
+}
+
+/**
+ * Trips, charges and settings of every car while enabled.
+ * The active car comes from the live state; the others are read from storage
+ */
+export const useFleetData = (enabled: boolean, active: { trips: Trip[]; charges: Charge[]; settings: Settings }): UseFleetDataReturn => {
+    const { cars, activeCarId } = useCar();
+    const [others, setOthers] = useState<FleetCarData[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [loadError, setLoadError] = useState(false);
+
+    useEffect(() => {
+        if (!enabled) return;
+
+        let cancelled = false;
+        setIsLoading(true);
+        setLoadError(false);
+        Promise.all(cars.filter(car => car.id !== activeCarId).map(async car => ({
+            car,
+            trips: await StorageService.loadRecords<Trip>('trips', car.id),
+            charges: await StorageService.loadRecords<Charge>('charges', car.id),
+            settings: { ...DEFAULT_SETTINGS, ...StorageService.get<Partial<Settings>>(`${SETTINGS_KEY}_${car.id}`, {}) } as Settings
+        }))).then(loaded => {
+            if (cancelled) return;
+            setOthers(loaded);
+            setIsLoading(false);
+        }).catch(error => {
+            logger.error('Error loading fleet data:', error);
+            if (cancelled) return;
+            setOthers([]);
+            setLoadError(true);
+            setIsLoading(false);
+        });
+        return () => { cancelled = true; };
+    }, [enabled, cars, activeCarId]);
+
+    const { trips, charges, settings } = active;
+    const fleet = useMemo(() => cars
+        .map(car => car.id === activeCarId ? { car, trips, charges, settings } : others.find(o => o.car.id === car.id))
+        .filter((data): data is FleetCarData => !!data), [cars, activeCarId, others, trips, charges, settings]);
+
+    return { fleet, isLoading, loadError };
+};
@@ -1,23 +1,27 @@
 import { useState, useCallback, useEffect, useRef } from 'react';
 import { useGoogleLogin } from '@react-oauth/google';
-import { googleDriveService, GoogleDriveFile, SyncData, RegistryData } from '@/services/googleDrive';
+import { googleDriveService, SyncData, RegistryData } from '@/services/googleDrive';
+import { MigrationService } from '@/services/MigrationService';
+import { SyncStateService } from '@/services/SyncStateService';
+import { SyncProviderService } from '@/services/SyncProviderService';
+import { SyncFile, SyncProvider, SyncProviderId } from '@/services/syncProvider';
+import { WebDavConfig } from '@/services/webdavProvider';
+import { pickSyncFolder } from '@/services/folderProvider';
+import { DATA_SCHEMA_VERSION } from '@core/schemaMigrations';
+import { BackupPassphraseError, BackupPassphraseProblem } from '@core/backupCrypto';
+import { BackupEncryptionService } from '@/services/BackupEncryptionService';
+import { ConflictChoice, SyncMergeResult, mergeSyncSnapshots, resolveSyncConflicts } from '@core/syncMerge';
 import { Capacitor } from '@capacitor/core';
 import { SocialLogin } from '@capgo/capacitor-social-login';
 import { logger } from '@core/logger';
 import { Trip, Charge, Settings, Car } from '@/types';
 
 // Types for Conflict Resolution
-interface ConflictDifference {
-    label: string;
-    local: string | number;
-    cloud: string | number;
-}
-
-interface PendingConflict {
+export interface PendingConflict {
     localData: SyncData;
     remoteData: SyncData;
-    differences: ConflictDifference[];
-    fileId: string;
+    merge: SyncMergeResult; // Everything that merged cleanly, plus the record conflicts
+    fileId: string | null; // null: upload as a new file
 }
 
 interface UserProfile {
@@ -44,21 +48,30 @@ interface UseGoogleSyncProps {
     isRegistryModalOpen?: boolean;
     updateCar?: (id: string, updates: Partial<Car>) => void;
     carName?: string;
+    onBeforeApply?: (data: SyncData) => Promise<void> | void; // Called before synced data replaces the local data
 }
 
 interface UseGoogleSyncReturn {
+    providerId: SyncProviderId;
+    selectProvider: (id: SyncProviderId) => Promise<void>;
+    connectWebDav: (config: WebDavConfig) => Promise<boolean>;
+    connectFolder: () => Promise<boolean>;
     isAuthenticated: boolean;
     isSyncing: boolean;
     lastSyncTime: Date | null;
     error: string | null;
     userProfile: UserProfile | null;
+    encryptionEnabled: boolean;
+    passphraseProblem: BackupPassphraseProblem | null;
+    unlockBackups: (passphrase: string) => Promise<boolean>;
+    changeBackupPassphrase: (passphrase: string | null) => Promise<boolean>;
     pendingConflict: PendingConflict | null;
-    resolveConflict: (resolution: 'local' | 'cloud' | 'merge') => Promise<void>;
+    resolveConflict: (choices: Record<string, ConflictChoice>) => Promise<void>;
     dismissConflict: () => void;
     login: () => Promise<void>;
     logout: () => Promise<void>;
     syncNow: (newTripsData?: Trip[] | null, options?: { forcePull?: boolean; forcePush?: boolean }) => Promise<void>;
-    checkCloudBackups: () => Promise<GoogleDriveFile[]>;
+    checkCloudBackups: () => Promise<SyncFile[]>;
     importFromCloud: (fileId: string) => Promise<boolean>;
     deleteBackup: (fileId: string) => Promise<boolean>;
     restoreFromRegistry: (car: any) => Promise<boolean>;
@@ -66,8 +79,17 @@ interface UseGoogleSyncReturn {
     updateCloudRegistry: () => Promise<void>;
 }
 
+const hasValidGoogleToken = (): boolean => {
+    const token = localStorage.getItem('google_access_token');
+    const expiry = localStorage.getItem('google_token_expiry');
+    return !!(token && expiry && Date.now() < parseInt(expiry));
+};
+
+const isProviderConnected = (id: SyncProviderId): boolean =>
+    id === 'google-drive' ? hasValidGoogleToken() : SyncProviderService.isConnected(id);
+
 /**
- * Custom hook for Google Drive synchronization
+ * Custom hook for cloud synchronization through the selected provider (Google Drive, WebDAV or a folder)
  */
 export function useGoogleSync({
     localTrips,
@@ -80,19 +102,27 @@ export function useGoogleSync({
     totalCars = 1,
     openRegistryModal,
     isRegistryModalOpen = false,
-    updateCar
+    updateCar,
+    onBeforeApply
 }: UseGoogleSyncProps): UseGoogleSyncReturn {
 
-    const [isAuthenticated, setIsAuthenticated] = useState<boolean>(() => {
-        const token = localStorage.getItem('google_access_token');
-        const expiry = localStorage.getItem('google_token_expiry');
-        return !!(token && expiry && Date.now() < parseInt(expiry));
-    });
+    const [providerId, setProviderId] = useState<SyncProviderId>(() => SyncProviderService.getSelectedId());
+    const [isAuthenticated, setIsAuthenticated] = useState<boolean>(() => isProviderConnected(providerId));
     const [isSyncing, setIsSyncing] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
     const [lastSyncTime, setLastSyncTime] = useState<Date | null>(null);
     const [pendingConflict, setPendingConflict] = useState<PendingConflict | null>(null);
+    const [encryptionEnabled, setEncryptionEnabled] = useState<boolean>(() => BackupEncryptionService.isEnabled());
+    const [passphraseProblem, setPassphraseProblem] = useState<BackupPassphraseProblem | null>(null);
+
+    const getProvider = useCallback((): SyncProvider | null => SyncProviderService.getProvider(providerId), [providerId]);
+
+    const requireProvider = useCallback((): SyncProvider => {
+        const provider = getProvider();
+        if (!provider) throw new Error('No hay ningún servicio de sincronización conectado');
+        return provider;
+    }, [getProvider]);
 
     // Derive filename from activeCarId
     const getTargetFilename = useCallback(() => {
@@ -117,18 +147,19 @@ export function useGoogleSync({
 
     // Helper: Check Registry (Reusable)
     const checkAndPromptRegistry = useCallback(async (): Promise<boolean> => {
-        if (!googleDriveService.isInited) return false;
+        const provider = getProvider();
+        if (!provider) return false;
 
         try {
             logger.info("[Sync] Checking registry for existing cars...");
-            let registry = await googleDriveService.getRegistry();
+            let registry = await provider.getRegistry();
 
             // FALLBACK: If registry is empty/missing, scan for data files directly
             if (!registry || !registry.cars || registry.cars.length === 0) {
                 logger.warn("[Sync] Registry empty/missing. Attempting FALLBACK scan for data files...");
 
                 try {
-                    const allFiles = await googleDriveService.listAllDatabaseFiles();
+                    const allFiles = await provider.listAllDatabaseFiles();
                     // files typically have name, id, modifiedTime
                     // We look for "byd_stats_data_UUID.json" or legacy "byd_stats_data.json"
 
@@ -171,7 +202,7 @@ export function useGoogleSync({
                         // PERSIST: Save the reconstructed registry so we don't scan again
                         try {
                             logger.info("[Sync] Persisting reconstructed registry to cloud...");
-                            await googleDriveService.updateRegistry(registry);
+                            await provider.updateRegistry(registry);
                         } catch (persistErr) {
                             logger.warn("[Sync] Failed to persist reconstructed registry", persistErr);
                         }
@@ -218,134 +249,96 @@ export function useGoogleSync({
             logger.warn("[Sync] Registry check failed", e);
             return false;
         }
-    }, [activeCarId, openRegistryModal]);
+    }, [activeCarId, openRegistryModal, getProvider]);
 
 
-    // Conflict Detection
-    const detectConflict = useCallback((localData: SyncData, remoteData: SyncData): PendingConflict | null => {
-        const localSettings = localData.settings || {};
-        const remoteSettings = remoteData.settings || {};
-        const differences: ConflictDifference[] = [];
+    /**
+     * Applies synced data locally, uploads it and keeps it as the ancestor of the next merge
+     */
+    const commitSyncedData = useCallback(async (data: SyncData, fileId: string | null) => {
+        await onBeforeApply?.(data);
+        setLocalTrips(data.trips);
+        setSettings(data.settings);
+        setLocalCharges(data.charges);
 
-        // Check Car Model
-        if (localSettings.carModel && remoteSettings.carModel && localSettings.carModel !== remoteSettings.carModel) {
-            differences.push({
-                label: 'Modelo de Coche',
-                local: localSettings.carModel,
-                cloud: remoteSettings.carModel
-            });
-        }
+        const provider = requireProvider();
+        const uploadResult = await provider.uploadFile({ ...data, schemaVersion: DATA_SCHEMA_VERSION }, fileId, getTargetFilename());
 
-        // Check Odometer Offset
-        if (localSettings.odometerOffset !== undefined && remoteSettings.odometerOffset !== undefined &&
-            localSettings.odometerOffset !== remoteSettings.odometerOffset &&
-            localSettings.odometerOffset !== 0 && remoteSettings.odometerOffset !== 0) {
-            differences.push({
-                label: 'Ajuste de Odómetro',
-                local: `${localSettings.odometerOffset} km`,
-                cloud: `${remoteSettings.odometerOffset} km`
-            });
-        }
-
-        // Check Data Volume (significant difference)
-        const localTripsCount = (localData.trips || []).length;
-        const remoteTripsCount = (remoteData.trips || []).length;
-        if (Math.abs(localTripsCount - remoteTripsCount) > 10) {
-            differences.push({
-                label: 'Cantidad de Viajes',
-                local: `${localTripsCount} viajes`,
-                cloud: `${remoteTripsCount} viajes`
-            });
-        }
-
-        if (differences.length > 0) {
-            return {
-                localData,
-                remoteData,
-                differences,
-                fileId: 'pending' // Placeholder, will be set in performSync
-            };
+        if (activeCarId) {
+            if (data.tombstones) SyncStateService.saveTombstones(activeCarId, data.tombstones);
+            if (!await SyncStateService.saveBase(activeCarId, data, provider.location)) {
+                logger.warn('[Sync] Could not store the sync base; the next sync merges without it');
+            }
         }
+        return uploadResult;
+    }, [onBeforeApply, setLocalTrips, setSettings, setLocalCharges, getTargetFilename, activeCarId, requireProvider]);
 
-        return null; // No significant conflict
-    }, []);
-
-    // Resolve Conflict
-    const resolveConflict = useCallback(async (resolution: 'local' | 'cloud' | 'merge') => {
+    // Resolve Conflict: one choice per conflicting record, unpicked records keep the local version
+    const resolveConflict = useCallback(async (choices: Record<string, ConflictChoice>) => {
         if (!pendingConflict) return;
 
-        const { localData, remoteData, fileId } = pendingConflict;
-        let finalData: SyncData;
-
-        if (resolution === 'local') {
-            finalData = localData;
-        } else if (resolution === 'cloud') {
-            finalData = remoteData;
-        } else {
-            finalData = googleDriveService.mergeData(localData, remoteData);
-        }
-
         try {
-            setLocalTrips(finalData.trips);
-            setSettings(finalData.settings);
-            setLocalCharges(finalData.charges);
-
-            const targetFilename = getTargetFilename();
-            await googleDriveService.uploadFile(finalData, fileId, targetFilename);
+            const finalData: SyncData = resolveSyncConflicts(pendingConflict.merge, choices);
+            await commitSyncedData(finalData, pendingConflict.fileId);
 
             setPendingConflict(null);
             setLastSyncTime(new Date());
-            logger.info(`[Sync] Conflict resolved using: ${resolution}`);
+            logger.info(`[Sync] ${pendingConflict.merge.conflicts.length} conflicts resolved`);
         } catch (e: any) {
             setError("Error resolviendo conflicto: " + e.message);
             logger.error('[Sync] Resolution failed', e);
         }
-    }, [pendingConflict, setLocalTrips, setSettings, setLocalCharges, getTargetFilename]);
+    }, [pendingConflict, commitSyncedData]);
 
     const logout = useCallback(async () => {
         try {
-            await googleDriveService.signOut();
+            await SyncProviderService.disconnect(providerId);
 
-            if (Capacitor.isNativePlatform()) {
-                try {
-                    await SocialLogin.logout({ provider: 'google' });
-                } catch (nativeErr) {
-                    logger.warn('Native logout error (ignoring):', nativeErr);
+            if (providerId === 'google-drive') {
+                if (Capacitor.isNativePlatform()) {
+                    try {
+                        await SocialLogin.logout({ provider: 'google' });
+                    } catch (nativeErr) {
+                        logger.warn('Native logout error (ignoring):', nativeErr);
+                    }
                 }
-            }
 
-            localStorage.removeItem('google_access_token'); // Clear Token
-            localStorage.removeItem('google_token_expiry'); // Clear Token Expiry
+                localStorage.removeItem('google_access_token'); // Clear Token
+                localStorage.removeItem('google_token_expiry'); // Clear Token Expiry
+            }
             setIsAuthenticated(false);
             setUserProfile(null);
         } catch (e) {
             logger.error('Logout failed', e);
         }
-    }, []);
+    }, [providerId]);
 
     const performSync = useCallback(async (newTripsData: Trip[] | null = null, options: { forcePull?: boolean; forcePush?: boolean } = {}) => {
         logger.info(`[Sync] Initiated. Local trips: ${localTrips?.length}, New data: ${newTripsData?.length}, Online: ${navigator.onLine}`);
 
-        if (!navigator.onLine) {
+        // A local folder needs no connection
+        if (!navigator.onLine && providerId !== 'folder') {
             setError("Sin conexión a Internet");
             setIsSyncing(false);
             return;
         }
 
-        if (!googleDriveService.isInited) {
-            logger.warn('[Sync] Aborted: service not inited');
+        const provider = getProvider();
+        if (!provider) {
+            logger.warn(`[Sync] Aborted: ${providerId} not connected`);
             return;
         }
 
         setIsSyncing(true);
         setError(null);
+        setPassphraseProblem(null);
 
         try {
             const targetFilename = getTargetFilename();
             logger.info(`[Sync] Active Car ID: ${activeCarId || 'None'} | Target Filename: ${targetFilename}`);
 
             // 1. Find or Create File
-            const files = await googleDriveService.listFiles(targetFilename);
+            const files = await provider.listFiles(targetFilename);
             logger.info(`[Sync] Files found: ${files?.length || 0}`);
 
             let fileId: string | null = null;
@@ -370,7 +363,7 @@ export function useGoogleSync({
                     logger.warn(`[Sync] Found ${duplicates.length} smaller duplicates. Cleaning up...`);
                     for (const dup of duplicates) {
                         try {
-                            await googleDriveService.deleteFile(dup.id);
+                            await provider.deleteFile(dup.id);
                         } catch (delErr) {
                             logger.error(`[Sync] Failed to delete duplicate ${dup.id}`, delErr);
                         }
@@ -378,7 +371,7 @@ export function useGoogleSync({
                 }
             } else if (localTrips.length === 0 && !newTripsData && totalCars === 1) {
                 // Recovery Mode for fresh install with only 1 car
-                const legacyFiles = await googleDriveService.listFiles('byd_stats_data.json');
+                const legacyFiles = await provider.listFiles('byd_stats_data.json');
                 if (legacyFiles && legacyFiles.length > 0) {
                     fileId = legacyFiles[0].id;
                     legacyImport = true;
@@ -389,27 +382,22 @@ export function useGoogleSync({
             // 2. Download Remote Data
             let remoteData: SyncData = { trips: [], settings: {} as Settings, charges: [] };
             if (fileId) {
-                remoteData = await googleDriveService.downloadFile(fileId);
+                // Throws on files from a newer app version, before anything is merged or uploaded
+                remoteData = await MigrationService.migrateSyncData(await provider.downloadFile(fileId), activeCarId);
                 logger.info(`[Sync] Remote data downloaded: ${remoteData.trips?.length} trips`);
             }
 
-            // 3. Conflict Check
             const currentTrips = newTripsData || localTrips;
             const currentCharges = Array.isArray(localCharges) ? localCharges : [];
-            const localDataToMerge: SyncData = { trips: currentTrips, settings: settings, charges: currentCharges };
-
-            // Only detect conflict if not a fresh install and not forced
-            if (currentTrips.length > 0 && remoteData.trips.length > 0 && !options.forcePull && !options.forcePush) {
-                const conflict = detectConflict(localDataToMerge, remoteData);
-                if (conflict) {
-                    logger.warn('[Sync] Conflict detected. Pausing for user action.');
-                    setPendingConflict({ ...conflict, fileId: fileId! });
-                    setIsSyncing(false);
-                    return;
-                }
-            }
+            const localDataToMerge: SyncData = {
+                trips: currentTrips,
+                settings: settings,
+                charges: currentCharges,
+                tombstones: activeCarId ? SyncStateService.getTombstones(activeCarId) : []
+            };
+            const uploadId = legacyImport ? null : fileId;
 
-            // 4. Determine Merge Strategy
+            // 3. Determine Merge Strategy
             const isFreshLogin = currentTrips.length === 0 && remoteData.trips.length > 0;
 
             let merged: SyncData;
@@ -420,25 +408,31 @@ export function useGoogleSync({
                 logger.warn(`[Sync] Pushing local data to Cloud. Local: ${currentTrips.length} trips.`);
                 merged = localDataToMerge;
             } else {
-                merged = googleDriveService.mergeData(localDataToMerge, remoteData);
+                // Three-way merge against the data of the last successful sync
+                const base = activeCarId ? await SyncStateService.getBase(activeCarId, provider.location) : null;
+                const merge = mergeSyncSnapshots({ base, local: localDataToMerge, remote: remoteData });
+
+                // 4. Conflict Check: records changed differently on both sides wait for the user
+                if (merge.conflicts.length > 0) {
+                    logger.warn(`[Sync] ${merge.conflicts.length} conflicts detected. Pausing for user action.`);
+                    setPendingConflict({ localData: localDataToMerge, remoteData, merge, fileId: uploadId });
+                    setIsSyncing(false);
+                    return;
+                }
+
+                merged = merge.merged;
                 if (merged.trips.length === 0 && currentTrips.length > 0) {
                     logger.error('[Sync] CRITICAL: Merge resulted in 0 trips but local had data. Aborting sync.');
                     throw new Error("Error crítico: La sincronización resultó en datos vacíos. Operación cancelada para proteger tus datos.");
                 }
             }
 
-            // 5. Update Local State
+            // 5. Update Local State and Upload Merged State
             logger.info(`[Sync] Updating local state with ${merged.trips.length} trips`);
-            setLocalTrips(merged.trips);
-            setSettings(merged.settings);
-            setLocalCharges(merged.charges);
-
-            // 6. Upload Merged State
-            const uploadId = legacyImport ? null : fileId;
-            const uploadResult = await googleDriveService.uploadFile(merged, uploadId, targetFilename);
+            const uploadResult = await commitSyncedData(merged, uploadId);
             const finalFileId = uploadResult.id;
 
-            // 6b. Update Local Car Name if found in settings
+            // 6. Update Local Car Name if found in settings
             if (updateCar && merged.settings?.carModel && activeCarId) {
                 logger.info(`[Sync] Updating car name to: ${merged.settings.carModel}`);
                 updateCar(activeCarId, { name: merged.settings.carModel });
@@ -450,7 +444,7 @@ export function useGoogleSync({
             // 7. Update Cloud Registry (background)
             try {
                 const now = new Date().toISOString();
-                const currentReg: RegistryData = await googleDriveService.getRegistry() || { cars: [], lastUpdated: now };
+                const currentReg: RegistryData = await provider.getRegistry() || { cars: [], lastUpdated: now };
                 const existingIndex = currentReg.cars.findIndex(c => c.id === activeCarId);
 
                 const carEntry: Car = {
@@ -469,7 +463,7 @@ export function useGoogleSync({
                 }
                 currentReg.lastUpdated = now;
 
-                await googleDriveService.updateRegistry(currentReg);
+                await provider.updateRegistry(currentReg);
             } catch (regErr) {
                 logger.warn('[Sync] Registry update failed (non-critical)', regErr);
             }
@@ -482,6 +476,9 @@ export function useGoogleSync({
             if (isAuthError) {
                 logger.warn('[Sync] Authentication expired, logging out...');
                 logout();
+            } else if (e instanceof BackupPassphraseError) {
+                logger.warn(`[Sync] Cloud backups could not be opened (passphrase ${e.problem})`);
+                setPassphraseProblem(e.problem);
             } else {
                 logger.error('[Sync] Error:', e);
             }
@@ -490,17 +487,12 @@ export function useGoogleSync({
         } finally {
             setIsSyncing(false);
         }
-    }, [localTrips, settings, localCharges, setLocalTrips, setSettings, setLocalCharges, logout, getTargetFilename, isAuthenticated, activeCarId, totalCars, updateCar]);
-
-    const handleLoginSuccess = useCallback(async (accessToken: string) => {
-        googleDriveService.setAccessToken(accessToken);
-        localStorage.setItem('google_access_token', accessToken);
-
-        const expiryTime = Date.now() + (60 * 60 * 1000); // 1 hour
-        localStorage.setItem('google_token_expiry', expiryTime.toString());
+    }, [localTrips, settings, localCharges, commitSyncedData, logout, getTargetFilename, isAuthenticated, activeCarId, totalCars, updateCar, providerId, getProvider]);
 
+    // First sync after connecting, unless the registry asks which car this is
+    const handleConnected = useCallback(async () => {
         setIsAuthenticated(true);
-        await fetchUserProfile(accessToken);
+        setError(null);
 
         const modalOpened = await checkAndPromptRegistry();
 
@@ -509,7 +501,18 @@ export function useGoogleSync({
         } else {
             logger.info("[Sync] Suspended pending registry action");
         }
-    }, [fetchUserProfile, performSync, checkAndPromptRegistry]);
+    }, [performSync, checkAndPromptRegistry]);
+
+    const handleLoginSuccess = useCallback(async (accessToken: string) => {
+        googleDriveService.setAccessToken(accessToken);
+        localStorage.setItem('google_access_token', accessToken);
+
+        const expiryTime = Date.now() + (60 * 60 * 1000); // 1 hour
+        localStorage.setItem('google_token_expiry', expiryTime.toString());
+
+        await fetchUserProfile(accessToken);
+        await handleConnected();
+    }, [fetchUserProfile, handleConnected]);
 
     const handleLoginSuccessRef = useRef(handleLoginSuccess);
     useEffect(() => {
@@ -529,7 +532,50 @@ export function useGoogleSync({
         scope: "https://www.googleapis.com/auth/drive.appdata"
     });
 
+    const connectFolder = useCallback(async () => {
+        try {
+            SyncProviderService.setFolder(await pickSyncFolder());
+            await handleConnected();
+            return true;
+        } catch (e: any) {
+            // Closing the picker is not an error
+            if (e?.name !== 'AbortError') {
+                logger.error('Folder selection failed', e);
+                setError(e.message || "Error al abrir la carpeta");
+            }
+            return false;
+        }
+    }, [handleConnected]);
+
+    const connectWebDav = useCallback(async (config: WebDavConfig) => {
+        SyncProviderService.saveWebDavConfig(config);
+        try {
+            // Any listing proves the URL and credentials before the first sync
+            await requireProvider().listAllDatabaseFiles();
+        } catch (e: any) {
+            logger.error('WebDAV connection failed', e);
+            await SyncProviderService.disconnect('webdav');
+            setError(e.message || "No se pudo conectar con el servidor WebDAV");
+            return false;
+        }
+        await handleConnected();
+        return true;
+    }, [requireProvider, handleConnected]);
+
     const login = useCallback(async () => {
+        if (providerId === 'folder') {
+            await connectFolder();
+            return;
+        }
+        if (providerId === 'webdav') {
+            if (SyncProviderService.isConnected('webdav')) {
+                await handleConnected();
+            } else {
+                setError("Configura el servidor WebDAV en Ajustes");
+            }
+            return;
+        }
+
         const isNative = Capacitor.isNativePlatform();
 
         if (isNative) {
@@ -560,25 +606,42 @@ export function useGoogleSync({
         } else {
             webLogin();
         }
-    }, [webLogin, handleLoginSuccess]);
+    }, [webLogin, handleLoginSuccess, providerId, connectFolder, handleConnected]);
+
+    /**
+     * Switches the sync backend. Each provider keeps its own merge base, so the first sync merges as a first sync
+     */
+    const selectProvider = useCallback(async (id: SyncProviderId) => {
+        if (id === providerId) return;
+        SyncProviderService.select(id);
+        setProviderId(id);
+        setIsAuthenticated(isProviderConnected(id));
+        setUserProfile(null);
+        setError(null);
+        setLastSyncTime(null);
+        if (id === 'google-drive' && hasValidGoogleToken()) {
+            fetchUserProfile(localStorage.getItem('google_access_token')!);
+        }
+    }, [providerId, fetchUserProfile]);
 
 
     const checkCloudBackups = useCallback(async () => {
-        if (!googleDriveService.isInited) return [];
+        const provider = getProvider();
+        if (!provider) return [];
         try {
-            const files = await googleDriveService.listAllDatabaseFiles();
+            const files = await provider.listAllDatabaseFiles();
             return files;
         } catch (e) {
             logger.error('Error checking backups', e);
             return [];
         }
-    }, []);
+    }, [getProvider]);
 
     const importFromCloud = useCallback(async (fileId: string) => {
         setIsSyncing(true);
         try {
             logger.info(`Importing data from cloud file: ${fileId}`);
-            const remoteData = await googleDriveService.downloadFile(fileId);
+            const remoteData = await MigrationService.migrateSyncData(await requireProvider().downloadFile(fileId), activeCarId);
 
             const currentTrips = localTrips || [];
             const currentCharges = localCharges || [];
@@ -588,33 +651,29 @@ export function useGoogleSync({
                 remoteData
             );
 
-            setLocalTrips(merged.trips);
-            setSettings(merged.settings);
-            setLocalCharges(merged.charges);
-
-            const targetFilename = getTargetFilename();
-            await googleDriveService.uploadFile(merged, null, targetFilename);
+            await commitSyncedData(merged, null);
 
             setLastSyncTime(new Date());
             return true;
         } catch (e: any) {
             logger.error('Import failed', e);
+            if (e instanceof BackupPassphraseError) setPassphraseProblem(e.problem);
             setError("Error importando: " + e.message);
             return false;
         } finally {
             setIsSyncing(false);
         }
-    }, [localTrips, settings, localCharges, setLocalTrips, setSettings, setLocalCharges, getTargetFilename]);
+    }, [localTrips, settings, localCharges, commitSyncedData, activeCarId, requireProvider]);
 
     const deleteBackup = useCallback(async (fileId: string) => {
         try {
-            await googleDriveService.deleteFile(fileId);
+            await requireProvider().deleteFile(fileId);
             return true;
         } catch (e) {
             logger.error('Error deleting backup', e);
             throw e;
         }
-    }, []);
+    }, [requireProvider]);
 
     const restoreFromRegistry = useCallback(async (car: any) => {
         setIsSyncing(true);
@@ -652,14 +711,15 @@ export function useGoogleSync({
     }, [performSync]);
 
     const updateCloudRegistry = useCallback(async () => {
-        if (!activeCarId || !googleDriveService.isInited) return;
+        const provider = getProvider();
+        if (!activeCarId || !provider) return;
         try {
             const targetFilename = `byd_stats_data_${activeCarId}.json`;
-            const files = await googleDriveService.listFiles(targetFilename);
+            const files = await provider.listFiles(targetFilename);
             if (!files || files.length === 0) return;
 
             const fileId = files[0].id;
-            const currentReg: RegistryData = await googleDriveService.getRegistry() || { cars: [], lastUpdated: new Date().toISOString() };
+            const currentReg: RegistryData = await provider.getRegistry() || { cars: [], lastUpdated: new Date().toISOString() };
 
             const now = new Date().toISOString();
             const carName = settings.carModel || 'Mi BYD';
@@ -680,11 +740,47 @@ export function useGoogleSync({
             }
 
             currentReg.lastUpdated = now;
-            await googleDriveService.updateRegistry(currentReg);
+            await provider.updateRegistry(currentReg);
         } catch (e) {
             logger.error('Registry update failed', e);
         }
-    }, [activeCarId, settings, googleDriveService]);
+    }, [activeCarId, settings, getProvider]);
+
+    // Passphrase of backups encrypted on another device
+    const unlockBackups = useCallback(async (passphrase: string) => {
+        try {
+            await BackupEncryptionService.unlock(requireProvider(), passphrase);
+        } catch (e: any) {
+            if (e instanceof BackupPassphraseError) setPassphraseProblem(e.problem);
+            setError(e.message);
+            return false;
+        }
+        setEncryptionEnabled(true);
+        setPassphraseProblem(null);
+        await performSync();
+        return true;
+    }, [requireProvider, performSync]);
+
+    /**
+     * Enables, rotates or (with null) disables encryption, rewriting the existing backups
+     */
+    const changeBackupPassphrase = useCallback(async (passphrase: string | null) => {
+        setIsSyncing(true);
+        setError(null);
+        try {
+            await BackupEncryptionService.changePassphrase(requireProvider(), passphrase);
+            setEncryptionEnabled(!!passphrase);
+            setPassphraseProblem(null);
+            return true;
+        } catch (e: any) {
+            logger.error('[Sync] Passphrase change failed', e);
+            if (e instanceof BackupPassphraseError) setPassphraseProblem(e.problem);
+            setError(e.message || "Error cambiando la contraseña de cifrado");
+            return false;
+        } finally {
+            setIsSyncing(false);
+        }
+    }, [requireProvider]);
 
     const dismissConflict = useCallback(() => {
         setPendingConflict(null);
@@ -702,6 +798,11 @@ export function useGoogleSync({
                 });
             }
 
+            if (providerId !== 'google-drive') {
+                if (SyncProviderService.isConnected(providerId)) checkAndPromptRegistry();
+                return;
+            }
+
             const token = localStorage.getItem('google_access_token');
             const expiry = localStorage.getItem('google_token_expiry');
 
@@ -726,7 +827,7 @@ export function useGoogleSync({
             }
         };
         checkAuth();
-    }, [fetchUserProfile, localTrips.length, totalCars, openRegistryModal, login]);
+    }, [fetchUserProfile, localTrips.length, totalCars, openRegistryModal, login, providerId]);
 
     useEffect(() => {
         const handleVisibilityChange = () => {
@@ -747,11 +848,19 @@ export function useGoogleSync({
     }, [isAuthenticated, isSyncing, lastSyncTime, performSync, isRegistryModalOpen]);
 
     return {
+        providerId,
+        selectProvider,
+        connectWebDav,
+        connectFolder,
         isAuthenticated,
         isSyncing,
         lastSyncTime,
         error,
         userProfile,
+        encryptionEnabled,
+        passphraseProblem,
+        unlockBackups,
+        changeBackupPassphrase,
         pendingConflict,
         resolveConflict,
         dismissConflict,
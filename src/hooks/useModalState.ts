@@ -12,12 +12,14 @@ export interface ModalsState {
     history: boolean;
     help: boolean;
     addCharge: boolean;
+    tripEditor: boolean;
     chargeDetail: boolean;
     backups: boolean;
     registryRestore: boolean;
     registryCars: any[]; // Define specific type if possible
     legal: boolean; // Added dynamically in original code but better defined here
     faq: boolean;
+    importReport: boolean;
 }
 
 /**
@@ -36,12 +38,14 @@ const useModalState = () => {
         history: false,
         help: false,
         addCharge: false,
+        tripEditor: false,
         chargeDetail: false,
         backups: false,
         registryRestore: false,
         registryCars: [],
         legal: false,
-        faq: false
+        faq: false,
+        importReport: false
     });
 
     // Track additional modal-related state
@@ -51,6 +55,7 @@ const useModalState = () => {
     const [selectedTrip, setSelectedTrip] = useState<Trip | null>(null);
     const [selectedCharge, setSelectedCharge] = useState<Charge | null>(null);
     const [editingCharge, setEditingCharge] = useState<Charge | null>(null);
+    const [editingTrip, setEditingTrip] = useState<Trip | null>(null);
 
     // Sync Hash on mount and hash change (popstate)
     useEffect(() => {
@@ -130,16 +135,19 @@ const useModalState = () => {
             history: false,
             help: false,
             addCharge: false,
+        tripEditor: false,
             chargeDetail: false,
             backups: false,
             registryRestore: false,
             registryCars: [],
             legal: false,
-            faq: false
+            faq: false,
+            importReport: false
         });
         setSelectedTrip(null);
         setSelectedCharge(null);
         setEditingCharge(null);
+        setEditingTrip(null);
     }, []);
 
     /**
@@ -182,6 +190,8 @@ const useModalState = () => {
         setSelectedCharge,
         editingCharge,
         setEditingCharge,
+        editingTrip,
+        setEditingTrip,
         // Convenience boolean getters for common checks
         isAnyModalOpen: Object.entries(modals).some(([key, value]) => {
             if (key === 'registryCars') return false; // Skip the data prop
@@ -189,7 +199,7 @@ const useModalState = () => {
         }),
         openRegistryModal,
         closeRegistryModal
-    }), [modals, openModal, closeModal, toggleModal, closeAllModals, openLegalModal, legalInitialSection, selectedTrip, selectedCharge, editingCharge, openRegistryModal, closeRegistryModal]);
+    }), [modals, openModal, closeModal, toggleModal, closeAllModals, openLegalModal, legalInitialSection, selectedTrip, selectedCharge, editingCharge, editingTrip, openRegistryModal, closeRegistryModal]);
 
     return value;
 };
@@ -1,9 +1,11 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
 import { useTranslation } from 'react-i18next';
 import * as Comlink from 'comlink';
 import { logger } from '@core/logger';
 import { useLocalStorage } from './useLocalStorage';
 import { Trip, Charge, Settings, ProcessedData } from '@/types';
+import { getVehicleProfile } from '@core/vehicleModels';
+import { getProcessingSettings } from '@core/dataProcessing';
 
 // Define the worker API interface
 interface DataWorkerApi {
@@ -11,11 +13,13 @@ interface DataWorkerApi {
         trips: Trip[],
         settings: any,
         charges: Charge[],
-        language: string
+        language: string,
+        history?: Trip[]
     ): Promise<ProcessedData>;
 
-    trainModel(trips: Trip[]): Promise<{ loss: number; samples: number }>;
+    trainModel(trips: Trip[], wltpKwh100?: number): Promise<{ loss: number; samples: number }>;
     getRangeScenarios(batteryCapacity: number, soh: number): Promise<Array<{ name: string; speed: number; efficiency: number; range: number }>>;
+    predictEfficiency(speed: number, distance: number): Promise<number>;
 
     trainSoH(charges: Charge[], capacity: number): Promise<{ loss: number; samples: number; predictedSoH: number }>;
     getSoHStats(charges: Charge[], capacity: number): Promise<{ points: any[]; trend: any[] }>;
@@ -33,13 +37,15 @@ export interface UseProcessedDataReturn {
     aiSoHStats: { points: any[]; trend: any[] } | null;
     isAiTraining: boolean;
     predictDeparture: (startTime: number) => Promise<{ departureTime: number; duration: number } | null>;
+    predictEfficiency: (speed: number, distance: number) => Promise<number | null>;
     forceRecalculate: () => void;
 }
 
 export const useProcessedData = (
     filteredTrips: Trip[],
     settings: Settings,
-    charges: Charge[]
+    charges: Charge[],
+    allTrips: Trip[] = filteredTrips
 ): UseProcessedDataReturn => {
     const { i18n } = useTranslation();
     const [data, setData] = useState<ProcessedData | null>(null);
@@ -78,6 +84,11 @@ export const useProcessedData = (
 
     const workerRef = useRef<Comlink.Remote<DataWorkerApi> | null>(null);
 
+    // Trips the worker's efficiency model was trained on; cached scenarios skip training
+    const trainedTripsRef = useRef<Trip[] | null>(null);
+    const latestTripsRef = useRef(filteredTrips);
+    latestTripsRef.current = filteredTrips;
+
     useEffect(() => {
         if (!workerRef.current) {
             const worker = new Worker(new URL('../workers/dataWorker.js', import.meta.url), { type: 'module' });
@@ -94,31 +105,12 @@ export const useProcessedData = (
                 return;
             }
 
-            // Create settings object for processing
-            const processingSettings = {
-                electricStrategy: settings?.electricStrategy || (settings?.electricStrategy === undefined && settings?.electricPrice ? 'custom' : 'average'),
-                fuelStrategy: settings?.fuelStrategy || 'average',
-                electricPrice: Number(settings?.electricPrice) || 0,
-                fuelPrice: Number(settings?.fuelPrice) || 0,
-                batterySize: Number(settings?.batterySize) || 0,
-                soh: Number(settings?.soh) || 100,
-                sohMode: settings?.sohMode || 'manual',
-                mfgDate: settings?.mfgDate,
-                chargerTypes: settings?.chargerTypes || [],
-                thermalStressFactor: parseFloat(String(settings?.thermalStressFactor)) || 1.0,
-                odometerOffset: 0
-            };
-
-            const rawSettings: any = settings || {};
-            processingSettings.odometerOffset = parseFloat(rawSettings.odometerOffset) || 0;
-
-            if (rawSettings.priceStrategy) processingSettings.electricStrategy = rawSettings.priceStrategy;
-            if (rawSettings.useCalculatedPrice) processingSettings.electricStrategy = 'average';
+            const processingSettings = getProcessingSettings(settings);
 
             // --- AI Caching Logic ---
             // Hash: TripsSignature + SettingsSignature
             const tripsHash = `${filteredTrips.length}_${filteredTrips[0]?.date || ''}`;
-            const settingsHash = `${processingSettings.batterySize}_${processingSettings.soh}`;
+            const settingsHash = `${processingSettings.batterySize}_${processingSettings.soh}_${processingSettings.vehicleModelId || ''}`;
             const currentHash = `${tripsHash}__${settingsHash}`;
 
             const chargeHash = `${charges.length}_${charges[0]?.date || ''}`;
@@ -148,11 +140,13 @@ export const useProcessedData = (
             if (workerRef.current) {
                 setIsProcessing(true);
                 try {
+                    // FIFO draws the battery down with every trip and routes are detected on all of them, including those filtered out
                     const result = await workerRef.current.processData(
                         filteredTrips,
                         JSON.parse(JSON.stringify(processingSettings)),
                         JSON.parse(JSON.stringify(charges)),
-                        i18n.language
+                        i18n.language,
+                        allTrips === filteredTrips ? undefined : allTrips
                     );
 
                     if (!isMounted) return;
@@ -170,7 +164,8 @@ export const useProcessedData = (
                     if (!cacheHit && filteredTrips.length > 5) {
                         if (isMounted) setIsAiTraining(true);
 
-                        workerRef.current.trainModel(filteredTrips).then(({ loss }) => {
+                        workerRef.current.trainModel(filteredTrips, getVehicleProfile(processingSettings).wltpKwh100).then(({ loss }) => {
+                            trainedTripsRef.current = filteredTrips;
                             if (!isMounted) return;
                             setAiLoss(loss);
 
@@ -228,12 +223,25 @@ export const useProcessedData = (
 
         process();
 
-    }, [filteredTrips, i18n.language, settings, charges, recalcTrigger]);
+    }, [filteredTrips, allTrips, i18n.language, settings, charges, recalcTrigger]);
 
     const predictDeparture = async (startTime: number) => {
         if (!workerRef.current) return null;
         return await workerRef.current.predictDeparture(startTime);
     };
 
-    return { data, isProcessing, isAiTraining, aiScenarios, aiLoss, aiSoH, aiSoHStats, predictDeparture, forceRecalculate: triggerRecalculation };
+    /**
+     * Efficiency (kWh/100km) the trained model expects at an average speed over a distance
+     */
+    const predictEfficiency = useCallback(async (speed: number, distance: number) => {
+        if (!workerRef.current) return null;
+        const trips = latestTripsRef.current;
+        if (trainedTripsRef.current !== trips && trips.length > 5) {
+            await workerRef.current.trainModel(trips, getVehicleProfile(settings).wltpKwh100);
+            trainedTripsRef.current = trips;
+        }
+        return await workerRef.current.predictEfficiency(speed, distance);
+    }, [settings]);
+
+    return { data, isProcessing, isAiTraining, aiScenarios, aiLoss, aiSoH, aiSoHStats, predictDeparture, predictEfficiency, forceRecalculate: triggerRecalculation };
 };
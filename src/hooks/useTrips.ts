@@ -1,7 +1,9 @@
 import { useState, useEffect, useCallback } from 'react';
 import { Trip } from '@/types';
 import { StorageService } from '@/services/StorageService';
-import { STORAGE_KEY as BASE_STORAGE_KEY, TRIP_HISTORY_KEY as BASE_TRIP_HISTORY_KEY } from '@core/constants';
+import { SyncStateService } from '@/services/SyncStateService';
+import { tripSyncKey } from '@core/syncMerge';
+import { addManualTrip, deleteTrips as removeTrips, editTrip, TripEditResult } from '@core/tripEdits';
 
 export interface UseTripsReturn {
     rawTrips: Trip[];
@@ -12,57 +14,75 @@ export interface UseTripsReturn {
     saveToHistory: () => { success: boolean; total?: number; added?: number; reason?: string };
     loadFromHistory: () => { success: boolean; count?: number; reason?: string };
     clearHistory: () => boolean;
+    addTrip: (values: Partial<Trip>) => TripEditResult;
+    updateTrip: (key: string, changes: Partial<Trip>) => TripEditResult;
+    deleteTrips: (keys: string[]) => Trip[];
 }
 
 export const useTrips = (activeCarId: string | null = null): UseTripsReturn => {
-    const storageKey = activeCarId ? `${BASE_STORAGE_KEY}_${activeCarId}` : null;
-    const historyKey = activeCarId ? `${BASE_TRIP_HISTORY_KEY}_${activeCarId}` : null;
-
     const [rawTrips, setRawTrips] = useState<Trip[]>([]);
     const [tripHistory, setTripHistory] = useState<Trip[]>([]);
 
+    // Car whose records are in state; nothing is saved until its load finishes
+    const [loadedTripsCar, setLoadedTripsCar] = useState<string | null>(null);
+    const [loadedHistoryCar, setLoadedHistoryCar] = useState<string | null>(null);
+
     // Load initial data
     useEffect(() => {
-        if (!storageKey) {
+        setLoadedTripsCar(null);
+        if (!activeCarId) {
             setRawTrips([]);
             return;
         }
-        const trips = StorageService.get<Trip[]>(storageKey, []);
-        setRawTrips(Array.isArray(trips) ? trips : []);
-    }, [storageKey]);
+
+        let cancelled = false;
+        StorageService.loadRecords<Trip>('trips', activeCarId).then(trips => {
+            if (cancelled) return;
+            setRawTrips(trips);
+            setLoadedTripsCar(activeCarId);
+        });
+        return () => { cancelled = true; };
+    }, [activeCarId]);
 
     useEffect(() => {
-        if (!historyKey) {
+        setLoadedHistoryCar(null);
+        if (!activeCarId) {
             setTripHistory([]);
             return;
         }
-        const history = StorageService.get<Trip[]>(historyKey, []);
-        setTripHistory(Array.isArray(history) ? history : []);
-    }, [historyKey]);
+
+        let cancelled = false;
+        StorageService.loadRecords<Trip>('tripHistory', activeCarId).then(history => {
+            if (cancelled) return;
+            setTripHistory(history);
+            setLoadedHistoryCar(activeCarId);
+        });
+        return () => { cancelled = true; };
+    }, [activeCarId]);
 
     // Persistence effects
     useEffect(() => {
-        if (storageKey) {
+        if (activeCarId && loadedTripsCar === activeCarId) {
             if (rawTrips.length > 0) {
-                StorageService.save(storageKey, rawTrips);
+                StorageService.saveRecords('trips', activeCarId, rawTrips);
             }
             // Note: We don't auto-clear on empty array to prevent accidental data loss
             // explicit clearData() handles the removal
         }
-    }, [rawTrips, storageKey]);
+    }, [rawTrips, activeCarId, loadedTripsCar]);
 
     useEffect(() => {
-        if (historyKey && tripHistory.length > 0) {
-            StorageService.save(historyKey, tripHistory);
+        if (activeCarId && loadedHistoryCar === activeCarId && tripHistory.length > 0) {
+            StorageService.saveRecords('tripHistory', activeCarId, tripHistory);
         }
-    }, [tripHistory, historyKey]);
+    }, [tripHistory, activeCarId, loadedHistoryCar]);
 
     // Actions
     const clearData = useCallback(() => {
         setRawTrips([]);
-        if (storageKey) StorageService.remove(storageKey);
+        if (activeCarId) StorageService.clearRecords('trips', activeCarId);
         return true;
-    }, [storageKey]);
+    }, [activeCarId]);
 
     const saveToHistory = useCallback(() => {
         if (rawTrips.length === 0) {
@@ -95,9 +115,42 @@ export const useTrips = (activeCarId: string | null = null): UseTripsReturn => {
 
     const clearHistory = useCallback(() => {
         setTripHistory([]);
-        if (historyKey) StorageService.remove(historyKey);
+        if (activeCarId) StorageService.clearRecords('tripHistory', activeCarId);
         return true;
-    }, [historyKey]);
+    }, [activeCarId]);
+
+    // Trip editing (keys are tripSyncKey values)
+    const addTrip = useCallback((values: Partial<Trip>) => {
+        const result = addManualTrip(rawTrips, values);
+        if (result.success) setRawTrips(result.trips);
+        return result;
+    }, [rawTrips]);
+
+    const updateTrip = useCallback((key: string, changes: Partial<Trip>) => {
+        const result = editTrip(rawTrips, key, changes);
+        if (!result.success) return result;
+
+        // Date and start time identify the trip in sync and imports: the old identity is gone
+        if (activeCarId && tripSyncKey(result.trip) !== key) {
+            SyncStateService.addTombstones(activeCarId, [{ kind: 'trips', key, deletedAt: Date.now() }]);
+        }
+        setRawTrips(result.trips);
+        return result;
+    }, [rawTrips, activeCarId]);
+
+    const deleteTrips = useCallback((keys: string[]) => {
+        const remaining = removeTrips(rawTrips, keys);
+        if (remaining.length === rawTrips.length) return rawTrips;
+
+        if (activeCarId) {
+            const deletedAt = Date.now();
+            SyncStateService.addTombstones(activeCarId, keys.map(key => ({ kind: 'trips' as const, key, deletedAt })));
+            // The persistence effect never saves an empty list
+            if (remaining.length === 0) StorageService.clearRecords('trips', activeCarId);
+        }
+        setRawTrips(remaining);
+        return remaining;
+    }, [rawTrips, activeCarId]);
 
     return {
         rawTrips,
@@ -107,6 +160,9 @@ export const useTrips = (activeCarId: string | null = null): UseTripsReturn => {
         clearData,
         saveToHistory,
         loadFromHistory,
-        clearHistory
+        clearHistory,
+        addTrip,
+        updateTrip,
+        deleteTrips
     };
 };
@@ -1,4 +1,4 @@
-import React, { createContext, useContext, useMemo, ReactNode, useEffect, useCallback } from 'react';
+import React, { createContext, useContext, useMemo, ReactNode, useEffect, useCallback, useState, useRef } from 'react';
 import { useTranslation } from 'react-i18next';
 import { logger } from '@core/logger';
 import { toast } from 'react-hot-toast';
@@ -9,9 +9,23 @@ import useChargesData from '@hooks/useChargesData';
 import { useGoogleSync } from '@hooks/useGoogleSync';
 import { useFileHandling } from '@hooks/useFileHandling';
 import { useConfirmation } from '@hooks/useConfirmation';
+import { useCsvProfiles, UseCsvProfilesReturn } from '@hooks/useCsvProfiles';
+import { useDataJournal } from '@hooks/useDataJournal';
 import { useCar } from '@/context/CarContext';
 import useModalState, { ModalsState } from '@hooks/useModalState';
-import { Trip, Charge, ProcessedData, Settings } from '@/types';
+import { Trip, Charge, ChargerType, ProcessedData, Settings, AnomalyLogEntry, AnomalyStatus } from '@/types';
+import { CsvMappingProfile, applyChargeMapping, parseCsv } from '@core/csvMapping';
+import { TripImportAdapter, splitCsvLine } from '@core/tripImporters';
+import { ChargeCsvRow, ChargeCsvRowSchema } from '@/utils/validation';
+import { ImportReport, ImportRowError, classifyImportedCharges, firstCsvLine, rowErrorFromZod } from '@core/importReport';
+import { ExportFile, ExportFormat, ExportScope, buildExportFiles, filterChargesByRange, getExportDateRange } from '@core/dataExport';
+import { calculateTripCosts } from '@core/dataProcessing';
+import { recalculateChargeCosts } from '@core/tariffs';
+import { applyTagRules, mergeTripTags, removeTagFromTrips, setTripsTag } from '@core/tripTags';
+import { TripEditResult } from '@core/tripEdits';
+import { SyncStateService } from '@/services/SyncStateService';
+import type { SyncData } from '@/services/googleDrive';
+import { DataSnapshot, JournalAction, RestorePoint, RestorePointReason, reviveDeletedRecords, sameSnapshotData } from '@core/dataJournal';
 
 // Define context interfaces
 export interface DataState {
@@ -28,10 +42,13 @@ export interface DataState {
     openModal: (modalName: keyof ModalsState, props?: any) => void;
     closeModal: (modalName: keyof ModalsState) => void;
     fileHandling: any;
+    csvProfiles: UseCsvProfilesReturn;
+    lastImportReport: ImportReport | null;
     filterType: string;
     selMonth: string;
     dateFrom: string;
     dateTo: string;
+    tagFilter: string;
     months: string[];
     legalInitialSection: string;
     setLegalInitialSection: (section: string) => void;
@@ -43,6 +60,8 @@ export interface DataState {
     setSelectedCharge: React.Dispatch<React.SetStateAction<Charge | null>>;
     editingCharge: Charge | null;
     setEditingCharge: React.Dispatch<React.SetStateAction<Charge | null>>;
+    editingTrip: Trip | null;
+    setEditingTrip: React.Dispatch<React.SetStateAction<Trip | null>>;
 
     // AI Data
     aiScenarios: Array<{ name: string; speed: number; efficiency: number; range: number }>;
@@ -51,13 +70,18 @@ export interface DataState {
     aiSoH: number | null;
     aiSoHStats: { points: any[]; trend: any[] } | null;
     predictDeparture: (startTime: number) => Promise<{ departureTime: number; duration: number } | null>;
+    predictEfficiency: (speed: number, distance: number) => Promise<number | null>;
     forceRecalculate: () => void;
 
     // Anomalies
-    acknowledgedAnomalies: string[];
-    setAcknowledgedAnomalies: (ids: string[]) => void;
-    deletedAnomalies: string[];
-    setDeletedAnomalies: (ids: string[]) => void;
+    anomalyLog: AnomalyLogEntry[];
+    activeAnomalies: AnomalyLogEntry[];
+    anomalyHistory: AnomalyLogEntry[];
+
+    // Undo/redo and restore points
+    undoAction: JournalAction | null;
+    redoAction: JournalAction | null;
+    restorePoints: RestorePoint[];
 
     // ... other state
 }
@@ -75,9 +99,12 @@ export interface DataDispatch {
     closeConfirmation: () => void;
     showConfirmation: (title: string, message: string, onConfirm: () => void, isDangerous?: boolean) => void;
 
-    loadFile: (file: File, merge?: boolean) => Promise<void>;
+    loadFile: (file: File, merge?: boolean, adapter?: TripImportAdapter) => Promise<void>;
     exportData: () => Promise<{ success: boolean; reason?: string }>;
-    loadChargeRegistry: (file: File) => Promise<void>;
+    exportRecords: (scope: ExportScope, format: ExportFormat) => boolean;
+    loadChargeRegistry: (file: File, profile?: CsvMappingProfile) => Promise<void>;
+    showImportReport: (report: ImportReport) => void;
+    downloadFile: (file: ExportFile) => boolean;
 
     addCharge: (charge: any) => any;
     updateCharge: (id: string, updates: any) => void;
@@ -89,6 +116,23 @@ export interface DataDispatch {
     setSelMonth: (month: string) => void;
     setDateFrom: (date: string) => void;
     setDateTo: (date: string) => void;
+    setTagFilter: (tagId: string) => void;
+
+    tagTrips: (keys: string[], tagId: string, enabled: boolean) => void;
+    addTrip: (values: Partial<Trip>) => TripEditResult;
+    updateTrip: (key: string, changes: Partial<Trip>) => TripEditResult;
+    deleteTrips: (keys: string[]) => void;
+    applyTripTagRules: () => number;
+    deleteTripTag: (tagId: string) => void;
+
+    updateAnomalyStatus: (id: string, status: AnomalyStatus, snoozeDays?: number) => void;
+    deleteAnomaly: (id: string) => void;
+
+    undo: () => JournalAction | null;
+    redo: () => JournalAction | null;
+    createRestorePoint: (reason: RestorePointReason) => Promise<boolean>;
+    rollbackToRestorePoint: (id: string) => Promise<boolean>;
+    deleteRestorePoint: (id: string) => Promise<boolean>;
 
     openModal: (modalName: keyof ModalsState, props?: any) => void;
     closeModal: (modalName: keyof ModalsState) => void;
@@ -97,6 +141,18 @@ export interface DataDispatch {
 // Union type for legacy useData
 export type DataContextValue = DataState & DataDispatch;
 
+const downloadExportFile = (file: ExportFile) => {
+    const blob = new Blob([file.content], { type: file.mime });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = file.name;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+};
+
 const DataStateContext = createContext<DataState | undefined>(undefined);
 const DataDispatchContext = createContext<DataDispatch | undefined>(undefined);
 
@@ -151,10 +207,50 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     const filtered = appData.filtered || []; // This is Trip[] based on usage
     const data = appData.data || null;
 
-    const rawClearData = appData.clearData;
+    // 2b. Undo/redo and restore points of the active car's data
+    const dataSnapshot: DataSnapshot = useMemo(() => ({
+        trips: rawTrips,
+        charges,
+        settings,
+        car: activeCar
+    }), [rawTrips, charges, settings, activeCar]);
+
+    const { clearData: clearTrips } = appData;
+    const applySnapshot = useCallback((target: DataSnapshot) => {
+        let snapshot = target;
+        if (activeCarId) {
+            const revived = reviveDeletedRecords(target, SyncStateService.getTombstones(activeCarId));
+            if (revived) {
+                snapshot = revived.snapshot;
+                SyncStateService.saveTombstones(activeCarId, revived.tombstones);
+            }
+        }
+
+        // The trips hook never saves an empty list; clearing removes the stored one
+        if (snapshot.trips.length > 0) {
+            setRawTrips(snapshot.trips);
+        } else {
+            clearTrips();
+        }
+        replaceCharges(snapshot.charges);
+        updateSettings(snapshot.settings);
+        if (activeCarId && snapshot.car) updateCar(activeCarId, snapshot.car);
+    }, [setRawTrips, clearTrips, replaceCharges, updateSettings, activeCarId, updateCar]);
+
+    const journal = useDataJournal(activeCarId, dataSnapshot, applySnapshot);
+    const { record: recordChange, createRestorePoint } = journal;
+
+    const rawClearData = useCallback(() => {
+        recordChange('clearTrips');
+        return clearTrips();
+    }, [recordChange, clearTrips]);
     const rawSaveToHistory = appData.saveToHistory;
     const rawClearHistory = appData.clearHistory;
-    const rawLoadFromHistory = appData.loadFromHistory;
+    const { loadFromHistory: loadTripHistory } = appData;
+    const rawLoadFromHistory = useCallback(() => {
+        recordChange('loadHistory');
+        return loadTripHistory();
+    }, [recordChange, loadTripHistory]);
 
     // AI Data from useProcessedData (via appData)
     const aiScenarios = appData.aiScenarios || [];
@@ -163,17 +259,16 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     const aiSoH = appData.aiSoH || null;
     const aiSoHStats = appData.aiSoHStats || null;
     const predictDeparture = appData.predictDeparture;
+    const predictEfficiency = appData.predictEfficiency;
     const forceRecalculate = appData.forceRecalculate;
-    const acknowledgedAnomalies = appData.acknowledgedAnomalies;
-    const setAcknowledgedAnomalies = appData.setAcknowledgedAnomalies;
-    const deletedAnomalies = appData.deletedAnomalies;
-    const setDeletedAnomalies = appData.setDeletedAnomalies;
+    const { anomalyLog, activeAnomalies, anomalyHistory, updateAnomalyStatus, deleteAnomaly } = appData;
 
     const {
         filterType, setFilterType,
         selMonth, setSelMonth,
         dateFrom, setDateFrom,
         dateTo, setDateTo,
+        tagFilter, setTagFilter,
         months
     } = appData;
 
@@ -192,10 +287,20 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     // 5. File Handling
     const fileHandling = useFileHandling();
 
+    // 5b. Saved CSV column mappings (registers trip profiles as importers)
+    const csvProfiles = useCsvProfiles();
+
     // 6. Global Modal State
     const modalState = useModalState();
 
     // 7. Google Sync
+    // Synced data that changes something here is journaled and kept as a restore point first
+    const beforeSyncApply = useCallback(async (synced: SyncData) => {
+        if (sameSnapshotData(dataSnapshot, { trips: synced.trips, charges: synced.charges, settings: synced.settings })) return;
+        recordChange('sync');
+        await createRestorePoint('sync');
+    }, [dataSnapshot, recordChange, createRestorePoint]);
+
     const googleSync = useGoogleSync({
         localTrips: rawTrips,
         setLocalTrips: setRawTrips,
@@ -208,7 +313,8 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         openRegistryModal: modalState?.openRegistryModal,
         isRegistryModalOpen: modalState?.modals?.registryRestore,
         updateCar,
-        carName: activeCar?.name || ''
+        carName: activeCar?.name || '',
+        onBeforeApply: beforeSyncApply
     });
 
     // 8. Auto-Sync Effect
@@ -224,25 +330,198 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         return () => clearTimeout(timer);
     }, [rawTrips?.length, charges?.length, settings, googleSync.isAuthenticated, modalState?.modals?.registryRestore]);
 
+    // 8a. Settings and car changes made in the settings modal are one journal entry
+    const settingsBefore = useRef<DataSnapshot | null>(null);
+    useEffect(() => {
+        // Data as the modal opened; edits while it is open don't replace it
+        if (modalState.modals.settings) {
+            if (!settingsBefore.current) settingsBefore.current = dataSnapshot;
+            return;
+        }
+        const before = settingsBefore.current;
+        if (!before) return;
+        settingsBefore.current = null;
+        if (before.settings !== dataSnapshot.settings || before.car !== dataSnapshot.car) {
+            recordChange('settings', before);
+        }
+    }, [modalState.modals.settings, dataSnapshot, recordChange]);
+
+    // 8b. Tariff-derived charge costs follow tariff and charger type changes
+    useEffect(() => {
+        const { charges: recalculated, updated } = recalculateChargeCosts(charges, settings);
+        if (updated > 0) {
+            replaceCharges(recalculated);
+            logger.info(`${updated} tariff charge costs recalculated`);
+        }
+    }, [charges, settings, replaceCharges]);
+
     // 9. File Loading Functions
-    const loadFile = useCallback(async (file: File, merge: boolean = false) => {
+    const [lastImportReport, setLastImportReport] = useState<ImportReport | null>(null);
+
+    const showImportReport = useCallback((report: ImportReport) => {
+        setLastImportReport(report);
+        modalState.openModal('importReport');
+    }, [modalState.openModal]);
+
+    // Rejected rows open the report; clean imports only get a summary toast
+    const notifyImport = useCallback((report: ImportReport) => {
+        if (report.rejected.length > 0 || report.accepted + report.merged + report.duplicates === 0) {
+            showImportReport(report);
+        } else {
+            setLastImportReport(report);
+            toast.success(t('importReport.summary', {
+                accepted: report.accepted,
+                merged: report.merged,
+                duplicates: report.duplicates
+            }));
+        }
+    }, [showImportReport, t]);
+
+    // Charges bundled in a JSON export, with the charger types they reference
+    const importBundledCharges = useCallback((bundled: Charge[], chargerTypes: ChargerType[] = []) => {
+        const knownIds = new Set((settings.chargerTypes || []).map(ct => ct.id));
+        const missing = chargerTypes.filter(ct => !knownIds.has(ct.id));
+        if (missing.length > 0) {
+            updateSettings({ ...settings, chargerTypes: [...(settings.chargerTypes || []), ...missing] });
+        }
+
+        const { accepted } = classifyImportedCharges(charges, bundled);
+        chargesData.addMultipleCharges(bundled);
+        toast.success(t('charges.chargesImported', { count: accepted }));
+    }, [settings, updateSettings, charges, chargesData, t]);
+
+    const loadFile = useCallback(async (file: File, merge: boolean = false, adapter?: TripImportAdapter) => {
         try {
             if (!database.sqlReady) {
                 await database.initSql();
             }
-            const newTrips = await database.processDB(file, rawTrips, merge);
-            if (newTrips && newTrips.length > 0) {
+            // Trips deleted by hand are not brought back by a re-import
+            const deletedKeys = new Set(activeCarId
+                ? SyncStateService.getTombstones(activeCarId).filter(t => t.kind === 'trips').map(t => t.key)
+                : []);
+            const result = await database.importTripFile(file, rawTrips, merge, adapter, deletedKeys);
+            if (!result) return;
+
+            const { report } = result;
+            const { trips: newTrips } = applyTagRules(result.trips, settings.tripTagRules);
+            const replacesTrips = report.accepted + report.merged > 0 || (!merge && newTrips.length > 0);
+            if (replacesTrips || result.charges?.length || result.tripTags?.length) {
+                recordChange('import');
+                await createRestorePoint('import');
+            }
+
+            if (result.tripTags?.length) {
+                updateSettings(prev => ({ tripTags: mergeTripTags(prev.tripTags, result.tripTags) }));
+            }
+            if (replacesTrips) {
                 setRawTrips(newTrips);
                 logger.info(`Loaded ${newTrips.length} trips (merge: ${merge})`);
                 if (googleSync.isAuthenticated) {
                     googleSync.syncNow(newTrips);
                 }
             }
+
+            if (result.charges?.length) {
+                importBundledCharges(result.charges, result.chargerTypes);
+            }
+            // A charges-only export has no trip rows to report
+            if (report.totalRows > 0 || !result.charges?.length) {
+                notifyImport(report);
+            }
         } catch (error: any) {
             logger.error('Error loading file:', error);
             database.setError(error.message);
         }
-    }, [database, rawTrips, setRawTrips, googleSync]);
+    }, [database, activeCarId, rawTrips, setRawTrips, settings.tripTagRules, updateSettings, googleSync, notifyImport, importBundledCharges, recordChange, createRestorePoint]);
+
+    // Trip tags (keys are tripSyncKey values)
+    const tagTrips = useCallback((keys: string[], tagId: string, enabled: boolean) => {
+        recordChange('tags');
+        setRawTrips(setTripsTag(rawTrips, new Set(keys), tagId, enabled));
+    }, [rawTrips, setRawTrips, recordChange]);
+
+    // Trip editing; edits keep the trip count, so auto-sync would not notice them
+    const { addTrip: rawAddTrip, updateTrip: rawUpdateTrip, deleteTrips: rawDeleteTrips } = appData;
+
+    // Recorded after the call: the journal reads the data as last rendered, before these updates
+    const addTrip = useCallback((values: Partial<Trip>) => {
+        const result = rawAddTrip(values);
+        if (result.success) {
+            recordChange('editTrips');
+            if (googleSync.isAuthenticated) googleSync.syncNow(result.trips);
+        }
+        return result;
+    }, [rawAddTrip, recordChange, googleSync]);
+
+    const updateTrip = useCallback((key: string, changes: Partial<Trip>) => {
+        const result = rawUpdateTrip(key, changes);
+        if (result.success) {
+            recordChange('editTrips');
+            if (googleSync.isAuthenticated) googleSync.syncNow(result.trips);
+        }
+        return result;
+    }, [rawUpdateTrip, recordChange, googleSync]);
+
+    const deleteTrips = useCallback((keys: string[]) => {
+        recordChange('editTrips');
+        const remaining = rawDeleteTrips(keys);
+        if (googleSync.isAuthenticated) googleSync.syncNow(remaining);
+    }, [rawDeleteTrips, recordChange, googleSync]);
+
+    const applyTripTagRules = useCallback(() => {
+        const { trips: tagged, tagged: count } = applyTagRules(rawTrips, settings.tripTagRules);
+        if (count > 0) {
+            recordChange('tags');
+            setRawTrips(tagged);
+        }
+        return count;
+    }, [rawTrips, setRawTrips, settings.tripTagRules, recordChange]);
+
+    const deleteTripTag = useCallback((tagId: string) => {
+        recordChange('tags');
+        setRawTrips(removeTagFromTrips(rawTrips, tagId));
+        updateSettings(prev => ({
+            tripTags: (prev.tripTags || []).filter(tag => tag.id !== tagId),
+            tripTagRules: (prev.tripTagRules || []).filter(rule => rule.tagId !== tagId)
+        }));
+        if (tagFilter === tagId) setTagFilter('');
+    }, [rawTrips, setRawTrips, updateSettings, tagFilter, setTagFilter, recordChange]);
+
+    // Journaled versions of the direct data setters
+    const { addCharge: rawAddCharge, updateCharge: rawUpdateCharge, deleteCharge: rawDeleteCharge, addMultipleCharges: rawAddMultipleCharges, clearCharges: rawClearCharges } = chargesData;
+
+    const setTrips = useCallback((trips: Trip[]) => {
+        recordChange('editTrips');
+        setRawTrips(trips);
+    }, [recordChange, setRawTrips]);
+
+    const setCharges = useCallback((newCharges: Charge[]) => {
+        recordChange('replaceCharges');
+        replaceCharges(newCharges);
+    }, [recordChange, replaceCharges]);
+
+    const chargeActions = useMemo(() => ({
+        addCharge: (charge: Parameters<typeof rawAddCharge>[0]) => {
+            recordChange('editCharges');
+            return rawAddCharge(charge);
+        },
+        updateCharge: (id: string, updates: Partial<Charge>) => {
+            recordChange('editCharges');
+            rawUpdateCharge(id, updates);
+        },
+        deleteCharge: (id: string) => {
+            recordChange('editCharges');
+            rawDeleteCharge(id);
+        },
+        addMultipleCharges: (newCharges: Parameters<typeof rawAddMultipleCharges>[0]) => {
+            recordChange('editCharges');
+            return rawAddMultipleCharges(newCharges);
+        },
+        clearCharges: () => {
+            recordChange('clearCharges');
+            rawClearCharges();
+        }
+    }), [recordChange, rawAddCharge, rawUpdateCharge, rawDeleteCharge, rawAddMultipleCharges, rawClearCharges]);
 
     const exportData = useCallback(async () => {
         if (!database.sqlReady) {
@@ -251,43 +530,133 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         return database.exportDatabase(rawTrips);
     }, [database, rawTrips]);
 
-    const loadChargeRegistry = useCallback(async (file: File) => {
+    // CSV/JSON export of the trips and charges inside the active filter, with trip costs
+    const exportRecords = useCallback((scope: ExportScope, format: ExportFormat) => {
+        const range = getExportDateRange(filterType, selMonth, dateFrom, dateTo);
+        const files = buildExportFiles({
+            scope,
+            format,
+            range,
+            trips: calculateTripCosts(filtered, settings, charges, rawTrips),
+            charges: filterChargesByRange(charges, range),
+            chargerTypes: settings.chargerTypes || [],
+            tripTags: settings.tripTags || []
+        });
+
+        if (files.length === 0) {
+            toast.error(t('errors.noDataFound'));
+            return false;
+        }
+
+        try {
+            files.forEach(downloadExportFile);
+            logger.info(`Exported ${scope} as ${format} (${files.length} files)`);
+            return true;
+        } catch (error) {
+            logger.error('Error exporting records:', error);
+            toast.error(t('errors.processingFile'));
+            return false;
+        }
+    }, [filterType, selMonth, dateFrom, dateTo, filtered, rawTrips, settings, charges, t]);
+
+    // Single generated file (reports)
+    const downloadFile = useCallback((file: ExportFile) => {
+        try {
+            downloadExportFile(file);
+            logger.info(`Downloaded ${file.name}`);
+            return true;
+        } catch (error) {
+            logger.error('Error downloading file:', error);
+            toast.error(t('errors.processingFile'));
+            return false;
+        }
+    }, [t]);
+
+    const loadChargeRegistry = useCallback(async (file: File, profile?: CsvMappingProfile) => {
         try {
             const text = await file.text();
-            const lines = text.split('\n').filter(line => line.trim());
+            const rows: Array<Omit<ChargeCsvRow, 'initialPercentage'> & Pick<Charge, 'initialPercentage' | 'type' | 'litersCharged' | 'pricePerLiter'>> = [];
+            const rejected: ImportRowError[] = [];
+            let totalRows = 0;
+            let header = firstCsvLine(text);
+
+            if (profile) {
+                // Column positions come from the mapping wizard
+                const mapped = applyChargeMapping(parseCsv(text, profile.delimiter), profile);
+                rows.push(...mapped.charges);
+                rejected.push(...mapped.errors);
+                totalRows = mapped.totalRows;
+                header = mapped.header;
+            } else {
+                const lines = text.split('\n').filter(line => line.trim());
 
-            if (lines.length < 2) {
-                toast.error(t('errors.noDataFound'));
-                return;
-            }
+                if (lines.length < 2) {
+                    toast.error(t('errors.noDataFound'));
+                    return;
+                }
 
-            const chargesArray: any[] = [];
-            const newChargerTypes: any[] = [];
-            const existingChargerNames = new Set(
-                (settings.chargerTypes || []).map(ct => ct.name.toLowerCase())
-            );
+                // Parse each line (skip header)
+                for (let i = 1; i < lines.length; i++) {
+                    const line = lines[i];
+                    const values = splitCsvLine(line);
+
+                    totalRows++;
+                    // Rows without a date (e.g. a totals section) are reported, not silently dropped
+                    if (!values?.[0] || !values[0].match(/^\d{4}-\d{2}-\d{2}/)) {
+                        rejected.push({ line: i + 1, message: `Fecha inválida: ${values?.[0] ?? ''}`, raw: line });
+                        continue;
+                    }
 
-            // Parse each line (skip header)
-            for (let i = 1; i < lines.length; i++) {
-                const line = lines[i];
-                const values = line.match(/("[^"]*"|[^,]+)/g)?.map(v => v.replace(/^"|"$/g, '').trim());
+                    if (values.length < 8) {
+                        rejected.push({ line: i + 1, message: 'Formato de fila incorrecto', raw: line });
+                        continue;
+                    }
 
-                if (!values || values.length < 8) continue;
+                    const [fechaHora, kmTotales, kwhFacturados, precioTotal, , tipoCargador, precioKw, porcentajeFinal] = values;
 
-                const [fechaHora, kmTotales, kwhFacturados, precioTotal, , tipoCargador, precioKw, porcentajeFinal] = values;
+                    const dateMatch = fechaHora.match(/(\d{4}-\d{2}-\d{2})\s*(\d{2}:\d{2})/);
+                    if (!dateMatch) {
+                        rejected.push({ line: i + 1, message: `Fecha inválida: ${fechaHora}`, raw: line });
+                        continue;
+                    }
 
-                if (!fechaHora || !fechaHora.match(/^\d{4}-\d{2}-\d{2}/)) {
-                    break;
-                }
+                    const row: (typeof rows)[number] = {
+                        date: dateMatch[1],
+                        time: dateMatch[2],
+                        odometer: parseFloat(kmTotales) || 0,
+                        kwhCharged: parseFloat(kwhFacturados) || 0,
+                        totalCost: parseFloat(precioTotal) || 0,
+                        chargerType: tipoCargador?.trim() || '',
+                        pricePerKwh: parseFloat(precioKw) || 0,
+                        finalPercentage: parseFloat(porcentajeFinal) || 0,
+                        // Extra columns written by our own export (core/dataExport)
+                        initialPercentage: values[8] ? parseFloat(values[8]) : undefined
+                    };
+                    if (values[9] === 'fuel') {
+                        row.type = 'fuel';
+                        row.litersCharged = parseFloat(values[10]) || 0;
+                        row.pricePerLiter = row.pricePerKwh;
+                    }
 
-                const dateMatch = fechaHora.match(/(\d{4}-\d{2}-\d{2})\s*(\d{2}:\d{2})/);
-                if (!dateMatch) continue;
+                    // The registry allows charges without a charger type
+                    const validation = ChargeCsvRowSchema.omit({ chargerType: true }).safeParse(row);
+                    if (validation.success) {
+                        rows.push(row);
+                    } else {
+                        rejected.push(rowErrorFromZod(i + 1, validation.error, line));
+                    }
+                }
+            }
 
-                const date = dateMatch[1];
-                const time = dateMatch[2];
+            const chargesArray: any[] = [];
+            const newChargerTypes: any[] = [];
+            const existingChargerNames = new Set(
+                (settings.chargerTypes || []).map(ct => ct.name.toLowerCase())
+            );
 
+            rows.forEach((row, i) => {
                 let chargerTypeId: string | null = null;
-                const chargerName = tipoCargador?.trim();
+                const chargerName = row.chargerType;
 
                 if (chargerName) {
                     const existing = (settings.chargerTypes || []).find(
@@ -313,16 +682,13 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
                     }
                 }
 
-                chargesArray.push({
-                    date,
-                    time,
-                    odometer: parseFloat(kmTotales) || 0,
-                    kwhCharged: parseFloat(kwhFacturados) || 0,
-                    totalCost: parseFloat(precioTotal) || 0,
-                    chargerTypeId,
-                    pricePerKwh: parseFloat(precioKw) || 0,
-                    finalPercentage: parseFloat(porcentajeFinal) || 0
-                });
+                const { chargerType: _chargerType, ...charge } = row;
+                chargesArray.push({ ...charge, chargerTypeId });
+            });
+
+            if (chargesArray.length > 0 || newChargerTypes.length > 0) {
+                recordChange('import');
+                await createRestorePoint('import');
             }
 
             if (newChargerTypes.length > 0) {
@@ -330,10 +696,29 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
                 updateSettings({ ...settings, chargerTypes: updatedChargerTypes });
             }
 
+            const { accepted, duplicates } = classifyImportedCharges(charges, rows);
+            const report: ImportReport = {
+                kind: 'charges',
+                fileName: file.name,
+                source: profile ? profile.name : 'REGISTRO_CARGAS.csv',
+                createdAt: Date.now(),
+                totalRows,
+                accepted,
+                duplicates,
+                merged: 0,
+                rejected,
+                header
+            };
+
+            if (rejected.length > 0) {
+                logger.warn(`Charge CSV: ${rejected.length} rows rejected`, rejected);
+            }
+            showImportReport(report);
+
             if (chargesArray.length > 0) {
-                const count = chargesData.addMultipleCharges(chargesArray);
+                chargesData.addMultipleCharges(chargesArray);
 
-                let message = t('charges.chargesImported', { count });
+                let message = t('charges.chargesImported', { count: accepted });
                 if (newChargerTypes.length > 0) {
                     message += '\n' + t('charges.chargerTypesCreated', {
                         types: newChargerTypes.map(ct => ct.name).join(', ')
@@ -344,14 +729,14 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
                 if (googleSync.isAuthenticated) {
                     googleSync.syncNow(null);
                 }
-            } else {
+            } else if (rejected.length === 0) {
                 toast.error(t('errors.noDataFound'));
             }
         } catch (error) {
             logger.error('Error loading charge registry:', error);
             toast.error(t('errors.processingFile') || 'Error processing file');
         }
-    }, [settings, updateSettings, chargesData, googleSync, t]);
+    }, [settings, updateSettings, chargesData, charges, googleSync, showImportReport, t, recordChange, createRestorePoint]);
 
     // State Value
     const stateValue: DataState = useMemo(() => ({
@@ -368,22 +753,29 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         database,
         ...modalState, // Spread remaining modal state
         fileHandling,
-        filterType, selMonth, dateFrom, dateTo, months,
-        aiScenarios, aiLoss, aiSoH, aiSoHStats, isAiTraining, predictDeparture, forceRecalculate,
-        acknowledgedAnomalies, setAcknowledgedAnomalies, deletedAnomalies, setDeletedAnomalies
+        csvProfiles,
+        lastImportReport,
+        filterType, selMonth, dateFrom, dateTo, tagFilter, months,
+        aiScenarios, aiLoss, aiSoH, aiSoHStats, isAiTraining, predictDeparture, predictEfficiency, forceRecalculate,
+        anomalyLog, activeAnomalies, anomalyHistory,
+        undoAction: journal.undoAction,
+        redoAction: journal.redoAction,
+        restorePoints: journal.restorePoints
     }), [
         rawTrips, filtered, data, charges, tripHistory,
-        settings, googleSync, database, modalState, fileHandling,
-        filterType, selMonth, dateFrom, dateTo, months,
-        aiScenarios, aiLoss, aiSoH, aiSoHStats, isAiTraining, predictDeparture, forceRecalculate,
-        acknowledgedAnomalies, deletedAnomalies
+        settings, googleSync, database, modalState, fileHandling, csvProfiles, lastImportReport,
+        filterType, selMonth, dateFrom, dateTo, tagFilter, months,
+        aiScenarios, aiLoss, aiSoH, aiSoHStats, isAiTraining, predictDeparture, predictEfficiency, forceRecalculate,
+        anomalyLog, activeAnomalies, anomalyHistory,
+        journal.undoAction, journal.redoAction, journal.restorePoints
     ]);
 
     // Dispatch Value
     const dispatchValue: DataDispatch = useMemo(() => ({
-        setRawTrips,
-        replaceCharges,
+        setRawTrips: setTrips,
+        replaceCharges: setCharges,
         ...restChargesData,
+        ...chargeActions,
 
         clearData: confirmation?.clearData,
         saveToHistory: confirmation?.saveToHistory,
@@ -396,20 +788,43 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
         loadFile,
         exportData,
+        exportRecords,
         loadChargeRegistry,
+        showImportReport,
+        downloadFile,
 
         setFilterType,
         setSelMonth,
         setDateFrom,
         setDateTo,
+        setTagFilter,
+
+        tagTrips,
+        addTrip,
+        updateTrip,
+        deleteTrips,
+        applyTripTagRules,
+        deleteTripTag,
+
+        updateAnomalyStatus,
+        deleteAnomaly,
+
+        undo: journal.undo,
+        redo: journal.redo,
+        createRestorePoint,
+        rollbackToRestorePoint: journal.rollback,
+        deleteRestorePoint: journal.deleteRestorePoint,
 
         openModal: modalState.openModal,
         closeModal: modalState.closeModal,
     }), [
-        setRawTrips, replaceCharges, restChargesData,
+        setTrips, setCharges, restChargesData, chargeActions,
         confirmation,
-        loadFile, exportData, loadChargeRegistry,
-        setFilterType, setSelMonth, setDateFrom, setDateTo,
+        loadFile, exportData, exportRecords, loadChargeRegistry, showImportReport, downloadFile,
+        setFilterType, setSelMonth, setDateFrom, setDateTo, setTagFilter,
+        tagTrips, addTrip, updateTrip, deleteTrips, applyTripTagRules, deleteTripTag,
+        updateAnomalyStatus, deleteAnomaly,
+        journal.undo, journal.redo, createRestorePoint, journal.rollback, journal.deleteRestorePoint,
         modalState.openModal, modalState.closeModal
     ]);
 
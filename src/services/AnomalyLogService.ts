@@ -0,0 +1,25 @@
+// BYD Stats - Anomaly Log Service
+// Per-car storage of the anomaly log (core/anomalyLog)
+
+import { ANOMALY_LOG_KEY } from '@core/constants';
+import { AnomalyLogEntry } from '@/types';
+import { StorageService } from './StorageService';
+
+const logKey = (carId: string) => `${ANOMALY_LOG_KEY}_${carId}`;
+
+export const AnomalyLogService = {
+    /**
+     * Log of the car, or null if it has never been saved
+     */
+    get(carId: string): AnomalyLogEntry[] | null {
+        return StorageService.get<AnomalyLogEntry[] | null>(logKey(carId), null);
+    },
+
+    save(carId: string, log: AnomalyLogEntry[]): boolean {
+        return StorageService.save(logKey(carId), log);
+    },
+
+    clear(carId: string): void {
+        StorageService.remove(logKey(carId));
+    }
+};
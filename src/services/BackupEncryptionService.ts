@@ -0,0 +1,92 @@
+// BYD Stats - Backup Encryption Service
+// Optional passphrase for everything sync uploads (car data files and the registry)
+
+import { BACKUP_PASSPHRASE_KEY } from '@core/constants';
+import { decryptPayload, encryptPayload, isEncryptedEnvelope } from '@core/backupCrypto';
+import { logger } from '@core/logger';
+import { StorageService } from './StorageService';
+import type { SyncProvider } from './syncProvider';
+
+/**
+ * Kept on the device like the data itself; it only protects the copies in the cloud.
+ * `previous` stays until a rotation has rewritten every backup
+ */
+interface StoredPassphrases {
+    current: string | null;
+    previous?: string;
+}
+
+const load = (): StoredPassphrases => StorageService.get<StoredPassphrases>(BACKUP_PASSPHRASE_KEY, { current: null });
+
+export const BackupEncryptionService = {
+    isEnabled(): boolean {
+        return !!load().current;
+    },
+
+    /**
+     * Sets the passphrase used from now on, without touching existing backups (e.g. on a second device)
+     */
+    setPassphrase(passphrase: string | null): boolean {
+        if (!passphrase) return StorageService.remove(BACKUP_PASSPHRASE_KEY);
+        return StorageService.save<StoredPassphrases>(BACKUP_PASSPHRASE_KEY, { current: passphrase });
+    },
+
+    /**
+     * Checks a passphrase against the existing backups before using it on this device
+     */
+    async unlock(provider: SyncProvider, passphrase: string): Promise<void> {
+        const stored = load();
+        BackupEncryptionService.setPassphrase(passphrase);
+        try {
+            await provider.getRegistry();
+            const [file] = await provider.listAllDatabaseFiles();
+            if (file) await provider.downloadFile(file.id);
+        } catch (e) {
+            StorageService.save(BACKUP_PASSPHRASE_KEY, stored);
+            throw e;
+        }
+    },
+
+    /**
+     * Serializes a file for upload, encrypted when a passphrase is set
+     */
+    async encode(data: unknown): Promise<string> {
+        const { current } = load();
+        return JSON.stringify(current ? await encryptPayload(data, current) : data);
+    },
+
+    /**
+     * Opens downloaded content; plain files pass through.
+     * Throws BackupPassphraseError without a passphrase or with the wrong one
+     */
+    async decode(content: unknown): Promise<unknown> {
+        if (!isEncryptedEnvelope(content)) return content;
+        const { current, previous } = load();
+        return decryptPayload(content, [current, previous].filter((p): p is string => !!p));
+    },
+
+    /**
+     * Enables, rotates (new passphrase) or disables (null) encryption and rewrites every backup with it.
+     * Everything is read before the first write, and the old passphrase is kept until the last one
+     */
+    async changePassphrase(provider: SyncProvider, next: string | null): Promise<number> {
+        const files = await provider.listAllDatabaseFiles();
+        const contents = [];
+        for (const file of files) {
+            contents.push({ file, data: await provider.downloadFile(file.id) });
+        }
+        const registry = await provider.getRegistry();
+
+        const { current } = load();
+        StorageService.save<StoredPassphrases>(BACKUP_PASSPHRASE_KEY, { current: next, previous: current || undefined });
+
+        for (const { file, data } of contents) {
+            await provider.uploadFile(data, file.id, file.name);
+        }
+        if (registry) await provider.updateRegistry(registry);
+
+        BackupEncryptionService.setPassphrase(next);
+        logger.info(`[Encryption] ${contents.length} backups rewritten ${next ? 'encrypted' : 'in plain text'}`);
+        return contents.length;
+    }
+};
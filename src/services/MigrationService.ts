@@ -0,0 +1,133 @@
+// BYD Stats - Migration Service
+// Applies the schema migrations (core/schemaMigrations) to stored car data and to Drive sync files
+
+import { logger } from '@core/logger';
+import { SCHEMA_VERSION_KEY, SETTINGS_KEY } from '@core/constants';
+import {
+    DATA_SCHEMA_VERSION,
+    VersionedData,
+    assertSupportedVersion,
+    migrateData,
+    parseSchemaVersion
+} from '@core/schemaMigrations';
+import { Charge, Settings, Trip } from '@/types';
+import { StorageService } from './StorageService';
+import type { SyncData } from './googleDrive';
+
+/**
+ * Data as it was before a migration step, kept in the 'backups' record store
+ */
+export interface SchemaBackup {
+    version: number; // Version of `data`
+    source: 'local' | 'sync';
+    createdAt: number;
+    date: string; // YYYY-MM-DD, for the date index
+    data: VersionedData;
+}
+
+export const SCHEMA_BACKUP_LIMIT = 5; // Newest backups kept per car
+
+const versionKey = (carId: string) => `${SCHEMA_VERSION_KEY}_${carId}`;
+
+const isEmpty = (data: VersionedData): boolean =>
+    data.trips.length === 0 && (data.tripHistory || []).length === 0 &&
+    data.charges.length === 0 && Object.keys(data.settings).length === 0;
+
+const hasChanged = <T>(before: T[], after: T[]): boolean =>
+    before.length !== after.length || after.some((record, i) => record !== before[i]);
+
+const saveBackup = async (carId: string, source: SchemaBackup['source'], data: VersionedData, version: number): Promise<void> => {
+    if (isEmpty(data)) return;
+
+    const createdAt = Date.now();
+    const backup: SchemaBackup = { version, source, createdAt, date: new Date(createdAt).toISOString().slice(0, 10), data };
+    const backups = await StorageService.loadRecords<SchemaBackup>('backups', carId);
+    const kept = [...backups, backup].sort((a, b) => a.createdAt - b.createdAt).slice(-SCHEMA_BACKUP_LIMIT);
+    if (!await StorageService.saveRecords('backups', carId, kept)) {
+        throw new Error('No se pudo guardar la copia de seguridad previa a la migración');
+    }
+};
+
+export const MigrationService = {
+    /**
+     * Schema version of a car's stored data (1 if it was never stamped)
+     */
+    getVersion(carId: string): number {
+        return parseSchemaVersion(localStorage.getItem(versionKey(carId)));
+    },
+
+    stampVersion(carId: string, version: number = DATA_SCHEMA_VERSION): void {
+        localStorage.setItem(versionKey(carId), String(version));
+    },
+
+    clearVersion(carId: string): void {
+        localStorage.removeItem(versionKey(carId));
+    },
+
+    needsMigration(carId: string): boolean {
+        return MigrationService.getVersion(carId) !== DATA_SCHEMA_VERSION;
+    },
+
+    /**
+     * Migrates a car's trips, history, charges and settings to the current version.
+     * The stamp is only written once everything is saved, so an interrupted run starts over
+     * @returns Versions of the steps applied
+     * @throws SchemaVersionError if the data comes from a newer version of the app
+     */
+    async migrateCar(carId: string): Promise<number[]> {
+        const fromVersion = MigrationService.getVersion(carId);
+        assertSupportedVersion(fromVersion);
+        if (fromVersion === DATA_SCHEMA_VERSION) return [];
+
+        const settingsKey = `${SETTINGS_KEY}_${carId}`;
+        const [trips, tripHistory, charges] = await Promise.all([
+            StorageService.loadRecords<Trip>('trips', carId),
+            StorageService.loadRecords<Trip>('tripHistory', carId),
+            StorageService.loadRecords<Charge>('charges', carId)
+        ]);
+        const settings = StorageService.get<Partial<Settings>>(settingsKey, {});
+
+        const { data, version, applied } = await migrateData({ trips, tripHistory, charges, settings }, fromVersion, {
+            backup: (snapshot, snapshotVersion) => saveBackup(carId, 'local', snapshot, snapshotVersion)
+        });
+
+        // Only rewrite what a step changed
+        const saves: Promise<boolean>[] = [];
+        if (hasChanged(trips, data.trips)) saves.push(StorageService.saveRecords('trips', carId, data.trips));
+        if (hasChanged(tripHistory, data.tripHistory || [])) saves.push(StorageService.saveRecords('tripHistory', carId, data.tripHistory || []));
+        if (hasChanged(charges, data.charges)) saves.push(StorageService.saveRecords('charges', carId, data.charges));
+        const saved = await Promise.all(saves);
+        if (data.settings !== settings) saved.push(StorageService.save(settingsKey, data.settings));
+
+        if (saved.includes(false)) {
+            throw new Error('No se pudieron guardar los datos migrados');
+        }
+
+        MigrationService.stampVersion(carId, version);
+        logger.info(`Car ${carId} migrated from schema ${fromVersion} to ${version} (steps: ${applied.join(', ')})`);
+        return applied;
+    },
+
+    /**
+     * Migrates a downloaded sync file. The original is backed up under the car before each step
+     * @throws SchemaVersionError if the file was written by a newer version of the app
+     */
+    async migrateSyncData(syncData: SyncData, carId: string | null): Promise<SyncData> {
+        const fromVersion = parseSchemaVersion(syncData.schemaVersion);
+        const { data, version, applied } = await migrateData(syncData, fromVersion, {
+            backup: carId ? (snapshot, snapshotVersion) => saveBackup(carId, 'sync', snapshot, snapshotVersion) : undefined
+        });
+
+        if (applied.length > 0) {
+            logger.info(`Sync data migrated from schema ${fromVersion} to ${version}`);
+        }
+        return { ...data, schemaVersion: version };
+    },
+
+    /**
+     * Backups taken before migration steps, oldest first
+     */
+    getBackups(carId: string): Promise<SchemaBackup[]> {
+        return StorageService.loadRecords<SchemaBackup>('backups', carId);
+    }
+};
@@ -0,0 +1,58 @@
+// BYD Stats - Notification Service
+// Local notifications: the PWA service worker on the web, the LocalNotifications plugin on Android
+
+import { Capacitor } from '@capacitor/core';
+import { LocalNotifications } from '@capacitor/local-notifications';
+import { logger } from '@core/logger';
+
+const ICON = 'app_icon_v2.png';
+
+// Native notification ids are 32-bit integers
+let nextNativeId = Date.now() % 2147483647;
+
+export const NotificationService = {
+    isSupported(): boolean {
+        return Capacitor.isNativePlatform() || (typeof window !== 'undefined' && 'Notification' in window);
+    },
+
+    /**
+     * Asks for permission to show notifications; call it from a user action
+     */
+    async requestPermission(): Promise<boolean> {
+        try {
+            if (Capacitor.isNativePlatform()) {
+                return (await LocalNotifications.requestPermissions()).display === 'granted';
+            }
+            if (!NotificationService.isSupported()) return false;
+            return (await Notification.requestPermission()) === 'granted';
+        } catch (error) {
+            logger.warn('Notification permission request failed:', error);
+            return false;
+        }
+    },
+
+    /**
+     * Shows a notification if permission was granted. `tag` replaces an earlier notification with the same tag on the web
+     */
+    async notify(title: string, body: string, tag?: string): Promise<boolean> {
+        try {
+            if (Capacitor.isNativePlatform()) {
+                if ((await LocalNotifications.checkPermissions()).display !== 'granted') return false;
+                await LocalNotifications.schedule({ notifications: [{ id: nextNativeId++, title, body }] });
+                return true;
+            }
+
+            if (!NotificationService.isSupported() || Notification.permission !== 'granted') return false;
+            const registration = 'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+            if (registration) {
+                await registration.showNotification(title, { body, tag, icon: ICON });
+            } else {
+                new Notification(title, { body, tag, icon: ICON });
+            }
+            return true;
+        } catch (error) {
+            logger.warn('Notification failed:', error);
+            return false;
+        }
+    }
+};
@@ -1,6 +1,7 @@
 import * as tf from '@tensorflow/tfjs';
 import { Trip } from '../types';
 import { logger } from '@core/logger';
+import { getEfficiencyAnchors } from '@core/vehicleModels';
 
 /**
  * Service to handle AI predictions for Range/Efficiency using TensorFlow.js
@@ -25,11 +26,14 @@ export class PredictiveService {
 
     private parkingModel: tf.Sequential | null = null;
 
+    // Capacity the SoH model was trained against
+    private sohNominalCapacity = 60.48;
+
 
     /**
-     * Train the model with historical trip data
+     * Train the model with historical trip data, anchored to the car's WLTP consumption
      */
-    async train(trips: Trip[]): Promise<{ loss: number; samples: number }> {
+    async train(trips: Trip[], wltpKwh100?: number): Promise<{ loss: number; samples: number }> {
         // Reset state to avoid stale model usage during re-training
         this.efficiencyModel = null;
         this.normalizationData = null;
@@ -71,11 +75,8 @@ export class PredictiveService {
 
         // PHYSICS-INFORMED ML: Inject Synthetic Anchor Points to stabilize the regression
         // Massive weights (500) to DROWN OUT the noisy historical data and enforce the correct Physics Curve.
-        const anchors = [
-            { speed: 30, distance: 15, eff: 14.5, count: 500 },  // City: ~14.5 kWh (Conservative Efficient)
-            { speed: 80, distance: 35, eff: 17.5, count: 500 },  // Mixed: ~17.5 kWh
-            { speed: 100, distance: 100, eff: 23.5, count: 500 } // Highway: ~23.5 kWh (Avg 100 ~= Cruise 120)
-        ];
+        // City / Mixed / Highway (Avg 100 ~= Cruise 120) scaled from the model's WLTP: 14.5 / 17.5 / 23.5 kWh on an Atto 3
+        const anchors = getEfficiencyAnchors(wltpKwh100).map(anchor => ({ ...anchor, count: 500 }));
 
         anchors.forEach(anchor => {
             for (let i = 0; i < anchor.count; i++) {
@@ -166,6 +167,7 @@ export class PredictiveService {
     async trainSoH(charges: any[], nominalCapacity: number): Promise<{ loss: number, samples: number, predictedSoH: number }> {
         this.sohModel = null;
         this.sohNormalizationData = null;
+        this.sohNominalCapacity = nominalCapacity || 60.48;
 
         // Ensure valid capacity
         if (!nominalCapacity || nominalCapacity <= 0) {
@@ -337,7 +339,7 @@ export class PredictiveService {
     }
 
     private predictSoHInternal(days: number): number {
-        if (!this.sohModel || !this.sohNormalizationData) return 60.48;
+        if (!this.sohModel || !this.sohNormalizationData) return this.sohNominalCapacity;
 
         return tf.tidy(() => {
             const { mean, variance } = this.sohNormalizationData!;
@@ -0,0 +1,45 @@
+// BYD Stats - Restore Point Service
+// Per-car restore points (core/dataJournal), kept in the 'restorePoints' record store
+
+import { logger } from '@core/logger';
+import {
+    DataSnapshot,
+    RestorePoint,
+    RestorePointReason,
+    addRestorePoint,
+    createRestorePoint,
+    sameRestorePointData
+} from '@core/dataJournal';
+import { StorageService } from './StorageService';
+
+export const RestorePointService = {
+    /**
+     * Restore points of the car, oldest first
+     */
+    async list(carId: string): Promise<RestorePoint[]> {
+        const points = await StorageService.loadRecords<RestorePoint>('restorePoints', carId);
+        return points.sort((a, b) => a.createdAt - b.createdAt);
+    },
+
+    /**
+     * Stores a snapshot as a new restore point. An automatic point with the same data as the latest one is not stored again
+     * @returns The list after saving, or null if it could not be saved
+     */
+    async create(carId: string, snapshot: DataSnapshot, reason: RestorePointReason): Promise<RestorePoint[] | null> {
+        const points = await RestorePointService.list(carId);
+        const point = createRestorePoint(snapshot, reason);
+
+        const latest = points[points.length - 1];
+        if (reason !== 'manual' && latest && sameRestorePointData(latest, point)) return points;
+
+        const next = addRestorePoint(points, point);
+        if (!await StorageService.saveRecords('restorePoints', carId, next)) return null;
+        logger.info(`Restore point created (${reason}, ${point.size} bytes)`);
+        return next;
+    },
+
+    async remove(carId: string, id: string): Promise<RestorePoint[] | null> {
+        const next = (await RestorePointService.list(carId)).filter(p => p.id !== id);
+        return await StorageService.saveRecords('restorePoints', carId, next) ? next : null;
+    }
+};
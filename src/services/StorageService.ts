@@ -1,7 +1,19 @@
 // BYD Stats - Storage Service
 // Abstracting localStorage operations for better testability and maintenance
+// Trips and charges are stored per record (see recordStorage), everything else as localStorage keys
 
 import { logger } from '@core/logger';
+import {
+    RecordBackend,
+    RecordKind,
+    RECORD_KINDS,
+    LEGACY_RECORD_KEYS,
+    StoredRecord,
+    createIndexedDbBackend,
+    createLocalStorageBackend,
+    openRecordDatabase,
+    recordDate
+} from './recordStorage';
 
 export interface StorageResult<T> {
     success: boolean;
@@ -9,6 +21,63 @@ export interface StorageResult<T> {
     error?: string;
 }
 
+let recordBackend: Promise<RecordBackend> | null = null;
+
+// Last saved records per car and kind, by key. Records are immutable state,
+// so a changed reference means a changed record
+const snapshots = new Map<string, Map<string, unknown>>();
+const snapshotId = (kind: RecordKind, carId: string) => `${kind}:${carId}`;
+
+const recordKey = (kind: RecordKind, record: any): string => {
+    if (kind === 'charges' || kind === 'syncBaseCharges') return String(record.id ?? `${record.date}T${record.time}`);
+    if (kind === 'backups') return `${record.source}-${record.version}-${record.createdAt}`;
+    if (kind === 'restorePoints') return record.id;
+    return `${record.date}-${record.start_timestamp}`;
+};
+
+const toStored = <T>(kind: RecordKind, carId: string, record: T): StoredRecord<T> => ({
+    carId,
+    kind,
+    key: recordKey(kind, record),
+    date: recordDate(record as { date?: string }),
+    data: record
+});
+
+const selectRecordBackend = async (): Promise<RecordBackend> => {
+    if (typeof indexedDB === 'undefined') {
+        logger.warn('IndexedDB not available, storing records in localStorage');
+        return createLocalStorageBackend();
+    }
+    try {
+        return createIndexedDbBackend(await openRecordDatabase(indexedDB));
+    } catch (error) {
+        logger.warn('IndexedDB could not be opened, storing records in localStorage:', error);
+        return createLocalStorageBackend();
+    }
+};
+
+/**
+ * Moves a `<prefix>_<carId>` localStorage array into the backend, once
+ */
+const migrateLegacyRecords = async (backend: RecordBackend, kind: RecordKind, carId: string): Promise<void> => {
+    if (backend.name === 'localstorage') return;
+
+    const key = `${LEGACY_RECORD_KEYS[kind]}_${carId}`;
+    const item = localStorage.getItem(key);
+    if (item === null) return;
+
+    try {
+        const parsed = JSON.parse(item);
+        const records: unknown[] = Array.isArray(parsed) ? parsed : [];
+        await backend.write(kind, carId, { put: records.map(r => toStored(kind, carId, r)), remove: [] }, records);
+        localStorage.removeItem(key);
+        logger.info(`Migrated ${records.length} ${kind} of car ${carId} from localStorage`);
+    } catch (error) {
+        // Keep the key: the migration is retried on the next load
+        logger.error(`Error migrating [${key}] from localStorage:`, error);
+    }
+};
+
 export const StorageService = {
     /**
      * Get item from local storage
@@ -73,5 +142,100 @@ export const StorageService = {
         } catch (error) {
             logger.error(`Error clearing storage by prefix [${prefix}]:`, error);
         }
+    },
+
+    /**
+     * Backend for trips and charges: IndexedDB, or localStorage when it is unavailable
+     */
+    getRecordBackend(): Promise<RecordBackend> {
+        if (!recordBackend) recordBackend = selectRecordBackend();
+        return recordBackend;
+    },
+
+    /**
+     * Forces a record backend (tests, or a platform without IndexedDB). null restores auto-detection
+     */
+    setRecordBackend(backend: RecordBackend | null): void {
+        recordBackend = backend ? Promise.resolve(backend) : null;
+        snapshots.clear();
+    },
+
+    /**
+     * Loads all records of a car, migrating its localStorage array on first use
+     */
+    async loadRecords<T>(kind: RecordKind, carId: string): Promise<T[]> {
+        try {
+            const backend = await StorageService.getRecordBackend();
+            await migrateLegacyRecords(backend, kind, carId);
+            const records = await backend.getAll<T>(kind, carId);
+            snapshots.set(snapshotId(kind, carId), new Map(records.map(r => [recordKey(kind, r), r])));
+            return records;
+        } catch (error) {
+            logger.error(`Error loading ${kind} of car ${carId}:`, error);
+            return [];
+        }
+    },
+
+    /**
+     * Records of a car between two dates (YYYYMMDD, inclusive), read through the date index
+     */
+    async loadRecordsByDate<T>(kind: RecordKind, carId: string, from: string, to: string): Promise<T[]> {
+        try {
+            const backend = await StorageService.getRecordBackend();
+            await migrateLegacyRecords(backend, kind, carId);
+            return await backend.getByDate<T>(kind, carId, from, to);
+        } catch (error) {
+            logger.error(`Error loading ${kind} of car ${carId} by date:`, error);
+            return [];
+        }
+    },
+
+    /**
+     * Saves the full list of records; only added, changed and removed records are written
+     */
+    async saveRecords<T>(kind: RecordKind, carId: string, records: T[]): Promise<boolean> {
+        const id = snapshotId(kind, carId);
+        const previous = snapshots.get(id) || new Map<string, unknown>();
+        const next = new Map<string, unknown>();
+        const put: StoredRecord<T>[] = [];
+
+        records.forEach(record => {
+            const stored = toStored(kind, carId, record);
+            next.set(stored.key, record);
+            if (previous.get(stored.key) !== record) put.push(stored);
+        });
+        const remove = [...previous.keys()].filter(key => !next.has(key));
+        snapshots.set(id, next);
+
+        try {
+            const backend = await StorageService.getRecordBackend();
+            await backend.write(kind, carId, { put, remove }, records);
+            return true;
+        } catch (error) {
+            // Diff against the last saved state again, so the next save retries these changes
+            snapshots.set(id, previous);
+            logger.error(`Error saving ${kind} of car ${carId}:`, error);
+            return false;
+        }
+    },
+
+    async clearRecords(kind: RecordKind, carId: string): Promise<boolean> {
+        snapshots.delete(snapshotId(kind, carId));
+        try {
+            const backend = await StorageService.getRecordBackend();
+            await backend.clear(kind, carId);
+            localStorage.removeItem(`${LEGACY_RECORD_KEYS[kind]}_${carId}`);
+            return true;
+        } catch (error) {
+            logger.error(`Error clearing ${kind} of car ${carId}:`, error);
+            return false;
+        }
+    },
+
+    /**
+     * Removes every record kind of a car (trips, history, charges, backups, sync state and restore points)
+     */
+    async clearCarRecords(carId: string): Promise<void> {
+        await Promise.all(RECORD_KINDS.map(kind => StorageService.clearRecords(kind, carId)));
     }
 };
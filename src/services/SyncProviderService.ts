@@ -0,0 +1,78 @@
+// BYD Stats - Sync Provider Service
+// Which backend sync uses and the connection details of each one
+
+import { SYNC_PROVIDER_KEY, WEBDAV_CONFIG_KEY } from '@core/constants';
+import { googleDriveProvider } from './googleDrive';
+import { SyncProvider, SyncProviderId } from './syncProvider';
+import { WebDavConfig, createWebDavProvider } from './webdavProvider';
+import { SyncFolderHandle, createFolderProvider } from './folderProvider';
+import { StorageService } from './StorageService';
+
+const PROVIDER_IDS: SyncProviderId[] = ['google-drive', 'webdav', 'folder'];
+
+// Folder handles cannot go to localStorage, so the folder is picked again each session
+let folder: SyncFolderHandle | null = null;
+let webDav: { config: WebDavConfig; provider: SyncProvider } | null = null;
+
+export const SyncProviderService = {
+    getSelectedId(): SyncProviderId {
+        const id = StorageService.get<SyncProviderId>(SYNC_PROVIDER_KEY, 'google-drive');
+        return PROVIDER_IDS.includes(id) ? id : 'google-drive';
+    },
+
+    select(id: SyncProviderId): boolean {
+        return StorageService.save(SYNC_PROVIDER_KEY, id);
+    },
+
+    /**
+     * Provider ready to use, or null while it is not configured
+     */
+    getProvider(id: SyncProviderId = SyncProviderService.getSelectedId()): SyncProvider | null {
+        if (id === 'google-drive') return googleDriveProvider;
+        if (id === 'folder') return folder ? createFolderProvider(folder) : null;
+
+        const config = SyncProviderService.getWebDavConfig();
+        if (!config) return null;
+        if (!webDav || JSON.stringify(webDav.config) !== JSON.stringify(config)) {
+            webDav = { config, provider: createWebDavProvider(config) };
+        }
+        return webDav.provider;
+    },
+
+    isConnected(id: SyncProviderId = SyncProviderService.getSelectedId()): boolean {
+        return SyncProviderService.getProvider(id)?.isConnected() ?? false;
+    },
+
+    getWebDavConfig(): WebDavConfig | null {
+        return StorageService.get<WebDavConfig | null>(WEBDAV_CONFIG_KEY, null);
+    },
+
+    /**
+     * Kept in localStorage like the Google token; an app password is recommended over the account one
+     */
+    saveWebDavConfig(config: WebDavConfig): boolean {
+        return StorageService.save(WEBDAV_CONFIG_KEY, { ...config, url: config.url.trim() });
+    },
+
+    getFolderName(): string | null {
+        return folder?.name ?? null;
+    },
+
+    setFolder(handle: SyncFolderHandle | null): void {
+        folder = handle;
+    },
+
+    /**
+     * Forgets the credentials of a provider
+     */
+    async disconnect(id: SyncProviderId = SyncProviderService.getSelectedId()): Promise<void> {
+        if (id === 'google-drive') {
+            await googleDriveProvider.disconnect();
+        } else if (id === 'webdav') {
+            StorageService.remove(WEBDAV_CONFIG_KEY);
+            webDav = null;
+        } else {
+            folder = null;
+        }
+    }
+};
@@ -0,0 +1,82 @@
+// BYD Stats - Sync State Service
+// Per-car state kept between syncs: the last synced data (merge ancestor) and deletion tombstones
+
+import { SYNC_BASE_KEY, SYNC_TOMBSTONES_KEY } from '@core/constants';
+import { SyncSnapshot, Tombstone } from '@core/syncMerge';
+import { Charge, Settings, Trip } from '@/types';
+import { StorageService } from './StorageService';
+
+interface SyncBaseMeta {
+    settings: Settings;
+    syncedAt: string; // ISO date
+    location?: string; // SyncProvider.location; missing in bases saved before other providers existed
+}
+
+const DEFAULT_LOCATION = 'google-drive';
+
+const baseKey = (carId: string) => `${SYNC_BASE_KEY}_${carId}`;
+const tombstonesKey = (carId: string) => `${SYNC_TOMBSTONES_KEY}_${carId}`;
+
+export const SyncStateService = {
+    /**
+     * Data as of the last successful sync with this location, or null if the car was never synced there.
+     * A base from another provider would make every record missing there look deleted
+     */
+    async getBase(carId: string, location: string = DEFAULT_LOCATION): Promise<SyncSnapshot | null> {
+        const meta = StorageService.get<SyncBaseMeta | null>(baseKey(carId), null);
+        if (!meta || (meta.location || DEFAULT_LOCATION) !== location) return null;
+
+        const [trips, charges] = await Promise.all([
+            StorageService.loadRecords<Trip>('syncBaseTrips', carId),
+            StorageService.loadRecords<Charge>('syncBaseCharges', carId)
+        ]);
+        return { trips, charges, settings: meta.settings };
+    },
+
+    /**
+     * Stores the data just uploaded as the next merge ancestor
+     */
+    async saveBase(carId: string, snapshot: SyncSnapshot, location: string = DEFAULT_LOCATION): Promise<boolean> {
+        // Without the meta key the base is ignored, so a half-written base never passes for a complete one
+        StorageService.remove(baseKey(carId));
+        // saveRecords only removes records it has loaded, and getBase skips the base of another provider or
+        // an unloaded one after a restart, so the previous base is dropped as a whole
+        await Promise.all([
+            StorageService.clearRecords('syncBaseTrips', carId),
+            StorageService.clearRecords('syncBaseCharges', carId)
+        ]);
+        const saved = await Promise.all([
+            StorageService.saveRecords('syncBaseTrips', carId, snapshot.trips),
+            StorageService.saveRecords('syncBaseCharges', carId, snapshot.charges)
+        ]);
+        if (saved.includes(false)) return false;
+
+        return StorageService.save<SyncBaseMeta>(baseKey(carId), { settings: snapshot.settings, syncedAt: new Date().toISOString(), location });
+    },
+
+    getTombstones(carId: string): Tombstone[] {
+        return StorageService.get<Tombstone[]>(tombstonesKey(carId), []);
+    },
+
+    saveTombstones(carId: string, tombstones: Tombstone[]): boolean {
+        return StorageService.save(tombstonesKey(carId), tombstones);
+    },
+
+    /**
+     * Records local deletions (latest per record) until the next sync shares them
+     */
+    addTombstones(carId: string, tombstones: Tombstone[]): boolean {
+        const byRecord = new Map(SyncStateService.getTombstones(carId).map(t => [`${t.kind}:${t.key}`, t]));
+        tombstones.forEach(t => byRecord.set(`${t.kind}:${t.key}`, t));
+        return SyncStateService.saveTombstones(carId, [...byRecord.values()]);
+    },
+
+    async clear(carId: string): Promise<void> {
+        StorageService.remove(baseKey(carId));
+        StorageService.remove(tombstonesKey(carId));
+        await Promise.all([
+            StorageService.clearRecords('syncBaseTrips', carId),
+            StorageService.clearRecords('syncBaseCharges', carId)
+        ]);
+    }
+};
@@ -0,0 +1,70 @@
+// BYD Stats - Migration Service Tests
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { MigrationService, SCHEMA_BACKUP_LIMIT } from '../MigrationService';
+import { StorageService } from '../StorageService';
+import { DATA_SCHEMA_VERSION, SchemaVersionError } from '@core/schemaMigrations';
+import { Charge, Settings } from '../../types';
+
+const legacyCharge = { id: 'a', date: '2025-01-05', time: '10:00', kwh: 20, totalCost: 3, pricePerKwh: 0.15, chargerTypeId: 'slow' };
+
+describe('MigrationService', () => {
+    beforeEach(() => localStorage.clear());
+    afterEach(() => StorageService.setRecordBackend(null));
+
+    it('should migrate unversioned car data, keeping a backup, and stamp it', async () => {
+        localStorage.setItem('byd_charges_data_car1', JSON.stringify([legacyCharge]));
+        localStorage.setItem('byd_settings_car1', JSON.stringify({ carModel: 'Seal' }));
+
+        expect(MigrationService.needsMigration('car1')).toBe(true);
+        expect(await MigrationService.migrateCar('car1')).toEqual([2]);
+
+        const [charge] = await StorageService.loadRecords<Charge>('charges', 'car1');
+        expect(charge.kwhCharged).toBe(20);
+        expect('kwh' in charge).toBe(false);
+        expect(MigrationService.getVersion('car1')).toBe(DATA_SCHEMA_VERSION);
+
+        const [backup] = await MigrationService.getBackups('car1');
+        expect(backup).toMatchObject({ version: 1, source: 'local' });
+        expect(backup.data.charges).toEqual([legacyCharge]);
+
+        // Settings were not changed by any step, so they are left as stored
+        expect(localStorage.getItem('byd_settings_car1')).toBe(JSON.stringify({ carModel: 'Seal' }));
+        expect(await MigrationService.migrateCar('car1')).toEqual([]);
+    });
+
+    it('should refuse cars stamped by a newer version without touching them', async () => {
+        localStorage.setItem('byd_charges_data_car1', JSON.stringify([legacyCharge]));
+        MigrationService.stampVersion('car1', DATA_SCHEMA_VERSION + 1);
+
+        await expect(MigrationService.migrateCar('car1')).rejects.toBeInstanceOf(SchemaVersionError);
+        expect(JSON.parse(localStorage.getItem('byd_charges_data_car1')!)).toEqual([legacyCharge]);
+    });
+
+    it('should migrate downloaded sync data and stamp the result', async () => {
+        const remote = { trips: [], settings: {} as Settings, charges: [legacyCharge as Charge] };
+
+        const migrated = await MigrationService.migrateSyncData(remote, 'car1');
+        expect(migrated.schemaVersion).toBe(DATA_SCHEMA_VERSION);
+        expect(migrated.charges[0].kwhCharged).toBe(20);
+
+        const [backup] = await MigrationService.getBackups('car1');
+        expect(backup).toMatchObject({ version: 1, source: 'sync' });
+
+        await expect(MigrationService.migrateSyncData({ ...remote, schemaVersion: DATA_SCHEMA_VERSION + 1 }, 'car1'))
+            .rejects.toThrow('versión más reciente');
+    });
+
+    it('should keep only the newest backups of a car', async () => {
+        const remote = { trips: [], settings: {} as Settings, charges: [legacyCharge as Charge] };
+        let now = 1735725600000;
+        const clock = vi.spyOn(Date, 'now').mockImplementation(() => now += 1000);
+        for (let i = 0; i <= SCHEMA_BACKUP_LIMIT; i++) {
+            await MigrationService.migrateSyncData({ ...remote, charges: [{ ...legacyCharge, id: `c${i}` } as Charge] }, 'car1');
+        }
+
+        const backups = await MigrationService.getBackups('car1');
+        expect(backups).toHaveLength(SCHEMA_BACKUP_LIMIT);
+        expect(backups.map(b => b.data.charges[0].id)).not.toContain('c0');
+        clock.mockRestore();
+    });
+});
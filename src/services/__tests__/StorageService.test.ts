@@ -0,0 +1,128 @@
+// BYD Stats - StorageService Record Tests
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { StorageService } from '../StorageService';
+import { RecordBackend, RecordChanges, RecordKind, StoredRecord } from '../recordStorage';
+import { Charge, Trip } from '../../types';
+
+/**
+ * In-memory stand-in for the IndexedDB backend (jsdom has no IndexedDB)
+ */
+const createMemoryBackend = () => {
+    const records = new Map<string, Map<string, StoredRecord>>();
+    const bucket = (kind: RecordKind, carId: string) => {
+        const id = `${carId}|${kind}`;
+        if (!records.has(id)) records.set(id, new Map());
+        return records.get(id)!;
+    };
+    const sorted = (kind: RecordKind, carId: string) =>
+        [...bucket(kind, carId).values()].sort((a, b) => a.date.localeCompare(b.date));
+
+    const backend: RecordBackend = {
+        name: 'indexeddb',
+        getAll: async <T>(kind: RecordKind, carId: string) => sorted(kind, carId).map(r => r.data as T),
+        getByDate: async <T>(kind: RecordKind, carId: string, from: string, to: string) =>
+            sorted(kind, carId).filter(r => r.date >= from && r.date <= to).map(r => r.data as T),
+        write: vi.fn(async <T>(kind: RecordKind, carId: string, changes: RecordChanges<T>) => {
+            changes.put.forEach(r => bucket(kind, carId).set(r.key, r as StoredRecord));
+            changes.remove.forEach(key => bucket(kind, carId).delete(key));
+        }),
+        clear: async (kind, carId) => { bucket(kind, carId).clear(); }
+    };
+    return { backend, bucket };
+};
+
+const trip = (date: string, start: number, km = 10): Trip =>
+    ({ date, month: date.slice(0, 6), start_timestamp: start, end_timestamp: start + 60, duration: 60, trip: km, electricity: 1 });
+
+describe('StorageService records', () => {
+    beforeEach(() => localStorage.clear());
+    afterEach(() => StorageService.setRecordBackend(null));
+
+    describe('localStorage fallback', () => {
+        it('should be used when IndexedDB is missing', async () => {
+            const backend = await StorageService.getRecordBackend();
+            expect(backend.name).toBe('localstorage');
+        });
+
+        it('should keep the legacy key layout', async () => {
+            const trips = [trip('20250101', 100), trip('20250102', 200)];
+            expect(await StorageService.saveRecords('trips', 'car1', trips)).toBe(true);
+
+            expect(JSON.parse(localStorage.getItem('byd_stats_data_car1')!)).toEqual(trips);
+            expect(await StorageService.loadRecords('trips', 'car1')).toEqual(trips);
+        });
+
+        it('should filter by date, including charge dates with dashes', async () => {
+            const charges = [
+                { id: 'a', date: '2025-01-05', time: '10:00' },
+                { id: 'b', date: '2025-02-05', time: '10:00' }
+            ] as Charge[];
+            await StorageService.saveRecords('charges', 'car1', charges);
+
+            const january = await StorageService.loadRecordsByDate<Charge>('charges', 'car1', '20250101', '20250131');
+            expect(january.map(c => c.id)).toEqual(['a']);
+        });
+    });
+
+    describe('indexed backend', () => {
+        it('should migrate the localStorage arrays once', async () => {
+            const { backend, bucket } = createMemoryBackend();
+            StorageService.setRecordBackend(backend);
+            const legacy = [trip('20250102', 200), trip('20250101', 100)];
+            localStorage.setItem('byd_stats_data_car1', JSON.stringify(legacy));
+            localStorage.setItem('byd_charges_data_car2', JSON.stringify([{ id: 'x', date: '2025-01-01', time: '08:00' }]));
+
+            const loaded = await StorageService.loadRecords<Trip>('trips', 'car1');
+
+            expect(loaded.map(t => t.start_timestamp)).toEqual([100, 200]);
+            expect(localStorage.getItem('byd_stats_data_car1')).toBeNull();
+            expect([...bucket('trips', 'car1').keys()].sort()).toEqual(['20250101-100', '20250102-200']);
+            // Other cars and kinds are migrated when they are loaded
+            expect(localStorage.getItem('byd_charges_data_car2')).not.toBeNull();
+        });
+
+        it('should only write added, changed and removed records', async () => {
+            const { backend } = createMemoryBackend();
+            StorageService.setRecordBackend(backend);
+            const initial = [trip('20250101', 100), trip('20250102', 200), trip('20250103', 300)];
+            await StorageService.saveRecords('trips', 'car1', initial);
+            const loaded = await StorageService.loadRecords<Trip>('trips', 'car1');
+            vi.mocked(backend.write).mockClear();
+
+            const edited = [loaded[0], { ...loaded[1], trip: 99 }, trip('20250104', 400)];
+            await StorageService.saveRecords('trips', 'car1', edited);
+
+            const [, , changes] = vi.mocked(backend.write).mock.calls[0];
+            expect(changes.put.map(r => r.key)).toEqual(['20250102-200', '20250104-400']);
+            expect(changes.remove).toEqual(['20250103-300']);
+            expect(await StorageService.loadRecords('trips', 'car1')).toEqual(edited);
+        });
+
+        it('should retry failed changes on the next save', async () => {
+            const { backend } = createMemoryBackend();
+            StorageService.setRecordBackend(backend);
+            await StorageService.loadRecords('charges', 'car1');
+
+            const charges = [{ id: 'a', date: '2025-01-05', time: '10:00' }] as Charge[];
+            vi.mocked(backend.write).mockRejectedValueOnce(new Error('QuotaExceededError'));
+            expect(await StorageService.saveRecords('charges', 'car1', charges)).toBe(false);
+
+            expect(await StorageService.saveRecords('charges', 'car1', charges)).toBe(true);
+            expect(await StorageService.loadRecords('charges', 'car1')).toEqual(charges);
+        });
+
+        it('should clear every kind of a car', async () => {
+            const { backend } = createMemoryBackend();
+            StorageService.setRecordBackend(backend);
+            await StorageService.saveRecords('trips', 'car1', [trip('20250101', 100)]);
+            await StorageService.saveRecords('tripHistory', 'car1', [trip('20250101', 100)]);
+            await StorageService.saveRecords('trips', 'car2', [trip('20250101', 100)]);
+
+            await StorageService.clearCarRecords('car1');
+
+            expect(await StorageService.loadRecords('trips', 'car1')).toEqual([]);
+            expect(await StorageService.loadRecords('tripHistory', 'car1')).toEqual([]);
+            expect(await StorageService.loadRecords('trips', 'car2')).toHaveLength(1);
+        });
+    });
+});
@@ -0,0 +1,284 @@
+// BYD Stats - Sync Provider Tests
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, IncomingMessage } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { WebDavError, createWebDavProvider } from '../webdavProvider';
+import { SyncFolderHandle, createFolderProvider } from '../folderProvider';
+import { SyncStateService } from '../SyncStateService';
+import { StorageService } from '../StorageService';
+import { BackupEncryptionService } from '../BackupEncryptionService';
+import { BackupPassphraseError } from '@core/backupCrypto';
+import { RecordBackend, RecordKind, StoredRecord } from '../recordStorage';
+import { Settings, Trip } from '../../types';
+
+const USER = 'ana';
+const PASSWORD = 'contraseña-app';
+const FOLDER = '/remote.php/dav/files/ana/BYDStats/';
+
+const readBody = (req: IncomingMessage): Promise<string> => new Promise(resolve => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => resolve(body));
+});
+
+/**
+ * In-memory stand-in for a Nextcloud WebDAV folder: Basic auth, PROPFIND depth 1, GET, PUT, DELETE and MKCOL
+ */
+const startWebDavStandIn = async () => {
+    const files = new Map<string, { body: string; modified: Date }>();
+    let folderExists = false;
+    const expectedAuth = 'Basic ' + Buffer.from(`${USER}:${PASSWORD}`).toString('base64');
+
+    const server = createServer(async (req, res) => {
+        const body = await readBody(req);
+        if (req.headers.authorization !== expectedAuth) {
+            res.writeHead(401).end();
+            return;
+        }
+
+        const path = new URL(req.url || '/', 'http://localhost').pathname;
+        const isFolder = path === FOLDER || `${path}/` === FOLDER;
+        const name = decodeURIComponent(path.slice(FOLDER.length));
+
+        if (req.method === 'MKCOL') {
+            res.writeHead(folderExists ? 405 : 201).end();
+            folderExists = true;
+        } else if (req.method === 'PROPFIND' && isFolder) {
+            if (!folderExists) {
+                res.writeHead(404).end();
+                return;
+            }
+            const entries = [...files].map(([fileName, file]) => `<d:response>
+                <d:href>${FOLDER}${encodeURIComponent(fileName)}</d:href>
+                <d:propstat><d:prop>
+                    <d:getlastmodified>${file.modified.toUTCString()}</d:getlastmodified>
+                    <d:getcontentlength>${Buffer.byteLength(file.body)}</d:getcontentlength>
+                    <d:resourcetype/>
+                </d:prop></d:propstat>
+            </d:response>`);
+            res.writeHead(207, { 'Content-Type': 'application/xml; charset=utf-8' }).end(`<?xml version="1.0"?>
+                <d:multistatus xmlns:d="DAV:">
+                    <d:response><d:href>${FOLDER}</d:href><d:propstat><d:prop><d:resourcetype><d:collection/></d:resourcetype></d:prop></d:propstat></d:response>
+                    ${entries.join('')}
+                </d:multistatus>`);
+        } else if (req.method === 'PUT') {
+            if (!folderExists) {
+                res.writeHead(409).end();
+                return;
+            }
+            files.set(name, { body, modified: new Date() });
+            res.writeHead(201).end();
+        } else if (req.method === 'GET' || req.method === 'DELETE') {
+            const file = files.get(name);
+            if (!file) {
+                res.writeHead(404).end();
+            } else if (req.method === 'GET') {
+                res.writeHead(200, { 'Content-Type': 'application/json' }).end(file.body);
+            } else {
+                files.delete(name);
+                res.writeHead(204).end();
+            }
+        } else {
+            res.writeHead(405).end();
+        }
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    return {
+        url: `http://127.0.0.1:${port}${FOLDER.slice(0, -1)}`,
+        files,
+        close: () => new Promise<void>(resolve => server.close(() => resolve()))
+    };
+};
+
+/**
+ * In-memory directory with the FileSystemDirectoryHandle methods the folder provider uses
+ */
+const createMemoryFolder = (): SyncFolderHandle & { files: Map<string, string> } => {
+    const files = new Map<string, string>();
+    const fileHandle = (name: string) => ({
+        kind: 'file' as const,
+        name,
+        getFile: async () => ({ size: files.get(name)!.length, lastModified: Date.now(), text: async () => files.get(name)! }),
+        createWritable: async () => {
+            let content = '';
+            return { write: async (data: string) => { content = data; }, close: async () => { files.set(name, content); } };
+        }
+    }) as unknown as FileSystemFileHandle;
+
+    return {
+        name: 'BYDStats',
+        files,
+        getFileHandle: async (name, options) => {
+            if (!files.has(name)) {
+                if (!options?.create) throw new DOMException('Not found', 'NotFoundError');
+                files.set(name, '');
+            }
+            return fileHandle(name);
+        },
+        removeEntry: async (name) => { files.delete(name); },
+        values: async function* () {
+            for (const name of files.keys()) yield fileHandle(name);
+        }
+    };
+};
+
+const syncData = (trips: number) => ({
+    trips: Array.from({ length: trips }, (_, i) => ({ date: `2025010${i + 1}`, start_timestamp: i })),
+    settings: { carModel: 'Seal' },
+    charges: [],
+    schemaVersion: 2
+});
+
+describe('sync providers', () => {
+    describe('WebDAV', () => {
+        let server: Awaited<ReturnType<typeof startWebDavStandIn>>;
+
+        beforeAll(async () => { server = await startWebDavStandIn(); });
+        afterAll(() => server.close());
+        beforeEach(() => server.files.clear());
+
+        it('should create the folder on the first upload and round-trip data files', async () => {
+            const provider = createWebDavProvider({ url: server.url, username: USER, password: PASSWORD });
+
+            expect(await provider.listAllDatabaseFiles()).toEqual([]);
+
+            const uploaded = await provider.uploadFile(syncData(2), null, 'byd_stats_data_car1.json');
+            await provider.uploadFile(syncData(1), null, 'notas.txt');
+
+            const files = await provider.listAllDatabaseFiles();
+            expect(files.map(f => f.name)).toEqual(['byd_stats_data_car1.json']);
+            expect(files[0].id).toBe(uploaded.id);
+            expect(Number(files[0].size)).toBeGreaterThan(0);
+
+            const downloaded = await provider.downloadFile(uploaded.id);
+            expect(downloaded.trips).toHaveLength(2);
+            expect(downloaded).toMatchObject({ settings: { carModel: 'Seal' }, schemaVersion: 2, tombstones: [] });
+
+            // Uploading to the existing id replaces the file
+            await provider.uploadFile(syncData(3), uploaded.id);
+            expect((await provider.downloadFile(uploaded.id)).trips).toHaveLength(3);
+
+            expect(await provider.deleteFile(uploaded.id)).toBe(true);
+            expect(await provider.listFiles('byd_stats_data_car1.json')).toEqual([]);
+        });
+
+        it('should keep the car registry next to the data files', async () => {
+            const provider = createWebDavProvider({ url: `${server.url}/`, username: USER, password: PASSWORD });
+
+            expect(await provider.getRegistry()).toBeNull();
+            const registry = { lastUpdated: '2025-01-01T00:00:00.000Z', cars: [{ id: 'car1', name: 'Seal', type: 'ev' as const, isHybrid: false }] };
+            await provider.updateRegistry(registry);
+
+            expect(await provider.getRegistry()).toEqual(registry);
+            expect(await provider.listAllDatabaseFiles()).toEqual([]);
+        });
+
+        it('should encrypt data files and the registry, and rotate the passphrase', async () => {
+            localStorage.clear();
+            const provider = createWebDavProvider({ url: server.url, username: USER, password: PASSWORD });
+            await provider.uploadFile(syncData(1), null, 'byd_stats_data_car1.json');
+            await provider.updateRegistry({ lastUpdated: '2025-01-01T00:00:00.000Z', cars: [] });
+
+            expect(await BackupEncryptionService.changePassphrase(provider, 'primera clave')).toBe(1);
+            for (const file of server.files.values()) {
+                expect(JSON.parse(file.body).format).toBe('byd-stats-aes-gcm');
+                expect(file.body).not.toContain('Seal');
+            }
+            expect((await provider.downloadFile('byd_stats_data_car1.json')).settings).toEqual({ carModel: 'Seal' });
+
+            await BackupEncryptionService.changePassphrase(provider, 'segunda clave');
+
+            // Another device with the old passphrase can no longer open anything
+            BackupEncryptionService.setPassphrase('primera clave');
+            await expect(provider.downloadFile('byd_stats_data_car1.json')).rejects.toMatchObject({ problem: 'wrong' });
+            await expect(provider.getRegistry()).rejects.toBeInstanceOf(BackupPassphraseError);
+            await expect(BackupEncryptionService.unlock(provider, 'otra')).rejects.toBeInstanceOf(BackupPassphraseError);
+
+            await BackupEncryptionService.unlock(provider, 'segunda clave');
+            expect(await provider.getRegistry()).toEqual({ lastUpdated: '2025-01-01T00:00:00.000Z', cars: [] });
+
+            // Disabling writes plain files again
+            await BackupEncryptionService.changePassphrase(provider, null);
+            expect(BackupEncryptionService.isEnabled()).toBe(false);
+            expect(JSON.parse(server.files.get('byd_stats_data_car1.json')!.body).trips).toHaveLength(1);
+        });
+
+        it('should report rejected credentials with their status', async () => {
+            const provider = createWebDavProvider({ url: server.url, username: USER, password: 'otra' });
+
+            const error = await provider.listAllDatabaseFiles().catch(e => e);
+            expect(error).toBeInstanceOf(WebDavError);
+            expect(error.status).toBe(401);
+        });
+    });
+
+    describe('folder', () => {
+        it('should store data files and the registry in the picked folder', async () => {
+            const folder = createMemoryFolder();
+            const provider = createFolderProvider(folder);
+
+            const uploaded = await provider.uploadFile(syncData(1), null, 'byd_stats_data_car1.json');
+            await provider.updateRegistry({ lastUpdated: '2025-01-01T00:00:00.000Z', cars: [] });
+
+            expect([...folder.files.keys()].sort()).toEqual(['byd_stats_data_car1.json', 'byd_stats_registry.json']);
+            expect((await provider.listAllDatabaseFiles()).map(f => f.id)).toEqual([uploaded.id]);
+            expect((await provider.downloadFile(uploaded.id)).trips).toHaveLength(1);
+            expect(await provider.getRegistry()).toEqual({ lastUpdated: '2025-01-01T00:00:00.000Z', cars: [] });
+
+            await provider.deleteFile(uploaded.id);
+            expect(await provider.listFiles('byd_stats_data_car1.json')).toEqual([]);
+        });
+    });
+
+    describe('sync base', () => {
+        beforeEach(() => localStorage.clear());
+
+        it('should not use the base of another provider as merge ancestor', async () => {
+            const snapshot = { trips: [], charges: [], settings: { carModel: 'Seal' } as Settings };
+            await SyncStateService.saveBase('car1', snapshot, 'webdav:https://cloud.example.com/');
+
+            expect(await SyncStateService.getBase('car1', 'webdav:https://cloud.example.com/')).toMatchObject({ settings: { carModel: 'Seal' } });
+            expect(await SyncStateService.getBase('car1', 'folder:BYDStats')).toBeNull();
+            // Bases saved before providers existed belong to Google Drive
+            expect(await SyncStateService.getBase('car1')).toBeNull();
+
+            StorageService.save('byd_sync_base_car1', { settings: snapshot.settings, syncedAt: '2025-01-01T00:00:00.000Z' });
+            expect(await SyncStateService.getBase('car1', 'google-drive')).not.toBeNull();
+        });
+
+        it('should replace the records of the previous base after a provider switch', async () => {
+            // Writes only the changes, as IndexedDB does
+            const stored = new Map<string, StoredRecord>();
+            const backend: RecordBackend = {
+                name: 'indexeddb',
+                getAll: async <T>(kind: RecordKind, carId: string) =>
+                    [...stored.values()].filter(r => r.kind === kind && r.carId === carId).map(r => r.data as T),
+                getByDate: async () => [],
+                write: async (kind, carId, changes) => {
+                    changes.put.forEach(r => stored.set(`${carId}|${kind}|${r.key}`, r as StoredRecord));
+                    changes.remove.forEach(key => stored.delete(`${carId}|${kind}|${key}`));
+                },
+                clear: async (kind, carId) => {
+                    [...stored.keys()].filter(key => key.startsWith(`${carId}|${kind}|`)).forEach(key => stored.delete(key));
+                }
+            };
+            const trip = (start: number) => ({ date: '20250101', month: '202501', start_timestamp: start, trip: 10, electricity: 1 }) as Trip;
+            const settings = { carModel: 'Seal' } as Settings;
+
+            try {
+                StorageService.setRecordBackend(backend);
+                await SyncStateService.saveBase('car1', { trips: [trip(100), trip(200)], charges: [], settings }, 'google-drive');
+                // Restart: the new provider's base was never loaded
+                StorageService.setRecordBackend(backend);
+                await SyncStateService.saveBase('car1', { trips: [trip(300)], charges: [], settings }, 'folder:BYDStats');
+
+                const base = await SyncStateService.getBase('car1', 'folder:BYDStats');
+                expect(base?.trips.map(t => t.start_timestamp)).toEqual([300]);
+            } finally {
+                StorageService.setRecordBackend(null);
+            }
+        });
+    });
+});
@@ -0,0 +1,65 @@
+// BYD Stats - Folder Sync Provider
+// A local or network folder picked through the File System Access API (Chromium browsers).
+// Pointing it at a folder synced by another tool (Syncthing, Nextcloud client...) shares the data
+
+import { SyncFile, SyncProvider, createFileSyncProvider } from './syncProvider';
+
+/**
+ * The parts of FileSystemDirectoryHandle used here (async iteration is missing from the DOM lib)
+ */
+export interface SyncFolderHandle {
+    name: string;
+    getFileHandle: (name: string, options?: { create?: boolean }) => Promise<FileSystemFileHandle>;
+    removeEntry: (name: string) => Promise<void>;
+    values: () => AsyncIterable<FileSystemHandle>;
+}
+
+export const isFolderSyncSupported = (): boolean => typeof window !== 'undefined' && 'showDirectoryPicker' in window;
+
+/**
+ * Asks the user for a folder with read/write access
+ */
+export const pickSyncFolder = async (): Promise<SyncFolderHandle> => {
+    const picker = (window as any).showDirectoryPicker;
+    if (!picker) throw new Error('Este navegador no permite elegir carpetas');
+    return picker({ id: 'byd-stats-sync', mode: 'readwrite' });
+};
+
+export const createFolderProvider = (folder: SyncFolderHandle): SyncProvider => {
+    return createFileSyncProvider('folder', {
+        list: async () => {
+            const files: SyncFile[] = [];
+            for await (const entry of folder.values()) {
+                if (entry.kind !== 'file') continue;
+                const file = await (entry as FileSystemFileHandle).getFile();
+                files.push({
+                    id: entry.name,
+                    name: entry.name,
+                    modifiedTime: new Date(file.lastModified).toISOString(),
+                    size: String(file.size)
+                });
+            }
+            return files;
+        },
+
+        read: async (fileId) => {
+            const file = await (await folder.getFileHandle(fileId)).getFile();
+            return JSON.parse(await file.text());
+        },
+
+        write: async (filename, content) => {
+            const handle = await folder.getFileHandle(filename, { create: true });
+            const writable = await handle.createWritable();
+            await writable.write(content);
+            await writable.close();
+            return { id: filename, name: filename, modifiedTime: new Date().toISOString(), size: String(content.length) };
+        },
+
+        remove: async (fileId) => {
+            await folder.removeEntry(fileId);
+        }
+    }, {
+        location: `folder:${folder.name}`,
+        isConnected: () => true
+    });
+};
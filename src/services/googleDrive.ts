@@ -1,24 +1,24 @@
 import { logger } from '@core/logger';
-import { Trip, Charge, Settings, ChargerType, Car } from '@/types';
+import { Trip, Charge, Settings, Car } from '@/types';
+import { mergeSettings, Tombstone } from '@core/syncMerge';
+import { BackupPassphraseError } from '@core/backupCrypto';
+import { DB_FILENAME, REGISTRY_FILENAME, SyncFile, SyncProvider, normalizeSyncData } from './syncProvider';
+import { BackupEncryptionService } from './BackupEncryptionService';
 
 const DRIVER_API_URL = "https://www.googleapis.com/drive/v3";
 const UPLOAD_API_URL = "https://www.googleapis.com/upload/drive/v3";
-const DB_FILENAME = 'byd_stats_data.json';
 const FOLDER_ID = 'appDataFolder';
 
 let accessToken: string | null = null;
 
-export interface GoogleDriveFile {
-    id: string;
-    name: string;
-    modifiedTime?: string;
-    size?: string;
-}
+export type GoogleDriveFile = SyncFile;
 
 export interface SyncData {
     trips: Trip[];
     settings: Settings;
     charges: Charge[];
+    schemaVersion?: number; // Missing in files written before versioning (see MigrationService)
+    tombstones?: Tombstone[]; // Deleted trips and charges (see core/syncMerge)
 }
 
 export interface RegistryData {
@@ -131,22 +131,7 @@ export const googleDriveService = {
                 throw new Error(`Error downloading file: ${response.status} ${response.statusText}`);
             }
 
-            const result = await response.json();
-
-            // Normalize to { trips: [], settings: {}, charges: [] }
-            if (Array.isArray(result)) {
-                return { trips: result, settings: {} as Settings, charges: [] };
-            }
-
-            if (result && typeof result === 'object') {
-                return {
-                    trips: Array.isArray(result.trips) ? result.trips : [],
-                    settings: result.settings || {} as Settings,
-                    charges: Array.isArray(result.charges) ? result.charges : []
-                };
-            }
-
-            return { trips: [], settings: {} as Settings, charges: [] };
+            return normalizeSyncData(await BackupEncryptionService.decode(await response.json()));
         } catch (error) {
             logger.error('Error downloading file', error);
             throw error;
@@ -158,7 +143,7 @@ export const googleDriveService = {
      */
     uploadFile: async (data: any, existingFileId: string | null = null, filename: string = DB_FILENAME): Promise<any> => {
         try {
-            const fileContent = JSON.stringify(data);
+            const fileContent = await BackupEncryptionService.encode(data);
             let fileId = existingFileId;
 
             // Step 1: If no existing file, create metadata first
@@ -229,14 +214,14 @@ export const googleDriveService = {
      */
     getRegistry: async (): Promise<RegistryData | null> => {
         try {
-            const files = await googleDriveService.listFiles('byd_stats_registry.json');
+            const files = await googleDriveService.listFiles(REGISTRY_FILENAME);
             if (files && files.length > 0) {
                 // We use downloadFile but check if it matches RegistryData structure
                 // But downloadFile returns SyncData... allow loose typing here or distinct method
                 const url = `${DRIVER_API_URL}/files/${files[0].id}?alt=media`;
                 const response = await fetch(url, { headers: googleDriveService._getHeaders() });
                 if (!response.ok) throw new Error('Failed to DL registry');
-                const fileContent = await response.json();
+                const fileContent = await BackupEncryptionService.decode(await response.json()) as any;
 
                 return {
                     lastUpdated: fileContent.lastUpdated,
@@ -245,6 +230,8 @@ export const googleDriveService = {
             }
             return null;
         } catch (e) {
+            // A registry that cannot be opened must not look missing, or it would be rebuilt over
+            if (e instanceof BackupPassphraseError) throw e;
             logger.error('Error getting registry', e);
             return null;
         }
@@ -255,9 +242,9 @@ export const googleDriveService = {
      */
     updateRegistry: async (registryData: RegistryData): Promise<void> => {
         try {
-            const files = await googleDriveService.listFiles('byd_stats_registry.json');
+            const files = await googleDriveService.listFiles(REGISTRY_FILENAME);
             const fileId = files && files.length > 0 ? files[0].id : null;
-            await googleDriveService.uploadFile(registryData, fileId, 'byd_stats_registry.json');
+            await googleDriveService.uploadFile(registryData, fileId, REGISTRY_FILENAME);
         } catch (e) {
             logger.error('Error updating registry', e);
             throw e;
@@ -265,7 +252,8 @@ export const googleDriveService = {
     },
 
     /**
-     * Merge logic:
+     * Two-way merge (union, local wins), for files without a common sync ancestor.
+     * Regular syncs use the three-way merge in core/syncMerge
      * Returns merged { trips, settings, charges }
      */
     mergeData: (localData: SyncData, remoteData: SyncData): SyncData => {
@@ -285,70 +273,7 @@ export const googleDriveService = {
         const mergedTrips = Array.from(tripMap.values()).sort((a, b) => (a.date || '').localeCompare(b.date || ''));
 
         // 2. Merge Settings
-        const localSettings = localData.settings || {} as Settings;
-        const remoteSettings = remoteData.settings || {} as Settings;
-
-        // Helper: Is a value a "default" or "empty" value?
-        const isDefault = (key: string, val: any): boolean => {
-            if (val === undefined || val === null) return true;
-            // Empty string is only default for specific fields, otherwise it might be user intent
-            if (val === '' && (key === 'mfgDate' || key === 'mfgDateDisplay')) return true;
-
-            if (key === 'odometerOffset' && val === 0) return true;
-            if (key === 'soh' && val === 100) return true;
-            if (key === 'batterySize' && val === 60.48) return true;
-            // offPeakEnabled: false is a valid value, NOT a default that should be overwritten by true
-            if (key === 'offPeakEnabled' && val === false) return false;
-
-            return false;
-        };
-
-        // Merge other settings (non-default wins, then local wins)
-        const mergedSettings: any = { ...remoteSettings, ...localSettings };
-
-        // Explicit merging logic
-        const allKeys = new Set([...Object.keys(localSettings), ...Object.keys(remoteSettings)]);
-
-        allKeys.forEach(key => {
-            if (key === 'chargerTypes' || key === 'hiddenTabs') return;
-
-            const localVal = (localSettings as any)[key];
-            const remoteVal = (remoteSettings as any)[key]; // Corrected access
-
-            if (isDefault(key, localVal) && !isDefault(key, remoteVal)) {
-                mergedSettings[key] = remoteVal;
-            } else if (!isDefault(key, localVal)) {
-                mergedSettings[key] = localVal;
-            }
-        });
-
-        // Special handling for chargerTypes array
-        const localChargerTypes = localSettings.chargerTypes || [];
-        const remoteChargerTypes = remoteSettings.chargerTypes || [];
-
-        const DEFAULT_IDS = ['domestic', 'slow', 'fast', 'ultrafast'];
-        const chargerTypeMap = new Map<string, ChargerType>();
-
-        // Fill with remote first
-        remoteChargerTypes.forEach(ct => chargerTypeMap.set(ct.id, ct));
-        // Overwrite with local
-        localChargerTypes.forEach(ct => chargerTypeMap.set(ct.id, ct));
-
-        // Cleanup deleted defaults
-        if (localChargerTypes.length > 0) {
-            DEFAULT_IDS.forEach(id => {
-                const inLocal = localChargerTypes.some(ct => ct.id === id);
-                const inRemote = remoteChargerTypes.some(ct => ct.id === id);
-                if (inRemote && !inLocal) {
-                    chargerTypeMap.delete(id);
-                }
-            });
-        }
-
-        const mergedChargerTypes = Array.from(chargerTypeMap.values());
-        if (mergedChargerTypes.length > 0) {
-            mergedSettings.chargerTypes = mergedChargerTypes;
-        }
+        const mergedSettings = mergeSettings(localData.settings, remoteData.settings);
 
         // 3. Merge Charges
         const localCharges = (localData && Array.isArray(localData.charges)) ? localData.charges : [];
@@ -372,8 +297,25 @@ export const googleDriveService = {
 
         return {
             trips: mergedTrips,
-            settings: mergedSettings as Settings,
+            settings: mergedSettings,
             charges: mergedCharges
         };
     }
 };
+
+/**
+ * Drive as a sync provider; files live in the hidden appDataFolder
+ */
+export const googleDriveProvider: SyncProvider = {
+    id: 'google-drive',
+    location: 'google-drive',
+    isConnected: googleDriveService.isSignedIn,
+    listFiles: (filename) => googleDriveService.listFiles(filename),
+    listAllDatabaseFiles: googleDriveService.listAllDatabaseFiles,
+    downloadFile: googleDriveService.downloadFile,
+    uploadFile: (data, fileId = null, filename) => googleDriveService.uploadFile(data, fileId, filename),
+    deleteFile: googleDriveService.deleteFile,
+    getRegistry: googleDriveService.getRegistry,
+    updateRegistry: googleDriveService.updateRegistry,
+    disconnect: googleDriveService.signOut
+};
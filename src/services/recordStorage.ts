@@ -0,0 +1,153 @@
+// BYD Stats - Record Storage Backends
+// Per-record persistence for trips and charges: IndexedDB, with a localStorage fallback
+
+import { STORAGE_KEY, TRIP_HISTORY_KEY, CHARGES_STORAGE_KEY, SCHEMA_BACKUPS_KEY, SYNC_BASE_KEY, RESTORE_POINTS_KEY } from '@core/constants';
+
+export type RecordKind = 'trips' | 'tripHistory' | 'charges' | 'backups' | 'syncBaseTrips' | 'syncBaseCharges' | 'restorePoints';
+
+export const RECORD_KINDS: RecordKind[] = ['trips', 'tripHistory', 'charges', 'backups', 'syncBaseTrips', 'syncBaseCharges', 'restorePoints'];
+
+/**
+ * localStorage key prefix of each kind (`<prefix>_<carId>`), used before IndexedDB and by the fallback
+ */
+export const LEGACY_RECORD_KEYS: Record<RecordKind, string> = {
+    trips: STORAGE_KEY,
+    tripHistory: TRIP_HISTORY_KEY,
+    charges: CHARGES_STORAGE_KEY,
+    backups: SCHEMA_BACKUPS_KEY, // Pre-migration snapshots (see MigrationService)
+    syncBaseTrips: `${SYNC_BASE_KEY}_trips`, // Trips and charges as of the last sync (see SyncStateService)
+    syncBaseCharges: `${SYNC_BASE_KEY}_charges`,
+    restorePoints: RESTORE_POINTS_KEY // Snapshots to roll back to (see RestorePointService)
+};
+
+/**
+ * A record as stored: indexed by car, kind and date (YYYYMMDD)
+ */
+export interface StoredRecord<T = unknown> {
+    carId: string;
+    kind: RecordKind;
+    key: string;
+    date: string;
+    data: T;
+}
+
+export interface RecordChanges<T = unknown> {
+    put: StoredRecord<T>[];
+    remove: string[]; // Record keys
+}
+
+export interface RecordBackend {
+    readonly name: 'indexeddb' | 'localstorage';
+    /** All records of a car, ordered by date */
+    getAll<T>(kind: RecordKind, carId: string): Promise<T[]>;
+    /** Records with from <= date <= to (YYYYMMDD, inclusive) */
+    getByDate<T>(kind: RecordKind, carId: string, from: string, to: string): Promise<T[]>;
+    /**
+     * Applies the changes. `all` is the full list after the changes,
+     * for backends that can only store whole arrays
+     */
+    write<T>(kind: RecordKind, carId: string, changes: RecordChanges<T>, all: T[]): Promise<void>;
+    clear(kind: RecordKind, carId: string): Promise<void>;
+}
+
+const legacyKey = (kind: RecordKind, carId: string) => `${LEGACY_RECORD_KEYS[kind]}_${carId}`;
+
+/**
+ * Date of a trip (YYYYMMDD) or charge (YYYY-MM-DD) as index value
+ */
+export const recordDate = (record: { date?: string }): string => (record.date || '').replace(/-/g, '');
+
+/**
+ * Fallback: one JSON array per car and kind, under the keys the app always used
+ */
+export const createLocalStorageBackend = (): RecordBackend => {
+    const read = <T>(kind: RecordKind, carId: string): T[] => {
+        const item = localStorage.getItem(legacyKey(kind, carId));
+        if (!item) return [];
+        const parsed = JSON.parse(item);
+        return Array.isArray(parsed) ? parsed : [];
+    };
+
+    return {
+        name: 'localstorage',
+        getAll: async (kind, carId) => read(kind, carId),
+        getByDate: async <T>(kind: RecordKind, carId: string, from: string, to: string) =>
+            read<T>(kind, carId).filter(r => {
+                const date = recordDate(r as { date?: string });
+                return date >= from && date <= to;
+            }),
+        write: async (kind, carId, _changes, all) => {
+            localStorage.setItem(legacyKey(kind, carId), JSON.stringify(all));
+        },
+        clear: async (kind, carId) => {
+            localStorage.removeItem(legacyKey(kind, carId));
+        }
+    };
+};
+
+const DB_NAME = 'byd_stats';
+const DB_VERSION = 1;
+const STORE = 'records';
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Transacción cancelada'));
+});
+
+/**
+ * Opens (and creates on first use) the records database
+ * Object store keyed by [carId, kind, key], with indexes per car and per car + date
+ */
+export const openRecordDatabase = (factory: IDBFactory): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+    const request = factory.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE)) {
+            const store = db.createObjectStore(STORE, { keyPath: ['carId', 'kind', 'key'] });
+            store.createIndex('byCar', ['carId', 'kind']);
+            store.createIndex('byCarDate', ['carId', 'kind', 'date']);
+        }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('Base de datos bloqueada por otra pestaña'));
+});
+
+export const createIndexedDbBackend = (db: IDBDatabase): RecordBackend => {
+    const byDate = async <T>(kind: RecordKind, carId: string, from: string, to: string): Promise<T[]> => {
+        const tx = db.transaction(STORE, 'readonly');
+        const range = IDBKeyRange.bound([carId, kind, from], [carId, kind, to]);
+        const rows = await promisify(tx.objectStore(STORE).index('byCarDate').getAll(range)) as StoredRecord<T>[];
+        return rows.map(r => r.data);
+    };
+
+    return {
+        name: 'indexeddb',
+        // '\uffff' sorts after any date, so this is the whole car
+        getAll: (kind, carId) => byDate(kind, carId, '', '\uffff'),
+        getByDate: byDate,
+        write: async (kind, carId, changes) => {
+            if (changes.put.length === 0 && changes.remove.length === 0) return;
+
+            const tx = db.transaction(STORE, 'readwrite');
+            const store = tx.objectStore(STORE);
+            changes.put.forEach(record => store.put(record));
+            changes.remove.forEach(key => store.delete([carId, kind, key]));
+            await transactionDone(tx);
+        },
+        clear: async (kind, carId) => {
+            const tx = db.transaction(STORE, 'readwrite');
+            const index = tx.objectStore(STORE).index('byCar');
+            const keys = await promisify(index.getAllKeys(IDBKeyRange.only([carId, kind])));
+            const store = tx.objectStore(STORE);
+            keys.forEach(key => store.delete(key));
+            await transactionDone(tx);
+        }
+    };
+};
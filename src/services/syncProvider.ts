@@ -0,0 +1,136 @@
+// BYD Stats - Sync Provider
+// Storage backend used by sync: Google Drive, WebDAV/Nextcloud or a local folder
+
+import { logger } from '@core/logger';
+import { BackupPassphraseError } from '@core/backupCrypto';
+import { Settings } from '@/types';
+import type { RegistryData, SyncData } from './googleDrive';
+import { BackupEncryptionService } from './BackupEncryptionService';
+
+export const DB_FILENAME = 'byd_stats_data.json';
+export const REGISTRY_FILENAME = 'byd_stats_registry.json';
+
+export type SyncProviderId = 'google-drive' | 'webdav' | 'folder';
+
+export interface SyncFile {
+    id: string;
+    name: string;
+    modifiedTime?: string; // ISO date
+    size?: string; // Bytes
+}
+
+export interface SyncProvider {
+    id: SyncProviderId;
+    /** Where the files live; the sync base of one location is no ancestor for another */
+    location: string;
+    isConnected: () => boolean;
+    /** Files with exactly this name */
+    listFiles: (filename?: string) => Promise<SyncFile[]>;
+    /** Every car data file (byd_stats_data*.json), newest first */
+    listAllDatabaseFiles: () => Promise<SyncFile[]>;
+    downloadFile: (fileId: string) => Promise<SyncData>;
+    /** Creates the file when fileId is null */
+    uploadFile: (data: unknown, fileId?: string | null, filename?: string) => Promise<SyncFile>;
+    deleteFile: (fileId: string) => Promise<boolean>;
+    getRegistry: () => Promise<RegistryData | null>;
+    updateRegistry: (registry: RegistryData) => Promise<void>;
+    disconnect: () => Promise<void>;
+}
+
+/**
+ * Minimal file operations of a backend addressed by file name
+ */
+export interface SyncFileStore {
+    list: () => Promise<SyncFile[]>;
+    read: (fileId: string) => Promise<unknown>;
+    write: (filename: string, content: string) => Promise<SyncFile>;
+    remove: (fileId: string) => Promise<void>;
+}
+
+/**
+ * Normalizes downloaded content to { trips, settings, charges }.
+ * Very old files hold just the trips array
+ */
+export const normalizeSyncData = (result: any): SyncData => {
+    if (Array.isArray(result)) {
+        return { trips: result, settings: {} as Settings, charges: [] };
+    }
+
+    if (result && typeof result === 'object') {
+        return {
+            trips: Array.isArray(result.trips) ? result.trips : [],
+            settings: result.settings || {} as Settings,
+            charges: Array.isArray(result.charges) ? result.charges : [],
+            schemaVersion: result.schemaVersion,
+            tombstones: Array.isArray(result.tombstones) ? result.tombstones : []
+        };
+    }
+
+    return { trips: [], settings: {} as Settings, charges: [] };
+};
+
+export const isDatabaseFile = (name: string): boolean => name.startsWith('byd_stats_data') && name.endsWith('.json');
+
+const byNewest = (a: SyncFile, b: SyncFile) => (b.modifiedTime || '').localeCompare(a.modifiedTime || '');
+
+/**
+ * Builds a provider on top of a name-addressed file store (WebDAV, local folder).
+ * File ids are the file names, so uploading to a new file of an existing name overwrites it
+ */
+export const createFileSyncProvider = (
+    id: SyncProviderId,
+    store: SyncFileStore,
+    options: { location: string; isConnected: () => boolean }
+): SyncProvider => {
+    const provider: SyncProvider = {
+        id,
+        location: options.location,
+        isConnected: options.isConnected,
+
+        listFiles: async (filename = DB_FILENAME) => {
+            const files = await store.list();
+            return files.filter(f => f.name === filename);
+        },
+
+        listAllDatabaseFiles: async () => {
+            const files = await store.list();
+            return files.filter(f => isDatabaseFile(f.name)).sort(byNewest);
+        },
+
+        downloadFile: async (fileId) => normalizeSyncData(await BackupEncryptionService.decode(await store.read(fileId))),
+
+        uploadFile: async (data, fileId = null, filename = DB_FILENAME) => {
+            return store.write(fileId || filename, await BackupEncryptionService.encode(data));
+        },
+
+        deleteFile: async (fileId) => {
+            await store.remove(fileId);
+            return true;
+        },
+
+        getRegistry: async () => {
+            try {
+                const [file] = await provider.listFiles(REGISTRY_FILENAME);
+                if (!file) return null;
+
+                const content = await BackupEncryptionService.decode(await store.read(file.id)) as Partial<RegistryData> | null;
+                return {
+                    lastUpdated: content?.lastUpdated || '',
+                    cars: Array.isArray(content?.cars) ? content.cars : []
+                };
+            } catch (e) {
+                if (e instanceof BackupPassphraseError) throw e;
+                logger.error(`[${id}] Error getting registry`, e);
+                return null;
+            }
+        },
+
+        updateRegistry: async (registry) => {
+            await store.write(REGISTRY_FILENAME, await BackupEncryptionService.encode(registry));
+        },
+
+        // Credentials are kept by SyncProviderService
+        disconnect: async () => { }
+    };
+    return provider;
+};
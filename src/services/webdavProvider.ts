@@ -0,0 +1,115 @@
+// BYD Stats - WebDAV Sync Provider
+// Nextcloud, ownCloud or any WebDAV server; the data files live in one folder
+
+import { SyncFile, SyncProvider, createFileSyncProvider } from './syncProvider';
+
+export interface WebDavConfig {
+    url: string; // Folder URL, e.g. https://cloud.example.com/remote.php/dav/files/<user>/BYDStats
+    username: string;
+    password: string;
+}
+
+export class WebDavError extends Error {
+    constructor(public status: number, message: string) {
+        super(message);
+        this.name = 'WebDavError';
+    }
+}
+
+const PROPFIND_BODY = '<?xml version="1.0" encoding="utf-8"?>'
+    + '<d:propfind xmlns:d="DAV:"><d:prop><d:getlastmodified/><d:getcontentlength/><d:resourcetype/></d:prop></d:propfind>';
+
+const basicAuth = (username: string, password: string): string => {
+    const bytes = new TextEncoder().encode(`${username}:${password}`);
+    return 'Basic ' + btoa(String.fromCharCode(...bytes));
+};
+
+const folderUrl = (url: string) => url.endsWith('/') ? url : `${url}/`;
+
+/**
+ * Files directly inside the folder from a PROPFIND multistatus response
+ */
+export const parseMultistatus = (xml: string): SyncFile[] => {
+    const doc = new DOMParser().parseFromString(xml, 'application/xml');
+    const files: SyncFile[] = [];
+
+    Array.from(doc.getElementsByTagNameNS('DAV:', 'response')).forEach(response => {
+        const href = response.getElementsByTagNameNS('DAV:', 'href')[0]?.textContent || '';
+        const isFolder = response.getElementsByTagNameNS('DAV:', 'collection').length > 0;
+        if (isFolder || !href) return;
+
+        const name = decodeURIComponent(href.replace(/\/$/, '').split('/').pop() || '');
+        const modified = response.getElementsByTagNameNS('DAV:', 'getlastmodified')[0]?.textContent;
+        const size = response.getElementsByTagNameNS('DAV:', 'getcontentlength')[0]?.textContent;
+        const time = modified ? new Date(modified) : null;
+
+        files.push({
+            id: name,
+            name,
+            modifiedTime: time && !isNaN(time.getTime()) ? time.toISOString() : undefined,
+            size: size || undefined
+        });
+    });
+    return files;
+};
+
+export const createWebDavProvider = (config: WebDavConfig): SyncProvider => {
+    const base = folderUrl(config.url);
+    const auth = basicAuth(config.username, config.password);
+
+    const request = (method: string, name: string, init: { headers?: Record<string, string>; body?: string } = {}) =>
+        fetch(base + encodeURIComponent(name), {
+            method,
+            headers: { Authorization: auth, ...init.headers },
+            body: init.body
+        });
+
+    const fail = (method: string, response: Response): never => {
+        throw new WebDavError(response.status, `Error WebDAV (${method}): ${response.status} ${response.statusText}`);
+    };
+
+    return createFileSyncProvider('webdav', {
+        list: async () => {
+            const response = await request('PROPFIND', '', {
+                headers: { Depth: '1', 'Content-Type': 'application/xml; charset=utf-8' },
+                body: PROPFIND_BODY
+            });
+            // The folder is created on the first upload
+            if (response.status === 404) return [];
+            if (!response.ok) fail('PROPFIND', response);
+            return parseMultistatus(await response.text());
+        },
+
+        read: async (fileId) => {
+            const response = await request('GET', fileId);
+            if (!response.ok) fail('GET', response);
+            return response.json();
+        },
+
+        write: async (filename, content) => {
+            const put = () => request('PUT', filename, {
+                headers: { 'Content-Type': 'application/json' },
+                body: content
+            });
+
+            let response = await put();
+            // Missing folder: 409 per RFC 4918, some servers answer 404
+            if (response.status === 409 || response.status === 404) {
+                const mkcol = await request('MKCOL', '');
+                if (!mkcol.ok && mkcol.status !== 405) fail('MKCOL', mkcol);
+                response = await put();
+            }
+            if (!response.ok) fail('PUT', response);
+
+            return { id: filename, name: filename, modifiedTime: new Date().toISOString(), size: String(content.length) };
+        },
+
+        remove: async (fileId) => {
+            const response = await request('DELETE', fileId);
+            if (!response.ok && response.status !== 404) fail('DELETE', response);
+        }
+    }, {
+        location: `webdav:${base}`,
+        isConnected: () => true
+    });
+};
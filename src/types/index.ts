@@ -1,4 +1,6 @@
 export interface Trip {
+    _id?: number; // Row id in the BYD EnergyConsumption table
+    is_deleted?: number; // BYD soft-delete flag (0/1)
     date: string; // YYYYMMDD
     trip: number; // Distance in km
     electricity: number; // kWh
@@ -16,6 +18,22 @@ export interface Trip {
     regeneration?: number;
     id?: string;
     startTime?: string;
+    updatedAt?: number; // Last local edit (ms), used by the sync merge
+    tags?: string[]; // TripTag ids; [] once cleared by hand, undefined until tagged (auto rules only fill these)
+    source?: 'manual'; // Added by hand, not read from the car
+    editedFields?: string[]; // Trip fields changed by hand; re-imports keep their values
+    segments?: Trip[]; // Stored trips a journey combines (core/journeys); only set on journeys
+    energySources?: EnergySource[]; // Charges whose energy the trip used (FIFO price strategy)
+}
+
+/**
+ * Energy of one charge drawn by a trip. Without a chargeId it is energy no logged charge explains
+ */
+export interface EnergySource {
+    chargeId?: string;
+    date?: string; // Date of the charge
+    kwh: number;
+    price: number; // €/kWh
 }
 
 export interface Charge {
@@ -38,6 +56,8 @@ export interface Charge {
     pricePerLiter?: number;
     isSOCEstimated?: boolean;
     location?: string;
+    costSource?: 'entered' | 'tariff'; // Tariff costs follow tariff changes; unset on older charges
+    updatedAt?: number; // Last local edit (ms), used by the sync merge
 }
 
 export interface Car {
@@ -52,6 +72,8 @@ export interface Car {
     fileId?: string;
 }
 
+export type TripUnit = 'trip' | 'journey';
+
 export interface Settings {
     // Car specific
     carModel?: string;
@@ -59,6 +81,8 @@ export interface Settings {
     insurancePolicy?: string;
 
     // Battery & Calculations
+    vehicleModelId?: string; // Entry of VEHICLE_MODELS (chemistry, WLTP consumption)
+    tankLiters?: number; // Fuel tank of a PHEV
     batterySize: string | number;
     soh: string | number;
     mfgDate?: string;
@@ -69,7 +93,7 @@ export interface Settings {
     // Prices & Strategies
     chargerTypes?: ChargerType[];
     thermalStressFactor?: number;
-    electricStrategy?: 'custom' | 'average' | 'dynamic';
+    electricStrategy?: 'custom' | 'average' | 'dynamic' | 'fifo';
     fuelStrategy?: 'custom' | 'average' | 'dynamic';
     electricPrice?: string | number;
     fuelPrice?: string | number;
@@ -87,9 +111,35 @@ export interface Settings {
     offPeakEndWeekend?: string; // HH:MM
     offPeakPrice?: number; // Price per kWh
 
+    // Time-of-use tariffs (an active one replaces the single off-peak window above)
+    tariffs?: Tariff[];
+    activeTariffId?: string;
+
     // AI / Smart Charging Preferences (HITL)
     smartChargingPreferences?: ChargingPreference[];
 
+    // Trip tags and the rules that tag imported trips
+    tripTags?: TripTag[];
+    tripTagRules?: TripTagRule[];
+
+    // Business mileage reimbursement (€/km)
+    mileageRate?: number;
+
+    // Count and list trips as stored, or as journeys of segments split by short stops
+    tripUnit?: TripUnit;
+    journeyGapMinutes?: number;
+
+    // Recurring routes the user named (core/recurringRoutes)
+    namedRoutes?: NamedRoute[];
+    hemisphere?: Hemisphere; // Seasons of the route stats
+
+    // Local notification for new critical anomalies
+    anomalyNotifications?: boolean;
+
+    // Health check tuning by rule id, and the user's own checks
+    anomalyRules?: Record<string, AnomalyRuleSettings>;
+    customAnomalyRules?: CustomAnomalyRule[];
+
     // UI
     theme?: 'auto' | 'dark' | 'light' | 'system';
     hiddenTabs?: string[];
@@ -103,6 +153,89 @@ export interface ChargingPreference {
     active: boolean; // Is this override enabled?
 }
 
+export interface TripTag {
+    id: string;
+    name: string;
+    color: string;
+    nameKey?: string; // i18n key of a built-in tag, dropped once renamed
+}
+
+/**
+ * Tags trips by start weekday/time window and distance. Missing bounds are open
+ */
+export interface TripTagRule {
+    id: string;
+    tagId: string;
+    days: number[]; // 0 = Sunday ... 6 = Saturday
+    start?: string; // HH:MM; a window with start > end crosses midnight
+    end?: string; // HH:MM
+    minKm?: number;
+    maxKm?: number;
+}
+
+/**
+ * What the trips of a recurring route have in common: when they start and how long they are
+ */
+export type Hemisphere = 'north' | 'south';
+
+export interface RouteSignature {
+    weekday: number; // 0 = Sunday, as Date.getDay
+    startMinute: number; // Minutes after midnight
+    km: number;
+    minutes: number; // Driving time
+}
+
+export interface NamedRoute extends RouteSignature {
+    id: string;
+    name: string;
+}
+
+export interface RoutePeriodStats {
+    period: string; // YYYYMM, or the season ('winter', 'spring', 'summer', 'autumn')
+    trips: number;
+    km: number;
+    kwh: number;
+    cost: number;
+    efficiency: number; // kWh / 100 km
+}
+
+export interface RouteSummary extends Omit<RoutePeriodStats, 'period'> {
+    id: string;
+    name?: string; // Set once the user names the route
+    signature: RouteSignature; // Typical trip of the route
+    monthly: RoutePeriodStats[]; // Oldest first
+    seasons: RoutePeriodStats[]; // Winter to autumn, seasons without trips left out
+}
+
+export interface TariffPeriod {
+    id: string; // 'P1', 'P2'...
+    name: string;
+}
+
+export interface TariffScheduleRule {
+    days: number[]; // 0 = Sunday ... 6 = Saturday
+    start: string; // HH:MM
+    end: string; // HH:MM, '24:00' for midnight; rules do not cross midnight
+    periodId: string;
+}
+
+export interface TariffPriceVersion {
+    validFrom: string; // YYYY-MM-DD
+    prices: Record<string, number>; // Price per kWh by period id
+}
+
+export interface Tariff {
+    id: string;
+    name: string;
+    periods: TariffPeriod[];
+    defaultPeriodId: string; // Hours no rule covers
+    schedule: TariffScheduleRule[];
+    holidayCalendar?: string; // HOLIDAY_CALENDARS id
+    holidays?: string[]; // Extra YYYY-MM-DD dates
+    holidayPeriodId?: string; // Whole day on holidays
+    priceVersions: TariffPriceVersion[];
+}
+
 export interface ChargerType {
     id: string;
     name: string;
@@ -201,4 +334,69 @@ export interface ProcessedData {
         fuel: Trip[];
     };
     isHybrid: boolean;
+    tagBreakdown: TagSummary[];
+    routes: RouteSummary[];
+}
+
+export interface TagSummary {
+    tagId: string; // UNTAGGED_TAG_ID for trips without tags
+    trips: number;
+    km: number;
+    kwh: number;
+    fuel: number;
+    cost: number;
+    efficiency: number; // kWh / 100 km
+}
+
+export type AnomalySeverity = 'info' | 'warning' | 'critical';
+
+// Level a check reports, mapped to a severity by the rule settings
+export type AnomalyTier = 'minor' | 'major';
+
+export interface Anomaly {
+    id: string;
+    type: 'battery' | 'drain' | 'charging' | 'efficiency';
+    severity: AnomalySeverity;
+    title: string; // i18n key
+    description: string; // i18n key
+    params?: Record<string, string | number>; // Interpolation values for title and description
+    value?: string;
+    timestamp?: number;
+}
+
+/**
+ * User overrides of a built-in health check; missing fields keep the rule defaults
+ */
+export interface AnomalyRuleSettings {
+    enabled?: boolean;
+    thresholds?: Record<string, number>;
+    severity?: Partial<Record<AnomalyTier, AnomalySeverity>>;
+}
+
+/**
+ * User-defined check on the latest trips or charges
+ */
+export interface CustomAnomalyRule {
+    id: string;
+    name: string;
+    metric: 'tripEfficiency' | 'chargePrice'; // kWh/100km, price per kWh
+    operator: 'above' | 'below';
+    threshold: number;
+    severity: AnomalySeverity;
+    enabled: boolean;
+}
+
+export type AnomalyStatus = 'active' | 'acknowledged' | 'snoozed' | 'resolved';
+
+/**
+ * An anomaly as kept in the per-car log across health checks
+ */
+export interface AnomalyLogEntry extends Anomaly {
+    status: AnomalyStatus;
+    firstSeen: number; // ms
+    lastSeen: number; // ms, last health check that detected it
+    snoozedUntil?: number; // ms
+    resolvedAt?: number; // ms
+    hidden?: boolean; // Deleted from the history; kept so it is not raised again
+    notifiedAt?: number; // ms
 }
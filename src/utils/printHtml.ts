@@ -0,0 +1,20 @@
+/**
+ * Prints a standalone HTML page through a hidden frame so the app page is left as it is
+ */
+export const printHtml = (html: string): void => {
+    const frame = document.createElement('iframe');
+    frame.style.position = 'fixed';
+    frame.style.width = '0';
+    frame.style.height = '0';
+    frame.style.border = '0';
+    document.body.appendChild(frame);
+
+    const win = frame.contentWindow;
+    if (!win) return;
+    win.document.open();
+    win.document.write(html);
+    win.document.close();
+    win.focus();
+    win.print();
+    setTimeout(() => frame.remove(), 1000);
+};
@@ -44,3 +44,44 @@ export const parseChargeCsvLine = (values: string[]) => {
         // isSOCEstimated will be calculated in importer
     };
 };
+
+/**
+ * Schema for a trip produced by any import adapter
+ * Electricity can be negative on downhill trips (net regeneration)
+ */
+export const TripRowSchema = z.object({
+    date: z.string().regex(/^\d{8}$/, "Invalid date format (YYYYMMDD)"),
+    start_timestamp: z.number().int().positive("Start timestamp is required"),
+    end_timestamp: z.number().min(0).nullish(),
+    duration: z.number().min(0, "Duration cannot be negative"),
+    trip: z.number().min(0, "Distance cannot be negative"),
+    electricity: z.number().finite("Energy must be a number"),
+    fuel: z.number().min(0, "Fuel cannot be negative").nullish(),
+});
+
+/**
+ * Schema for a trip added or edited by hand: the import row plus the fields the editor can set
+ */
+export const TripEditSchema = TripRowSchema.extend({
+    end_timestamp: z.number().int().positive("End timestamp is required"),
+    start_soc: z.number().min(0).max(100, "SoC must be between 0 and 100").nullish(),
+    end_soc: z.number().min(0).max(100, "SoC must be between 0 and 100").nullish(),
+    regeneration: z.number().min(0, "Regeneration cannot be negative").nullish(),
+}).refine(trip => trip.end_timestamp >= trip.start_timestamp, {
+    message: "The trip cannot end before it starts",
+    path: ['end_timestamp'],
+});
+
+/**
+ * Envelope of the JSON export (core/dataExport); rows are validated one by one on import
+ */
+export const ExportDocumentSchema = z.object({
+    format: z.literal('byd-stats-export'),
+    version: z.number().int().positive(),
+    exportedAt: z.string(),
+    range: z.object({ from: z.string().optional(), to: z.string().optional() }).optional(),
+    trips: z.array(z.record(z.string(), z.unknown())).optional(),
+    charges: z.array(z.record(z.string(), z.unknown())).optional(),
+    chargerTypes: z.array(z.record(z.string(), z.unknown())).optional(),
+    tripTags: z.array(z.record(z.string(), z.unknown())).optional(),
+});
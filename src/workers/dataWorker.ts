@@ -9,8 +9,9 @@ const api = {
     processData,
 
     // AI Methods
-    trainModel: (trips: any[]) => predictiveService.train(trips),
+    trainModel: (trips: any[], wltpKwh100?: number) => predictiveService.train(trips, wltpKwh100),
     getRangeScenarios: (batteryCapacity: number, soh: number) => predictiveService.getScenarios(batteryCapacity, soh),
+    predictEfficiency: (speed: number, distance: number) => predictiveService.predict(speed, distance),
 
     // AI SoH Methods
     trainSoH: (charges: any[], capacity: number) => predictiveService.trainSoH(charges, capacity),